@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleCarSessionsRequest } from '@/lib/api/car-sessions-handler';
+
+/**
+ * Detected car charging sessions of a site with monthly summaries.
+ */
+export async function GET(request: NextRequest) {
+  return handleCarSessionsRequest(request);
+}
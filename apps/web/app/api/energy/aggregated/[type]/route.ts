@@ -4,7 +4,7 @@ import { handleAggregatedEnergyRequest } from '@/lib/api/aggregated-energy-handl
 /**
  * Dynamic route handler for aggregated energy data by type.
  * Handles requests to /api/energy/aggregated/[type]
- * where type must be 'grid', 'car', or 'solar'
+ * where type must be 'grid', 'car', 'solar', 'battery', or 'home'
  */
 export async function GET(
   request: NextRequest,
@@ -13,9 +13,9 @@ export async function GET(
   const { type } = await params;
 
   // Validate type parameter
-  if (type !== 'grid' && type !== 'car' && type !== 'solar') {
+  if (type !== 'grid' && type !== 'car' && type !== 'solar' && type !== 'battery' && type !== 'home') {
     return NextResponse.json(
-      { error: `Invalid energy type: ${type}. Must be 'grid', 'car', or 'solar'` },
+      { error: `Invalid energy type: ${type}. Must be 'grid', 'car', 'solar', 'battery', or 'home'` },
       { status: 400 }
     );
   }
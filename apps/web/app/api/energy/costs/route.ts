@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleEnergyCostsRequest } from '@/lib/api/energy-costs-handler';
+
+/**
+ * Energy and cost per data point of the timeframe, priced per minute (dynamic tariffs use the spot prices).
+ */
+export async function GET(request: NextRequest) {
+  return handleEnergyCostsRequest(request);
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleEnergyFlowsRequest } from '@/lib/api/energy-flows-handler';
+
+/**
+ * Energy flows between channels (e.g. solar to home, grid to battery) over the timeframe.
+ */
+export async function GET(request: NextRequest) {
+  return handleEnergyFlowsRequest(request);
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceContainer } from '@/lib/services/service-container';
+import { getSiteIdParam } from '@/lib/site';
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,6 +15,7 @@ export async function GET(request: NextRequest) {
     const toParam = searchParams.get('to');
     const from = fromParam ? parseInt(fromParam, 10) : undefined;
     const to = toParam ? parseInt(toParam, 10) : undefined;
+    const siteId = getSiteIdParam(searchParams);
 
     // Validate parameters
     if (isNaN(limit) || limit < 1 || limit > 1000) {
@@ -37,9 +39,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
     // Query database via service layer
     const { energyService } = createServiceContainer();
-    const readings = await energyService.getReadings(limit, offset, from, to);
+    const readings = await energyService.getReadings(limit, offset, from, to, siteId);
 
     return NextResponse.json({
       data: readings,
@@ -1,10 +1,19 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServiceContainer } from '@/lib/services/service-container';
+import { getSiteIdParam } from '@/lib/site';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const siteId = getSiteIdParam(request.nextUrl.searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
     const { energySettingsService } = createServiceContainer();
-    const allSettings = await energySettingsService.getAllSettings();
+    const allSettings = await energySettingsService.getAllSettings(siteId);
     
     return NextResponse.json({
       settings: allSettings,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceContainer } from '@/lib/services/service-container';
+import { getSiteIdParam } from '@/lib/site';
+import { validateDynamicTariff, validateTariff, validateTariffCharges } from '@/lib/tariffs';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,12 +18,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const siteId = getSiteIdParam(searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
     const { energySettingsService } = createServiceContainer();
-    const settings = await energySettingsService.getActiveSettings(timestamp);
+    const settings = await energySettingsService.getActiveSettings(timestamp, siteId);
     
     if (!settings) {
       return NextResponse.json(
-        { producing_price: 0, consuming_periods: [] },
+        { producing_price: 0, consuming_periods: [], holidays: [], tariff_type: 'fixed' },
         { status: 200 }
       );
     }
@@ -29,6 +39,14 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       producing_price: settings.producing_price,
       consuming_periods: settings.consuming_periods || [],
+      holidays: settings.holidays || [],
+      tariff_type: settings.tariff_type ?? 'fixed',
+      spot_markup: settings.spot_markup ?? 0,
+      grid_fee: settings.grid_fee ?? 0,
+      consumption_levy: settings.consumption_levy ?? 0,
+      base_fee: settings.base_fee ?? 0,
+      meter_fee: settings.meter_fee ?? 0,
+      vat_rate: settings.vat_rate ?? 0,
       start_date: settings.start_date,
       end_date: settings.end_date,
     });
@@ -45,7 +63,19 @@ export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
     console.log('PUT request body:', body);
-    const { producing_price, consuming_periods, start_date } = body;
+    const {
+      producing_price,
+      consuming_periods,
+      start_date,
+      holidays = [],
+      tariff_type = 'fixed',
+      spot_markup = 0,
+      grid_fee = 0,
+      consumption_levy = 0,
+      base_fee = 0,
+      meter_fee = 0,
+      vat_rate = 0,
+    } = body;
 
     // Validate producing_price
     if (
@@ -91,20 +121,58 @@ export async function PUT(request: NextRequest) {
         );
       }
 
-      if (period.start_time < 0 || period.start_time > 1439 ||
-          period.end_time < 0 || period.end_time > 1439) {
+      if (
+        (period.days_of_week !== undefined && typeof period.days_of_week !== 'number') ||
+        (period.season_start != null && typeof period.season_start !== 'number') ||
+        (period.season_end != null && typeof period.season_end !== 'number')
+      ) {
         return NextResponse.json(
-          { error: 'Time values must be between 0 and 1439 (minutes since midnight)' },
+          { error: 'Invalid period: days_of_week, season_start and season_end must be numbers' },
           { status: 400 }
         );
       }
+    }
 
-      if (period.price < 0) {
-        return NextResponse.json(
-          { error: 'Prices must be non-negative' },
-          { status: 400 }
-        );
-      }
+    if (!Array.isArray(holidays)) {
+      return NextResponse.json(
+        { error: 'Invalid input: holidays must be an array of dates' },
+        { status: 400 }
+      );
+    }
+
+    // Validate time ranges, prices, days, seasons and holidays
+    const tariffError = validateTariff(consuming_periods, holidays);
+    if (tariffError) {
+      return NextResponse.json(
+        { error: tariffError },
+        { status: 400 }
+      );
+    }
+
+    // Validate the price components of dynamic tariffs
+    if (tariff_type !== 'fixed' && tariff_type !== 'dynamic') {
+      return NextResponse.json(
+        { error: "Invalid tariff_type: must be 'fixed' or 'dynamic'" },
+        { status: 400 }
+      );
+    }
+    const dynamicTariff = tariff_type === 'dynamic' ? { spot_markup, grid_fee } : null;
+    const dynamicTariffError = dynamicTariff ? validateDynamicTariff(dynamicTariff) : null;
+    if (dynamicTariffError) {
+      return NextResponse.json(
+        { error: dynamicTariffError },
+        { status: 400 }
+      );
+    }
+
+    // Validate fixed fees, levies and VAT
+    const charges = { base_fee, meter_fee, consumption_levy, vat_rate };
+    const chargesError = validateTariffCharges(charges);
+    if (chargesError) {
+      return NextResponse.json(
+        { error: chargesError },
+        { status: 400 }
+      );
     }
 
     // Validate start_date if provided
@@ -119,14 +187,52 @@ export async function PUT(request: NextRequest) {
       effectiveStartDate = start_date;
     }
 
-    console.log('Calling updateSettings with:', { producing_price, consuming_periods, start_date: effectiveStartDate });
-    const { energySettingsService } = createServiceContainer();
-    const settings = await energySettingsService.updateSettings(producing_price, consuming_periods, effectiveStartDate);
+    const siteId = getSiteIdParam(request.nextUrl.searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const { energySettingsService, siteRepository, cache } = createServiceContainer();
+    if (!(await siteRepository.getSite(siteId))) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    console.log('Calling updateSettings with:', {
+      producing_price, consuming_periods, holidays, dynamicTariff, charges, start_date: effectiveStartDate, siteId,
+    });
+    const settings = await energySettingsService.updateSettings(
+      producing_price,
+      consuming_periods,
+      effectiveStartDate,
+      siteId,
+      holidays,
+      dynamicTariff,
+      charges
+    );
     console.log('Settings updated successfully:', settings);
 
+    // Cached costs were priced with the previous settings history
+    if (cache) {
+      await cache.invalidatePattern(`energy:aggregated:${siteId}:costs:*`);
+    }
+
     return NextResponse.json({
       producing_price: settings.producing_price,
       consuming_periods: settings.consuming_periods || [],
+      holidays: settings.holidays || [],
+      tariff_type: settings.tariff_type ?? 'fixed',
+      spot_markup: settings.spot_markup ?? 0,
+      grid_fee: settings.grid_fee ?? 0,
+      consumption_levy: settings.consumption_levy ?? 0,
+      base_fee: settings.base_fee ?? 0,
+      meter_fee: settings.meter_fee ?? 0,
+      vat_rate: settings.vat_rate ?? 0,
       start_date: settings.start_date,
       end_date: settings.end_date,
       updated_at: settings.updated_at,
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { handleSpotPriceImportRequest, handleSpotPricesRequest } from '@/lib/api/spot-prices-handler';
+
+/**
+ * Spot prices of the site overlapping the timeframe.
+ */
+export async function GET(request: NextRequest) {
+  return handleSpotPricesRequest(request);
+}
+
+/**
+ * Imports a day-ahead price file (aWATTar/Tibber JSON or CSV) sent as request body.
+ */
+export async function POST(request: NextRequest) {
+  return handleSpotPriceImportRequest(request);
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleEnergySummaryRequest } from '@/lib/api/energy-summary-handler';
+
+/**
+ * Self-sufficiency KPIs (autarky, self-consumption, solar use) per data point and for the timeframe.
+ */
+export async function GET(request: NextRequest) {
+  return handleEnergySummaryRequest(request);
+}
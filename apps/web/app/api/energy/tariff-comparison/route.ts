@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleTariffComparisonRequest } from '@/lib/api/tariff-comparison-handler';
+
+/**
+ * Costs of the site's actual consumption under candidate tariffs, per month and in total.
+ */
+export async function POST(request: NextRequest) {
+  return handleTariffComparisonRequest(request);
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { handleReaggregateRequest } from '@/lib/api/jobs-handler';
+
+/**
+ * Re-aggregates the minute buckets of a site within a time range.
+ * Requires `Authorization: Bearer <JOBS_API_TOKEN>`.
+ */
+export async function POST(request: NextRequest) {
+  return handleReaggregateRequest(request);
+}
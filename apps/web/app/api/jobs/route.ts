@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { handleJobsRequest } from '@/lib/api/jobs-handler';
+
+/**
+ * Lists the aggregation job runs, the aggregation cursor of every site and the job lock.
+ */
+export async function GET(request: NextRequest) {
+  return handleJobsRequest(request);
+}
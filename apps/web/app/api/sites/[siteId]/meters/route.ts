@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+
+/**
+ * Creates a new meter for a site. Expects a JSON body `{ name: string }`.
+ * The returned meter id is what a worker feeding this meter uses as `METER_ID`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ siteId: string }> }
+) {
+  try {
+    const { siteId: siteIdParam } = await params;
+    const siteId = Number(siteIdParam);
+
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid site id. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (name.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid input: name must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const { siteRepository } = createServiceContainer();
+    if (!(await siteRepository.getSite(siteId))) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const meter = await siteRepository.createMeter(siteId, name);
+
+    return NextResponse.json(meter, { status: 201 });
+  } catch (error) {
+    console.error('Error creating meter:', error);
+    return NextResponse.json(
+      { error: 'Failed to create meter' },
+      { status: 500 }
+    );
+  }
+}
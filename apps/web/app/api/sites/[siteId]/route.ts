@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { isValidTimeZone } from '@/lib/timezone';
+import type { SiteUpdate } from '@/types/site';
+
+/**
+ * Updates a site. Expects a JSON body `{ name?: string, timezone?: string }`.
+ * A changed timezone applies to the hourly and daily views after their next refresh by the aggregation job.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ siteId: string }> }
+) {
+  try {
+    const { siteId: siteIdParam } = await params;
+    const siteId = Number(siteIdParam);
+
+    if (!Number.isInteger(siteId) || siteId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid site id. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const update: SiteUpdate = {};
+
+    if (body?.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (name.length === 0) {
+        return NextResponse.json(
+          { error: 'Invalid input: name must be a non-empty string' },
+          { status: 400 }
+        );
+      }
+      update.name = name;
+    }
+
+    if (body?.timezone !== undefined) {
+      if (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone)) {
+        return NextResponse.json(
+          { error: 'Invalid input: timezone must be an IANA timezone such as "Europe/Berlin"' },
+          { status: 400 }
+        );
+      }
+      update.timezone = body.timezone;
+    }
+
+    const { siteRepository } = createServiceContainer();
+    const site = await siteRepository.updateSite(siteId, update);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(site);
+  } catch (error) {
+    console.error('Error updating site:', error);
+    return NextResponse.json(
+      { error: 'Failed to update site' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { isValidTimeZone } from '@/lib/timezone';
+import { DEFAULT_TIMEZONE } from '@/types/site';
+
+/**
+ * Lists all sites with their meters.
+ */
+export async function GET() {
+  try {
+    const { siteRepository } = createServiceContainer();
+    const sites = await siteRepository.getSites();
+
+    return NextResponse.json({ sites });
+  } catch (error) {
+    console.error('Error fetching sites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sites' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates a new site. Expects a JSON body `{ name: string, timezone?: string }` with an IANA timezone
+ * (default: UTC) that defines the local hours and days of the site's aggregations.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (name.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid input: name must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const timezone = body?.timezone ?? DEFAULT_TIMEZONE;
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      return NextResponse.json(
+        { error: 'Invalid input: timezone must be an IANA timezone such as "Europe/Berlin"' },
+        { status: 400 }
+      );
+    }
+
+    const { siteRepository } = createServiceContainer();
+    const site = await siteRepository.createSite(name, timezone);
+
+    return NextResponse.json(site, { status: 201 });
+  } catch (error) {
+    console.error('Error creating site:', error);
+    return NextResponse.json(
+      { error: 'Failed to create site' },
+      { status: 500 }
+    );
+  }
+}
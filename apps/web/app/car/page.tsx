@@ -0,0 +1,73 @@
+'use client';
+
+import { use } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SiteSelector } from '@/components/energy-dashboard/SiteSelector';
+import { CarSessionMonthTable, CarSessionTable } from '@/components/car-sessions/CarSessionTables';
+import { useSites } from '@/hooks/useSites';
+import { useCarSessions } from '@/hooks/useCarSessions';
+import { parseSiteId } from '@/lib/site';
+import { DEFAULT_SITE_ID, DEFAULT_TIMEZONE } from '@/types/site';
+
+export default function CarPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ site?: string }>;
+}) {
+  const { site } = use(searchParams);
+  const siteId = parseSiteId(site) ?? DEFAULT_SITE_ID;
+  const { sites } = useSites();
+  const currentSite = sites.find((entry) => entry.id === siteId);
+  const { sessions, loading, error } = useCarSessions(siteId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto p-6 max-w-4xl space-y-6">
+        <SiteSelector sites={sites} siteId={siteId} basePath="/car" />
+
+        {error && (
+          <div className="p-3 bg-destructive/10 text-destructive rounded-md">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Car Charging per Month{currentSite && sites.length > 1 ? ` – ${currentSite.name}` : ''}
+            </CardTitle>
+            <CardDescription>
+              Energy charged per month with the share supplied by solar and its cost. Grid and battery energy is
+              costed at the consuming price, solar energy at the feed-in price it would otherwise have earned. The
+              gross cost includes VAT on the grid and battery energy, like the dashboard costs and the bill.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : (
+              <CarSessionMonthTable months={sessions?.months ?? []} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Charging Sessions</CardTitle>
+            <CardDescription>Sessions detected from the car power, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : (
+              <CarSessionTable
+                sessions={sessions?.sessions ?? []}
+                timeZone={currentSite?.timezone ?? DEFAULT_TIMEZONE}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { SiteSelector } from '@/components/energy-dashboard/SiteSelector';
+import { TariffCandidateForm } from '@/components/tariff-comparison/TariffCandidateForm';
+import { TariffMonthTable, TariffSummaryTable } from '@/components/tariff-comparison/TariffComparisonTables';
+import { useSites } from '@/hooks/useSites';
+import { useTariffComparison } from '@/hooks/useTariffComparison';
+import { parseSiteId } from '@/lib/site';
+import { MAX_TARIFF_CANDIDATES, toTariffCandidate, validateTariffCandidate } from '@/lib/tariff-comparison';
+import type { TariffCandidate } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+function createCandidate(name: string): TariffCandidate {
+  return {
+    name,
+    producing_price: 0,
+    consuming_periods: [{ start_time: 0, end_time: 1439, price: 0 }],
+    tariff_type: 'fixed',
+  };
+}
+
+export default function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ site?: string }>;
+}) {
+  const { site } = use(searchParams);
+  const siteId = parseSiteId(site) ?? DEFAULT_SITE_ID;
+  const { sites } = useSites();
+  const currentSite = sites.find((entry) => entry.id === siteId);
+  const { comparison, loading, error, compare } = useTariffComparison(siteId);
+
+  const [candidates, setCandidates] = useState<TariffCandidate[]>([createCandidate('Tariff 1')]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Start from the current settings of the site, if any
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`/api/energy/settings?site=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch current settings');
+        }
+        const settings = await response.json();
+        if (settings?.consuming_periods?.length) {
+          setCandidates([toTariffCandidate(settings, 'Tariff 1')]);
+        }
+      } catch (err) {
+        console.error('Error fetching settings:', err);
+      }
+    };
+
+    fetchSettings();
+  }, [siteId]);
+
+  const updateCandidate = (index: number, candidate: TariffCandidate) => {
+    setCandidates(candidates.map((entry, i) => (i === index ? candidate : entry)));
+  };
+
+  const addCandidate = () => {
+    // Copy the last tariff, so a variant only needs the differing prices
+    const last = candidates[candidates.length - 1];
+    setCandidates([...candidates, { ...last, name: `Tariff ${candidates.length + 1}` }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const candidateError = candidates.map(validateTariffCandidate).find((message) => message !== null);
+    setFormError(candidateError ?? null);
+    if (!candidateError) {
+      await compare(candidates);
+    }
+  };
+
+  const months = comparison?.tariffs[0]?.months ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto p-6 max-w-5xl space-y-6">
+        <SiteSelector sites={sites} siteId={siteId} basePath="/compare" />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Compare Tariffs{currentSite && sites.length > 1 ? ` – ${currentSite.name}` : ''}
+            </CardTitle>
+            <CardDescription>
+              Prices the grid consumption and feed-in of the last twelve months with up to {MAX_TARIFF_CANDIDATES}{' '}
+              tariffs and compares them with the actual tariff.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {candidates.map((candidate, index) => (
+                <TariffCandidateForm
+                  key={index}
+                  index={index}
+                  candidate={candidate}
+                  onChange={(updated) => updateCandidate(index, updated)}
+                  onRemove={candidates.length > 1
+                    ? () => setCandidates(candidates.filter((_, i) => i !== index))
+                    : undefined}
+                />
+              ))}
+
+              {(formError ?? error) && (
+                <div className="p-3 bg-destructive/10 text-destructive rounded-md">
+                  {formError ?? error}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addCandidate}
+                  disabled={candidates.length >= MAX_TARIFF_CANDIDATES}
+                >
+                  Add Tariff
+                </Button>
+                <Button type="submit" disabled={loading} className="flex-1">
+                  {loading ? 'Comparing...' : 'Compare'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {comparison && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Costs</CardTitle>
+                <CardDescription>
+                  {months.length > 0 ? `${months[0].label} to ${months[months.length - 1].label}. ` : ''}
+                  Net amounts, gross including VAT. Car shift savings: what charging each day&apos;s car energy in
+                  the cheapest minutes of that day would have saved.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TariffSummaryTable tariffs={comparison.tariffs} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Gross Costs per Month</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TariffMonthTable tariffs={comparison.tariffs} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -41,6 +41,18 @@ export default function RootLayout({
                 >
                   Dashboard
                 </Link>
+                <Link
+                  href="/car"
+                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Car
+                </Link>
+                <Link
+                  href="/compare"
+                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Compare
+                </Link>
                 <Link
                   href="/settings"
                   className="text-sm text-muted-foreground hover:text-foreground transition-colors"
@@ -1,13 +1,22 @@
-import { EnergyList } from '@/components/energy-list';
+import { LiveEnergy } from '@/components/live-energy';
 import { EnergyDashboard } from '@/components/energy-dashboard';
+import { parseSiteId } from '@/lib/site';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ site?: string }>;
+}) {
+  const { site } = await searchParams;
+  const siteId = parseSiteId(site) ?? DEFAULT_SITE_ID;
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-background">
       <main className="py-8">
-        <EnergyDashboard />
+        <EnergyDashboard siteId={siteId} />
         <div className="mt-8">
-          <EnergyList />
+          <LiveEnergy siteId={siteId} />
         </div>
       </main>
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { use, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -13,11 +13,43 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { EnergySettings, ConsumingPricePeriod } from '@/types/energy';
+import { SiteSelector } from '@/components/energy-dashboard/SiteSelector';
+import { useSites } from '@/hooks/useSites';
+import { parseSiteId } from '@/lib/site';
+import {
+  ALL_TARIFF_DAYS,
+  TARIFF_DAYS,
+  describePeriodScope,
+  formatSeasonDate,
+  parseSeasonDate,
+  validateDynamicTariff,
+  validateTariff,
+  validateTariffCharges,
+} from '@/lib/tariffs';
+import type { EnergySettings, ConsumingPricePeriod, TariffType } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+export default function SettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ site?: string }>;
+}) {
+  const { site } = use(searchParams);
+  const siteId = parseSiteId(site) ?? DEFAULT_SITE_ID;
+  const { sites } = useSites();
+  const siteName = sites.find((entry) => entry.id === siteId)?.name;
 
-export default function SettingsPage() {
   const [producingPrice, setProducingPrice] = useState<string>('');
   const [consumingPeriods, setConsumingPeriods] = useState<ConsumingPricePeriod[]>([]);
+  const [holidays, setHolidays] = useState<string>('');
+  const [tariffType, setTariffType] = useState<TariffType>('fixed');
+  const [spotMarkup, setSpotMarkup] = useState<string>('0');
+  const [gridFee, setGridFee] = useState<string>('0');
+  const [baseFee, setBaseFee] = useState<string>('0');
+  const [meterFee, setMeterFee] = useState<string>('0');
+  const [consumptionLevy, setConsumptionLevy] = useState<string>('0');
+  // VAT is entered in percent and stored as a rate
+  const [vatPercent, setVatPercent] = useState<string>('0');
   const [effectiveDate, setEffectiveDate] = useState<string>('');
   const [currentSettings, setCurrentSettings] = useState<EnergySettings | null>(null);
   const [priceHistory, setPriceHistory] = useState<EnergySettings[]>([]);
@@ -32,13 +64,21 @@ export default function SettingsPage() {
       setError(null);
       try {
         // Fetch current settings
-        const settingsResponse = await fetch('/api/energy/settings');
+        const settingsResponse = await fetch(`/api/energy/settings?site=${siteId}`);
         if (!settingsResponse.ok) {
           throw new Error('Failed to fetch current settings');
         }
         const settingsData = await settingsResponse.json();
         setCurrentSettings(settingsData);
         setProducingPrice(settingsData.producing_price?.toString() || '');
+        setHolidays((settingsData.holidays ?? []).join(', '));
+        setTariffType(settingsData.tariff_type ?? 'fixed');
+        setSpotMarkup(String(settingsData.spot_markup ?? 0));
+        setGridFee(String(settingsData.grid_fee ?? 0));
+        setBaseFee(String(settingsData.base_fee ?? 0));
+        setMeterFee(String(settingsData.meter_fee ?? 0));
+        setConsumptionLevy(String(settingsData.consumption_levy ?? 0));
+        setVatPercent(String(Math.round((settingsData.vat_rate ?? 0) * 10000) / 100));
         // Initialize consuming periods, or create a default one if none exist
         if (settingsData.consuming_periods && settingsData.consuming_periods.length > 0) {
           setConsumingPeriods(settingsData.consuming_periods);
@@ -54,7 +94,7 @@ export default function SettingsPage() {
         }
 
         // Fetch price history
-        const historyResponse = await fetch('/api/energy/settings/history');
+        const historyResponse = await fetch(`/api/energy/settings/history?site=${siteId}`);
         if (!historyResponse.ok) {
           throw new Error('Failed to fetch price history');
         }
@@ -69,7 +109,7 @@ export default function SettingsPage() {
     };
 
     fetchData();
-  }, []);
+  }, [siteId]);
 
   const addConsumingPeriod = () => {
     setConsumingPeriods([
@@ -80,6 +120,9 @@ export default function SettingsPage() {
         start_time: 0,
         end_time: 1439,
         price: 0,
+        days_of_week: ALL_TARIFF_DAYS,
+        season_start: null,
+        season_end: null,
       },
     ]);
   };
@@ -105,6 +148,23 @@ export default function SettingsPage() {
     setConsumingPeriods(updated);
   };
 
+  const toggleConsumingPeriodDay = (index: number, dayIndex: number) => {
+    const updated = [...consumingPeriods];
+    const days = updated[index].days_of_week ?? ALL_TARIFF_DAYS;
+    updated[index] = { ...updated[index], days_of_week: days ^ (1 << dayIndex) };
+    setConsumingPeriods(updated);
+  };
+
+  const updateConsumingPeriodSeason = (
+    index: number,
+    field: 'season_start' | 'season_end',
+    value: string
+  ) => {
+    const updated = [...consumingPeriods];
+    updated[index] = { ...updated[index], [field]: parseSeasonDate(value) };
+    setConsumingPeriods(updated);
+  };
+
   const formatTimeFromMinutes = (minutes: number): string => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -143,6 +203,35 @@ export default function SettingsPage() {
         }
       }
 
+      // Weekday and holiday flags, seasons and holiday dates
+      const holidayDates = holidays.split(/[\s,]+/).filter((holiday) => holiday !== '');
+      const tariffError = validateTariff(consumingPeriods, holidayDates);
+      if (tariffError) {
+        throw new Error(tariffError);
+      }
+
+      // Spot price components of dynamic tariffs
+      const dynamicTariff = {
+        spot_markup: parseFloat(spotMarkup),
+        grid_fee: parseFloat(gridFee),
+      };
+      const dynamicTariffError = tariffType === 'dynamic' ? validateDynamicTariff(dynamicTariff) : null;
+      if (dynamicTariffError) {
+        throw new Error(dynamicTariffError);
+      }
+
+      // Monthly fees, levies and VAT
+      const charges = {
+        base_fee: parseFloat(baseFee),
+        meter_fee: parseFloat(meterFee),
+        consumption_levy: parseFloat(consumptionLevy),
+        vat_rate: parseFloat(vatPercent) / 100,
+      };
+      const chargesError = validateTariffCharges(charges);
+      if (chargesError) {
+        throw new Error(chargesError);
+      }
+
       // Convert effective date to Unix timestamp if provided
       let startDate: number | undefined;
       if (effectiveDate) {
@@ -156,7 +245,7 @@ export default function SettingsPage() {
       // Prepare consuming periods (remove temporary IDs)
       const periodsToSave = consumingPeriods.map(({ id, energy_settings_id, ...rest }) => rest);
 
-      const response = await fetch('/api/energy/settings', {
+      const response = await fetch(`/api/energy/settings?site=${siteId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -164,6 +253,10 @@ export default function SettingsPage() {
         body: JSON.stringify({
           producing_price: producing,
           consuming_periods: periodsToSave,
+          holidays: holidayDates,
+          tariff_type: tariffType,
+          ...(tariffType === 'dynamic' ? dynamicTariff : {}),
+          ...charges,
           start_date: startDate,
         }),
       });
@@ -177,13 +270,13 @@ export default function SettingsPage() {
       setTimeout(() => setSuccess(false), 3000);
       
       // Reload data
-      const settingsResponse = await fetch('/api/energy/settings');
+      const settingsResponse = await fetch(`/api/energy/settings?site=${siteId}`);
       if (settingsResponse.ok) {
         const settingsData = await settingsResponse.json();
         setCurrentSettings(settingsData);
       }
 
-      const historyResponse = await fetch('/api/energy/settings/history');
+      const historyResponse = await fetch(`/api/energy/settings/history?site=${siteId}`);
       if (historyResponse.ok) {
         const historyData = await historyResponse.json();
         setPriceHistory(historyData.settings || []);
@@ -206,6 +299,18 @@ export default function SettingsPage() {
     return `€${num.toFixed(4)}`;
   };
 
+  const describeDynamicTariff = (settings: EnergySettings): string =>
+    `spot price + ${formatPrice(settings.spot_markup ?? 0)} markup + ${formatPrice(settings.grid_fee ?? 0)} grid fee`;
+
+  const describeCharges = (settings: EnergySettings): string | null => {
+    const parts: string[] = [];
+    if (settings.base_fee) parts.push(`€${settings.base_fee.toFixed(2)}/month base fee`);
+    if (settings.meter_fee) parts.push(`€${settings.meter_fee.toFixed(2)}/month meter rental`);
+    if (settings.consumption_levy) parts.push(`${formatPrice(settings.consumption_levy)} per kWh levies`);
+    if (settings.vat_rate) parts.push(`${Math.round(settings.vat_rate * 10000) / 100}% VAT`);
+    return parts.length > 0 ? parts.join(', ') : null;
+  };
+
   const formatDate = (timestamp: number): string => {
     const date = new Date(timestamp * 1000);
     return date.toLocaleString('en-US', {
@@ -220,12 +325,14 @@ export default function SettingsPage() {
   return (
     <div className="min-h-screen bg-background">
       <main className="container mx-auto p-6 max-w-4xl space-y-6">
+        <SiteSelector sites={sites} siteId={siteId} basePath="/settings" />
+
         {/* Current Settings Card */}
         <Card>
           <CardHeader>
-            <CardTitle>Energy Price Settings</CardTitle>
+            <CardTitle>Energy Price Settings{siteName && sites.length > 1 ? ` – ${siteName}` : ''}</CardTitle>
             <CardDescription>
-              Configure the price per kilowatt hour. Producing price is a single value, while consuming price can have different rates for different times of day (e.g., day/night tariffs).
+              Configure the price per kilowatt hour. Producing price is a single value, while consuming price can have different rates for different times of day (e.g., day/night tariffs), days of the week, holidays and seasons.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -255,6 +362,110 @@ export default function SettingsPage() {
                   )}
                 </div>
 
+                {/* Tariff Type */}
+                <div className="space-y-2">
+                  <Label>Tariff Type</Label>
+                  <div className="flex gap-2" role="group" aria-label="Tariff type">
+                    {(['fixed', 'dynamic'] as const).map((type) => (
+                      <Button
+                        key={type}
+                        type="button"
+                        variant={tariffType === type ? 'default' : 'outline'}
+                        size="sm"
+                        aria-pressed={tariffType === type}
+                        onClick={() => setTariffType(type)}
+                      >
+                        {type === 'fixed' ? 'Fixed' : 'Dynamic (Spot Price)'}
+                      </Button>
+                    ))}
+                  </div>
+                  {tariffType === 'dynamic' && (
+                    <>
+                      <div className="flex flex-wrap gap-2">
+                        <div className="w-32 space-y-2">
+                          <Label htmlFor="spot-markup" className="text-xs">Markup (€/kWh)</Label>
+                          <Input
+                            id="spot-markup"
+                            type="number"
+                            step="0.0001"
+                            value={spotMarkup}
+                            onChange={(e) => setSpotMarkup(e.target.value)}
+                          />
+                        </div>
+                        <div className="w-32 space-y-2">
+                          <Label htmlFor="grid-fee" className="text-xs">Grid Fee (€/kWh)</Label>
+                          <Input
+                            id="grid-fee"
+                            type="number"
+                            step="0.0001"
+                            min="0"
+                            value={gridFee}
+                            onChange={(e) => setGridFee(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Consumption is priced at spot price + markup + grid fee, using the spot prices imported via /api/energy/spot-prices. Intervals without a spot price use the consuming price periods below.
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {/* Fees and Taxes */}
+                <div className="space-y-2">
+                  <Label>Fees and Taxes</Label>
+                  <div className="flex flex-wrap gap-2">
+                    <div className="w-32 space-y-2">
+                      <Label htmlFor="base-fee" className="text-xs">Base Fee (€/month)</Label>
+                      <Input
+                        id="base-fee"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={baseFee}
+                        onChange={(e) => setBaseFee(e.target.value)}
+                      />
+                    </div>
+                    <div className="w-32 space-y-2">
+                      <Label htmlFor="meter-fee" className="text-xs">Meter Rental (€/month)</Label>
+                      <Input
+                        id="meter-fee"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={meterFee}
+                        onChange={(e) => setMeterFee(e.target.value)}
+                      />
+                    </div>
+                    <div className="w-32 space-y-2">
+                      <Label htmlFor="consumption-levy" className="text-xs">Levies (€/kWh)</Label>
+                      <Input
+                        id="consumption-levy"
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        value={consumptionLevy}
+                        onChange={(e) => setConsumptionLevy(e.target.value)}
+                      />
+                    </div>
+                    <div className="w-24 space-y-2">
+                      <Label htmlFor="vat-rate" className="text-xs">VAT (%)</Label>
+                      <Input
+                        id="vat-rate"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                        value={vatPercent}
+                        onChange={(e) => setVatPercent(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    All prices and fees are net. Levies are added to every consumed kWh, monthly fees are prorated over the selected timeframe, and VAT is added to consumption costs and fees for the gross amounts.
+                  </p>
+                </div>
+
                 {/* Consuming Price Periods */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -276,52 +487,111 @@ export default function SettingsPage() {
                   ) : (
                     <div className="space-y-3">
                       {consumingPeriods.map((period, index) => (
-                        <div key={index} className="flex gap-2 items-end p-3 border rounded-md">
-                          <div className="flex-1 space-y-2">
-                            <Label className="text-xs">Start Time</Label>
-                            <Input
-                              type="time"
-                              value={formatTimeFromMinutes(period.start_time)}
-                              onChange={(e) => updateConsumingPeriod(index, 'start_time', e.target.value)}
-                              required
-                            />
-                          </div>
-                          <div className="flex-1 space-y-2">
-                            <Label className="text-xs">End Time</Label>
-                            <Input
-                              type="time"
-                              value={formatTimeFromMinutes(period.end_time)}
-                              onChange={(e) => updateConsumingPeriod(index, 'end_time', e.target.value)}
-                              required
-                            />
+                        <div key={index} className="p-3 border rounded-md space-y-3">
+                          <div className="flex gap-2 items-end">
+                            <div className="flex-1 space-y-2">
+                              <Label className="text-xs">Start Time</Label>
+                              <Input
+                                type="time"
+                                value={formatTimeFromMinutes(period.start_time)}
+                                onChange={(e) => updateConsumingPeriod(index, 'start_time', e.target.value)}
+                                required
+                              />
+                            </div>
+                            <div className="flex-1 space-y-2">
+                              <Label className="text-xs">End Time</Label>
+                              <Input
+                                type="time"
+                                value={formatTimeFromMinutes(period.end_time)}
+                                onChange={(e) => updateConsumingPeriod(index, 'end_time', e.target.value)}
+                                required
+                              />
+                            </div>
+                            <div className="flex-1 space-y-2">
+                              <Label className="text-xs">Price (€/kWh)</Label>
+                              <Input
+                                type="number"
+                                step="0.0001"
+                                min="0"
+                                value={period.price}
+                                onChange={(e) => updateConsumingPeriod(index, 'price', e.target.value)}
+                                placeholder="0.0000"
+                                required
+                              />
+                            </div>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeConsumingPeriod(index)}
+                              disabled={consumingPeriods.length === 1}
+                            >
+                              Remove
+                            </Button>
                           </div>
-                          <div className="flex-1 space-y-2">
-                            <Label className="text-xs">Price (€/kWh)</Label>
-                            <Input
-                              type="number"
-                              step="0.0001"
-                              min="0"
-                              value={period.price}
-                              onChange={(e) => updateConsumingPeriod(index, 'price', e.target.value)}
-                              placeholder="0.0000"
-                              required
-                            />
+                          <div className="flex flex-wrap gap-2 items-end">
+                            <div className="space-y-2">
+                              <Label className="text-xs">Days</Label>
+                              <div className="flex gap-1" role="group" aria-label={`Days of period ${index + 1}`}>
+                                {TARIFF_DAYS.map((day, dayIndex) => {
+                                  const selected = ((period.days_of_week ?? ALL_TARIFF_DAYS) & (1 << dayIndex)) !== 0;
+                                  return (
+                                    <Button
+                                      key={day}
+                                      type="button"
+                                      variant={selected ? 'default' : 'outline'}
+                                      size="sm"
+                                      aria-pressed={selected}
+                                      onClick={() => toggleConsumingPeriodDay(index, dayIndex)}
+                                    >
+                                      {day}
+                                    </Button>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                            <div className="w-24 space-y-2">
+                              <Label className="text-xs">Season From</Label>
+                              <Input
+                                key={`${period.id}-season-start`}
+                                defaultValue={period.season_start != null ? formatSeasonDate(period.season_start) : ''}
+                                onBlur={(e) => updateConsumingPeriodSeason(index, 'season_start', e.target.value)}
+                                placeholder="MM-DD"
+                              />
+                            </div>
+                            <div className="w-24 space-y-2">
+                              <Label className="text-xs">Season To</Label>
+                              <Input
+                                key={`${period.id}-season-end`}
+                                defaultValue={period.season_end != null ? formatSeasonDate(period.season_end) : ''}
+                                onBlur={(e) => updateConsumingPeriodSeason(index, 'season_end', e.target.value)}
+                                placeholder="MM-DD"
+                              />
+                            </div>
                           </div>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeConsumingPeriod(index)}
-                            disabled={consumingPeriods.length === 1}
-                          >
-                            Remove
-                          </Button>
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
 
+                {/* Holidays */}
+                <div className="space-y-2">
+                  <Label htmlFor="holidays">
+                    Holidays (Optional)
+                  </Label>
+                  <Input
+                    id="holidays"
+                    value={holidays}
+                    onChange={(e) => setHolidays(e.target.value)}
+                    placeholder="01-01, 12-25, 2027-03-26"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Comma-separated dates as MM-DD (every year) or YYYY-MM-DD. On holidays only periods with the Holiday day apply.
+                    Seasons are inclusive and may wrap around the turn of the year (e.g. 11-01 to 03-31); leave them empty for all year.
+                  </p>
+                </div>
+
                 {/* Effective Date */}
                 <div className="space-y-2">
                   <Label htmlFor="effective-date">
@@ -346,14 +616,24 @@ export default function SettingsPage() {
                       <p>
                         Producing: {formatPrice(currentSettings.producing_price)} per kWh
                       </p>
+                      {currentSettings.tariff_type === 'dynamic' && (
+                        <p>Dynamic: {describeDynamicTariff(currentSettings)}</p>
+                      )}
+                      {describeCharges(currentSettings) && (
+                        <p>Fees and taxes: {describeCharges(currentSettings)}</p>
+                      )}
                       <p>Consuming:</p>
                       <ul className="list-disc list-inside ml-2 space-y-1">
                         {currentSettings.consuming_periods?.map((period, idx) => (
                           <li key={idx}>
                             {formatTimeFromMinutes(period.start_time)} - {formatTimeFromMinutes(period.end_time)}: {formatPrice(period.price)} per kWh
+                            {describePeriodScope(period) && ` (${describePeriodScope(period)})`}
                           </li>
                         ))}
                       </ul>
+                      {currentSettings.holidays && currentSettings.holidays.length > 0 && (
+                        <p>Holidays: {currentSettings.holidays.join(', ')}</p>
+                      )}
                       <p className="text-muted-foreground">
                         Effective from: {formatDate(currentSettings.start_date)}
                         {currentSettings.end_date && ` until ${formatDate(currentSettings.end_date)}`}
@@ -427,16 +707,32 @@ export default function SettingsPage() {
                         <p>
                           <span className="font-medium">Producing:</span> {formatPrice(setting.producing_price)} per kWh
                         </p>
+                        {setting.tariff_type === 'dynamic' && (
+                          <p>
+                            <span className="font-medium">Dynamic:</span> {describeDynamicTariff(setting)}
+                          </p>
+                        )}
+                        {describeCharges(setting) && (
+                          <p>
+                            <span className="font-medium">Fees and taxes:</span> {describeCharges(setting)}
+                          </p>
+                        )}
                         <div>
                           <span className="font-medium">Consuming:</span>
                           <ul className="list-disc list-inside ml-4 mt-1 space-y-1">
                             {setting.consuming_periods?.map((period, idx) => (
                               <li key={idx}>
                                 {formatTimeFromMinutes(period.start_time)} - {formatTimeFromMinutes(period.end_time)}: {formatPrice(period.price)} per kWh
+                                {describePeriodScope(period) && ` (${describePeriodScope(period)})`}
                               </li>
                             ))}
                           </ul>
                         </div>
+                        {setting.holidays && setting.holidays.length > 0 && (
+                          <p>
+                            <span className="font-medium">Holidays:</span> {setting.holidays.join(', ')}
+                          </p>
+                        )}
                       </div>
                     </div>
                   );
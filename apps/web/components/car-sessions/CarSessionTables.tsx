@@ -0,0 +1,132 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { CarChargingSession, CarSessionMonth } from '@/types/car';
+
+function formatKwh(kwh: number): string {
+  return `${kwh.toFixed(2)} kWh`;
+}
+
+function formatCost(cost: number | null): string {
+  return cost === null ? '–' : `€${cost.toFixed(2)}`;
+}
+
+function formatSolarShare(solarKwh: number, energyKwh: number): string {
+  return energyKwh > 0 ? `${((solarKwh / energyKwh) * 100).toFixed(0)}%` : '–';
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+}
+
+function formatDateTime(timestamp: number, timeZone: string): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+interface CarSessionMonthTableProps {
+  months: CarSessionMonth[];
+}
+
+/**
+ * Charged energy, solar share and net and gross cost per month, e.g. for a company car reimbursement.
+ */
+export function CarSessionMonthTable({ months }: CarSessionMonthTableProps) {
+  if (months.length === 0) {
+    return <p className="text-muted-foreground">No charging sessions detected yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          <TableHead className="text-right">Sessions</TableHead>
+          <TableHead className="text-right">Energy</TableHead>
+          <TableHead className="text-right">Solar</TableHead>
+          <TableHead className="text-right">Net</TableHead>
+          <TableHead className="text-right">Gross</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {months.map((month) => (
+          <TableRow key={month.month}>
+            <TableCell className="font-medium">{formatMonth(month.month)}</TableCell>
+            <TableCell className="text-right">{month.sessions}</TableCell>
+            <TableCell className="text-right">{formatKwh(month.energy_kwh)}</TableCell>
+            <TableCell className="text-right">{formatSolarShare(month.solar_kwh, month.energy_kwh)}</TableCell>
+            <TableCell className="text-right">{formatCost(month.cost)}</TableCell>
+            <TableCell className="text-right">{formatCost(month.gross_cost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface CarSessionTableProps {
+  sessions: CarChargingSession[];
+  /** IANA timezone of the site the times are shown in */
+  timeZone: string;
+}
+
+/**
+ * Detected charging sessions with start, duration, energy, peak power, solar share and net and gross cost.
+ */
+export function CarSessionTable({ sessions, timeZone }: CarSessionTableProps) {
+  if (sessions.length === 0) {
+    return <p className="text-muted-foreground">No charging sessions detected yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Start</TableHead>
+          <TableHead>Duration</TableHead>
+          <TableHead className="text-right">Energy</TableHead>
+          <TableHead className="text-right">Peak</TableHead>
+          <TableHead className="text-right">Solar</TableHead>
+          <TableHead className="text-right">Net</TableHead>
+          <TableHead className="text-right">Gross</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sessions.map((session) => (
+          <TableRow key={session.id}>
+            <TableCell>{formatDateTime(session.started_at, timeZone)}</TableCell>
+            <TableCell>{formatDuration(session.ended_at - session.started_at)}</TableCell>
+            <TableCell className="text-right">{formatKwh(session.energy_kwh)}</TableCell>
+            <TableCell className="text-right">{(session.peak_power / 1000).toFixed(1)} kW</TableCell>
+            <TableCell className="text-right">{formatSolarShare(session.solar_kwh, session.energy_kwh)}</TableCell>
+            <TableCell className="text-right">{formatCost(session.cost)}</TableCell>
+            <TableCell className="text-right">{formatCost(session.gross_cost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -2,28 +2,45 @@
 
 import { useState } from 'react';
 import { useEnergyData } from '@/hooks/useEnergyData';
-import { useEnergySettings } from '@/hooks/useEnergySettings';
+import { useEnergySummary } from '@/hooks/useEnergySummary';
+import { useEnergyFlows } from '@/hooks/useEnergyFlows';
+import { useEnergyCosts } from '@/hooks/useEnergyCosts';
 import { useEnergyCostCalculations } from '@/hooks/useEnergyCostCalculations';
-import { createClientEnergyService } from '@/lib/services/energy-service';
+import { useSites } from '@/hooks/useSites';
+import { DEFAULT_SITE_ID } from '@/types/site';
 import { TimeframeSelector, getTimeframeLabel, type Timeframe, type DisplayMode } from './energy-dashboard/TimeframeSelector';
 import { EnergyCard } from './energy-dashboard/EnergyCard';
 import { EnergyChart } from './energy-dashboard/EnergyChart';
+import { EnergyFlowChart } from './energy-dashboard/EnergyFlowChart';
+import { SiteSelector } from './energy-dashboard/SiteSelector';
+import { SelfSufficiencySection } from './energy-dashboard/SelfSufficiencySection';
 import { Button } from './ui/button';
 
-export function EnergyDashboard() {
+interface EnergyDashboardProps {
+  siteId?: number;
+}
+
+export function EnergyDashboard({ siteId = DEFAULT_SITE_ID }: EnergyDashboardProps) {
   const [timeframe, setTimeframe] = useState<Timeframe>('day');
   const [displayMode, setDisplayMode] = useState<DisplayMode>('kwh');
 
+  const { sites } = useSites();
 
+  // Fetch all energy data of the selected site
+  const { consumption, feedIn, car, solar, batteryCharge, batteryDischarge, home } = useEnergyData(timeframe, siteId);
 
-  // Fetch all energy data
-  const { consumption, feedIn, car, solar } = useEnergyData(timeframe);
+  // Self-sufficiency KPIs of the selected site
+  const { summary, loading: summaryLoading, error: summaryError } = useEnergySummary(timeframe, siteId);
 
-  // Fetch settings only when in cost mode
-  const { settings, loading: settingsLoading } = useEnergySettings(displayMode);
+  // Energy flows between the channels of the selected site
+  const { flows, loading: flowsLoading, error: flowsError } = useEnergyFlows(timeframe, siteId);
 
-  // Get energy service instance for cost calculations (client-safe, no database access needed)
-  const energyService = createClientEnergyService();
+  // Costs are priced by the server with the settings and spot prices applying at each minute
+  const { costs, loading: costsLoading, error: costsError } = useEnergyCosts(timeframe, siteId, displayMode === 'cost');
+
+  // In cost mode, cards and charts show the state of the costs until they are available
+  const costsFailed = displayMode === 'cost' ? costsError : null;
+  const costsPending = displayMode === 'cost' && (costsLoading || (!costs && !costsFailed));
 
   // Transform energy data and calculate costs/totals
   const {
@@ -34,20 +51,35 @@ export function EnergyDashboard() {
     carTotalValue,
     solarChartData,
     solarTotalValue,
+    batteryChargeChartData,
+    batteryChargeTotalValue,
+    batteryDischargeChartData,
+    batteryDischargeTotalValue,
+    homeChartData,
+    homeTotalValue,
+    fixedFees,
+    consumptionGrossValue,
+    carGrossValue,
+    batteryDischargeGrossValue,
+    homeGrossValue,
   } = useEnergyCostCalculations(
     consumption,
     feedIn,
     car,
     solar,
     displayMode,
-    settings,
-    energyService
+    costs,
+    batteryCharge,
+    batteryDischarge,
+    home
   );
 
   const timeframeLabel = getTimeframeLabel(timeframe);
 
   return (
     <div className="container mx-auto p-6 max-w-6xl">
+      <SiteSelector sites={sites} siteId={siteId} basePath="/" />
+
       <TimeframeSelector
         timeframe={timeframe}
         displayMode={displayMode}
@@ -58,7 +90,23 @@ export function EnergyDashboard() {
 
 
       {/* Total Energy Cards - Side by Side */}
-      <div className="mb-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        <EnergyCard
+          title="Home Energy Consumption"
+          description={
+            displayMode === 'cost'
+              ? `Total cost for home energy consumption for ${timeframeLabel.toLowerCase()}`
+              : `Total home energy consumption for ${timeframeLabel.toLowerCase()}`
+          }
+          value={homeTotalValue}
+          grossValue={homeGrossValue}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={home.loading || costsPending}
+          error={home.error ?? costsFailed}
+          color="hsl(var(--chart-1))"
+        />
+
         <EnergyCard
           title="Grid Energy Consumption"
           description={
@@ -67,12 +115,13 @@ export function EnergyDashboard() {
               : `Total energy consumed from the grid for ${timeframeLabel.toLowerCase()}`
           }
           value={consumptionTotalValue}
+          grossValue={consumptionGrossValue}
+          fixedFees={fixedFees}
           displayMode={displayMode}
           timeframe={timeframe}
-          loading={consumption.loading}
-          error={consumption.error}
+          loading={consumption.loading || costsPending}
+          error={consumption.error ?? costsFailed}
           color="hsl(var(--chart-1))"
-          settingsLoading={settingsLoading}
         />
 
         <EnergyCard
@@ -85,10 +134,9 @@ export function EnergyDashboard() {
           value={feedInTotalValue}
           displayMode={displayMode}
           timeframe={timeframe}
-          loading={feedIn.loading}
-          error={feedIn.error}
+          loading={feedIn.loading || costsPending}
+          error={feedIn.error ?? costsFailed}
           color="hsl(var(--chart-2))"
-          settingsLoading={settingsLoading}
         />
 
         <EnergyCard
@@ -99,12 +147,12 @@ export function EnergyDashboard() {
               : `Total car energy consumption for ${timeframeLabel.toLowerCase()}`
           }
           value={carTotalValue}
+          grossValue={carGrossValue}
           displayMode={displayMode}
           timeframe={timeframe}
-          loading={car.loading}
-          error={car.error}
+          loading={car.loading || costsPending}
+          error={car.error ?? costsFailed}
           color="hsl(var(--chart-1))"
-          settingsLoading={settingsLoading}
         />
 
         <EnergyCard
@@ -117,10 +165,40 @@ export function EnergyDashboard() {
           value={solarTotalValue}
           displayMode={displayMode}
           timeframe={timeframe}
-          loading={solar.loading}
-          error={solar.error}
+          loading={solar.loading || costsPending}
+          error={solar.error ?? costsFailed}
+          color="hsl(var(--chart-1))"
+        />
+
+        <EnergyCard
+          title="Battery Charge"
+          description={
+            displayMode === 'cost'
+              ? `Feed-in value of energy stored in the battery for ${timeframeLabel.toLowerCase()}`
+              : `Total energy charged into the battery for ${timeframeLabel.toLowerCase()}`
+          }
+          value={batteryChargeTotalValue}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={batteryCharge.loading || costsPending}
+          error={batteryCharge.error ?? costsFailed}
+          color="hsl(var(--chart-2))"
+        />
+
+        <EnergyCard
+          title="Battery Discharge"
+          description={
+            displayMode === 'cost'
+              ? `Grid purchases avoided by battery discharge for ${timeframeLabel.toLowerCase()}`
+              : `Total energy discharged from the battery for ${timeframeLabel.toLowerCase()}`
+          }
+          value={batteryDischargeTotalValue}
+          grossValue={batteryDischargeGrossValue}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={batteryDischarge.loading || costsPending}
+          error={batteryDischarge.error ?? costsFailed}
           color="hsl(var(--chart-1))"
-          settingsLoading={settingsLoading}
         />
       </div>
 
@@ -129,8 +207,8 @@ export function EnergyDashboard() {
         data={consumptionChartData}
         displayMode={displayMode}
         timeframe={timeframe}
-        loading={consumption.loading}
-        error={consumption.error}
+        loading={consumption.loading || costsPending}
+        error={consumption.error ?? costsFailed}
         title="Grid Energy Consumption Overview"
         description={
           displayMode === 'cost'
@@ -138,6 +216,63 @@ export function EnergyDashboard() {
             : 'Energy consumed from the grid'
         }
       />
+
+      <div className="mt-6">
+        <EnergyChart
+          data={homeChartData}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={home.loading || costsPending}
+          error={home.error ?? costsFailed}
+          title="Home Energy Consumption Overview"
+          description={
+            displayMode === 'cost'
+              ? 'Cost for energy consumed by the home'
+              : 'Energy consumed by the home'
+          }
+        />
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <EnergyChart
+          data={batteryChargeChartData}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={batteryCharge.loading || costsPending}
+          error={batteryCharge.error ?? costsFailed}
+          title="Battery Charge Overview"
+          description={
+            displayMode === 'cost'
+              ? 'Feed-in value of energy stored in the battery'
+              : 'Energy charged into the battery'
+          }
+        />
+
+        <EnergyChart
+          data={batteryDischargeChartData}
+          displayMode={displayMode}
+          timeframe={timeframe}
+          loading={batteryDischarge.loading || costsPending}
+          error={batteryDischarge.error ?? costsFailed}
+          title="Battery Discharge Overview"
+          description={
+            displayMode === 'cost'
+              ? 'Grid purchases avoided by battery discharge'
+              : 'Energy discharged from the battery'
+          }
+        />
+      </div>
+
+      <SelfSufficiencySection
+        summary={summary}
+        timeframe={timeframe}
+        loading={summaryLoading}
+        error={summaryError}
+      />
+
+      <div className="mt-6">
+        <EnergyFlowChart flows={flows} loading={flowsLoading} error={flowsError} />
+      </div>
     </div>
   );
 }
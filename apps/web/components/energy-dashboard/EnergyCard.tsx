@@ -14,6 +14,10 @@ export interface EnergyCardProps {
   error: string | null;
   color: string;
   settingsLoading?: boolean;
+  /** Value including VAT, shown below the net value in cost mode */
+  grossValue?: number;
+  /** Prorated fixed fees included in the value, shown in cost mode */
+  fixedFees?: number;
 }
 
 function formatValue(value: number, mode: DisplayMode): string {
@@ -34,6 +38,8 @@ export function EnergyCard({
   error,
   color,
   settingsLoading = false,
+  grossValue,
+  fixedFees = 0,
 }: EnergyCardProps) {
   const isLoading = loading || (displayMode === 'cost' && settingsLoading);
 
@@ -51,11 +57,19 @@ export function EnergyCard({
         ) : isLoading ? (
           <p className="text-muted-foreground">Loading...</p>
         ) : (
-          <div className="text-4xl font-bold">
-            <span style={{ color }}>
-              {formatValue(value, displayMode)} {displayMode === 'kwh' ? 'kWh' : ''}
-            </span>
-          </div>
+          <>
+            <div className="text-4xl font-bold">
+              <span style={{ color }}>
+                {formatValue(value, displayMode)} {displayMode === 'kwh' ? 'kWh' : ''}
+              </span>
+            </div>
+            {displayMode === 'cost' && (grossValue !== undefined || fixedFees !== 0) && (
+              <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                {grossValue !== undefined && <p>Gross incl. VAT: {formatValue(grossValue, displayMode)}</p>}
+                {fixedFees !== 0 && <p>Includes €{fixedFees.toFixed(2)} prorated fixed fees</p>}
+              </div>
+            )}
+          </>
         )}
       </CardContent>
     </Card>
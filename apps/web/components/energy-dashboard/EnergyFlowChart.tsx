@@ -0,0 +1,141 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer } from '@/components/ui/chart';
+import { Layer, Rectangle, Sankey, Tooltip } from 'recharts';
+import type { EnergyFlowsResponse } from '@/types/energy';
+
+const chartConfig = {
+  solar: {
+    label: 'Solar',
+    color: 'hsl(var(--chart-1))',
+  },
+  battery: {
+    label: 'Battery',
+    color: 'hsl(var(--chart-3))',
+  },
+  grid: {
+    label: 'Grid',
+    color: 'hsl(var(--chart-2))',
+  },
+  home: {
+    label: 'Home',
+    color: 'hsl(var(--chart-4))',
+  },
+  car: {
+    label: 'Car',
+    color: 'hsl(var(--chart-5))',
+  },
+} satisfies Record<string, { label: string; color: string }>;
+
+type FlowChannel = keyof typeof chartConfig;
+
+interface FlowNode {
+  name: string;
+  channel: FlowChannel;
+  side: 'source' | 'target';
+}
+
+/**
+ * Builds Sankey nodes and links from the flows, leaving out flows without energy.
+ * Battery and grid are both sources and targets, so they get a node on each side to keep the diagram acyclic.
+ */
+function toSankeyData(flows: EnergyFlowsResponse['flows']) {
+  const nodes: FlowNode[] = [];
+  const indices = new Map<string, number>();
+  const nodeIndex = (channel: FlowChannel, side: FlowNode['side']) => {
+    const key = `${side}:${channel}`;
+    if (!indices.has(key)) {
+      indices.set(key, nodes.length);
+      nodes.push({ name: chartConfig[channel].label, channel, side });
+    }
+    return indices.get(key)!;
+  };
+
+  const links = flows
+    .filter((flow) => flow.kwh > 0)
+    .map((flow) => ({
+      source: nodeIndex(flow.source, 'source'),
+      target: nodeIndex(flow.target, 'target'),
+      value: flow.kwh,
+    }));
+
+  return { nodes, links };
+}
+
+interface FlowNodeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: FlowNode;
+}
+
+function FlowNodeShape({ x, y, width, height, payload }: FlowNodeProps) {
+  // Labels are placed outside the diagram: left of source nodes, right of target nodes
+  const isSource = payload.side === 'source';
+  return (
+    <Layer>
+      <Rectangle x={x} y={y} width={width} height={height} fill={chartConfig[payload.channel].color} />
+      <text
+        x={isSource ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isSource ? 'end' : 'start'}
+        dominantBaseline="middle"
+        className="fill-foreground text-sm"
+      >
+        {payload.name}
+      </text>
+    </Layer>
+  );
+}
+
+export interface EnergyFlowChartProps {
+  flows: EnergyFlowsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Sankey diagram of where the energy of the timeframe came from and went to.
+ */
+export function EnergyFlowChart({ flows, loading, error }: EnergyFlowChartProps) {
+  const data = toSankeyData(flows?.flows ?? []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Energy Flows</CardTitle>
+        <CardDescription>Energy from solar, battery and grid to home, car, battery and grid (kWh)</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-3 bg-destructive/10 text-destructive rounded-md">
+            {error}
+          </div>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <p className="text-muted-foreground">Loading data...</p>
+          </div>
+        ) : data.links.length === 0 ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <p className="text-muted-foreground">No data available for the selected timeframe</p>
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[400px]">
+            <Sankey
+              data={data}
+              node={FlowNodeShape}
+              link={{ stroke: 'hsl(var(--muted-foreground))', strokeOpacity: 0.3 }}
+              nodePadding={24}
+              margin={{ top: 20, right: 80, left: 80, bottom: 20 }}
+            >
+              <Tooltip formatter={(value: number) => `${value.toFixed(2)} kWh`} />
+            </Sankey>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
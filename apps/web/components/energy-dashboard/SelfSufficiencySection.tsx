@@ -0,0 +1,140 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import type { EnergySummaryResponse } from '@/types/energy';
+import type { Timeframe } from './TimeframeSelector';
+
+const chartConfig = {
+  solarDirectUse: {
+    label: 'Direct use',
+    color: 'hsl(var(--chart-1))',
+  },
+  solarStored: {
+    label: 'Stored',
+    color: 'hsl(var(--chart-3))',
+  },
+  solarExported: {
+    label: 'Exported',
+    color: 'hsl(var(--chart-2))',
+  },
+} satisfies Record<string, { label: string; color: string }>;
+
+function formatShare(share: number | null): string {
+  return share === null ? '–' : `${(share * 100).toFixed(0)}%`;
+}
+
+export interface SelfSufficiencySectionProps {
+  summary: EnergySummaryResponse | null;
+  timeframe: Timeframe;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Autarky and self-consumption of the timeframe, and the use of solar production per data point.
+ */
+export function SelfSufficiencySection({ summary, timeframe, loading, error }: SelfSufficiencySectionProps) {
+  const total = summary?.total;
+  const data = summary?.data ?? [];
+  const shortLabels = timeframe === 'day' || timeframe === 'yesterday';
+
+  const renderShare = (share: number | null | undefined, detail: string) =>
+    error ? (
+      <div className="p-3 bg-destructive/10 text-destructive rounded-md">{error}</div>
+    ) : loading || share === undefined ? (
+      <p className="text-muted-foreground">Loading...</p>
+    ) : (
+      <>
+        <div className="text-4xl font-bold">{formatShare(share)}</div>
+        <p className="mt-1 text-sm text-muted-foreground">{detail}</p>
+      </>
+    );
+
+  return (
+    <div className="mt-6">
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Autarky</CardTitle>
+            <CardDescription>Share of home and car consumption covered by solar and battery</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderShare(
+              total?.autarky,
+              total ? `${total.gridImport.toFixed(2)} of ${total.demand.toFixed(2)} kWh drawn from the grid` : ''
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Self-Consumption</CardTitle>
+            <CardDescription>Share of solar production used on site</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderShare(
+              total?.selfConsumption,
+              total ? `${total.solarExported.toFixed(2)} of ${total.solar.toFixed(2)} kWh exported` : ''
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Solar Use Overview</CardTitle>
+          <CardDescription>Solar production used directly, stored in the battery or exported</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-destructive/10 text-destructive rounded-md">
+              {error}
+            </div>
+          )}
+          {loading ? (
+            <div className="flex items-center justify-center h-[400px]">
+              <p className="text-muted-foreground">Loading data...</p>
+            </div>
+          ) : data.length === 0 ? (
+            <div className="flex items-center justify-center h-[400px]">
+              <p className="text-muted-foreground">No data available for the selected timeframe</p>
+            </div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-[400px]">
+              <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <XAxis
+                  dataKey="label"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  angle={shortLabels ? 0 : -45}
+                  textAnchor={shortLabels ? 'middle' : 'end'}
+                  height={shortLabels ? 30 : 60}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  tickFormatter={(value) => `${value.toFixed(1)}`}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="solarDirectUse" stackId="solar" fill="var(--color-solarDirectUse)" />
+                <Bar dataKey="solarStored" stackId="solar" fill="var(--color-solarStored)" />
+                <Bar dataKey="solarExported" stackId="solar" fill="var(--color-solarExported)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import Link from 'next/link';
+import type { Site } from '@/types/site';
+
+interface SiteSelectorProps {
+  sites: Site[];
+  siteId: number;
+  /** Page the links point to; the selected site is passed as `?site=` */
+  basePath: string;
+}
+
+/**
+ * Switches between sites by linking to the same page with another `site` parameter.
+ * Renders nothing for single-site installations.
+ */
+export function SiteSelector({ sites, siteId, basePath }: SiteSelectorProps) {
+  if (sites.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 flex gap-2" role="navigation" aria-label="Sites">
+      {sites.map((site) => (
+        <Link
+          key={site.id}
+          href={`${basePath}?site=${site.id}`}
+          aria-current={site.id === siteId ? 'page' : undefined}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            site.id === siteId
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted text-muted-foreground hover:bg-muted/80'
+          }`}
+        >
+          {site.name}
+        </Link>
+      ))}
+    </div>
+  );
+}
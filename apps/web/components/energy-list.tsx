@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useRef, useState, useDeferredValue, startTransition } from 'react';
+import { useRef, useDeferredValue } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -11,16 +11,14 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { EnergyData, EnergyHistoryEntry } from '@/types/energy';
+import type { EnergyHistoryEntry } from '@/types/energy';
 
-interface EnergyResponse {
-  current: EnergyData;
+interface EnergyListProps {
   history: EnergyHistoryEntry[];
+  error: string | null;
 }
 
-export function EnergyList() {
-  const [history, setHistory] = useState<EnergyHistoryEntry[]>([]);
-  const [error, setError] = useState<string | null>(null);
+export function EnergyList({ history, error }: EnergyListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
 
   // Defer history updates to prevent synchronous flushes during render
@@ -34,39 +32,6 @@ export function EnergyList() {
     overscan: 10,
   });
 
-  useEffect(() => {
-    const eventSource = new EventSource('/api/energy');
-
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data) as EnergyResponse;
-        // Wrap state updates in startTransition to mark them as non-urgent
-        // This prevents synchronous flushes that cause flushSync errors
-        startTransition(() => {
-          setHistory(data.history);
-          setError(null);
-        });
-      } catch (err) {
-        console.error('Error parsing SSE data:', err);
-        startTransition(() => {
-          setError('Failed to parse energy data');
-        });
-      }
-    };
-
-    eventSource.onerror = (err) => {
-      console.error('SSE error:', err);
-      startTransition(() => {
-        setError('Connection error. Make sure the MQTT broker is running.');
-      });
-      eventSource.close();
-    };
-
-    return () => {
-      eventSource.close();
-    };
-  }, []);
-
   const formatTimestamp = (timestamp: number): string => {
     // Validate timestamp is a valid number
     if (timestamp === null || timestamp === undefined || isNaN(timestamp)) {
@@ -119,9 +84,12 @@ export function EnergyList() {
                 <div className="flex-1 h-10 px-2 flex items-center justify-end font-medium text-foreground border-r">
                   Car
                 </div>
-                <div className="flex-1 h-10 px-2 flex items-center justify-end font-medium text-foreground">
+                <div className="flex-1 h-10 px-2 flex items-center justify-end font-medium text-foreground border-r">
                   Solar
                 </div>
+                <div className="flex-1 h-10 px-2 flex items-center justify-end font-medium text-foreground">
+                  Battery
+                </div>
               </div>
             </div>
             <div
@@ -168,9 +136,17 @@ export function EnergyList() {
                         <div className="flex-1 px-2 flex items-center justify-end border-r">
                           {formatWatts(entry.car)}
                         </div>
-                        <div className="flex-1 px-2 flex items-center justify-end">
+                        <div className="flex-1 px-2 flex items-center justify-end border-r">
                           {formatWatts(entry.solar)}
                         </div>
+                        <div className="flex-1 px-2 flex items-center justify-end">
+                          {formatWatts(entry.battery)}
+                          {entry.battery_soc !== null && entry.battery_soc !== undefined && (
+                            <span className="ml-1 text-muted-foreground">
+                              ({entry.battery_soc.toFixed(0)}%)
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
                   );
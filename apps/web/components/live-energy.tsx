@@ -0,0 +1,26 @@
+'use client';
+
+import { useLiveEnergy } from '@/hooks/useLiveEnergy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+import { EnergyList } from './energy-list';
+import { LivePowerFlow } from './live-energy/LivePowerFlow';
+
+interface LiveEnergyProps {
+  siteId?: number;
+}
+
+/**
+ * Live power flow and reading history of a site, sharing one connection to the live stream.
+ */
+export function LiveEnergy({ siteId = DEFAULT_SITE_ID }: LiveEnergyProps) {
+  const { current, history, error } = useLiveEnergy(siteId);
+
+  return (
+    <>
+      <div className="container mx-auto p-6 pb-0 max-w-6xl">
+        <LivePowerFlow current={current} error={error} />
+      </div>
+      <EnergyList history={history} error={error} />
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { EnergyHistoryEntry } from '@/types/energy';
+
+// Readings arrive every few seconds; older ones no longer describe the current power flow
+export const STALE_AFTER_SECONDS = 60;
+
+// Below this power a line is shown as idle
+const MIN_ACTIVE_WATTS = 10;
+
+type PowerChannel = 'solar' | 'grid' | 'car' | 'battery';
+
+const HOME_POSITION = { x: 200, y: 150 };
+const NODE_RADIUS = 32;
+
+const NODES: Record<PowerChannel, { label: string; x: number; y: number; color: string }> = {
+  solar: { label: 'Solar', x: 200, y: 40, color: 'hsl(var(--chart-1))' },
+  grid: { label: 'Grid', x: 60, y: 150, color: 'hsl(var(--chart-2))' },
+  car: { label: 'Car', x: 340, y: 150, color: 'hsl(var(--chart-5))' },
+  battery: { label: 'Battery', x: 200, y: 250, color: 'hsl(var(--chart-3))' },
+};
+
+export interface PowerLine {
+  channel: PowerChannel;
+  watts: number;
+  /** Whether power flows from the channel to the house (otherwise from the house to the channel) */
+  towardsHome: boolean;
+  /** Direction label, e.g. 'Import' or 'Charging' */
+  direction: string;
+}
+
+/**
+ * Derives the power flowing between each channel and the house from a reading.
+ * Grid power is positive when importing, battery power positive when charging.
+ * @param reading - Live reading (W)
+ * @returns One line per channel
+ */
+export function getPowerLines(reading: EnergyHistoryEntry): PowerLine[] {
+  return [
+    { channel: 'solar', watts: Math.max(reading.solar, 0), towardsHome: true, direction: 'Producing' },
+    {
+      channel: 'grid',
+      watts: Math.abs(reading.grid),
+      towardsHome: reading.grid >= 0,
+      direction: reading.grid >= 0 ? 'Import' : 'Export',
+    },
+    { channel: 'car', watts: Math.max(reading.car, 0), towardsHome: false, direction: 'Charging' },
+    {
+      channel: 'battery',
+      watts: Math.abs(reading.battery),
+      towardsHome: reading.battery < 0,
+      direction: reading.battery < 0 ? 'Discharging' : 'Charging',
+    },
+  ];
+}
+
+function formatWatts(watts: number): string {
+  if (watts >= 1000) {
+    return `${(watts / 1000).toFixed(2)} kW`;
+  }
+  return `${watts.toFixed(0)} W`;
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 120) {
+    return `${seconds} s`;
+  }
+  if (seconds < 7200) {
+    return `${Math.floor(seconds / 60)} min`;
+  }
+  return `${Math.floor(seconds / 3600)} h`;
+}
+
+/**
+ * Returns the current time (Unix seconds), updated every few seconds.
+ */
+function useNow(intervalMs: number = 5000): number {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
+
+export interface LivePowerFlowProps {
+  current: EnergyHistoryEntry | null;
+  error: string | null;
+  staleAfterSeconds?: number;
+}
+
+/**
+ * Animated diagram of the power currently flowing between solar, grid, battery, car and the house.
+ * Lines are animated in the direction of the flow; when the latest reading is older than `staleAfterSeconds`, the
+ * animation stops and the age of the reading is shown.
+ */
+export function LivePowerFlow({ current, error, staleAfterSeconds = STALE_AFTER_SECONDS }: LivePowerFlowProps) {
+  const now = useNow();
+  const age = current ? Math.max(now - current.timestamp, 0) : null;
+  const stale = age !== null && age > staleAfterSeconds;
+  const lines = current ? getPowerLines(current) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Live Power Flow</CardTitle>
+            <CardDescription>Power currently flowing between solar, grid, battery, car and the house</CardDescription>
+          </div>
+          {age !== null && stale && (
+            <span className="rounded-md bg-destructive/10 px-2 py-1 text-sm text-destructive" role="status">
+              No new reading for {formatAge(age)}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-3 bg-destructive/10 text-destructive rounded-md">
+            {error}
+          </div>
+        )}
+        {!current ? (
+          <div className="flex items-center justify-center h-[310px]">
+            <p className="text-muted-foreground">Waiting for live data...</p>
+          </div>
+        ) : (
+          <svg
+            viewBox="0 0 400 310"
+            className={`mx-auto h-[310px] w-full max-w-xl ${stale ? 'opacity-50' : ''}`}
+            role="img"
+            aria-label="Live power flow"
+          >
+            {lines.map((line) => {
+              const node = NODES[line.channel];
+              const active = line.watts >= MIN_ACTIVE_WATTS;
+              const [from, to] = line.towardsHome ? [node, HOME_POSITION] : [HOME_POSITION, node];
+              return (
+                <path
+                  key={line.channel}
+                  d={`M ${from.x} ${from.y} L ${to.x} ${to.y}`}
+                  data-channel={line.channel}
+                  data-direction={active ? (line.towardsHome ? 'in' : 'out') : 'idle'}
+                  stroke={active ? node.color : 'hsl(var(--muted-foreground))'}
+                  strokeOpacity={active ? 1 : 0.3}
+                  strokeWidth={3}
+                  strokeDasharray={active ? '8 8' : undefined}
+                  fill="none"
+                >
+                  {active && !stale && (
+                    <animate attributeName="stroke-dashoffset" from="16" to="0" dur="0.8s" repeatCount="indefinite" />
+                  )}
+                </path>
+              );
+            })}
+
+            <circle cx={HOME_POSITION.x} cy={HOME_POSITION.y} r={NODE_RADIUS} className="fill-card stroke-foreground" />
+            <text x={HOME_POSITION.x} y={HOME_POSITION.y - 4} textAnchor="middle" className="fill-foreground text-xs">
+              House
+            </text>
+            <text x={HOME_POSITION.x} y={HOME_POSITION.y + 12} textAnchor="middle" className="fill-foreground text-xs font-semibold">
+              {formatWatts(Math.max(current.home, 0))}
+            </text>
+
+            {lines.map((line) => {
+              const node = NODES[line.channel];
+              return (
+                <g key={line.channel}>
+                  <circle cx={node.x} cy={node.y} r={NODE_RADIUS} className="fill-card" stroke={node.color} strokeWidth={2} />
+                  <text x={node.x} y={node.y - 4} textAnchor="middle" className="fill-foreground text-xs">
+                    {node.label}
+                  </text>
+                  <text x={node.x} y={node.y + 12} textAnchor="middle" className="fill-foreground text-xs font-semibold">
+                    {formatWatts(line.watts)}
+                  </text>
+                  {line.watts >= MIN_ACTIVE_WATTS && (
+                    <text
+                      x={node.x}
+                      y={node.y + NODE_RADIUS + 14}
+                      textAnchor="middle"
+                      className="fill-muted-foreground text-xs"
+                    >
+                      {line.channel === 'battery' && current.battery_soc !== null
+                        ? `${line.direction} (${current.battery_soc.toFixed(0)}%)`
+                        : line.direction}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
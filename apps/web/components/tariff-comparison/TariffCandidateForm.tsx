@@ -0,0 +1,246 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ALL_TARIFF_DAYS, TARIFF_DAYS } from '@/lib/tariffs';
+import type { TariffCandidate, TariffType } from '@/types/energy';
+
+type TariffPeriod = TariffCandidate['consuming_periods'][number];
+
+interface TariffCandidateFormProps {
+  candidate: TariffCandidate;
+  /** Position of the candidate, used for the element ids */
+  index: number;
+  onChange: (candidate: TariffCandidate) => void;
+  onRemove?: () => void;
+}
+
+function formatTimeFromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Editor of a candidate tariff: prices, consuming periods, fees and taxes as on the settings page.
+ * Seasons and holidays of the periods are kept as they are.
+ */
+export function TariffCandidateForm({ candidate, index, onChange, onRemove }: TariffCandidateFormProps) {
+  const id = (field: string) => `tariff-${index}-${field}`;
+  const periods = candidate.consuming_periods;
+
+  const update = (changes: Partial<TariffCandidate>) => onChange({ ...candidate, ...changes });
+  const updateNumber = (field: keyof TariffCandidate, value: string) => update({ [field]: parseFloat(value) || 0 });
+
+  const updatePeriod = (periodIndex: number, changes: Partial<TariffPeriod>) => {
+    update({
+      consuming_periods: periods.map((period, i) => (i === periodIndex ? { ...period, ...changes } : period)),
+    });
+  };
+
+  const addPeriod = () => {
+    update({
+      consuming_periods: [...periods, { start_time: 0, end_time: 1439, price: 0, days_of_week: ALL_TARIFF_DAYS }],
+    });
+  };
+
+  return (
+    <div className="p-4 border rounded-md space-y-4">
+      <div className="flex gap-2 items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={id('name')}>Name</Label>
+          <Input
+            id={id('name')}
+            value={candidate.name}
+            onChange={(e) => update({ name: e.target.value })}
+            required
+          />
+        </div>
+        {onRemove && (
+          <Button type="button" variant="outline" size="sm" onClick={onRemove}>
+            Remove Tariff
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-end">
+        <div className="w-32 space-y-2">
+          <Label htmlFor={id('producing-price')} className="text-xs">Feed-In (€/kWh)</Label>
+          <Input
+            id={id('producing-price')}
+            type="number"
+            step="0.0001"
+            min="0"
+            value={candidate.producing_price}
+            onChange={(e) => updateNumber('producing_price', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">Tariff Type</Label>
+          <div className="flex gap-2" role="group" aria-label={`Tariff type of ${candidate.name}`}>
+            {(['fixed', 'dynamic'] as TariffType[]).map((type) => (
+              <Button
+                key={type}
+                type="button"
+                variant={(candidate.tariff_type ?? 'fixed') === type ? 'default' : 'outline'}
+                size="sm"
+                aria-pressed={(candidate.tariff_type ?? 'fixed') === type}
+                onClick={() => update({ tariff_type: type })}
+              >
+                {type === 'fixed' ? 'Fixed' : 'Dynamic (Spot Price)'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {candidate.tariff_type === 'dynamic' && (
+          <>
+            <div className="w-32 space-y-2">
+              <Label htmlFor={id('spot-markup')} className="text-xs">Markup (€/kWh)</Label>
+              <Input
+                id={id('spot-markup')}
+                type="number"
+                step="0.0001"
+                value={candidate.spot_markup ?? 0}
+                onChange={(e) => updateNumber('spot_markup', e.target.value)}
+              />
+            </div>
+            <div className="w-32 space-y-2">
+              <Label htmlFor={id('grid-fee')} className="text-xs">Grid Fee (€/kWh)</Label>
+              <Input
+                id={id('grid-fee')}
+                type="number"
+                step="0.0001"
+                min="0"
+                value={candidate.grid_fee ?? 0}
+                onChange={(e) => updateNumber('grid_fee', e.target.value)}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <div className="w-32 space-y-2">
+          <Label htmlFor={id('base-fee')} className="text-xs">Base Fee (€/month)</Label>
+          <Input
+            id={id('base-fee')}
+            type="number"
+            step="0.01"
+            min="0"
+            value={candidate.base_fee ?? 0}
+            onChange={(e) => updateNumber('base_fee', e.target.value)}
+          />
+        </div>
+        <div className="w-32 space-y-2">
+          <Label htmlFor={id('meter-fee')} className="text-xs">Meter Rental (€/month)</Label>
+          <Input
+            id={id('meter-fee')}
+            type="number"
+            step="0.01"
+            min="0"
+            value={candidate.meter_fee ?? 0}
+            onChange={(e) => updateNumber('meter_fee', e.target.value)}
+          />
+        </div>
+        <div className="w-32 space-y-2">
+          <Label htmlFor={id('consumption-levy')} className="text-xs">Levies (€/kWh)</Label>
+          <Input
+            id={id('consumption-levy')}
+            type="number"
+            step="0.0001"
+            min="0"
+            value={candidate.consumption_levy ?? 0}
+            onChange={(e) => updateNumber('consumption_levy', e.target.value)}
+          />
+        </div>
+        <div className="w-24 space-y-2">
+          <Label htmlFor={id('vat-rate')} className="text-xs">VAT (%)</Label>
+          <Input
+            id={id('vat-rate')}
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={Math.round((candidate.vat_rate ?? 0) * 10000) / 100}
+            onChange={(e) => update({ vat_rate: (parseFloat(e.target.value) || 0) / 100 })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Consuming Price Periods (€/kWh)</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addPeriod}>
+            Add Period
+          </Button>
+        </div>
+        {periods.map((period, periodIndex) => (
+          <div key={periodIndex} className="flex flex-wrap gap-2 items-end">
+            <div className="w-28 space-y-2">
+              <Label className="text-xs">Start Time</Label>
+              <Input
+                type="time"
+                value={formatTimeFromMinutes(period.start_time)}
+                onChange={(e) => updatePeriod(periodIndex, { start_time: parseTime(e.target.value) })}
+                required
+              />
+            </div>
+            <div className="w-28 space-y-2">
+              <Label className="text-xs">End Time</Label>
+              <Input
+                type="time"
+                value={formatTimeFromMinutes(period.end_time)}
+                onChange={(e) => updatePeriod(periodIndex, { end_time: parseTime(e.target.value) })}
+                required
+              />
+            </div>
+            <div className="w-28 space-y-2">
+              <Label className="text-xs">Price (€/kWh)</Label>
+              <Input
+                type="number"
+                step="0.0001"
+                min="0"
+                value={period.price}
+                onChange={(e) => updatePeriod(periodIndex, { price: parseFloat(e.target.value) || 0 })}
+                required
+              />
+            </div>
+            <div className="flex gap-1" role="group" aria-label={`Days of period ${periodIndex + 1}`}>
+              {TARIFF_DAYS.map((day, dayIndex) => {
+                const days = period.days_of_week ?? ALL_TARIFF_DAYS;
+                const selected = (days & (1 << dayIndex)) !== 0;
+                return (
+                  <Button
+                    key={day}
+                    type="button"
+                    variant={selected ? 'default' : 'outline'}
+                    size="sm"
+                    aria-pressed={selected}
+                    onClick={() => updatePeriod(periodIndex, { days_of_week: days ^ (1 << dayIndex) })}
+                  >
+                    {day}
+                  </Button>
+                );
+              })}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ consuming_periods: periods.filter((_, i) => i !== periodIndex) })}
+              disabled={periods.length === 1}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ACTUAL_TARIFF_NAME } from '@/lib/tariff-comparison';
+import type { TariffComparison } from '@/types/energy';
+
+function formatKwh(kwh: number): string {
+  return `${kwh.toFixed(0)} kWh`;
+}
+
+function formatCost(cost: number): string {
+  return `${cost < 0 ? '-' : ''}€${Math.abs(cost).toFixed(2)}`;
+}
+
+function formatDifference(difference: number): string {
+  return `${difference > 0 ? '+' : difference < 0 ? '-' : '±'}€${Math.abs(difference).toFixed(2)}`;
+}
+
+interface TariffComparisonTableProps {
+  tariffs: TariffComparison[];
+}
+
+/**
+ * Costs of each tariff over the whole range, compared with the actual tariff if the site has one.
+ */
+export function TariffSummaryTable({ tariffs }: TariffComparisonTableProps) {
+  const actual = tariffs.find((tariff) => tariff.name === ACTUAL_TARIFF_NAME);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tariff</TableHead>
+          <TableHead className="text-right">Grid</TableHead>
+          <TableHead className="text-right">Energy</TableHead>
+          <TableHead className="text-right">Fees</TableHead>
+          <TableHead className="text-right">Feed-In</TableHead>
+          <TableHead className="text-right">Net</TableHead>
+          <TableHead className="text-right">Gross</TableHead>
+          {actual && <TableHead className="text-right">vs. Actual</TableHead>}
+          <TableHead className="text-right">Car Shift Savings</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tariffs.map((tariff, index) => (
+          <TableRow key={index}>
+            <TableCell className="font-medium">{tariff.name}</TableCell>
+            <TableCell className="text-right">{formatKwh(tariff.total.consumption)}</TableCell>
+            <TableCell className="text-right">{formatCost(tariff.total.energyCost)}</TableCell>
+            <TableCell className="text-right">{formatCost(tariff.total.fixedFees)}</TableCell>
+            <TableCell className="text-right">{formatCost(-tariff.total.feedInRevenue)}</TableCell>
+            <TableCell className="text-right">{formatCost(tariff.total.net)}</TableCell>
+            <TableCell className="text-right">{formatCost(tariff.total.gross)}</TableCell>
+            {actual && (
+              <TableCell className="text-right">
+                {tariff === actual ? '–' : formatDifference(tariff.total.gross - actual.total.gross)}
+              </TableCell>
+            )}
+            <TableCell className="text-right">{formatCost(tariff.total.carShiftSavings)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Gross cost of each tariff per month.
+ */
+export function TariffMonthTable({ tariffs }: TariffComparisonTableProps) {
+  const months = tariffs[0]?.months ?? [];
+  if (months.length === 0) {
+    return <p className="text-muted-foreground">No months to compare.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          {tariffs.map((tariff, index) => (
+            <TableHead key={index} className="text-right">{tariff.name}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {months.map((month, monthIndex) => (
+          <TableRow key={month.timestamp}>
+            <TableCell className="font-medium">{month.label}</TableCell>
+            {tariffs.map((tariff, index) => (
+              <TableCell key={index} className="text-right">
+                {formatCost(tariff.months[monthIndex]?.gross ?? 0)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
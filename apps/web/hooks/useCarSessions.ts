@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CarSessionsResponse } from '@/types/car';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+export interface UseCarSessionsReturn {
+  sessions: CarSessionsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to fetch the detected car charging sessions of a site and their monthly summaries.
+ * The sessions are fetched again when the site changes.
+ */
+export function useCarSessions(siteId: number = DEFAULT_SITE_ID): UseCarSessionsReturn {
+  const [sessions, setSessions] = useState<CarSessionsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/car/sessions?site=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch car charging sessions');
+        }
+        setSessions((await response.json()) as CarSessionsResponse);
+      } catch (err) {
+        console.error('Error fetching car charging sessions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch car charging sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [siteId]);
+
+  return {
+    sessions,
+    loading,
+    error,
+  };
+}
@@ -1,9 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
-import type { AggregatedDataPoint } from '@/types/energy';
-import type { EnergySettings } from '@/types/energy';
-import type { EnergyService } from '@/lib/services/energy-service';
+import type { AggregatedDataPoint, CostSeries, EnergyCostsResponse } from '@/types/energy';
 import type { EnergyDataState } from './useEnergyData';
 import type { DisplayMode } from '@/components/energy-dashboard/TimeframeSelector';
 
@@ -20,84 +18,83 @@ export interface EnergyCostCalculationsReturn {
   carTotalValue: number;
   solarChartData: ChartDataPoint[];
   solarTotalValue: number;
+  batteryChargeChartData: ChartDataPoint[];
+  batteryChargeTotalValue: number;
+  batteryDischargeChartData: ChartDataPoint[];
+  batteryDischargeTotalValue: number;
+  homeChartData: ChartDataPoint[];
+  homeTotalValue: number;
+  /** Monthly fees prorated over the range (net €, 0 in kWh mode), included in consumptionTotalValue */
+  fixedFees: number;
+  /** Totals of the consumption-like series including VAT (€); equal to the totals in kWh mode */
+  consumptionGrossValue: number;
+  carGrossValue: number;
+  batteryDischargeGrossValue: number;
+  homeGrossValue: number;
 }
 
-type CalculationMethod = 'consumption' | 'feedIn';
-
-interface EnergyTypeConfig {
-  calculationMethod: CalculationMethod;
-  requiresTimestamp: boolean;
-}
-
-const ENERGY_TYPE_CONFIG: Record<
-  'consumption' | 'feedIn' | 'car' | 'solar',
-  EnergyTypeConfig
-> = {
-  consumption: { calculationMethod: 'consumption', requiresTimestamp: true },
-  feedIn: { calculationMethod: 'feedIn', requiresTimestamp: false },
-  car: { calculationMethod: 'consumption', requiresTimestamp: true },
-  solar: { calculationMethod: 'feedIn', requiresTimestamp: false },
+const EMPTY_ENERGY_DATA: EnergyDataState = {
+  data: [],
+  total: 0,
+  loading: false,
+  error: null,
 };
 
 /**
  * Transforms energy data points to chart data with value field.
- * In 'kwh' mode, value equals kwh. In 'cost' mode, calculates cost using energy service.
+ * In 'kwh' mode, value equals kwh. In 'cost' mode, value is the server-side cost of the data point (0 while the
+ * costs are not available).
  */
 function transformDataPoints(
   data: AggregatedDataPoint[],
   displayMode: DisplayMode,
-  settings: EnergySettings | null,
-  energyService: EnergyService,
-  config: EnergyTypeConfig
+  serverCosts?: CostSeries
 ): ChartDataPoint[] {
-  return data.map((point) => {
-    if (displayMode === 'kwh') {
-      return {
-        ...point,
-        value: point.kwh,
-      };
-    }
-
-    // Calculate cost
-    let cost = 0;
-    if (settings) {
-      if (config.calculationMethod === 'consumption') {
-        cost = energyService.calculateConsumptionCost(
-          point.kwh,
-          point.timestamp,
-          settings
-        );
-      } else {
-        // feedIn
-        cost = energyService.calculateFeedInCost(point.kwh, settings);
-      }
-    }
-
-    return {
+  if (displayMode === 'kwh') {
+    return data.map((point) => ({
       ...point,
-      value: cost,
-    };
-  });
+      value: point.kwh,
+    }));
+  }
+
+  const costsByTimestamp = new Map(serverCosts?.data.map((point) => [point.timestamp, point.cost]));
+  return data.map((point) => ({
+    ...point,
+    value: costsByTimestamp.get(point.timestamp) ?? 0,
+  }));
 }
 
 /**
  * Calculates total value based on display mode.
- * In 'kwh' mode, returns the original total. In 'cost' mode, sums all chart data values.
+ * In 'kwh' mode, returns the original total. In 'cost' mode, returns the server-side net cost of the series.
  */
 function calculateTotalValue(
-  chartData: ChartDataPoint[],
   originalTotal: number,
-  displayMode: DisplayMode
+  displayMode: DisplayMode,
+  serverCosts?: CostSeries
 ): number {
   if (displayMode === 'kwh') {
     return originalTotal;
   }
-  return chartData.reduce((sum, point) => sum + point.value, 0);
+  return serverCosts?.cost ?? 0;
 }
 
 /**
- * Custom hook to transform energy data and calculate costs/totals based on display mode.
- * Handles all 4 energy types (consumption, feedIn, car, solar) with appropriate cost calculations.
+ * Determines the gross value of a total: the server-side gross cost in 'cost' mode, the total unchanged in 'kwh' mode.
+ */
+function calculateGrossValue(totalValue: number, displayMode: DisplayMode, serverGross?: number): number {
+  if (displayMode === 'kwh') {
+    return totalValue;
+  }
+  return serverGross ?? totalValue;
+}
+
+/**
+ * Custom hook to transform energy data and select costs/totals based on display mode.
+ * Handles all energy types (consumption, feedIn, car, solar, battery charge/discharge, home).
+ * Costs are those of `costs`, priced by the server with the settings and spot prices applying at each minute; while
+ * they are not available, cost values are 0 and callers show the loading or error state of the costs instead.
+ * Fixed fees are added to the grid consumption costs. All costs are net; the gross values include VAT.
  */
 export function useEnergyCostCalculations(
   consumption: EnergyDataState,
@@ -105,85 +102,86 @@ export function useEnergyCostCalculations(
   car: EnergyDataState,
   solar: EnergyDataState,
   displayMode: DisplayMode,
-  settings: EnergySettings | null,
-  energyService: EnergyService
+  costs: EnergyCostsResponse | null,
+  batteryCharge: EnergyDataState = EMPTY_ENERGY_DATA,
+  batteryDischarge: EnergyDataState = EMPTY_ENERGY_DATA,
+  home: EnergyDataState = EMPTY_ENERGY_DATA
 ): EnergyCostCalculationsReturn {
   // Transform consumption data
   const consumptionChartData = useMemo(
-    () =>
-      transformDataPoints(
-        consumption.data,
-        displayMode,
-        settings,
-        energyService,
-        ENERGY_TYPE_CONFIG.consumption
-      ),
-    [consumption.data, displayMode, settings, energyService]
+    () => transformDataPoints(consumption.data, displayMode, costs?.consumption),
+    [consumption.data, displayMode, costs]
   );
 
-  const consumptionTotalValue = useMemo(
-    () =>
-      calculateTotalValue(
-        consumptionChartData,
-        consumption.total,
-        displayMode
-      ),
-    [consumptionChartData, consumption.total, displayMode]
-  );
+  // Fixed fees of the range, billed with the grid consumption
+  const fixedFees = displayMode === 'cost' ? costs?.fixedFees.cost ?? 0 : 0;
+
+  const consumptionTotalValue = calculateTotalValue(consumption.total, displayMode, costs?.consumption) + fixedFees;
 
   // Transform feedIn data
   const feedInChartData = useMemo(
-    () =>
-      transformDataPoints(
-        feedIn.data,
-        displayMode,
-        settings,
-        energyService,
-        ENERGY_TYPE_CONFIG.feedIn
-      ),
-    [feedIn.data, displayMode, settings, energyService]
+    () => transformDataPoints(feedIn.data, displayMode, costs?.feedIn),
+    [feedIn.data, displayMode, costs]
   );
 
-  const feedInTotalValue = useMemo(
-    () => calculateTotalValue(feedInChartData, feedIn.total, displayMode),
-    [feedInChartData, feedIn.total, displayMode]
-  );
+  const feedInTotalValue = calculateTotalValue(feedIn.total, displayMode, costs?.feedIn);
 
   // Transform car data
   const carChartData = useMemo(
-    () =>
-      transformDataPoints(
-        car.data,
-        displayMode,
-        settings,
-        energyService,
-        ENERGY_TYPE_CONFIG.car
-      ),
-    [car.data, displayMode, settings, energyService]
+    () => transformDataPoints(car.data, displayMode, costs?.car),
+    [car.data, displayMode, costs]
   );
 
-  const carTotalValue = useMemo(
-    () => calculateTotalValue(carChartData, car.total, displayMode),
-    [carChartData, car.total, displayMode]
-  );
+  const carTotalValue = calculateTotalValue(car.total, displayMode, costs?.car);
 
   // Transform solar data
   const solarChartData = useMemo(
-    () =>
-      transformDataPoints(
-        solar.data,
-        displayMode,
-        settings,
-        energyService,
-        ENERGY_TYPE_CONFIG.solar
-      ),
-    [solar.data, displayMode, settings, energyService]
+    () => transformDataPoints(solar.data, displayMode, costs?.solar),
+    [solar.data, displayMode, costs]
+  );
+
+  const solarTotalValue = calculateTotalValue(solar.total, displayMode, costs?.solar);
+
+  // Transform battery charge data
+  const batteryChargeChartData = useMemo(
+    () => transformDataPoints(batteryCharge.data, displayMode, costs?.batteryCharge),
+    [batteryCharge.data, displayMode, costs]
+  );
+
+  const batteryChargeTotalValue = calculateTotalValue(batteryCharge.total, displayMode, costs?.batteryCharge);
+
+  // Transform battery discharge data
+  const batteryDischargeChartData = useMemo(
+    () => transformDataPoints(batteryDischarge.data, displayMode, costs?.batteryDischarge),
+    [batteryDischarge.data, displayMode, costs]
   );
 
-  const solarTotalValue = useMemo(
-    () => calculateTotalValue(solarChartData, solar.total, displayMode),
-    [solarChartData, solar.total, displayMode]
+  const batteryDischargeTotalValue = calculateTotalValue(
+    batteryDischarge.total,
+    displayMode,
+    costs?.batteryDischarge
+  );
+
+  // Transform home consumption data
+  const homeChartData = useMemo(
+    () => transformDataPoints(home.data, displayMode, costs?.home),
+    [home.data, displayMode, costs]
+  );
+
+  const homeTotalValue = calculateTotalValue(home.total, displayMode, costs?.home);
+
+  const consumptionGrossValue = calculateGrossValue(
+    consumptionTotalValue,
+    displayMode,
+    costs ? costs.consumption.gross + costs.fixedFees.gross : undefined
+  );
+  const carGrossValue = calculateGrossValue(carTotalValue, displayMode, costs?.car.gross);
+  const batteryDischargeGrossValue = calculateGrossValue(
+    batteryDischargeTotalValue,
+    displayMode,
+    costs?.batteryDischarge.gross
   );
+  const homeGrossValue = calculateGrossValue(homeTotalValue, displayMode, costs?.home.gross);
 
   return {
     consumptionChartData,
@@ -194,6 +192,17 @@ export function useEnergyCostCalculations(
     carTotalValue,
     solarChartData,
     solarTotalValue,
+    batteryChargeChartData,
+    batteryChargeTotalValue,
+    batteryDischargeChartData,
+    batteryDischargeTotalValue,
+    homeChartData,
+    homeTotalValue,
+    fixedFees,
+    consumptionGrossValue,
+    carGrossValue,
+    batteryDischargeGrossValue,
+    homeGrossValue,
   };
 }
 
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { EnergyCostsResponse } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+import type { Timeframe } from './useEnergyData';
+
+export interface UseEnergyCostsReturn {
+  costs: EnergyCostsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to fetch the server-side priced series of a site (see `/api/energy/costs`).
+ * Only fetches when enabled, e.g. in cost mode.
+ */
+export function useEnergyCosts(
+  timeframe: Timeframe,
+  siteId: number = DEFAULT_SITE_ID,
+  enabled: boolean = true
+): UseEnergyCostsReturn {
+  const [costs, setCosts] = useState<EnergyCostsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setCosts(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const fetchCosts = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/energy/costs?timeframe=${timeframe}&site=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch energy costs');
+        }
+        setCosts((await response.json()) as EnergyCostsResponse);
+      } catch (err) {
+        console.error('Error fetching energy costs:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch energy costs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCosts();
+  }, [timeframe, siteId, enabled]);
+
+  return {
+    costs,
+    loading,
+    error,
+  };
+}
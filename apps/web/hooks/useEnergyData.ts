@@ -4,8 +4,10 @@ import { useEffect, useState } from 'react';
 import type { 
   AggregatedDataPoint,
   AggregatedResponse,
-  GridAggregatedResponse
+  GridAggregatedResponse,
+  BatteryAggregatedResponse
 } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 export type Timeframe = 'day' | 'yesterday' | 'week' | 'month';
 
@@ -21,13 +23,19 @@ export interface UseEnergyDataReturn {
   feedIn: EnergyDataState;
   car: EnergyDataState;
   solar: EnergyDataState;
+  batteryCharge: EnergyDataState;
+  batteryDischarge: EnergyDataState;
+  home: EnergyDataState;
 }
 
 /**
- * Custom hook to fetch all energy data (consumption, feed-in, car, solar) in parallel.
- * All API calls are made when the timeframe changes.
+ * Custom hook to fetch all energy data (consumption, feed-in, car, solar, battery, home) of a site in parallel.
+ * All API calls are made when the timeframe or site changes.
  */
-export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
+export function useEnergyData(
+  timeframe: Timeframe,
+  siteId: number = DEFAULT_SITE_ID
+): UseEnergyDataReturn {
   const [consumption, setConsumption] = useState<EnergyDataState>({
     data: [],
     total: 0,
@@ -52,6 +60,24 @@ export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
     loading: true,
     error: null,
   });
+  const [batteryCharge, setBatteryCharge] = useState<EnergyDataState>({
+    data: [],
+    total: 0,
+    loading: true,
+    error: null,
+  });
+  const [batteryDischarge, setBatteryDischarge] = useState<EnergyDataState>({
+    data: [],
+    total: 0,
+    loading: true,
+    error: null,
+  });
+  const [home, setHome] = useState<EnergyDataState>({
+    data: [],
+    total: 0,
+    loading: true,
+    error: null,
+  });
 
   useEffect(() => {
     // Fetch all data in parallel
@@ -61,9 +87,12 @@ export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
       setFeedIn((prev) => ({ ...prev, loading: true, error: null }));
       setCar((prev) => ({ ...prev, loading: true, error: null }));
       setSolar((prev) => ({ ...prev, loading: true, error: null }));
+      setBatteryCharge((prev) => ({ ...prev, loading: true, error: null }));
+      setBatteryDischarge((prev) => ({ ...prev, loading: true, error: null }));
+      setHome((prev) => ({ ...prev, loading: true, error: null }));
 
       // Fetch grid data (consumption and feed-in)
-      const gridPromise = fetch(`/api/energy/aggregated/grid?timeframe=${timeframe}`)
+      const gridPromise = fetch(`/api/energy/aggregated/grid?timeframe=${timeframe}&site=${siteId}`)
         .then(async (response) => {
           if (!response.ok) {
             throw new Error('Failed to fetch aggregated data');
@@ -89,7 +118,7 @@ export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
         });
 
       // Fetch car data
-      const carPromise = fetch(`/api/energy/aggregated/car?timeframe=${timeframe}`)
+      const carPromise = fetch(`/api/energy/aggregated/car?timeframe=${timeframe}&site=${siteId}`)
         .then(async (response) => {
           if (!response.ok) {
             throw new Error('Failed to fetch car energy data');
@@ -108,7 +137,7 @@ export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
         });
 
       // Fetch solar data
-      const solarPromise = fetch(`/api/energy/aggregated/solar?timeframe=${timeframe}`)
+      const solarPromise = fetch(`/api/energy/aggregated/solar?timeframe=${timeframe}&site=${siteId}`)
         .then(async (response) => {
           if (!response.ok) {
             throw new Error('Failed to fetch solar energy data');
@@ -126,18 +155,66 @@ export function useEnergyData(timeframe: Timeframe): UseEnergyDataReturn {
           setSolar((prev) => ({ ...prev, loading: false, error: errorMessage }));
         });
 
+      // Fetch battery data (charge and discharge)
+      const batteryPromise = fetch(`/api/energy/aggregated/battery?timeframe=${timeframe}&site=${siteId}`)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error('Failed to fetch battery energy data');
+          }
+          const result = (await response.json()) as BatteryAggregatedResponse;
+          setBatteryCharge({
+            data: result.charge.data,
+            total: result.charge.total,
+            loading: false,
+            error: null,
+          });
+          setBatteryDischarge({
+            data: result.discharge.data,
+            total: result.discharge.total,
+            loading: false,
+            error: null,
+          });
+        })
+        .catch((err) => {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to load battery energy data';
+          setBatteryCharge((prev) => ({ ...prev, loading: false, error: errorMessage }));
+          setBatteryDischarge((prev) => ({ ...prev, loading: false, error: errorMessage }));
+        });
+
+      // Fetch home consumption data
+      const homePromise = fetch(`/api/energy/aggregated/home?timeframe=${timeframe}&site=${siteId}`)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error('Failed to fetch home energy data');
+          }
+          const result = (await response.json()) as AggregatedResponse;
+          setHome({
+            data: result.data,
+            total: result.total,
+            loading: false,
+            error: null,
+          });
+        })
+        .catch((err) => {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to load home energy data';
+          setHome((prev) => ({ ...prev, loading: false, error: errorMessage }));
+        });
+
       // Wait for all requests to complete (use allSettled to handle individual errors)
-      await Promise.allSettled([gridPromise, carPromise, solarPromise]);
+      await Promise.allSettled([gridPromise, carPromise, solarPromise, batteryPromise, homePromise]);
     };
 
     fetchAllData();
-  }, [timeframe]);
+  }, [timeframe, siteId]);
 
   return {
     consumption,
     feedIn,
     car,
     solar,
+    batteryCharge,
+    batteryDischarge,
+    home,
   };
 }
 
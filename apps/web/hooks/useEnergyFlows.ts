@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { EnergyFlowsResponse } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+import type { Timeframe } from './useEnergyData';
+
+export interface UseEnergyFlowsReturn {
+  flows: EnergyFlowsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to fetch the energy flows between the channels of a site.
+ * The flows are fetched again when the timeframe or site changes.
+ */
+export function useEnergyFlows(
+  timeframe: Timeframe,
+  siteId: number = DEFAULT_SITE_ID
+): UseEnergyFlowsReturn {
+  const [flows, setFlows] = useState<EnergyFlowsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchFlows = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/energy/flows?timeframe=${timeframe}&site=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch energy flows');
+        }
+        setFlows((await response.json()) as EnergyFlowsResponse);
+      } catch (err) {
+        console.error('Error fetching energy flows:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch energy flows');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFlows();
+  }, [timeframe, siteId]);
+
+  return {
+    flows,
+    loading,
+    error,
+  };
+}
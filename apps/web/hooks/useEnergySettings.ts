@@ -1,11 +1,20 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { EnergySettings, ConsumingPricePeriod } from '@/types/energy';
+import type { EnergySettings, ConsumingPricePeriod, TariffType } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 export interface EnergySettingsResponse {
   producing_price: number;
   consuming_periods: ConsumingPricePeriod[];
+  holidays?: string[];
+  tariff_type?: TariffType;
+  spot_markup?: number;
+  grid_fee?: number;
+  consumption_levy?: number;
+  base_fee?: number;
+  meter_fee?: number;
+  vat_rate?: number;
   start_date: number;
   end_date: number | null;
 }
@@ -32,14 +41,25 @@ function convertToEnergySettings(
     end_date: settings.end_date ?? null,
     updated_at: settings.start_date,
     consuming_periods: settings.consuming_periods,
+    holidays: settings.holidays ?? [],
+    tariff_type: settings.tariff_type ?? 'fixed',
+    spot_markup: settings.spot_markup ?? 0,
+    grid_fee: settings.grid_fee ?? 0,
+    consumption_levy: settings.consumption_levy ?? 0,
+    base_fee: settings.base_fee ?? 0,
+    meter_fee: settings.meter_fee ?? 0,
+    vat_rate: settings.vat_rate ?? 0,
   };
 }
 
 /**
- * Custom hook to fetch energy settings conditionally.
+ * Custom hook to fetch the energy settings of a site conditionally.
  * Only fetches when displayMode is 'cost' to avoid unnecessary API calls.
  */
-export function useEnergySettings(displayMode: 'kwh' | 'cost'): UseEnergySettingsReturn {
+export function useEnergySettings(
+  displayMode: 'kwh' | 'cost',
+  siteId: number = DEFAULT_SITE_ID
+): UseEnergySettingsReturn {
   const [settings, setSettings] = useState<EnergySettings | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,7 +70,7 @@ export function useEnergySettings(displayMode: 'kwh' | 'cost'): UseEnergySetting
         setLoading(true);
         setError(null);
         try {
-          const response = await fetch('/api/energy/settings');
+          const response = await fetch(`/api/energy/settings?site=${siteId}`);
           if (!response.ok) {
             throw new Error('Failed to fetch energy settings');
           }
@@ -72,7 +92,7 @@ export function useEnergySettings(displayMode: 'kwh' | 'cost'): UseEnergySetting
       setError(null);
       setLoading(false);
     }
-  }, [displayMode]);
+  }, [displayMode, siteId]);
 
   return {
     settings,
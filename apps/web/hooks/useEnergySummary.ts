@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { EnergySummaryResponse } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+import type { Timeframe } from './useEnergyData';
+
+export interface UseEnergySummaryReturn {
+  summary: EnergySummaryResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to fetch the self-sufficiency summary of a site.
+ * The summary is fetched again when the timeframe or site changes.
+ */
+export function useEnergySummary(
+  timeframe: Timeframe,
+  siteId: number = DEFAULT_SITE_ID
+): UseEnergySummaryReturn {
+  const [summary, setSummary] = useState<EnergySummaryResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/energy/summary?timeframe=${timeframe}&site=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch energy summary');
+        }
+        setSummary((await response.json()) as EnergySummaryResponse);
+      } catch (err) {
+        console.error('Error fetching energy summary:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch energy summary');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSummary();
+  }, [timeframe, siteId]);
+
+  return {
+    summary,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState, startTransition } from 'react';
+import type { EnergyHistoryEntry } from '@/types/energy';
+import type { LiveEnergySnapshot } from '@/types/live';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+// Matches the snapshot size sent by /api/energy
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface UseLiveEnergyReturn {
+  /** Latest reading, null until the first reading arrives */
+  current: EnergyHistoryEntry | null;
+  /** Most recent readings, newest first */
+  history: EnergyHistoryEntry[];
+  error: string | null;
+}
+
+/**
+ * Custom hook to follow the live readings of a site streamed by /api/energy.
+ * State updates are wrapped in startTransition to mark them as non-urgent, which prevents synchronous flushes
+ * (flushSync errors) in virtualized lists rendering the history.
+ */
+export function useLiveEnergy(siteId: number = DEFAULT_SITE_ID): UseLiveEnergyReturn {
+  const [current, setCurrent] = useState<EnergyHistoryEntry | null>(null);
+  const [history, setHistory] = useState<EnergyHistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const eventSource = new EventSource(`/api/energy?site=${siteId}`);
+
+    const handleParseError = (err: unknown) => {
+      console.error('Error parsing SSE data:', err);
+      startTransition(() => {
+        setError('Failed to parse energy data');
+      });
+    };
+
+    // Full history for new connections; resumed connections only receive missed readings
+    eventSource.addEventListener('snapshot', (event) => {
+      try {
+        const data = JSON.parse(event.data) as LiveEnergySnapshot;
+        startTransition(() => {
+          setHistory(data.history);
+          // The newest history entry is the snapshot's current reading, which is a placeholder without history
+          setCurrent(data.history[0] ?? null);
+          setError(null);
+        });
+      } catch (err) {
+        handleParseError(err);
+      }
+    });
+
+    eventSource.addEventListener('reading', (event) => {
+      try {
+        const reading = JSON.parse(event.data) as EnergyHistoryEntry;
+        startTransition(() => {
+          // A site reading replaces the one of the same second; a meter reporting late can add an older second
+          setHistory((previous) =>
+            [reading, ...previous.filter((entry) => entry.timestamp !== reading.timestamp)]
+              .sort((a, b) => b.timestamp - a.timestamp)
+              .slice(0, MAX_HISTORY_ENTRIES)
+          );
+          setCurrent((previous) =>
+            previous === null || reading.timestamp >= previous.timestamp ? reading : previous
+          );
+          setError(null);
+        });
+      } catch (err) {
+        handleParseError(err);
+      }
+    });
+
+    // The browser reconnects on its own (sending Last-Event-ID) unless the server refused the stream
+    eventSource.onerror = (err) => {
+      console.error('SSE error:', err);
+      const closed = eventSource.readyState === EventSource.CLOSED;
+      startTransition(() => {
+        setError(
+          closed
+            ? 'Connection error. Make sure the MQTT broker is running.'
+            : 'Connection lost. Reconnecting...'
+        );
+      });
+    };
+
+    return () => {
+      eventSource.close();
+    };
+  }, [siteId]);
+
+  return {
+    current,
+    history,
+    error,
+  };
+}
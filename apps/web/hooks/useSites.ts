@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Site } from '@/types/site';
+
+export interface UseSitesReturn {
+  sites: Site[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to fetch all sites (installations) with their meters.
+ */
+export function useSites(): UseSitesReturn {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSites = async () => {
+      try {
+        const response = await fetch('/api/sites');
+        if (!response.ok) {
+          throw new Error('Failed to fetch sites');
+        }
+        const result = (await response.json()) as { sites: Site[] };
+        setSites(result.sites);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching sites:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch sites');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSites();
+  }, []);
+
+  return {
+    sites,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TariffCandidate, TariffComparisonResponse } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+export interface UseTariffComparisonReturn {
+  comparison: TariffComparisonResponse | null;
+  loading: boolean;
+  error: string | null;
+  /** Replays the site's energy against the tariffs (see `/api/energy/tariff-comparison`) */
+  compare: (tariffs: TariffCandidate[]) => Promise<void>;
+}
+
+/**
+ * Custom hook to compare candidate tariffs with the actual tariffs of a site.
+ * Nothing is fetched until `compare` is called; the result is cleared when the site changes.
+ */
+export function useTariffComparison(siteId: number = DEFAULT_SITE_ID): UseTariffComparisonReturn {
+  const [comparison, setComparison] = useState<TariffComparisonResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setComparison(null);
+    setError(null);
+  }, [siteId]);
+
+  const compare = useCallback(async (tariffs: TariffCandidate[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/energy/tariff-comparison?site=${siteId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tariffs }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to compare tariffs');
+      }
+      setComparison((await response.json()) as TariffComparisonResponse);
+    } catch (err) {
+      console.error('Error comparing tariffs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare tariffs');
+    } finally {
+      setLoading(false);
+    }
+  }, [siteId]);
+
+  return {
+    comparison,
+    loading,
+    error,
+    compare,
+  };
+}
@@ -1,49 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceContainer } from '@/lib/services/service-container';
+import type { EnergyType } from '@/types/energy';
+import { parseAggregationRequest } from '@/lib/api/aggregation-request';
 
 /**
- * Handles aggregated energy data requests for grid, car, or solar energy types.
+ * Handles aggregated energy data requests for grid, car, solar, battery, or home energy types.
  * Extracts common request processing logic from route handlers.
+ * Range, site and granularity are read with `parseAggregationRequest`; requests with more than
+ * MAX_AGGREGATION_POINTS points per series are rejected.
  *
  * @param request - Next.js request object
- * @param type - Energy type: 'grid', 'car', or 'solar'
+ * @param type - Energy type: 'grid', 'car', 'solar', 'battery', or 'home'
  * @returns NextResponse with aggregated energy data or error
  */
 export async function handleAggregatedEnergyRequest(
   request: NextRequest,
-  type: 'grid' | 'car' | 'solar'
+  type: EnergyType
 ): Promise<NextResponse> {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const timeframe = searchParams.get('timeframe') || 'day';
-    const customStart = searchParams.get('start');
-    const customEnd = searchParams.get('end');
-
-    let start: number | undefined;
-    let end: number | undefined;
-
-    if (customStart && customEnd) {
-      start = parseInt(customStart, 10);
-      end = parseInt(customEnd, 10);
-    }
-
-    // Determine time bounds
-    let startTimestamp: number;
-    let endTimestamp: number;
-
-    if (start !== undefined && end !== undefined) {
-      startTimestamp = start;
-      endTimestamp = end;
-    } else {
-      const { getTimeframeBounds } = await import('@/lib/energy-aggregation');
-      const bounds = getTimeframeBounds(timeframe);
-      startTimestamp = bounds.start;
-      endTimestamp = bounds.end;
+    const { energyService, siteRepository } = createServiceContainer();
+    const parsed = await parseAggregationRequest(request, siteRepository);
+    if (parsed instanceof NextResponse) {
+      return parsed;
     }
 
     // Use EnergyService to get aggregated data (with caching and bucket optimization)
-    const { energyService } = createServiceContainer();
-    const result = await energyService.getAggregatedEnergyData(startTimestamp, endTimestamp, timeframe, type);
+    const result = await energyService.getAggregatedEnergyData(
+      parsed.start,
+      parsed.end,
+      parsed.timeframe,
+      type,
+      parsed.siteId,
+      parsed.timeZone,
+      parsed.granularity
+    );
 
     return NextResponse.json(result);
   } catch (error) {
@@ -54,4 +44,3 @@ export async function handleAggregatedEnergyRequest(
     );
   }
 }
-
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SiteRepository } from '@/lib/repositories/site-repository';
+import type { Granularity } from '@/types/energy';
+import { getSiteIdParam } from '@/lib/site';
+import {
+  GRANULARITIES,
+  MAX_AGGREGATION_POINTS,
+  countGranularityPoints,
+  getDefaultGranularity,
+  getFinestGranularity,
+  getTimeframeBounds,
+  isGranularity,
+} from '@/lib/energy-aggregation';
+
+/**
+ * Site and range of a request.
+ */
+export interface RangeRequest {
+  siteId: number;
+  timeZone: string;
+  timeframe: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Site, range and resolution of an aggregation request.
+ */
+export interface AggregationRequest extends RangeRequest {
+  granularity: Granularity;
+}
+
+/**
+ * Parses a timestamp query parameter.
+ * @param value - Parameter value
+ * @returns Unix seconds, undefined if the parameter is missing or empty, or null if it is no non-negative integer
+ */
+function parseTimestampParam(value: string | null): number | undefined | null {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Reads the site and range query parameters shared by the energy routes.
+ * `timeframe` (default 'day') or `start` and `end` (Unix seconds, both required, start before end) select the range
+ * and `site` the site (defaults to the default site). Timeframes are bounded by the days of the site's timezone.
+ *
+ * @param request - Next.js request object
+ * @param siteRepository - Repository to look up the site
+ * @returns Parsed request, or an error response for invalid parameters and unknown sites
+ */
+export async function parseRangeRequest(
+  request: NextRequest,
+  siteRepository: SiteRepository
+): Promise<RangeRequest | NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const timeframe = searchParams.get('timeframe') || 'day';
+  const customStart = parseTimestampParam(searchParams.get('start'));
+  const customEnd = parseTimestampParam(searchParams.get('end'));
+  const siteId = getSiteIdParam(searchParams);
+
+  if (siteId === null) {
+    return NextResponse.json(
+      { error: 'Invalid site parameter. Must be a positive integer.' },
+      { status: 400 }
+    );
+  }
+
+  const hasCustomRange = customStart !== undefined || customEnd !== undefined;
+  if (hasCustomRange && (typeof customStart !== 'number' || typeof customEnd !== 'number' || customStart >= customEnd)) {
+    return NextResponse.json(
+      { error: 'Invalid start or end parameter. Both must be Unix timestamps in seconds with start before end.' },
+      { status: 400 }
+    );
+  }
+
+  const site = await siteRepository.getSite(siteId);
+  if (!site) {
+    return NextResponse.json(
+      { error: `Site ${siteId} not found` },
+      { status: 404 }
+    );
+  }
+
+  // Determine time bounds
+  let start: number;
+  let end: number;
+
+  if (typeof customStart === 'number' && typeof customEnd === 'number') {
+    start = customStart;
+    end = customEnd;
+  } else {
+    const bounds = getTimeframeBounds(timeframe, site.timezone);
+    start = bounds.start;
+    end = bounds.end;
+  }
+
+  return { siteId, timeZone: site.timezone, timeframe, start, end };
+}
+
+/**
+ * Reads the query parameters shared by the aggregation routes: site and range (see `parseRangeRequest`) and
+ * `granularity` (1m, 5m, 15m, hour, day, week, month, year), the resolution of the data points (defaults to hours
+ * for single days, days otherwise). Hours and days are those of the site's timezone.
+ *
+ * @param request - Next.js request object
+ * @param siteRepository - Repository to look up the site
+ * @returns Parsed request, or an error response for invalid parameters, unknown sites and ranges with more than
+ * MAX_AGGREGATION_POINTS points
+ */
+export async function parseAggregationRequest(
+  request: NextRequest,
+  siteRepository: SiteRepository
+): Promise<AggregationRequest | NextResponse> {
+  const granularityParam = request.nextUrl.searchParams.get('granularity');
+  if (granularityParam !== null && !isGranularity(granularityParam)) {
+    return NextResponse.json(
+      { error: `Invalid granularity parameter. Must be one of: ${GRANULARITIES.join(', ')}.` },
+      { status: 400 }
+    );
+  }
+
+  const range = await parseRangeRequest(request, siteRepository);
+  if (range instanceof NextResponse) {
+    return range;
+  }
+
+  const { start, end, timeframe } = range;
+  const granularity = granularityParam ?? getDefaultGranularity(timeframe);
+  const points = countGranularityPoints(start, end, granularity);
+  if (points > MAX_AGGREGATION_POINTS) {
+    const finest = getFinestGranularity(start, end);
+    return NextResponse.json(
+      {
+        error: `Too many data points (${points}) for granularity ${granularity}. Maximum is ${MAX_AGGREGATION_POINTS}; use ${finest} or coarser.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  return { ...range, granularity };
+}
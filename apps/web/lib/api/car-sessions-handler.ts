@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { getSiteIdParam } from '@/lib/site';
+import { summarizeSessionsByMonth } from '@/lib/car-sessions';
+import type { CarSessionsResponse } from '@/types/car';
+
+/**
+ * Parses an optional timestamp query parameter.
+ * @returns Timestamp (Unix seconds), undefined if missing, or null if invalid
+ */
+function parseTimestampParam(value: string | null): number | undefined | null {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const timestamp = Number(value);
+  return Number.isInteger(timestamp) && timestamp >= 0 ? timestamp : null;
+}
+
+/**
+ * Lists the detected car charging sessions of a site (newest first) with their monthly summaries.
+ * Supports `site` and optional `start`/`end` (Unix seconds) query parameters limiting the session start; months
+ * are those of the site's timezone.
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with sessions and months, or error
+ */
+export async function handleCarSessionsRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const siteId = getSiteIdParam(searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const start = parseTimestampParam(searchParams.get('start'));
+    const end = parseTimestampParam(searchParams.get('end'));
+    if (start === null || end === null) {
+      return NextResponse.json(
+        { error: 'Invalid start or end parameter. Must be a Unix timestamp in seconds.' },
+        { status: 400 }
+      );
+    }
+
+    const { carSessionRepository, siteRepository } = createServiceContainer();
+    const site = await siteRepository.getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const sessions = await carSessionRepository.getSessions(siteId, start, end);
+    const result: CarSessionsResponse = {
+      sessions,
+      months: summarizeSessionsByMonth(sessions, site.timezone),
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching car charging sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch car charging sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { parseAggregationRequest } from '@/lib/api/aggregation-request';
+
+/**
+ * Handles energy cost requests: energy and cost per data point, priced per minute with the tariff applying at that
+ * minute (for dynamic tariffs with the imported spot prices).
+ * Accepts the query parameters of the aggregated energy routes (see `parseAggregationRequest`).
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the priced series, or error
+ */
+export async function handleEnergyCostsRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { energyService, siteRepository } = createServiceContainer();
+    const parsed = await parseAggregationRequest(request, siteRepository);
+    if (parsed instanceof NextResponse) {
+      return parsed;
+    }
+
+    const result = await energyService.getEnergyCosts(
+      parsed.start,
+      parsed.end,
+      parsed.timeframe,
+      parsed.siteId,
+      parsed.timeZone,
+      parsed.granularity
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error calculating energy costs:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate energy costs' },
+      { status: 500 }
+    );
+  }
+}
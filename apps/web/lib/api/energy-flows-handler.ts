@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { parseRangeRequest } from '@/lib/api/aggregation-request';
+
+/**
+ * Handles energy flow requests (how much energy went from solar, battery and grid to home, car, battery and grid).
+ * Accepts the site and range query parameters of the aggregated energy routes (see `parseRangeRequest`).
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the flows over the range, or error
+ */
+export async function handleEnergyFlowsRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { energyService, siteRepository } = createServiceContainer();
+    const parsed = await parseRangeRequest(request, siteRepository);
+    if (parsed instanceof NextResponse) {
+      return parsed;
+    }
+
+    const result = await energyService.getEnergyFlows(parsed.start, parsed.end, parsed.siteId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error calculating energy flows:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate energy flows' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { parseAggregationRequest } from '@/lib/api/aggregation-request';
+
+/**
+ * Handles self-sufficiency summary requests (autarky, self-consumption, direct-use vs. exported solar).
+ * Accepts the query parameters of the aggregated energy routes (see `parseAggregationRequest`).
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the summary per data point and for the whole range, or error
+ */
+export async function handleEnergySummaryRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { energyService, siteRepository } = createServiceContainer();
+    const parsed = await parseAggregationRequest(request, siteRepository);
+    if (parsed instanceof NextResponse) {
+      return parsed;
+    }
+
+    const result = await energyService.getEnergySummary(
+      parsed.start,
+      parsed.end,
+      parsed.timeframe,
+      parsed.siteId,
+      parsed.timeZone,
+      parsed.granularity
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error calculating energy summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate energy summary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { parseSiteId } from '@/lib/site';
+import { AGGREGATION_LOCK_NAME } from '@/types/jobs';
+
+/**
+ * Checks the bearer token of a request against `JOBS_API_TOKEN`.
+ * @param request - Next.js request object
+ * @param token - Configured token
+ * @returns True if the request carries the token
+ */
+function hasJobsToken(request: NextRequest, token: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Lists the recorded aggregation job runs (most recent first), the aggregation cursor of every site
+ * and the state of the job lock.
+ * Supports `limit` (1-1000, default 50) and `offset` query parameters.
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with runs, cursors and lock, or error
+ */
+export async function handleJobsRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      return NextResponse.json(
+        { error: 'Invalid limit parameter. Must be between 1 and 1000.' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'Invalid offset parameter. Must be >= 0.' },
+        { status: 400 }
+      );
+    }
+
+    const { aggregationJobRepository, jobLockRepository } = createServiceContainer();
+    const [runs, cursors, lock] = await Promise.all([
+      aggregationJobRepository.getRuns(limit, offset),
+      aggregationJobRepository.getCursors(),
+      jobLockRepository.getLock(AGGREGATION_LOCK_NAME),
+    ]);
+
+    return NextResponse.json({ runs, cursors, lock, limit, offset });
+  } catch (error) {
+    console.error('Error fetching aggregation job runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch aggregation job runs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Re-aggregates the minute buckets of a site within a time range.
+ * Expects a JSON body `{ from: number, to: number, site?: number }` with Unix timestamps and a
+ * `Authorization: Bearer <JOBS_API_TOKEN>` header. Responds with 409 if another aggregation run is active.
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the recorded run, or error
+ */
+export async function handleReaggregateRequest(request: NextRequest): Promise<NextResponse> {
+  const token = process.env.JOBS_API_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Job triggers are not available. JOBS_API_TOKEN is not configured.' },
+      { status: 503 }
+    );
+  }
+
+  if (!hasJobsToken(request, token)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    let body: { from?: unknown; to?: unknown; site?: unknown } | null;
+    try {
+      body = await request.json();
+    } catch {
+      body = null;
+    }
+
+    const from = body?.from;
+    const to = body?.to;
+    if (
+      typeof from !== 'number' || typeof to !== 'number' ||
+      !Number.isInteger(from) || !Number.isInteger(to) ||
+      from < 0 || from >= to
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid input: from and to must be Unix timestamps with from < to' },
+        { status: 400 }
+      );
+    }
+
+    const siteId = parseSiteId(body?.site === undefined ? undefined : String(body.site));
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    const { aggregationJob } = createServiceContainer();
+    const run = await aggregationJob.reaggregate(from, to, siteId);
+
+    if (run.status === 'skipped') {
+      return NextResponse.json(
+        { error: 'Another aggregation run is in progress. Try again later.', run },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error re-aggregating energy buckets:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-aggregate energy buckets' },
+      { status: 500 }
+    );
+  }
+}
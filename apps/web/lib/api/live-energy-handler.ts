@@ -0,0 +1,276 @@
+import { NextRequest } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { getLiveReadingHub } from '@/lib/live/live-reading-hub';
+import type { LiveReadingHub } from '@/lib/live/live-reading-hub';
+import { getPollingReadingHub } from '@/lib/live/polling-reading-hub';
+import type { EnergyService } from '@/lib/services/energy-service';
+import { SiteReadingCombiner, combineReadings } from '@/lib/live/site-reading-combiner';
+import type { LiveCursor } from '@/lib/live/site-reading-combiner';
+import type { EnergyHistoryEntry, EnergyReading } from '@/types/energy';
+import type { LiveEnergySnapshot, LiveReading } from '@/types/live';
+import { getSiteIdParam } from '@/lib/site';
+
+/**
+ * Number of readings sent in the initial snapshot and replayed at most on resume.
+ */
+export const LIVE_HISTORY_LIMIT = 100;
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Events queued for a client before it is considered too slow and disconnected.
+ */
+const MAX_QUEUED_EVENTS = 50;
+
+export interface LiveEnergyStreamOptions {
+  siteId: number;
+  /** Latest readings the client received per meter (`Last-Event-ID`), null for a new client */
+  lastEventId: LiveCursor | null;
+  energyService: Pick<EnergyService, 'getReadings'>;
+  hub: Pick<LiveReadingHub, 'subscribe'>;
+  signal: AbortSignal;
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Creates the SSE stream of live readings for a site.
+ *
+ * New clients receive a `snapshot` event with the latest readings, resuming clients only the
+ * readings they missed. Afterwards every reading published by the worker is forwarded once as a
+ * `reading` event. The readings of all meters of the site are combined into site readings, and the
+ * latest reading timestamp per meter is used as event id. Comment lines keep idle
+ * connections open. A client that does not keep up is disconnected instead of buffering without
+ * bound; the browser reconnects with `Last-Event-ID` and catches up from the database.
+ *
+ * @param options - Site, resume position and dependencies of the stream
+ * @returns ReadableStream emitting encoded SSE events
+ */
+export function createLiveEnergyStream(options: LiveEnergyStreamOptions): ReadableStream<Uint8Array> {
+  const { siteId, lastEventId, energyService, hub, signal } = options;
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => Promise<void>) | null = null;
+  let close: () => void = () => {};
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async start(controller) {
+        let combiner = new SiteReadingCombiner(lastEventId);
+        // Live readings arriving while the backlog is loaded, forwarded afterwards in order
+        let pending: LiveReading[] | null = [];
+
+        close = () => {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          if (heartbeat) {
+            clearInterval(heartbeat);
+          }
+          signal.removeEventListener('abort', close);
+          unsubscribe?.().catch((error) => {
+            console.error('Error unsubscribing live energy stream:', error);
+          });
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        const send = (chunk: string) => {
+          if (closed) {
+            return;
+          }
+          if (controller.desiredSize !== null && controller.desiredSize <= 0) {
+            console.warn(`Closing live energy stream for site ${siteId}: client is not keeping up`);
+            close();
+            return;
+          }
+          controller.enqueue(encoder.encode(chunk));
+        };
+
+        const sendReading = (reading: LiveReading) => {
+          const entry = combiner.add(reading);
+          if (entry) {
+            send(formatEvent('reading', formatEventId(combiner.cursor()), entry));
+          }
+        };
+
+        const sendSnapshot = (readings: EnergyReading[]) => {
+          // The snapshot replaces everything the client received before
+          combiner = new SiteReadingCombiner();
+          const snapshot = createSnapshot(combineReadings(readings, combiner));
+          send(formatEvent('snapshot', formatEventId(combiner.cursor()), snapshot));
+        };
+
+        signal.addEventListener('abort', close);
+        if (signal.aborted) {
+          close();
+          return;
+        }
+
+        try {
+          // Subscribe before loading the backlog so no reading falls in between
+          unsubscribe = await hub.subscribe(siteId, (reading) => {
+            if (pending) {
+              pending.push(reading);
+            } else {
+              sendReading(reading);
+            }
+          });
+          if (closed) {
+            await unsubscribe();
+            return;
+          }
+
+          send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+          if (lastEventId === null) {
+            sendSnapshot(await energyService.getReadings(LIVE_HISTORY_LIMIT, 0, undefined, undefined, siteId));
+          } else {
+            // Starts at the oldest meter position, so the last received reading of every meter is loaded as well
+            const missed = await energyService.getReadings(
+              LIVE_HISTORY_LIMIT + 1,
+              0,
+              Math.min(...lastEventId.values()),
+              undefined,
+              siteId
+            );
+            if (missed.length > LIVE_HISTORY_LIMIT) {
+              // Too far behind for a replay, start over with a fresh snapshot
+              sendSnapshot(missed.slice(0, LIVE_HISTORY_LIMIT));
+            } else {
+              for (const reading of [...missed].reverse()) {
+                const received = lastEventId.get(reading.meter_id ?? null);
+                if (received !== undefined && reading.timestamp <= received) {
+                  // Not sent again, but part of the site readings that follow
+                  combiner.seed(reading);
+                } else {
+                  sendReading(reading);
+                }
+              }
+            }
+          }
+
+          const buffered = pending;
+          pending = null;
+          buffered.forEach(sendReading);
+
+          heartbeat = setInterval(() => send(': heartbeat\n\n'), heartbeatIntervalMs);
+        } catch (error) {
+          console.error('Error starting live energy stream:', error);
+          close();
+        }
+      },
+      cancel() {
+        close();
+      },
+    },
+    { highWaterMark: MAX_QUEUED_EVENTS }
+  );
+}
+
+/**
+ * Handles `/api/energy` requests: streams live readings of a site as server-sent events.
+ * The optional `site` query parameter selects the site (defaults to the default site).
+ * Readings are pushed by the worker via Redis, or polled from the database if REDIS_URL is not configured.
+ *
+ * @param request - Next.js request object
+ * @returns SSE response, or error response for invalid parameters
+ */
+export async function handleLiveEnergyRequest(request: NextRequest): Promise<Response> {
+  const siteId = getSiteIdParam(request.nextUrl.searchParams);
+  if (siteId === null) {
+    return Response.json(
+      { error: 'Invalid site parameter. Must be a positive integer.' },
+      { status: 400 }
+    );
+  }
+
+  const { energyService } = createServiceContainer();
+
+  // Without Redis the latest readings are polled from the database instead
+  let hub: Pick<LiveReadingHub, 'subscribe'>;
+  try {
+    hub = getLiveReadingHub();
+  } catch (error) {
+    console.warn('Redis not available, polling live readings from the database:', error);
+    hub = getPollingReadingHub(energyService);
+  }
+
+  const stream = createLiveEnergyStream({
+    siteId,
+    lastEventId: parseLastEventId(request.headers.get('last-event-id')),
+    energyService,
+    hub,
+    signal: request.signal,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Parses the `Last-Event-ID` header sent by reconnecting EventSource clients.
+ * Event ids list the latest reading timestamp per meter, as `<meter>:<timestamp>` separated by commas;
+ * readings without meter are listed by their timestamp alone.
+ * @param value - Header value
+ * @returns Latest received reading timestamp per meter, or null if missing or invalid
+ */
+export function parseLastEventId(value: string | null): LiveCursor | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+
+  const cursor: LiveCursor = new Map();
+  for (const part of value.trim().split(',')) {
+    const match = /^(?:(\d+):)?(\d+)$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    cursor.set(match[1] !== undefined ? parseInt(match[1], 10) : null, parseInt(match[2], 10));
+  }
+  return cursor;
+}
+
+function formatEventId(cursor: LiveCursor): string | null {
+  if (cursor.size === 0) {
+    return null;
+  }
+  return [...cursor]
+    .map(([meterId, timestamp]) => (meterId === null ? `${timestamp}` : `${meterId}:${timestamp}`))
+    .join(',');
+}
+
+function formatEvent(event: string, id: string | null, data: unknown): string {
+  const idLine = id !== null ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function createSnapshot(history: EnergyHistoryEntry[]): LiveEnergySnapshot {
+  // Use the latest reading as "current", defaulting to zeros if there is no history
+  const latestReading = history.length > 0 ? history[0] : null;
+
+  return {
+    current: {
+      timestamp: latestReading?.timestamp ?? Math.floor(Date.now() / 1000),
+      home: latestReading?.home ?? 0,
+      grid: latestReading?.grid ?? 0,
+      car: latestReading?.car ?? 0,
+      solar: latestReading?.solar ?? 0,
+      battery: latestReading?.battery ?? 0,
+      battery_soc: latestReading?.battery_soc ?? null,
+    },
+    history,
+  };
+}
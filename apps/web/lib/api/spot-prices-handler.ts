@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { parseRangeRequest } from '@/lib/api/aggregation-request';
+import { getSiteIdParam } from '@/lib/site';
+import { parseSpotPriceFile } from '@/lib/spot-prices';
+import type { SpotPrice } from '@/types/energy';
+
+/**
+ * Lists the spot prices of a site overlapping a range.
+ * Accepts the site and range query parameters of the energy routes (see `parseRangeRequest`).
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the prices, or error
+ */
+export async function handleSpotPricesRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { spotPriceRepository, siteRepository } = createServiceContainer();
+    const parsed = await parseRangeRequest(request, siteRepository);
+    if (parsed instanceof NextResponse) {
+      return parsed;
+    }
+
+    const prices = await spotPriceRepository.getSpotPrices(parsed.start, parsed.end, parsed.siteId);
+    return NextResponse.json({ prices });
+  } catch (error) {
+    console.error('Error fetching spot prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch spot prices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Imports a day-ahead price file (aWATTar or Tibber JSON export, or CSV, see `parseSpotPriceFile`) sent as request
+ * body for the site of the `site` query parameter. Prices with the same start as stored prices replace them, and
+ * cached costs of the site are invalidated.
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the number and range of the imported prices, or error
+ */
+export async function handleSpotPriceImportRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const siteId = getSiteIdParam(request.nextUrl.searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    let prices: SpotPrice[];
+    try {
+      prices = parseSpotPriceFile(await request.text());
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Invalid price file: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+
+    const { spotPriceRepository, siteRepository, cache } = createServiceContainer();
+    if (!(await siteRepository.getSite(siteId))) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const imported = await spotPriceRepository.upsertSpotPrices(siteId, prices);
+    if (cache) {
+      await cache.invalidatePattern(`energy:aggregated:${siteId}:costs:*`);
+    }
+
+    return NextResponse.json({
+      imported,
+      from: prices[0].starts_at,
+      to: prices[prices.length - 1].ends_at,
+    });
+  } catch (error) {
+    console.error('Error importing spot prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to import spot prices' },
+      { status: 500 }
+    );
+  }
+}
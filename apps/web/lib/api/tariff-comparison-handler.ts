@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceContainer } from '@/lib/services/service-container';
+import { getSiteIdParam } from '@/lib/site';
+import {
+  MAX_COMPARISON_SECONDS,
+  MAX_TARIFF_CANDIDATES,
+  getDefaultComparisonRange,
+  validateTariffCandidate,
+} from '@/lib/tariff-comparison';
+import type { TariffCandidate } from '@/types/energy';
+
+/**
+ * Replays the energy of the site of the `site` query parameter against candidate tariffs and its actual tariff.
+ * The body holds the `tariffs` (energy settings with a `name`, see `TariffCandidate`) and optionally the range as
+ * `start` and `end` (Unix seconds, at most a year); the default range is the twelve whole months before the current one.
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with the costs per tariff and month, or error
+ */
+export async function handleTariffComparisonRequest(request: NextRequest): Promise<NextResponse> {
+  try {
+    const siteId = getSiteIdParam(request.nextUrl.searchParams);
+    if (siteId === null) {
+      return NextResponse.json(
+        { error: 'Invalid site parameter. Must be a positive integer.' },
+        { status: 400 }
+      );
+    }
+
+    let body: { tariffs?: unknown; start?: unknown; end?: unknown };
+    try {
+      body = (await request.json()) ?? {};
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid request body: expected JSON' },
+        { status: 400 }
+      );
+    }
+
+    const { tariffs, start, end } = body;
+    if (!Array.isArray(tariffs) || tariffs.length === 0 || tariffs.length > MAX_TARIFF_CANDIDATES) {
+      return NextResponse.json(
+        { error: `Invalid input: tariffs must be an array of 1 to ${MAX_TARIFF_CANDIDATES} tariffs` },
+        { status: 400 }
+      );
+    }
+    for (const tariff of tariffs) {
+      const tariffError = validateTariffCandidate(tariff);
+      if (tariffError) {
+        return NextResponse.json(
+          { error: tariffError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (start !== undefined || end !== undefined) {
+      if (!Number.isInteger(start) || !Number.isInteger(end) || (start as number) >= (end as number)) {
+        return NextResponse.json(
+          { error: 'Invalid range: start and end must be Unix timestamps with start before end' },
+          { status: 400 }
+        );
+      }
+      if ((end as number) - (start as number) > MAX_COMPARISON_SECONDS) {
+        return NextResponse.json(
+          { error: 'Invalid range: tariffs can be compared over at most 366 days' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { energyService, siteRepository } = createServiceContainer();
+    const site = await siteRepository.getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: `Site ${siteId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const range = start !== undefined
+      ? { start: start as number, end: end as number }
+      : getDefaultComparisonRange(Math.floor(Date.now() / 1000), site.timezone);
+    const comparison = await energyService.compareTariffs(
+      range.start,
+      range.end,
+      tariffs as TariffCandidate[],
+      siteId,
+      site.timezone
+    );
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error comparing tariffs:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare tariffs' },
+      { status: 500 }
+    );
+  }
+}
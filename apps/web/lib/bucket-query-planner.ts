@@ -0,0 +1,124 @@
+import type { Granularity } from '@/types/energy';
+import { startOfLocalDay, startOfLocalHour } from '@/lib/timezone';
+
+/**
+ * Source of precomputed energy for a part of a query range:
+ * raw readings, 1-minute buckets, or the hourly/daily materialized views.
+ */
+export type BucketSource = 'readings' | 'minutes' | 'hours' | 'days';
+
+/**
+ * Part of a query range read from a single source, start inclusive and end exclusive (Unix seconds).
+ */
+export interface BucketQuerySegment {
+  source: BucketSource;
+  start: number;
+  end: number;
+}
+
+/**
+ * Gets the coarsest source whose rows lie within a single data point of a granularity.
+ * Minute granularities read minute buckets, hours the hourly view, days and longer the daily view.
+ * @param granularity - Resolution of the data points
+ * @returns Coarsest usable source
+ */
+export function getCoarsestBucketSource(granularity: Granularity): BucketSource {
+  switch (granularity) {
+    case '1m':
+    case '5m':
+    case '15m':
+      return 'minutes';
+    case 'hour':
+      return 'hours';
+    default:
+      return 'days';
+  }
+}
+
+/**
+ * Plans which sources cover a time range: whole local days from the daily view, the remaining whole hours
+ * from the hourly view, the remaining whole minutes from minute buckets and partial minutes at the edges
+ * from raw readings. Sources coarser than `coarsest` are not used.
+ * @param from - Start of the range (Unix seconds)
+ * @param to - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site, which defines its hours and days
+ * @param coarsest - Coarsest source to use
+ * @returns Non-empty segments covering [from, to) without overlap, sorted by start
+ */
+export function planBucketQuery(
+  from: number,
+  to: number,
+  timeZone: string,
+  coarsest: BucketSource
+): BucketQuerySegment[] {
+  if (to <= from) {
+    return [];
+  }
+
+  const minuteStart = Math.ceil(from / 60) * 60;
+  const minuteEnd = Math.floor(to / 60) * 60;
+  if (minuteStart > minuteEnd || coarsest === 'readings') {
+    // The range lies within a single minute
+    return [{ source: 'readings', start: from, end: to }];
+  }
+
+  return [
+    { source: 'readings' as const, start: from, end: minuteStart },
+    ...planWholeMinutes(minuteStart, minuteEnd, timeZone, coarsest),
+    { source: 'readings' as const, start: minuteEnd, end: to },
+  ].filter((segment) => segment.start < segment.end);
+}
+
+/**
+ * Plans a range of whole minutes, reading whole hours and days from the views where allowed.
+ */
+function planWholeMinutes(
+  from: number,
+  to: number,
+  timeZone: string,
+  coarsest: BucketSource
+): BucketQuerySegment[] {
+  if (coarsest === 'minutes') {
+    return [{ source: 'minutes', start: from, end: to }];
+  }
+
+  const firstHour = startOfLocalHour(from, timeZone);
+  const hourStart = firstHour < from ? startOfLocalHour(firstHour + 3600, timeZone) : firstHour;
+  const hourEnd = startOfLocalHour(to, timeZone);
+  if (hourStart >= hourEnd) {
+    return [{ source: 'minutes', start: from, end: to }];
+  }
+
+  return [
+    { source: 'minutes', start: from, end: hourStart },
+    ...planWholeHours(hourStart, hourEnd, timeZone, coarsest),
+    { source: 'minutes', start: hourEnd, end: to },
+  ];
+}
+
+/**
+ * Plans a range of whole local hours, reading whole local days from the daily view where allowed.
+ */
+function planWholeHours(
+  from: number,
+  to: number,
+  timeZone: string,
+  coarsest: BucketSource
+): BucketQuerySegment[] {
+  if (coarsest === 'hours') {
+    return [{ source: 'hours', start: from, end: to }];
+  }
+
+  const firstDay = startOfLocalDay(from, timeZone);
+  const dayStart = firstDay < from ? startOfLocalDay(from, timeZone, 1) : firstDay;
+  const dayEnd = startOfLocalDay(to, timeZone);
+  if (dayStart >= dayEnd) {
+    return [{ source: 'hours', start: from, end: to }];
+  }
+
+  return [
+    { source: 'hours', start: from, end: dayStart },
+    { source: 'days', start: dayStart, end: dayEnd },
+    { source: 'hours', start: dayEnd, end: to },
+  ];
+}
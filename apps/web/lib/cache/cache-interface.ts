@@ -29,6 +29,15 @@ export interface Cache {
    * @param pattern - Pattern to match (e.g., "energy:aggregated:*")
    */
   invalidatePattern(pattern: string): Promise<void>;
+
+  /**
+   * Invalidate the cached aggregated responses of a site whose time range overlaps [from, to).
+   * Responses without a time range in their key are invalidated as well.
+   * @param siteId - Site of the responses
+   * @param from - Start of the changed range (Unix seconds)
+   * @param to - End of the changed range (exclusive, Unix seconds)
+   */
+  invalidateRange(siteId: number, from: number, to: number): Promise<void>;
 }
 
 
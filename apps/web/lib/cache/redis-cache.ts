@@ -1,6 +1,22 @@
 import type { Cache } from './cache-interface';
 import { createClient } from 'redis';
 
+/**
+ * Extracts the time range of a cached aggregated response from its key, e.g.
+ * `energy:aggregated:<site>:<type>:<granularity>:<from>:<to>:<timezone>` or `energy:aggregated:<site>:flows:<from>:<to>`.
+ * @param key - Cache key
+ * @returns Range of the response, or null if the key contains none
+ */
+export function parseCachedRange(key: string): { from: number; to: number } | null {
+  const segments = key.split(':');
+  for (let i = 3; i < segments.length - 1; i++) {
+    if (/^\d+$/.test(segments[i]) && /^\d+$/.test(segments[i + 1])) {
+      return { from: Number(segments[i]), to: Number(segments[i + 1]) };
+    }
+  }
+  return null;
+}
+
 const DEFAULT_TTL = parseInt(process.env.REDIS_CACHE_TTL || '300', 10); // 5 minutes default
 
 /**
@@ -64,17 +80,7 @@ export class RedisCache implements Cache {
   async invalidatePattern(pattern: string): Promise<void> {
     try {
       // Use SCAN to find all keys matching the pattern
-      const keys: string[] = [];
-      let cursor = 0;
-
-      do {
-        const result = await this.client.scan(cursor, {
-          MATCH: pattern,
-          COUNT: 100,
-        });
-        cursor = result.cursor;
-        keys.push(...result.keys);
-      } while (cursor !== 0);
+      const keys = await this.scanKeys(pattern);
 
       // Delete all matching keys
       if (keys.length > 0) {
@@ -85,6 +91,45 @@ export class RedisCache implements Cache {
       // Don't throw - caching failures shouldn't break the application
     }
   }
+
+  /**
+   * Invalidate the cached aggregated responses of a site whose time range overlaps [from, to).
+   * @param siteId - Site of the responses
+   * @param from - Start of the changed range (Unix seconds)
+   * @param to - End of the changed range (exclusive, Unix seconds)
+   */
+  async invalidateRange(siteId: number, from: number, to: number): Promise<void> {
+    if (to <= from) {
+      return;
+    }
+    const pattern = `energy:aggregated:${siteId}:*`;
+    try {
+      const keys = (await this.scanKeys(pattern)).filter((key) => {
+        const range = parseCachedRange(key);
+        return range === null || (range.from < to && from < range.to);
+      });
+      if (keys.length > 0) {
+        await this.client.del(keys);
+      }
+    } catch (error) {
+      console.error(`Redis cache invalidateRange error for site ${siteId} from ${from} to ${to}:`, error);
+      // Don't throw - caching failures shouldn't break the application
+    }
+  }
+
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = 0;
+    do {
+      const result = await this.client.scan(cursor, {
+        MATCH: pattern,
+        COUNT: 100,
+      });
+      cursor = result.cursor;
+      keys.push(...result.keys);
+    } while (cursor !== 0);
+    return keys;
+  }
 }
 
 /**
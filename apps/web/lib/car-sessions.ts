@@ -0,0 +1,38 @@
+import type { CarChargingSession, CarSessionMonth } from '@/types/car';
+import { getLocalDateTime } from '@/lib/timezone';
+
+/**
+ * Formats the local month of a timestamp, e.g. '2026-10'.
+ */
+function formatMonth(timestamp: number, timeZone: string): string {
+  const local = getLocalDateTime(timestamp, timeZone);
+  return `${local.year}-${String(local.month).padStart(2, '0')}`;
+}
+
+/**
+ * Sums charging sessions per calendar month of the site, e.g. for a company car reimbursement.
+ * Sessions count towards the month they started in; the cost only includes sessions with a cost.
+ *
+ * @param sessions - Charging sessions in any order
+ * @param timeZone - IANA timezone of the site
+ * @returns Monthly summaries, newest month first
+ */
+export function summarizeSessionsByMonth(
+  sessions: CarChargingSession[],
+  timeZone: string
+): CarSessionMonth[] {
+  const months = new Map<string, CarSessionMonth>();
+
+  for (const session of sessions) {
+    const month = formatMonth(session.started_at, timeZone);
+    const summary = months.get(month) ?? { month, sessions: 0, energy_kwh: 0, solar_kwh: 0, cost: 0, gross_cost: 0 };
+    summary.sessions += 1;
+    summary.energy_kwh += session.energy_kwh;
+    summary.solar_kwh += session.solar_kwh;
+    summary.cost += session.cost ?? 0;
+    summary.gross_cost += session.gross_cost ?? 0;
+    months.set(month, summary);
+  }
+
+  return Array.from(months.values()).sort((a, b) => b.month.localeCompare(a.month));
+}
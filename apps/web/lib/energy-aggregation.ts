@@ -1,49 +1,76 @@
-import type { AggregatedDataPoint, EnergyReading } from '@/types/energy';
+import type { AggregatedDataPoint, EnergyReading, Granularity } from '@/types/energy';
+import {
+  fromLocalDateTime,
+  getLocalDateTime,
+  getLocalTimeZone,
+  getTimeZoneOffset,
+  startOfLocalDay,
+  startOfLocalHour,
+  startOfLocalWeek,
+} from '@/lib/timezone';
+
+/**
+ * Supported granularities, from finest to coarsest.
+ */
+export const GRANULARITIES: readonly Granularity[] = ['1m', '5m', '15m', 'hour', 'day', 'week', 'month', 'year'];
+
+/**
+ * Nominal length of each granularity in seconds, used to estimate the number of data points of a range.
+ */
+export const GRANULARITY_SECONDS: Record<Granularity, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  hour: 3600,
+  day: 86400,
+  week: 7 * 86400,
+  month: 30 * 86400,
+  year: 365 * 86400,
+};
+
+/**
+ * Maximum number of data points per series of an aggregated response.
+ */
+export const MAX_AGGREGATION_POINTS = 5000;
 
 /**
  * Calculates the start and end timestamps for a given timeframe.
+ * Days start at local midnight of the timezone, so DST days span 23 or 25 hours.
  * @param timeframe - One of 'day', 'yesterday', 'week', 'month'
+ * @param timeZone - IANA timezone of the site (defaults to the runtime timezone)
  * @returns Object with start and end timestamps (Unix seconds)
  */
-export function getTimeframeBounds(timeframe: string): { start: number; end: number } {
-  const now = new Date();
-  let end = Math.floor(now.getTime() / 1000); // Current time in Unix seconds
+export function getTimeframeBounds(
+  timeframe: string,
+  timeZone: string = getLocalTimeZone()
+): { start: number; end: number } {
+  const now = Math.floor(Date.now() / 1000);
+  let end = now; // Current time in Unix seconds
 
   let start: number;
 
   switch (timeframe) {
     case 'day': {
       // Start of current day (00:00:00)
-      const startOfDay = new Date(now);
-      startOfDay.setHours(0, 0, 0, 0);
-      start = Math.floor(startOfDay.getTime() / 1000);
+      start = startOfLocalDay(now, timeZone);
       break;
     }
     case 'yesterday': {
       // Start of yesterday (00:00:00 yesterday)
-      const yesterday = new Date(now);
-      yesterday.setDate(yesterday.getDate() - 1);
-      yesterday.setHours(0, 0, 0, 0);
-      start = Math.floor(yesterday.getTime() / 1000);
+      start = startOfLocalDay(now, timeZone, -1);
       // End of yesterday (start of today)
-      const startOfToday = new Date(now);
-      startOfToday.setHours(0, 0, 0, 0);
-      end = Math.floor(startOfToday.getTime() / 1000);
+      end = startOfLocalDay(now, timeZone);
       break;
     }
     case 'week': {
       // 7 days ago
-      const sevenDaysAgo = new Date(now);
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      sevenDaysAgo.setHours(0, 0, 0, 0);
-      start = Math.floor(sevenDaysAgo.getTime() / 1000);
+      start = startOfLocalDay(now, timeZone, -7);
       break;
     }
     case 'month': {
       // Start of current month
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      startOfMonth.setHours(0, 0, 0, 0);
-      start = Math.floor(startOfMonth.getTime() / 1000);
+      const local = getLocalDateTime(now, timeZone);
+      start = fromLocalDateTime(local.year, local.month, 1, 0, 0, timeZone);
       break;
     }
     default:
@@ -54,206 +81,278 @@ export function getTimeframeBounds(timeframe: string): { start: number; end: num
 }
 
 /**
- * Aggregates readings by hour using trapezoidal integration.
- * @param readings - Array of reading objects with timestamp
- * @param extractor - Function to extract the numeric value from each reading
- * @param filterFn - Optional function to filter readings by their extracted value
- * @returns Array of aggregated data points with hourly labels
+ * Checks whether a string is a supported granularity.
+ * @param value - Value of the `granularity` query parameter
+ * @returns True if the value is a Granularity
  */
-export function aggregateByHour<T>(
-  readings: T[],
-  extractor: (reading: T) => number,
-  filterFn?: (value: number) => boolean
-): AggregatedDataPoint[] {
-  if (readings.length === 0) {
-    return [];
-  }
-
-  // Filter readings if filter function is provided
-  const filteredReadings = filterFn
-    ? readings.filter((r) => {
-        const value = extractor(r);
-        return filterFn(value);
-      })
-    : readings;
+export function isGranularity(value: string): value is Granularity {
+  return (GRANULARITIES as readonly string[]).includes(value);
+}
 
-  if (filteredReadings.length === 0) {
-    return [];
-  }
+/**
+ * Gets the granularity used when a request does not specify one.
+ * @param timeframe - One of 'day', 'yesterday', 'week', 'month'
+ * @returns 'hour' for single days, 'day' otherwise
+ */
+export function getDefaultGranularity(timeframe: string): Granularity {
+  return timeframe === 'day' || timeframe === 'yesterday' ? 'hour' : 'day';
+}
 
-  // Group readings by hour
-  const hourBuckets = new Map<number, T[]>();
+/**
+ * Estimates the number of data points of a time range at a granularity.
+ * @param start - Start timestamp (Unix seconds)
+ * @param end - End timestamp (Unix seconds)
+ * @param granularity - Resolution of the data points
+ * @returns Estimated number of data points per series
+ */
+export function countGranularityPoints(start: number, end: number, granularity: Granularity): number {
+  return Math.max(0, Math.ceil((end - start) / GRANULARITY_SECONDS[granularity]));
+}
 
-  for (const reading of filteredReadings) {
-    const timestamp = (reading as any).timestamp as number;
-    const hourKey = Math.floor(timestamp / 3600) * 3600; // Round down to hour
+/**
+ * Gets the finest granularity that stays within MAX_AGGREGATION_POINTS for a time range.
+ * @param start - Start timestamp (Unix seconds)
+ * @param end - End timestamp (Unix seconds)
+ * @returns The finest allowed granularity
+ */
+export function getFinestGranularity(start: number, end: number): Granularity {
+  return (
+    GRANULARITIES.find((granularity) => countGranularityPoints(start, end, granularity) <= MAX_AGGREGATION_POINTS) ??
+    'year'
+  );
+}
 
-    if (!hourBuckets.has(hourKey)) {
-      hourBuckets.set(hourKey, []);
+/**
+ * Gets the start of the data point containing a timestamp.
+ * Minutes and hours are aligned to the local clock, days, weeks (Monday), months and years to the local calendar.
+ * @param timestamp - Unix seconds
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone name
+ * @returns Unix seconds of the start of the data point
+ */
+export function getGranularityStart(timestamp: number, granularity: Granularity, timeZone: string): number {
+  switch (granularity) {
+    case '1m':
+    case '5m':
+    case '15m': {
+      const size = GRANULARITY_SECONDS[granularity];
+      const localSeconds = Math.floor(timestamp) + getTimeZoneOffset(timestamp, timeZone);
+      return Math.floor(timestamp) - (((localSeconds % size) + size) % size);
+    }
+    case 'hour':
+      return startOfLocalHour(timestamp, timeZone);
+    case 'day':
+      return startOfLocalDay(timestamp, timeZone);
+    case 'week':
+      return startOfLocalWeek(timestamp, timeZone);
+    case 'month': {
+      const local = getLocalDateTime(timestamp, timeZone);
+      return fromLocalDateTime(local.year, local.month, 1, 0, 0, timeZone);
+    }
+    case 'year': {
+      const local = getLocalDateTime(timestamp, timeZone);
+      return fromLocalDateTime(local.year, 1, 1, 0, 0, timeZone);
     }
-    hourBuckets.get(hourKey)!.push(reading);
   }
+}
 
-  const result: AggregatedDataPoint[] = [];
-
-  // Process each hour bucket
-  for (const [hourTimestamp, bucketReadings] of hourBuckets.entries()) {
-    if (bucketReadings.length < 2) {
-      // Not enough data for integration, skip
-      continue;
+/**
+ * Formats the label of a data point.
+ * @param timestamp - Start of the data point (Unix seconds)
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone name
+ * @returns "14:15" for minutes and hours, "Oct 25" for days and weeks, "Oct 2026" for months, "2026" for years
+ */
+export function formatGranularityLabel(timestamp: number, granularity: Granularity, timeZone: string): string {
+  const date = new Date(timestamp * 1000);
+
+  switch (granularity) {
+    case '1m':
+    case '5m':
+    case '15m':
+    case 'hour': {
+      // On the day DST ends, the repeated hour appears twice with the same label
+      const { hour, minute } = getLocalDateTime(timestamp, timeZone);
+      return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
     }
+    case 'day':
+    case 'week':
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        timeZone,
+      });
+    case 'month':
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        year: 'numeric',
+        timeZone,
+      });
+    case 'year':
+      return getLocalDateTime(timestamp, timeZone).year.toString();
+  }
+}
 
-    // Sort readings by timestamp within the bucket
-    bucketReadings.sort((a, b) => {
-      const timestampA = (a as any).timestamp as number;
-      const timestampB = (b as any).timestamp as number;
-      return timestampA - timestampB;
-    });
-
-    // Trapezoidal integration
-    let totalEnergyWh = 0;
-
-    for (let i = 0; i < bucketReadings.length - 1; i++) {
-      const power1 = extractor(bucketReadings[i]); // watts
-      const power2 = extractor(bucketReadings[i + 1]); // watts
-      const timestamp1 = (bucketReadings[i] as any).timestamp as number;
-      const timestamp2 = (bucketReadings[i + 1] as any).timestamp as number;
-      const timeDelta = timestamp2 - timestamp1; // seconds
-
-      // Average power * time = energy (watt-seconds)
-      const energyWs = ((power1 + power2) / 2) * timeDelta;
-      totalEnergyWh += energyWs / 3600; // Convert to watt-hours
+/**
+ * Gets the start of the data point following the one starting at a timestamp.
+ * @param pointStart - Start of a data point (Unix seconds), as returned by getGranularityStart
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone name
+ * @returns Unix seconds of the start of the next data point
+ */
+export function getNextGranularityStart(pointStart: number, granularity: Granularity, timeZone: string): number {
+  switch (granularity) {
+    case '1m':
+    case '5m':
+    case '15m':
+      return pointStart + GRANULARITY_SECONDS[granularity];
+    case 'hour':
+      return startOfLocalHour(pointStart + 3600, timeZone);
+    case 'day':
+      return startOfLocalDay(pointStart, timeZone, 1);
+    case 'week':
+      return startOfLocalDay(pointStart, timeZone, 7);
+    case 'month': {
+      const local = getLocalDateTime(pointStart, timeZone);
+      return fromLocalDateTime(local.year, local.month + 1, 1, 0, 0, timeZone);
+    }
+    case 'year': {
+      const local = getLocalDateTime(pointStart, timeZone);
+      return fromLocalDateTime(local.year + 1, 1, 1, 0, 0, timeZone);
     }
-
-    const kwh = totalEnergyWh / 1000; // Convert to kilowatt-hours
-
-    const date = new Date(hourTimestamp * 1000);
-    const hour = date.getHours();
-    result.push({
-      label: `${hour.toString().padStart(2, '0')}:00`,
-      kwh,
-      timestamp: hourTimestamp,
-    });
   }
-
-  // Sort by timestamp
-  result.sort((a, b) => a.timestamp - b.timestamp);
-
-  return result;
 }
 
 /**
- * Aggregates readings by day using trapezoidal integration.
- * @param readings - Array of reading objects with timestamp
- * @param extractor - Function to extract the numeric value from each reading
- * @param filterFn - Optional function to filter readings by their extracted value
- * @returns Array of aggregated data points with daily labels
+ * Integrates the positive part of a power changing linearly over a time span, interpolating the zero crossing.
+ * The negative part is `integratePositivePart(-startPower, -endPower, seconds)`.
+ * @param startPower - Power at the start (watts)
+ * @param endPower - Power at the end (watts)
+ * @param seconds - Length of the time span
+ * @returns Energy of the positive part in watt-seconds
  */
-export function aggregateByDay<T>(
-  readings: T[],
-  extractor: (reading: T) => number,
-  filterFn?: (value: number) => boolean
-): AggregatedDataPoint[] {
-  if (readings.length === 0) {
-    return [];
+export function integratePositivePart(startPower: number, endPower: number, seconds: number): number {
+  if (startPower >= 0 && endPower >= 0) {
+    return ((startPower + endPower) / 2) * seconds;
   }
-
-  // Filter readings if filter function is provided
-  const filteredReadings = filterFn
-    ? readings.filter((r) => {
-        const value = extractor(r);
-        return filterFn(value);
-      })
-    : readings;
-
-  if (filteredReadings.length === 0) {
-    return [];
+  if (startPower <= 0 && endPower <= 0) {
+    return 0;
   }
+  // Positive for peak / |start - end| of the span, ramping between zero and the peak
+  const peak = Math.max(startPower, endPower);
+  return ((peak * peak) / (2 * Math.abs(startPower - endPower))) * seconds;
+}
 
-  // Group readings by day
-  const dayBuckets = new Map<number, T[]>();
-
-  for (const reading of filteredReadings) {
-    const timestamp = (reading as any).timestamp as number;
-    const date = new Date(timestamp * 1000);
-    // Get start of day timestamp
-    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const dayKey = Math.floor(dayStart.getTime() / 1000);
+/**
+ * Options of integrateIntoPoints.
+ */
+export interface IntegrationOptions {
+  /** Only the parts of segments within [start, end) are integrated */
+  range?: { start: number; end: number };
+  /** Skips segments between readings more than one minute apart, like the minute buckets */
+  skipGaps?: boolean;
+  /** Integrates only the positive or the negative part (as a positive amount) of the power */
+  sign?: 'positive' | 'negative';
+}
 
-    if (!dayBuckets.has(dayKey)) {
-      dayBuckets.set(dayKey, []);
+/**
+ * Integrates consecutive readings with the trapezoidal rule and adds the energy to the data points it falls into.
+ * Segments crossing a data point boundary are split with the linearly interpolated power at the boundary,
+ * so the points add up to the integral over all readings.
+ * @param readings - Reading objects with timestamp, sorted by timestamp
+ * @param extractor - Function to extract the power (watts) from each reading
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone for data point boundaries
+ * @param points - Energy in kWh per data point start, updated in place
+ * @param options - Range, gap handling and sign of the integrated power
+ */
+export function integrateIntoPoints<T extends { timestamp: number }>(
+  readings: T[],
+  extractor: (reading: T) => number,
+  granularity: Granularity,
+  timeZone: string,
+  points: Map<number, number>,
+  options: IntegrationOptions = {}
+): void {
+  const { range = { start: -Infinity, end: Infinity }, skipGaps = false, sign } = options;
+  // Boundaries of the data point of the previous segment, to avoid timezone lookups for every reading
+  let pointStart = NaN;
+  let pointEnd = NaN;
+
+  for (let i = 0; i < readings.length - 1; i++) {
+    const timestamp1 = readings[i].timestamp;
+    const timestamp2 = readings[i + 1].timestamp;
+    if (timestamp2 <= timestamp1) {
+      continue;
     }
-    dayBuckets.get(dayKey)!.push(reading);
-  }
-
-  const result: AggregatedDataPoint[] = [];
-
-  // Process each day bucket
-  for (const [dayTimestamp, bucketReadings] of dayBuckets.entries()) {
-    if (bucketReadings.length < 2) {
-      // Not enough data for integration, skip
+    if (skipGaps && Math.floor(timestamp2 / 60) - Math.floor(timestamp1 / 60) > 1) {
       continue;
     }
 
-    // Sort readings by timestamp within the bucket
-    bucketReadings.sort((a, b) => {
-      const timestampA = (a as any).timestamp as number;
-      const timestampB = (b as any).timestamp as number;
-      return timestampA - timestampB;
-    });
-
-    // Trapezoidal integration
-    let totalEnergyWh = 0;
-
-    for (let i = 0; i < bucketReadings.length - 1; i++) {
-      const power1 = extractor(bucketReadings[i]); // watts
-      const power2 = extractor(bucketReadings[i + 1]); // watts
-      const timestamp1 = (bucketReadings[i] as any).timestamp as number;
-      const timestamp2 = (bucketReadings[i + 1] as any).timestamp as number;
-      const timeDelta = timestamp2 - timestamp1; // seconds
-
-      // Average power * time = energy (watt-seconds)
-      const energyWs = ((power1 + power2) / 2) * timeDelta;
-      totalEnergyWh += energyWs / 3600; // Convert to watt-hours
+    const power1 = extractor(readings[i]); // watts
+    const power2 = extractor(readings[i + 1]); // watts
+    const powerAt = (timestamp: number) => power1 + ((power2 - power1) * (timestamp - timestamp1)) / (timestamp2 - timestamp1);
+    let partStart = Math.max(timestamp1, range.start);
+    const segmentEnd = Math.min(timestamp2, range.end);
+
+    while (partStart < segmentEnd) {
+      if (!(partStart >= pointStart && partStart < pointEnd)) {
+        pointStart = getGranularityStart(partStart, granularity, timeZone);
+        pointEnd = getNextGranularityStart(pointStart, granularity, timeZone);
+      }
+      const partEnd = Math.min(segmentEnd, pointEnd);
+
+      let energyWs: number;
+      if (sign === 'positive') {
+        energyWs = integratePositivePart(powerAt(partStart), powerAt(partEnd), partEnd - partStart);
+      } else if (sign === 'negative') {
+        energyWs = integratePositivePart(-powerAt(partStart), -powerAt(partEnd), partEnd - partStart);
+      } else {
+        // The average power of the part is the interpolated power at its midpoint
+        energyWs = powerAt((partStart + partEnd) / 2) * (partEnd - partStart);
+      }
+      points.set(pointStart, (points.get(pointStart) ?? 0) + energyWs / 3600 / 1000);
+
+      partStart = partEnd;
     }
-
-    const kwh = totalEnergyWh / 1000; // Convert to kilowatt-hours
-
-    const date = new Date(dayTimestamp * 1000);
-    const dayLabel = date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-    });
-
-    result.push({
-      label: dayLabel,
-      kwh,
-      timestamp: dayTimestamp,
-    });
   }
+}
 
-  // Sort by timestamp
-  result.sort((a, b) => a.timestamp - b.timestamp);
-
-  return result;
+/**
+ * Converts energy per data point into labeled data points.
+ * @param points - Energy in kWh per data point start
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone for labels
+ * @returns Array of aggregated data points sorted by timestamp
+ */
+export function toDataPoints(points: Map<number, number>, granularity: Granularity, timeZone: string): AggregatedDataPoint[] {
+  return [...points.entries()]
+    .sort(([timestampA], [timestampB]) => timestampA - timestampB)
+    .map(([timestamp, kwh]) => ({
+      label: formatGranularityLabel(timestamp, granularity, timeZone),
+      kwh,
+      timestamp,
+    }));
 }
 
 /**
- * Calculates total energy using trapezoidal integration over all readings.
+ * Aggregates readings into data points of a granularity using trapezoidal integration.
+ * Segments between readings in different data points are split at the boundary (see integrateIntoPoints);
+ * points that no segment reaches are omitted.
  * @param readings - Array of reading objects with timestamp
  * @param extractor - Function to extract the numeric value from each reading
  * @param filterFn - Optional function to filter readings by their extracted value
- * @returns Total energy in kWh
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone for boundaries and labels (defaults to the runtime timezone)
+ * @returns Array of aggregated data points sorted by timestamp
  */
-export function calculateTotalEnergy<T>(
+export function aggregateByGranularity<T extends { timestamp: number }>(
   readings: T[],
   extractor: (reading: T) => number,
-  filterFn?: (value: number) => boolean
-): number {
-  if (readings.length < 2) {
-    return 0;
-  }
-
+  filterFn: ((value: number) => boolean) | undefined,
+  granularity: Granularity,
+  timeZone: string = getLocalTimeZone()
+): AggregatedDataPoint[] {
   // Filter readings if filter function is provided
   const filteredReadings = filterFn
     ? readings.filter((r) => {
@@ -263,49 +362,61 @@ export function calculateTotalEnergy<T>(
     : readings;
 
   if (filteredReadings.length < 2) {
-    return 0;
+    return [];
   }
 
   // Sort readings by timestamp
-  const sortedReadings = [...filteredReadings].sort((a, b) => {
-    const timestampA = (a as any).timestamp as number;
-    const timestampB = (b as any).timestamp as number;
-    return timestampA - timestampB;
-  });
+  const sortedReadings = [...filteredReadings].sort((a, b) => a.timestamp - b.timestamp);
 
-  // Trapezoidal integration over all readings
-  let totalEnergyWh = 0;
+  const points = new Map<number, number>();
+  integrateIntoPoints(sortedReadings, extractor, granularity, timeZone, points);
 
-  for (let i = 0; i < sortedReadings.length - 1; i++) {
-    const power1 = extractor(sortedReadings[i]); // watts
-    const power2 = extractor(sortedReadings[i + 1]); // watts
-    const timestamp1 = (sortedReadings[i] as any).timestamp as number;
-    const timestamp2 = (sortedReadings[i + 1] as any).timestamp as number;
-    const timeDelta = timestamp2 - timestamp1; // seconds
+  return toDataPoints(points, granularity, timeZone);
+}
 
-    // Average power * time = energy (watt-seconds)
-    const energyWs = ((power1 + power2) / 2) * timeDelta;
-    totalEnergyWh += energyWs / 3600; // Convert to watt-hours
-  }
+/**
+ * Aggregates readings by hour using trapezoidal integration.
+ * @param readings - Array of reading objects with timestamp
+ * @param extractor - Function to extract the numeric value from each reading
+ * @param filterFn - Optional function to filter readings by their extracted value
+ * @param timeZone - IANA timezone for hour boundaries and labels (defaults to the runtime timezone)
+ * @returns Array of aggregated data points with hourly labels
+ */
+export function aggregateByHour<T extends { timestamp: number }>(
+  readings: T[],
+  extractor: (reading: T) => number,
+  filterFn?: (value: number) => boolean,
+  timeZone: string = getLocalTimeZone()
+): AggregatedDataPoint[] {
+  return aggregateByGranularity(readings, extractor, filterFn, 'hour', timeZone);
+}
 
-  const kwh = totalEnergyWh / 1000; // Convert to kilowatt-hours
-  return kwh;
+/**
+ * Aggregates readings by day using trapezoidal integration.
+ * @param readings - Array of reading objects with timestamp
+ * @param extractor - Function to extract the numeric value from each reading
+ * @param filterFn - Optional function to filter readings by their extracted value
+ * @param timeZone - IANA timezone for day boundaries and labels (defaults to the runtime timezone)
+ * @returns Array of aggregated data points with daily labels
+ */
+export function aggregateByDay<T extends { timestamp: number }>(
+  readings: T[],
+  extractor: (reading: T) => number,
+  filterFn?: (value: number) => boolean,
+  timeZone: string = getLocalTimeZone()
+): AggregatedDataPoint[] {
+  return aggregateByGranularity(readings, extractor, filterFn, 'day', timeZone);
 }
 
 /**
- * Integrates energy over a partial bucket (subset of readings within bucket boundaries).
- * Used for high-precision integration of partial first/last buckets when querying across bucket boundaries.
- * @param readings - Array of readings to integrate
- * @param bucketStart - Start timestamp of the bucket (Unix seconds)
- * @param bucketEnd - End timestamp of the bucket (Unix seconds)
+ * Calculates total energy using trapezoidal integration over all readings.
+ * @param readings - Array of reading objects with timestamp
  * @param extractor - Function to extract the numeric value from each reading
  * @param filterFn - Optional function to filter readings by their extracted value
- * @returns Total energy in kWh for the partial bucket
+ * @returns Total energy in kWh
  */
-export function integratePartialBucket<T>(
+export function calculateTotalEnergy<T>(
   readings: T[],
-  bucketStart: number,
-  bucketEnd: number,
   extractor: (reading: T) => number,
   filterFn?: (value: number) => boolean
 ): number {
@@ -325,24 +436,14 @@ export function integratePartialBucket<T>(
     return 0;
   }
 
-  // Filter readings to only those within bucket boundaries
-  const readingsInBucket = filteredReadings.filter((r) => {
-    const timestamp = (r as any).timestamp as number;
-    return timestamp >= bucketStart && timestamp < bucketEnd;
-  });
-
-  if (readingsInBucket.length < 2) {
-    return 0;
-  }
-
   // Sort readings by timestamp
-  const sortedReadings = [...readingsInBucket].sort((a, b) => {
+  const sortedReadings = [...filteredReadings].sort((a, b) => {
     const timestampA = (a as any).timestamp as number;
     const timestampB = (b as any).timestamp as number;
     return timestampA - timestampB;
   });
 
-  // Trapezoidal integration over readings in the partial bucket
+  // Trapezoidal integration over all readings
   let totalEnergyWh = 0;
 
   for (let i = 0; i < sortedReadings.length - 1; i++) {
@@ -360,4 +461,3 @@ export function integratePartialBucket<T>(
   const kwh = totalEnergyWh / 1000; // Convert to kilowatt-hours
   return kwh;
 }
-
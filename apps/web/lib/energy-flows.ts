@@ -0,0 +1,84 @@
+import type { EnergyFlow, EnergyFlowSource, EnergyFlowTarget } from '@/types/energy';
+import type { ChannelEnergy } from '@/lib/energy-summary';
+
+/**
+ * Possible flows between channels, in the order of a flows response.
+ */
+export const ENERGY_FLOWS: readonly (readonly [EnergyFlowSource, EnergyFlowTarget])[] = [
+  ['solar', 'home'],
+  ['solar', 'car'],
+  ['solar', 'battery'],
+  ['solar', 'grid'],
+  ['battery', 'home'],
+  ['battery', 'car'],
+  ['battery', 'grid'],
+  ['grid', 'home'],
+  ['grid', 'car'],
+  ['grid', 'battery'],
+];
+
+/**
+ * Targets each source supplies, in order of priority. Home and car are supplied together as demand.
+ */
+const SOURCE_TARGETS: Record<EnergyFlowSource, ('demand' | 'battery' | 'grid')[]> = {
+  solar: ['demand', 'battery', 'grid'],
+  battery: ['demand', 'grid'],
+  grid: ['demand', 'battery'],
+};
+
+/**
+ * Allocates the energy of a period to flows between channels.
+ * Sources are allocated in the order solar, battery, grid, each supplying home and car demand first, then battery
+ * charging, then feed-in; home and car share each source in proportion to their consumption. Energy that no target
+ * takes (channels measured by different meters do not balance exactly) is not allocated.
+ * Meaningful for short periods only, e.g. minute buckets: over longer periods, energy going in and out of the grid or
+ * battery at different times would cancel out.
+ * @param energy - Channel energy of the period
+ * @returns Flows in the order of ENERGY_FLOWS
+ */
+export function allocateEnergyFlows(energy: ChannelEnergy): EnergyFlow[] {
+  const demand = energy.home + energy.car;
+  const homeShare = demand > 0 ? energy.home / demand : 0;
+  const remaining = { demand, battery: energy.batteryCharge, grid: energy.gridExport };
+  const available: Record<EnergyFlowSource, number> = {
+    solar: energy.solar,
+    battery: energy.batteryDischarge,
+    grid: energy.gridImport,
+  };
+
+  const allocated = new Map<string, number>();
+  for (const source of ['solar', 'battery', 'grid'] as const) {
+    for (const target of SOURCE_TARGETS[source]) {
+      const kwh = Math.max(Math.min(available[source], remaining[target]), 0);
+      available[source] -= kwh;
+      remaining[target] -= kwh;
+      if (target === 'demand') {
+        allocated.set(`${source}:home`, kwh * homeShare);
+        allocated.set(`${source}:car`, kwh * (1 - homeShare));
+      } else {
+        allocated.set(`${source}:${target}`, kwh);
+      }
+    }
+  }
+
+  return ENERGY_FLOWS.map(([source, target]) => ({
+    source,
+    target,
+    kwh: allocated.get(`${source}:${target}`) ?? 0,
+  }));
+}
+
+/**
+ * Allocates the energy of each period and sums the flows.
+ * @param periods - Channel energy of consecutive short periods, e.g. minutes
+ * @returns Flows in the order of ENERGY_FLOWS
+ */
+export function sumEnergyFlows(periods: Iterable<ChannelEnergy>): EnergyFlow[] {
+  const totals = ENERGY_FLOWS.map(() => 0);
+  for (const energy of periods) {
+    allocateEnergyFlows(energy).forEach((flow, index) => {
+      totals[index] += flow.kwh;
+    });
+  }
+  return ENERGY_FLOWS.map(([source, target], index) => ({ source, target, kwh: totals[index] }));
+}
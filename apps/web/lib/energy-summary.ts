@@ -0,0 +1,115 @@
+import type {
+  AggregatedResponse,
+  BatteryAggregatedResponse,
+  GridAggregatedResponse,
+  SelfSufficiency,
+  SelfSufficiencyDataPoint,
+  EnergySummaryResponse,
+} from '@/types/energy';
+
+/**
+ * Energy of the channels of a site over a period (kWh), with grid and battery split by direction.
+ */
+export interface ChannelEnergy {
+  home: number;
+  car: number;
+  solar: number;
+  gridImport: number;
+  gridExport: number;
+  batteryCharge: number;
+  batteryDischarge: number;
+}
+
+/**
+ * Aggregated responses of the channels of a site.
+ */
+export interface ChannelSeries {
+  home: AggregatedResponse;
+  car: AggregatedResponse;
+  solar: AggregatedResponse;
+  grid: GridAggregatedResponse;
+  battery: BatteryAggregatedResponse;
+}
+
+/**
+ * Calculates self-sufficiency from the channel energy of a period.
+ * Feed-in is attributed to solar first, then battery charging, so only solar not leaving the site or charging the
+ * battery counts as direct use. Shares are clamped to [0, 1], since channels measured by different meters do not
+ * balance exactly.
+ * @param energy - Channel energy of the period
+ * @returns Demand, solar split and shares
+ */
+export function calculateSelfSufficiency(energy: ChannelEnergy): SelfSufficiency {
+  const demand = energy.home + energy.car;
+  const solarExported = Math.min(energy.gridExport, energy.solar);
+  const solarStored = Math.min(energy.batteryCharge, energy.solar - solarExported);
+  const solarDirectUse = energy.solar - solarExported - solarStored;
+
+  return {
+    demand,
+    gridImport: energy.gridImport,
+    solar: energy.solar,
+    solarDirectUse,
+    solarStored,
+    solarExported,
+    autarky: demand > 0 ? clampShare(1 - energy.gridImport / demand) : null,
+    selfConsumption: energy.solar > 0 ? clampShare((energy.solar - solarExported) / energy.solar) : null,
+  };
+}
+
+/**
+ * Combines the aggregated channels of a site into self-sufficiency per data point and for the whole period.
+ * The total is calculated from the channel totals, not averaged over the data points.
+ * @param series - Aggregated responses of the channels, at the same granularity
+ * @returns Self-sufficiency per data point (sorted by timestamp) and total
+ */
+export function buildEnergySummary(series: ChannelSeries): EnergySummaryResponse {
+  const channels: [keyof ChannelEnergy, AggregatedResponse][] = [
+    ['home', series.home],
+    ['car', series.car],
+    ['solar', series.solar],
+    ['gridImport', series.grid.consumption],
+    ['gridExport', series.grid.feedIn],
+    ['batteryCharge', series.battery.charge],
+    ['batteryDischarge', series.battery.discharge],
+  ];
+
+  // Channels only have data points where they have readings, so points are merged by timestamp
+  const points = new Map<number, { label: string; energy: ChannelEnergy }>();
+  for (const [channel, response] of channels) {
+    for (const point of response.data) {
+      let entry = points.get(point.timestamp);
+      if (!entry) {
+        entry = { label: point.label, energy: emptyChannelEnergy() };
+        points.set(point.timestamp, entry);
+      }
+      entry.energy[channel] += point.kwh;
+    }
+  }
+
+  const data: SelfSufficiencyDataPoint[] = [...points.entries()]
+    .sort(([timestampA], [timestampB]) => timestampA - timestampB)
+    .map(([timestamp, { label, energy }]) => ({
+      label,
+      timestamp,
+      ...calculateSelfSufficiency(energy),
+    }));
+
+  const totals = emptyChannelEnergy();
+  for (const [channel, response] of channels) {
+    totals[channel] = response.total;
+  }
+
+  return { data, total: calculateSelfSufficiency(totals) };
+}
+
+/**
+ * Channel energy of a period without any energy.
+ */
+export function emptyChannelEnergy(): ChannelEnergy {
+  return { home: 0, car: 0, solar: 0, gridImport: 0, gridExport: 0, batteryCharge: 0, batteryDischarge: 0 };
+}
+
+function clampShare(share: number): number {
+  return Math.min(Math.max(share, 0), 1);
+}
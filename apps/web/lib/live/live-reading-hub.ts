@@ -0,0 +1,112 @@
+import { createClient } from 'redis';
+import { getRedisClient } from '@/lib/cache/cache-client';
+import { getLiveReadingsChannel } from '@/types/live';
+import type { LiveReading } from '@/types/live';
+
+export type LiveReadingListener = (reading: LiveReading) => void;
+
+interface SiteChannel {
+  listeners: Set<LiveReadingListener>;
+  handler: (message: string) => void;
+  ready: Promise<void>;
+}
+
+/**
+ * Fans out the live readings published by the worker to all open streams of this process.
+ * A single Redis subscriber connection is shared, and each site channel is subscribed only
+ * while at least one stream listens to it.
+ */
+export class LiveReadingHub {
+  private channels = new Map<number, SiteChannel>();
+
+  constructor(private subscriber: ReturnType<typeof createClient>) {}
+
+  /**
+   * Registers a listener for the live readings of a site.
+   * @param siteId - Site to listen to
+   * @param listener - Called for every published reading
+   * @returns Promise resolving to a function that removes the listener again, once the channel is subscribed
+   */
+  async subscribe(siteId: number, listener: LiveReadingListener): Promise<() => Promise<void>> {
+    let channel = this.channels.get(siteId);
+    if (!channel) {
+      const handler = (message: string) => this.dispatch(siteId, message);
+      channel = {
+        listeners: new Set(),
+        handler,
+        ready: this.subscriber.subscribe(getLiveReadingsChannel(siteId), handler),
+      };
+      this.channels.set(siteId, channel);
+    }
+    channel.listeners.add(listener);
+
+    try {
+      await channel.ready;
+    } catch (error) {
+      if (this.channels.get(siteId) === channel) {
+        this.channels.delete(siteId);
+      }
+      throw error;
+    }
+
+    return async () => {
+      if (!channel.listeners.delete(listener) || channel.listeners.size > 0) {
+        return;
+      }
+      if (this.channels.get(siteId) === channel) {
+        this.channels.delete(siteId);
+      }
+      try {
+        // Only this channel's handler is removed, a newer subscription for the site stays intact
+        await this.subscriber.unsubscribe(getLiveReadingsChannel(siteId), channel.handler);
+      } catch (error) {
+        console.error(`Error unsubscribing from live readings of site ${siteId}:`, error);
+      }
+    };
+  }
+
+  private dispatch(siteId: number, message: string): void {
+    let reading: LiveReading;
+    try {
+      reading = JSON.parse(message) as LiveReading;
+    } catch (error) {
+      console.error(`Ignoring malformed live reading for site ${siteId}:`, error);
+      return;
+    }
+
+    for (const listener of this.channels.get(siteId)?.listeners ?? []) {
+      listener(reading);
+    }
+  }
+}
+
+// Hub singleton (needed for Next.js hot reload)
+const globalForLive = globalThis as unknown as {
+  liveReadingHub: LiveReadingHub | undefined;
+};
+
+/**
+ * Gets the live reading hub singleton.
+ * The hub uses a dedicated connection, since a subscribed Redis client cannot run other commands.
+ * @returns LiveReadingHub instance
+ * @throws Error if REDIS_URL is not configured
+ */
+export function getLiveReadingHub(): LiveReadingHub {
+  if (globalForLive.liveReadingHub) {
+    return globalForLive.liveReadingHub;
+  }
+
+  const subscriber = getRedisClient().duplicate();
+
+  subscriber.on('error', (err) => {
+    console.error('Redis Subscriber Error:', err);
+  });
+
+  subscriber.connect().catch((err) => {
+    console.error('Failed to connect Redis subscriber:', err);
+  });
+
+  const hub = new LiveReadingHub(subscriber);
+  globalForLive.liveReadingHub = hub;
+  return hub;
+}
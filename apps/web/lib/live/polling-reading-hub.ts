@@ -0,0 +1,122 @@
+import type { EnergyService } from '@/lib/services/energy-service';
+import type { LiveReadingListener } from '@/lib/live/live-reading-hub';
+
+/**
+ * Interval between two queries for new readings of a site.
+ */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Readings fetched per query; the worker stores at most a few readings per second.
+ */
+const POLL_LIMIT = 100;
+
+interface PolledSite {
+  listeners: Set<LiveReadingListener>;
+  timer: ReturnType<typeof setInterval> | null;
+  /** ID of the latest reading dispatched, null while the site has no readings */
+  lastId: number | null;
+  polling: boolean;
+  ready: Promise<void>;
+}
+
+/**
+ * Delivers live readings without Redis by polling the latest readings of a site from the database.
+ * Used when REDIS_URL is not configured; like `LiveReadingHub`, each site is polled only once per
+ * process and only while at least one stream listens to it. Readings are followed by their ID rather than
+ * their timestamp, since each meter writes its readings in batches of its own and may store readings older
+ * than the latest reading of another meter.
+ */
+export class PollingReadingHub {
+  private sites = new Map<number, PolledSite>();
+
+  constructor(
+    private energyService: Pick<EnergyService, 'getLatestReadingId' | 'getReadingsAfterId'>,
+    private intervalMs: number = POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Registers a listener for the readings of a site stored after this call.
+   * @param siteId - Site to listen to
+   * @param listener - Called for every new reading, in the order they were stored
+   * @returns Promise resolving to a function that removes the listener again, once polling has started
+   */
+  async subscribe(siteId: number, listener: LiveReadingListener): Promise<() => Promise<void>> {
+    let site = this.sites.get(siteId);
+    if (!site) {
+      const newSite: PolledSite = {
+        listeners: new Set(),
+        timer: null,
+        lastId: null,
+        polling: false,
+        ready: Promise.resolve(),
+      };
+      newSite.ready = this.energyService.getLatestReadingId(siteId).then((latestId) => {
+        newSite.lastId = latestId;
+        newSite.timer = setInterval(() => this.poll(siteId, newSite), this.intervalMs);
+      });
+      site = newSite;
+      this.sites.set(siteId, site);
+    }
+    site.listeners.add(listener);
+
+    const subscribed = site;
+    try {
+      await subscribed.ready;
+    } catch (error) {
+      if (this.sites.get(siteId) === subscribed) {
+        this.sites.delete(siteId);
+      }
+      throw error;
+    }
+
+    return async () => {
+      if (!subscribed.listeners.delete(listener) || subscribed.listeners.size > 0) {
+        return;
+      }
+      if (this.sites.get(siteId) === subscribed) {
+        this.sites.delete(siteId);
+      }
+      if (subscribed.timer) {
+        clearInterval(subscribed.timer);
+      }
+    };
+  }
+
+  private async poll(siteId: number, site: PolledSite): Promise<void> {
+    if (site.polling) {
+      return; // The previous query has not finished yet
+    }
+    site.polling = true;
+    try {
+      const readings = await this.energyService.getReadingsAfterId(site.lastId ?? 0, POLL_LIMIT, siteId);
+      for (const reading of readings) {
+        site.lastId = reading.id;
+        for (const listener of site.listeners) {
+          listener(reading);
+        }
+      }
+    } catch (error) {
+      console.error(`Error polling live readings of site ${siteId}:`, error);
+    } finally {
+      site.polling = false;
+    }
+  }
+}
+
+// Hub singleton (needed for Next.js hot reload)
+const globalForPolling = globalThis as unknown as {
+  pollingReadingHub: PollingReadingHub | undefined;
+};
+
+/**
+ * Gets the polling reading hub singleton.
+ * @param energyService - Service the readings are queried from (used when the hub is created)
+ * @returns PollingReadingHub instance
+ */
+export function getPollingReadingHub(energyService: Pick<EnergyService, 'getLatestReadingId' | 'getReadingsAfterId'>): PollingReadingHub {
+  if (!globalForPolling.pollingReadingHub) {
+    globalForPolling.pollingReadingHub = new PollingReadingHub(energyService);
+  }
+  return globalForPolling.pollingReadingHub;
+}
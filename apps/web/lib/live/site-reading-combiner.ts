@@ -0,0 +1,132 @@
+import type { EnergyHistoryEntry } from '@/types/energy';
+import type { LiveReading } from '@/types/live';
+
+/**
+ * Position of a live stream: timestamp of the latest reading received per meter (null: readings without meter).
+ */
+export type LiveCursor = Map<number | null, number>;
+
+interface MeterState {
+  timestamp: number;
+  reading: LiveReading | null;
+}
+
+/**
+ * Combines the readings of the meters of a site into readings of the whole site.
+ *
+ * Every meter of a site publishes its own reading per second, so a reading of one meter only holds part of
+ * the site's power. The combiner keeps the latest reading of each meter and sums them, like buckets are summed
+ * across meters. Readings are deduplicated per meter, so two meters reporting the same second are both kept,
+ * while a reading replayed for a meter is dropped.
+ */
+export class SiteReadingCombiner {
+  private meters = new Map<number | null, MeterState>();
+
+  /**
+   * @param cursor - Readings already received per meter, which are dropped when they arrive again
+   */
+  constructor(cursor: LiveCursor | null = null) {
+    for (const [meterId, timestamp] of cursor ?? []) {
+      this.meters.set(meterId, { timestamp, reading: null });
+    }
+  }
+
+  /**
+   * Adds a new reading of a meter.
+   * @param reading - Reading of one meter
+   * @returns Reading of the site at the reading's timestamp, or null if the meter already had this reading
+   */
+  add(reading: LiveReading): EnergyHistoryEntry | null {
+    const meterId = reading.meter_id ?? null;
+    const state = this.meters.get(meterId);
+    if (state && reading.timestamp <= state.timestamp) {
+      return null; // Already received (backlog and live overlap, or replayed reading)
+    }
+    this.meters.set(meterId, { timestamp: reading.timestamp, reading });
+    return this.combine(reading.timestamp);
+  }
+
+  /**
+   * Records a reading the client already received, so it contributes to the following site readings.
+   * @param reading - Reading of one meter at or before the meter's cursor
+   */
+  seed(reading: LiveReading): void {
+    const meterId = reading.meter_id ?? null;
+    const state = this.meters.get(meterId);
+    if (!state) {
+      this.meters.set(meterId, { timestamp: reading.timestamp, reading });
+    } else if (state.reading === null || reading.timestamp >= state.reading.timestamp) {
+      state.reading = reading;
+    }
+  }
+
+  /**
+   * Number of meters a reading was received from.
+   */
+  get meterCount(): number {
+    return this.meters.size;
+  }
+
+  /**
+   * Gets the position of the stream, to be resumed with a new combiner.
+   * @returns Latest reading timestamp per meter
+   */
+  cursor(): LiveCursor {
+    return new Map([...this.meters].map(([meterId, state]) => [meterId, state.timestamp]));
+  }
+
+  private combine(timestamp: number): EnergyHistoryEntry {
+    const entry: EnergyHistoryEntry = {
+      timestamp,
+      home: 0,
+      grid: 0,
+      car: 0,
+      solar: 0,
+      battery: 0,
+      battery_soc: null,
+    };
+    // Like the buckets, the state of charge is averaged over the meters reporting one
+    let socSum = 0;
+    let socCount = 0;
+
+    for (const { reading } of this.meters.values()) {
+      if (!reading) {
+        continue;
+      }
+      entry.home += reading.home;
+      entry.grid += reading.grid;
+      entry.car += reading.car;
+      entry.solar += reading.solar;
+      entry.battery += reading.battery;
+      if (reading.battery_soc !== null) {
+        socSum += reading.battery_soc;
+        socCount++;
+      }
+    }
+
+    entry.battery_soc = socCount > 0 ? socSum / socCount : null;
+    return entry;
+  }
+}
+
+/**
+ * Combines stored readings of a site into one reading of the site per second.
+ * Site readings before every meter of the batch reported once are left out, since they would lack these meters.
+ * @param readings - Readings of any meters, newest first
+ * @param combiner - Combiner to feed, which afterwards holds the latest reading of each meter
+ * @returns Site readings, newest first
+ */
+export function combineReadings(readings: LiveReading[], combiner: SiteReadingCombiner): EnergyHistoryEntry[] {
+  const meterCount = new Set(readings.map((reading) => reading.meter_id ?? null)).size;
+  const combined = new Map<number, EnergyHistoryEntry>();
+
+  for (const reading of [...readings].reverse()) {
+    const entry = combiner.add(reading);
+    if (entry && combiner.meterCount >= meterCount) {
+      // Meters reporting the same second replace the site reading of that second
+      combined.set(entry.timestamp, entry);
+    }
+  }
+
+  return [...combined.values()].sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,192 @@
+import { PrismaClient } from '@prisma/client';
+import type { AggregationCursor, JobRun, JobRunStatus, JobTrigger, NewJobRun } from '@/types/jobs';
+
+interface JobRunRow {
+  id: number;
+  trigger: string;
+  status: string;
+  site_id: number | null;
+  range_start: number | null;
+  range_end: number | null;
+  started_at: number;
+  finished_at: number | null;
+  buckets_processed: number;
+  error: string | null;
+}
+
+/**
+ * Repository for the run history and per-site progress of the aggregation job.
+ * Encapsulates database access logic and accepts PrismaClient via dependency injection.
+ */
+export class AggregationJobRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Records the start of a run.
+   * @param run - Trigger and, for re-aggregations, site and range of the run
+   * @returns Promise resolving to the recorded run with status `running`
+   */
+  async startRun(run: NewJobRun): Promise<JobRun> {
+    try {
+      const created = await this.prisma.aggregationJobRun.create({
+        data: {
+          ...this.toRunData(run),
+          status: 'running',
+          started_at: Math.floor(Date.now() / 1000),
+        },
+      });
+      return this.toJobRun(created);
+    } catch (error) {
+      console.error('Error recording job run start:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the end of a run.
+   * @param id - ID of the run
+   * @param status - Outcome of the run
+   * @param bucketsProcessed - Number of buckets written by the run
+   * @param errorMessage - Error message(s) of a failed run
+   * @returns Promise resolving to the finished run
+   */
+  async finishRun(
+    id: number,
+    status: Extract<JobRunStatus, 'completed' | 'error'>,
+    bucketsProcessed: number,
+    errorMessage: string | null = null
+  ): Promise<JobRun> {
+    try {
+      const updated = await this.prisma.aggregationJobRun.update({
+        where: { id },
+        data: {
+          status,
+          finished_at: Math.floor(Date.now() / 1000),
+          buckets_processed: bucketsProcessed,
+          error: errorMessage,
+        },
+      });
+      return this.toJobRun(updated);
+    } catch (error) {
+      console.error('Error recording job run end:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a run that was skipped because another run held the lock.
+   * @param run - Trigger and, for re-aggregations, site and range of the run
+   * @returns Promise resolving to the recorded run with status `skipped`
+   */
+  async recordSkippedRun(run: NewJobRun): Promise<JobRun> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const created = await this.prisma.aggregationJobRun.create({
+        data: {
+          ...this.toRunData(run),
+          status: 'skipped',
+          started_at: now,
+          finished_at: now,
+        },
+      });
+      return this.toJobRun(created);
+    } catch (error) {
+      console.error('Error recording skipped job run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets recorded runs, most recent first.
+   * @param limit - Maximum number of runs to return
+   * @param offset - Number of runs to skip
+   * @returns Promise resolving to array of JobRun
+   */
+  async getRuns(limit: number = 50, offset: number = 0): Promise<JobRun[]> {
+    try {
+      const runs = await this.prisma.aggregationJobRun.findMany({
+        orderBy: { id: 'desc' },
+        take: limit,
+        skip: offset,
+      });
+      return runs.map((run) => this.toJobRun(run));
+    } catch (error) {
+      console.error('Error querying job runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes runs started before a timestamp.
+   * @param before - Runs started before this timestamp are deleted (Unix seconds)
+   * @returns Promise resolving to the number of deleted runs
+   */
+  async pruneRuns(before: number): Promise<number> {
+    try {
+      const result = await this.prisma.aggregationJobRun.deleteMany({
+        where: { started_at: { lt: before } },
+      });
+      return result.count;
+    } catch (error) {
+      console.error('Error pruning job runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the aggregation progress of every site that has been aggregated.
+   * @returns Promise resolving to array of AggregationCursor ordered by site
+   */
+  async getCursors(): Promise<AggregationCursor[]> {
+    try {
+      const jobs = await this.prisma.energyBucketAggregationJob.findMany({
+        orderBy: { site_id: 'asc' },
+      });
+      return jobs.map((job) => ({
+        site_id: job.site_id,
+        last_processed_timestamp: job.last_processed_timestamp,
+        last_ingested_at: job.last_ingested_at,
+        readings_purged_before: job.readings_purged_before,
+        car_sessions_stale_from: job.car_sessions_stale_from,
+        last_run_at: job.last_run_at,
+        status: job.status,
+      }));
+    } catch (error) {
+      console.error('Error querying aggregation cursors:', error);
+      throw error;
+    }
+  }
+
+  private toRunData(run: NewJobRun) {
+    return {
+      trigger: run.trigger,
+      site_id: run.siteId ?? null,
+      range_start: run.rangeStart ?? null,
+      range_end: run.rangeEnd ?? null,
+    };
+  }
+
+  private toJobRun(run: JobRunRow): JobRun {
+    return {
+      id: run.id,
+      trigger: run.trigger as JobTrigger,
+      status: run.status as JobRunStatus,
+      site_id: run.site_id,
+      range_start: run.range_start,
+      range_end: run.range_end,
+      started_at: run.started_at,
+      finished_at: run.finished_at,
+      buckets_processed: run.buckets_processed,
+      error: run.error,
+    };
+  }
+}
+
+/**
+ * Factory function to create an AggregationJobRepository instance.
+ * @param prisma - PrismaClient instance
+ * @returns AggregationJobRepository instance
+ */
+export function createAggregationJobRepository(prisma: PrismaClient): AggregationJobRepository {
+  return new AggregationJobRepository(prisma);
+}
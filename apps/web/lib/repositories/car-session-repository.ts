@@ -0,0 +1,115 @@
+import { PrismaClient } from '@prisma/client';
+import type { CarChargingSession, NewCarChargingSession } from '@/types/car';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+/**
+ * Repository for detected car charging sessions.
+ * Encapsulates database access logic and accepts PrismaClient via dependency injection.
+ */
+export class CarSessionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Gets the sessions of a site starting within a time range, newest first.
+   * @param siteId - Site to read from
+   * @param from - Optional start of the range (Unix seconds)
+   * @param to - Optional end of the range (exclusive, Unix seconds)
+   * @returns Promise resolving to array of CarChargingSession
+   */
+  async getSessions(
+    siteId: number = DEFAULT_SITE_ID,
+    from?: number,
+    to?: number
+  ): Promise<CarChargingSession[]> {
+    try {
+      return await this.prisma.carChargingSession.findMany({
+        where: {
+          site_id: siteId,
+          started_at: {
+            ...(from !== undefined && { gte: from }),
+            ...(to !== undefined && { lt: to }),
+          },
+        },
+        orderBy: { started_at: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error querying car charging sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the most recent session of a site.
+   * @param siteId - Site to read from
+   * @returns Promise resolving to the session, or null if none was detected yet
+   */
+  async getLatestSession(siteId: number = DEFAULT_SITE_ID): Promise<CarChargingSession | null> {
+    try {
+      return await this.prisma.carChargingSession.findFirst({
+        where: { site_id: siteId },
+        orderBy: { started_at: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error querying latest car charging session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the earliest session of a site ending at or after a timestamp.
+   * @param siteId - Site to read from
+   * @param timestamp - Unix seconds
+   * @returns Promise resolving to the session, or null if all sessions ended before
+   */
+  async getFirstSessionEndingFrom(siteId: number, timestamp: number): Promise<CarChargingSession | null> {
+    try {
+      return await this.prisma.carChargingSession.findFirst({
+        where: { site_id: siteId, ended_at: { gte: timestamp } },
+        orderBy: { started_at: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error querying car charging sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the sessions of a site starting within a time range with newly detected ones.
+   * @param siteId - Site of the sessions
+   * @param from - Start of the detected range (Unix seconds)
+   * @param to - End of the detected range (exclusive, Unix seconds)
+   * @param sessions - Sessions detected within the range
+   * @returns Promise resolving to the number of written sessions
+   */
+  async replaceSessions(
+    siteId: number,
+    from: number,
+    to: number,
+    sessions: NewCarChargingSession[]
+  ): Promise<number> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const [, created] = await this.prisma.$transaction([
+        this.prisma.carChargingSession.deleteMany({
+          where: { site_id: siteId, started_at: { gte: from, lt: to } },
+        }),
+        this.prisma.carChargingSession.createMany({
+          data: sessions.map((session) => ({ ...session, site_id: siteId, updated_at: now })),
+        }),
+      ]);
+      return created.count;
+    } catch (error) {
+      console.error('Error writing car charging sessions:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Factory function to create a CarSessionRepository instance.
+ * @param prisma - PrismaClient instance
+ * @returns CarSessionRepository instance
+ */
+export function createCarSessionRepository(prisma: PrismaClient): CarSessionRepository {
+  return new CarSessionRepository(prisma);
+}
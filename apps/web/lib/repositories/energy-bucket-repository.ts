@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import type { EnergyBucket, EnergyReading } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 /**
  * Repository for energy bucket data access operations.
@@ -12,12 +13,18 @@ export class EnergyBucketRepository {
    * Gets energy buckets for a specific time range.
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyBucket
    */
-  async getBucketsForRange(from: number, to: number): Promise<EnergyBucket[]> {
+  async getBucketsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyBucket[]> {
     try {
       const buckets = await this.prisma.energyBucket.findMany({
         where: {
+          site_id: siteId,
           bucket_start: {
             gte: from,
             lt: to, // Use lt to avoid overlap
@@ -28,40 +35,58 @@ export class EnergyBucketRepository {
         },
       });
 
-      return buckets.map((bucket) => ({
-        bucket_start: bucket.bucket_start,
-        bucket_end: bucket.bucket_end,
-        home_kwh: bucket.home_kwh,
-        grid_kwh: bucket.grid_kwh,
-        car_kwh: bucket.car_kwh,
-        solar_kwh: bucket.solar_kwh,
-        readings_count: bucket.readings_count,
-        first_timestamp: bucket.first_timestamp,
-        last_timestamp: bucket.last_timestamp,
-        first_home: bucket.first_home,
-        first_grid: bucket.first_grid,
-        first_car: bucket.first_car,
-        first_solar: bucket.first_solar,
-        last_home: bucket.last_home,
-        last_grid: bucket.last_grid,
-        last_car: bucket.last_car,
-        last_solar: bucket.last_solar,
-      }));
+      return buckets.map((bucket) => this.toEnergyBucket(bucket));
     } catch (error) {
       console.error('Error querying energy buckets for range:', error);
       throw error;
     }
   }
 
+  /**
+   * Gets the minute buckets of a site in which the car drew energy.
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
+   * @returns Promise resolving to array of EnergyBucket ordered by bucket start
+   */
+  async getCarBucketsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyBucket[]> {
+    try {
+      const buckets = await this.prisma.energyBucket.findMany({
+        where: {
+          site_id: siteId,
+          bucket_start: { gte: from, lt: to },
+          car_kwh: { gt: 0 },
+        },
+        orderBy: {
+          bucket_start: 'asc',
+        },
+      });
+
+      return buckets.map((bucket) => this.toEnergyBucket(bucket));
+    } catch (error) {
+      console.error('Error querying car buckets for range:', error);
+      throw error;
+    }
+  }
+
   /**
    * Gets the last reading before a given timestamp (for partial first bucket integration).
    * @param timestamp - Timestamp to find reading before (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to EnergyReading or null if not found
    */
-  async getFirstReadingBefore(timestamp: number): Promise<EnergyReading | null> {
+  async getFirstReadingBefore(
+    timestamp: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading | null> {
     try {
       const reading = await this.prisma.energyReading.findFirst({
         where: {
+          site_id: siteId,
           timestamp: {
             lt: timestamp,
           },
@@ -82,6 +107,8 @@ export class EnergyBucketRepository {
         grid: reading.grid,
         car: reading.car,
         solar: reading.solar,
+        battery: reading.battery,
+        battery_soc: reading.battery_soc,
         created_at: reading.created_at,
       };
     } catch (error) {
@@ -93,12 +120,17 @@ export class EnergyBucketRepository {
   /**
    * Gets the first reading after a given timestamp (for partial last bucket integration).
    * @param timestamp - Timestamp to find reading after (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to EnergyReading or null if not found
    */
-  async getFirstReadingAfter(timestamp: number): Promise<EnergyReading | null> {
+  async getFirstReadingAfter(
+    timestamp: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading | null> {
     try {
       const reading = await this.prisma.energyReading.findFirst({
         where: {
+          site_id: siteId,
           timestamp: {
             gt: timestamp,
           },
@@ -119,6 +151,8 @@ export class EnergyBucketRepository {
         grid: reading.grid,
         car: reading.car,
         solar: reading.solar,
+        battery: reading.battery,
+        battery_soc: reading.battery_soc,
         created_at: reading.created_at,
       };
     } catch (error) {
@@ -128,12 +162,16 @@ export class EnergyBucketRepository {
   }
 
   /**
-   * Gets the latest bucket timestamp.
+   * Gets the latest bucket timestamp of a site.
+   * @param siteId - Site to read from
    * @returns Promise resolving to latest bucket timestamp or null if no buckets exist
    */
-  async getLatestBucketTimestamp(): Promise<number | null> {
+  async getLatestBucketTimestamp(siteId: number = DEFAULT_SITE_ID): Promise<number | null> {
     try {
       const bucket = await this.prisma.energyBucket.findFirst({
+        where: {
+          site_id: siteId,
+        },
         orderBy: {
           bucket_start: 'desc',
         },
@@ -151,16 +189,18 @@ export class EnergyBucketRepository {
 
   /**
    * Gets hourly aggregated buckets for a time range from materialized view.
+   * Returns all hours overlapping the range, including partial hours at its edges.
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyBucket (hourly aggregated)
    */
-  async getHourlyBucketsForRange(from: number, to: number): Promise<EnergyBucket[]> {
+  async getHourlyBucketsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyBucket[]> {
     try {
-      // Round timestamps to hour boundaries for materialized view query
-      const fromHour = Math.floor(from / 3600) * 3600;
-      const toHour = Math.ceil(to / 3600) * 3600;
-
       const result = await this.prisma.$queryRaw<Array<{
         bucket_start: bigint;
         bucket_end: bigint;
@@ -168,6 +208,11 @@ export class EnergyBucketRepository {
         grid_kwh: number;
         car_kwh: number;
         solar_kwh: number;
+        battery_kwh: number;
+        grid_import_kwh: number;
+        grid_export_kwh: number;
+        battery_charge_kwh: number;
+        battery_discharge_kwh: number;
         readings_count: bigint;
         first_timestamp: bigint;
         last_timestamp: bigint;
@@ -175,10 +220,13 @@ export class EnergyBucketRepository {
         first_grid: number;
         first_car: number;
         first_solar: number;
+        first_battery: number;
         last_home: number;
         last_grid: number;
         last_car: number;
         last_solar: number;
+        last_battery: number;
+        last_battery_soc: number | null;
       }>>`
         SELECT 
           bucket_start,
@@ -187,6 +235,11 @@ export class EnergyBucketRepository {
           grid_kwh,
           car_kwh,
           solar_kwh,
+          battery_kwh,
+          grid_import_kwh,
+          grid_export_kwh,
+          battery_charge_kwh,
+          battery_discharge_kwh,
           readings_count,
           first_timestamp,
           last_timestamp,
@@ -194,13 +247,17 @@ export class EnergyBucketRepository {
           first_grid,
           first_car,
           first_solar,
+          first_battery,
           last_home,
           last_grid,
           last_car,
-          last_solar
+          last_solar,
+          last_battery,
+          last_battery_soc
         FROM energy_hourly_buckets
-        WHERE bucket_start >= ${fromHour}
-          AND bucket_start < ${toHour}
+        WHERE site_id = ${siteId}
+          AND bucket_end > ${from}
+          AND bucket_start < ${to}
         ORDER BY bucket_start ASC
       `;
 
@@ -211,6 +268,11 @@ export class EnergyBucketRepository {
         grid_kwh: row.grid_kwh,
         car_kwh: row.car_kwh,
         solar_kwh: row.solar_kwh,
+        battery_kwh: row.battery_kwh,
+        grid_import_kwh: row.grid_import_kwh,
+        grid_export_kwh: row.grid_export_kwh,
+        battery_charge_kwh: row.battery_charge_kwh,
+        battery_discharge_kwh: row.battery_discharge_kwh,
         readings_count: Number(row.readings_count),
         first_timestamp: Number(row.first_timestamp),
         last_timestamp: Number(row.last_timestamp),
@@ -218,10 +280,13 @@ export class EnergyBucketRepository {
         first_grid: row.first_grid,
         first_car: row.first_car,
         first_solar: row.first_solar,
+        first_battery: row.first_battery,
         last_home: row.last_home,
         last_grid: row.last_grid,
         last_car: row.last_car,
         last_solar: row.last_solar,
+        last_battery: row.last_battery,
+        last_battery_soc: row.last_battery_soc,
       }));
     } catch (error) {
       console.error('Error querying hourly buckets for range:', error);
@@ -235,21 +300,19 @@ export class EnergyBucketRepository {
 
   /**
    * Gets daily aggregated buckets for a time range from materialized view.
+   * Returns all days overlapping the range, including partial days at its edges.
+   * Days start at local midnight of the site, so DST days span 23 or 25 hours.
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyBucket (daily aggregated)
    */
-  async getDailyBucketsForRange(from: number, to: number): Promise<EnergyBucket[]> {
+  async getDailyBucketsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyBucket[]> {
     try {
-      // Round timestamps to day boundaries for materialized view query
-      const fromDate = new Date(from * 1000);
-      fromDate.setHours(0, 0, 0, 0);
-      const fromDay = Math.floor(fromDate.getTime() / 1000);
-
-      const toDate = new Date(to * 1000);
-      toDate.setHours(0, 0, 0, 0);
-      const toDay = Math.ceil(toDate.getTime() / 1000);
-
       const result = await this.prisma.$queryRaw<Array<{
         bucket_start: bigint;
         bucket_end: bigint;
@@ -257,6 +320,11 @@ export class EnergyBucketRepository {
         grid_kwh: number;
         car_kwh: number;
         solar_kwh: number;
+        battery_kwh: number;
+        grid_import_kwh: number;
+        grid_export_kwh: number;
+        battery_charge_kwh: number;
+        battery_discharge_kwh: number;
         readings_count: bigint;
         first_timestamp: bigint;
         last_timestamp: bigint;
@@ -264,10 +332,13 @@ export class EnergyBucketRepository {
         first_grid: number;
         first_car: number;
         first_solar: number;
+        first_battery: number;
         last_home: number;
         last_grid: number;
         last_car: number;
         last_solar: number;
+        last_battery: number;
+        last_battery_soc: number | null;
       }>>`
         SELECT 
           bucket_start,
@@ -276,6 +347,11 @@ export class EnergyBucketRepository {
           grid_kwh,
           car_kwh,
           solar_kwh,
+          battery_kwh,
+          grid_import_kwh,
+          grid_export_kwh,
+          battery_charge_kwh,
+          battery_discharge_kwh,
           readings_count,
           first_timestamp,
           last_timestamp,
@@ -283,13 +359,17 @@ export class EnergyBucketRepository {
           first_grid,
           first_car,
           first_solar,
+          first_battery,
           last_home,
           last_grid,
           last_car,
-          last_solar
+          last_solar,
+          last_battery,
+          last_battery_soc
         FROM energy_daily_buckets
-        WHERE bucket_start >= ${fromDay}
-          AND bucket_start < ${toDay}
+        WHERE site_id = ${siteId}
+          AND bucket_end > ${from}
+          AND bucket_start < ${to}
         ORDER BY bucket_start ASC
       `;
 
@@ -300,6 +380,11 @@ export class EnergyBucketRepository {
         grid_kwh: row.grid_kwh,
         car_kwh: row.car_kwh,
         solar_kwh: row.solar_kwh,
+        battery_kwh: row.battery_kwh,
+        grid_import_kwh: row.grid_import_kwh,
+        grid_export_kwh: row.grid_export_kwh,
+        battery_charge_kwh: row.battery_charge_kwh,
+        battery_discharge_kwh: row.battery_discharge_kwh,
         readings_count: Number(row.readings_count),
         first_timestamp: Number(row.first_timestamp),
         last_timestamp: Number(row.last_timestamp),
@@ -307,10 +392,13 @@ export class EnergyBucketRepository {
         first_grid: row.first_grid,
         first_car: row.first_car,
         first_solar: row.first_solar,
+        first_battery: row.first_battery,
         last_home: row.last_home,
         last_grid: row.last_grid,
         last_car: row.last_car,
         last_solar: row.last_solar,
+        last_battery: row.last_battery,
+        last_battery_soc: row.last_battery_soc,
       }));
     } catch (error) {
       console.error('Error querying daily buckets for range:', error);
@@ -321,6 +409,36 @@ export class EnergyBucketRepository {
       throw error;
     }
   }
+
+  private toEnergyBucket(bucket: EnergyBucket): EnergyBucket {
+    return {
+      bucket_start: bucket.bucket_start,
+      bucket_end: bucket.bucket_end,
+      home_kwh: bucket.home_kwh,
+      grid_kwh: bucket.grid_kwh,
+      car_kwh: bucket.car_kwh,
+      solar_kwh: bucket.solar_kwh,
+      battery_kwh: bucket.battery_kwh,
+      grid_import_kwh: bucket.grid_import_kwh,
+      grid_export_kwh: bucket.grid_export_kwh,
+      battery_charge_kwh: bucket.battery_charge_kwh,
+      battery_discharge_kwh: bucket.battery_discharge_kwh,
+      readings_count: bucket.readings_count,
+      first_timestamp: bucket.first_timestamp,
+      last_timestamp: bucket.last_timestamp,
+      first_home: bucket.first_home,
+      first_grid: bucket.first_grid,
+      first_car: bucket.first_car,
+      first_solar: bucket.first_solar,
+      first_battery: bucket.first_battery,
+      last_home: bucket.last_home,
+      last_grid: bucket.last_grid,
+      last_car: bucket.last_car,
+      last_solar: bucket.last_solar,
+      last_battery: bucket.last_battery,
+      last_battery_soc: bucket.last_battery_soc,
+    };
+  }
 }
 
 /**
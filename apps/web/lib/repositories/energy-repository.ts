@@ -1,5 +1,15 @@
 import { PrismaClient } from '@prisma/client';
-import type { EnergyData, EnergySettings, ConsumingPricePeriod, EnergyReading } from '@/types/energy';
+import type {
+  EnergyData,
+  EnergySettings,
+  ConsumingPricePeriod,
+  DynamicTariff,
+  TariffCharges,
+  EnergyReading,
+  NewEnergyReading,
+  TariffType,
+} from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 /**
  * Repository for energy data access operations.
@@ -10,27 +20,58 @@ export class EnergyRepository {
 
   /**
    * Inserts a new energy reading into the database.
+   * A reading that already exists for the site, meter and timestamp is skipped,
+   * so readings can safely be written again (e.g. when replaying after an outage).
    * @param data - Energy data to insert
+   * @param siteId - Site the reading belongs to
+   * @param meterId - Optional meter that produced the reading
+   * @throws Error if the database write fails
    */
-  async insertEnergyReading(data: EnergyData): Promise<void> {
-    if (!data.timestamp) {
-      return; // Skip if timestamp is not available
+  async insertEnergyReading(
+    data: EnergyData,
+    siteId: number = DEFAULT_SITE_ID,
+    meterId: number | null = null
+  ): Promise<void> {
+    await this.insertEnergyReadings([{ data, siteId, meterId }]);
+  }
+
+  /**
+   * Inserts several energy readings with a single statement.
+   * Readings without timestamp are ignored, readings that already exist for the site, meter and timestamp are skipped.
+   * @param readings - Readings to insert
+   * @returns Promise resolving to the number of inserted readings
+   * @throws Error if the database write fails
+   */
+  async insertEnergyReadings(readings: NewEnergyReading[]): Promise<number> {
+    const createdAt = Math.floor(Date.now() / 1000);
+    const rows = readings
+      .filter((reading) => reading.data.timestamp)
+      .map(({ data, siteId, meterId }) => ({
+        site_id: siteId,
+        meter_id: meterId,
+        timestamp: data.timestamp as number,
+        home: data.home,
+        grid: data.grid,
+        car: data.car,
+        solar: data.solar,
+        battery: data.battery,
+        battery_soc: data.battery_soc,
+        created_at: createdAt,
+      }));
+
+    if (rows.length === 0) {
+      return 0;
     }
 
     try {
-      await this.prisma.energyReading.create({
-        data: {
-          timestamp: data.timestamp,
-          home: data.home,
-          grid: data.grid,
-          car: data.car,
-          solar: data.solar,
-          created_at: Math.floor(Date.now() / 1000),
-        },
+      const result = await this.prisma.energyReading.createMany({
+        data: rows,
+        skipDuplicates: true,
       });
+      return result.count;
     } catch (error) {
-      console.error('Error inserting energy reading:', error);
-      // Don't throw - we want to continue processing even if DB write fails
+      console.error('Error inserting energy readings:', error);
+      throw error;
     }
   }
 
@@ -40,21 +81,24 @@ export class EnergyRepository {
    * @param offset - Number of readings to skip
    * @param from - Optional start timestamp (Unix seconds)
    * @param to - Optional end timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyReading
    */
   async getEnergyReadings(
     limit: number = 100,
     offset: number = 0,
     from?: number,
-    to?: number
+    to?: number,
+    siteId: number = DEFAULT_SITE_ID
   ): Promise<EnergyReading[]> {
     try {
       const where: {
+        site_id: number;
         timestamp?: {
           gte?: number;
           lte?: number;
         };
-      } = {};
+      } = { site_id: siteId };
 
       if (from || to) {
         where.timestamp = {};
@@ -67,7 +111,7 @@ export class EnergyRepository {
       }
 
       const readings = await this.prisma.energyReading.findMany({
-        where: Object.keys(where).length > 0 ? where : undefined,
+        where,
         orderBy: {
           timestamp: 'desc',
         },
@@ -82,6 +126,9 @@ export class EnergyRepository {
         grid: reading.grid,
         car: reading.car,
         solar: reading.solar,
+        battery: reading.battery,
+        battery_soc: reading.battery_soc,
+        meter_id: reading.meter_id,
         created_at: reading.created_at,
       }));
     } catch (error) {
@@ -94,12 +141,18 @@ export class EnergyRepository {
    * Gets energy readings for a specific time range.
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyReading
    */
-  async getEnergyReadingsForRange(from: number, to: number): Promise<EnergyReading[]> {
+  async getEnergyReadingsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading[]> {
     try {
       const readings = await this.prisma.energyReading.findMany({
         where: {
+          site_id: siteId,
           timestamp: {
             gte: from,
             lte: to,
@@ -117,6 +170,9 @@ export class EnergyRepository {
         grid: reading.grid,
         car: reading.car,
         solar: reading.solar,
+        battery: reading.battery,
+        battery_soc: reading.battery_soc,
+        meter_id: reading.meter_id,
         created_at: reading.created_at,
       }));
     } catch (error) {
@@ -126,12 +182,76 @@ export class EnergyRepository {
   }
 
   /**
-   * Gets all energy settings (including past, current, and future).
+   * Gets the ID of the reading of a site that was stored last.
+   * @param siteId - Site to read from
+   * @returns Promise resolving to the reading ID, or null if the site has no readings
+   */
+  async getLatestEnergyReadingId(siteId: number = DEFAULT_SITE_ID): Promise<number | null> {
+    try {
+      const reading = await this.prisma.energyReading.findFirst({
+        where: { site_id: siteId },
+        orderBy: { id: 'desc' },
+        select: { id: true },
+      });
+      return reading?.id ?? null;
+    } catch (error) {
+      console.error('Error querying latest energy reading id:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the readings of a site stored after a given reading, in the order they were stored.
+   * Unlike a timestamp range this includes readings stored late, e.g. by a meter flushing its batch after another meter.
+   * @param afterId - ID of the last reading already seen
+   * @param limit - Maximum number of readings to return
+   * @param siteId - Site to read from
+   * @returns Promise resolving to array of EnergyReading, oldest stored first
+   */
+  async getEnergyReadingsAfterId(
+    afterId: number,
+    limit: number = 100,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading[]> {
+    try {
+      const readings = await this.prisma.energyReading.findMany({
+        where: {
+          site_id: siteId,
+          id: { gt: afterId },
+        },
+        orderBy: {
+          id: 'asc',
+        },
+        take: limit,
+      });
+
+      return readings.map((reading) => ({
+        id: reading.id,
+        timestamp: reading.timestamp,
+        home: reading.home,
+        grid: reading.grid,
+        car: reading.car,
+        solar: reading.solar,
+        battery: reading.battery,
+        battery_soc: reading.battery_soc,
+        meter_id: reading.meter_id,
+        created_at: reading.created_at,
+      }));
+    } catch (error) {
+      console.error('Error querying energy readings after id:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets all energy settings (including past, current, and future) of a site.
+   * @param siteId - Site whose tariffs are returned
    * @returns Promise resolving to array of all EnergySettings
    */
-  async getAllEnergySettings(): Promise<EnergySettings[]> {
+  async getAllEnergySettings(siteId: number = DEFAULT_SITE_ID): Promise<EnergySettings[]> {
     try {
       const settings = await this.prisma.energySettings.findMany({
+        where: { site_id: siteId },
         include: {
           consuming_periods: {
             orderBy: {
@@ -150,12 +270,23 @@ export class EnergyRepository {
         start_date: setting.start_date,
         end_date: setting.end_date,
         updated_at: setting.updated_at,
+        holidays: setting.holidays,
+        tariff_type: setting.tariff_type as TariffType,
+        spot_markup: setting.spot_markup,
+        grid_fee: setting.grid_fee,
+        consumption_levy: setting.consumption_levy,
+        base_fee: setting.base_fee,
+        meter_fee: setting.meter_fee,
+        vat_rate: setting.vat_rate,
         consuming_periods: setting.consuming_periods.map((period) => ({
           id: period.id,
           energy_settings_id: period.energy_settings_id,
           start_time: period.start_time,
           end_time: period.end_time,
           price: period.price,
+          days_of_week: period.days_of_week,
+          season_start: period.season_start,
+          season_end: period.season_end,
         })),
       }));
     } catch (error) {
@@ -189,27 +320,47 @@ export class EnergyRepository {
    * @param consumingPeriods - Array of time-based consuming price periods
    * @param startDate - Start date for the settings (Unix timestamp)
    * @param endDate - Optional end date (Unix timestamp, null for currently active)
+   * @param siteId - Site the settings apply to
+   * @param holidays - Holidays priced by the periods' holiday flag ('YYYY-MM-DD' or 'MM-DD')
+   * @param dynamicTariff - Price components of a dynamic tariff, null for a fixed tariff
+   * @param charges - Fixed fees, levies and VAT (none if null)
    * @returns Promise resolving to the created EnergySettings
    */
   async createEnergySettings(
     producingPrice: number,
     consumingPeriods: ConsumingPricePeriod[],
     startDate: number,
-    endDate: number | null = null
+    endDate: number | null = null,
+    siteId: number = DEFAULT_SITE_ID,
+    holidays: string[] = [],
+    dynamicTariff: DynamicTariff | null = null,
+    charges: TariffCharges | null = null
   ): Promise<EnergySettings> {
     try {
       const now = Math.floor(Date.now() / 1000);
       const created = await this.prisma.energySettings.create({
         data: {
+          site_id: siteId,
           producing_price: producingPrice,
           start_date: startDate,
           end_date: endDate,
           updated_at: now,
+          holidays,
+          tariff_type: dynamicTariff ? 'dynamic' : 'fixed',
+          spot_markup: dynamicTariff?.spot_markup ?? 0,
+          grid_fee: dynamicTariff?.grid_fee ?? 0,
+          consumption_levy: charges?.consumption_levy ?? 0,
+          base_fee: charges?.base_fee ?? 0,
+          meter_fee: charges?.meter_fee ?? 0,
+          vat_rate: charges?.vat_rate ?? 0,
           consuming_periods: {
             create: consumingPeriods.map((period) => ({
               start_time: period.start_time,
               end_time: period.end_time,
               price: period.price,
+              days_of_week: period.days_of_week,
+              season_start: period.season_start ?? null,
+              season_end: period.season_end ?? null,
             })),
           },
         },
@@ -228,12 +379,23 @@ export class EnergyRepository {
         start_date: created.start_date,
         end_date: created.end_date,
         updated_at: created.updated_at,
+        holidays: created.holidays,
+        tariff_type: created.tariff_type as TariffType,
+        spot_markup: created.spot_markup,
+        grid_fee: created.grid_fee,
+        consumption_levy: created.consumption_levy,
+        base_fee: created.base_fee,
+        meter_fee: created.meter_fee,
+        vat_rate: created.vat_rate,
         consuming_periods: created.consuming_periods.map((period) => ({
           id: period.id,
           energy_settings_id: period.energy_settings_id,
           start_time: period.start_time,
           end_time: period.end_time,
           price: period.price,
+          days_of_week: period.days_of_week,
+          season_start: period.season_start,
+          season_end: period.season_end,
         })),
       };
     } catch (error) {
@@ -243,15 +405,20 @@ export class EnergyRepository {
   }
 
   /**
-   * Finds the currently active energy settings at a given timestamp.
+   * Finds the currently active energy settings of a site at a given timestamp.
    * Pure data access function - no business logic.
    * @param timestamp - Unix timestamp in seconds
+   * @param siteId - Site whose tariffs are searched
    * @returns Promise resolving to EnergySettings or null if no settings found
    */
-  async findActiveEnergySettings(timestamp: number): Promise<EnergySettings | null> {
+  async findActiveEnergySettings(
+    timestamp: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergySettings | null> {
     try {
       const settings = await this.prisma.energySettings.findFirst({
         where: {
+          site_id: siteId,
           AND: [
             { start_date: { lte: timestamp } },
             {
@@ -284,12 +451,23 @@ export class EnergyRepository {
         start_date: settings.start_date,
         end_date: settings.end_date,
         updated_at: settings.updated_at,
+        holidays: settings.holidays,
+        tariff_type: settings.tariff_type as TariffType,
+        spot_markup: settings.spot_markup,
+        grid_fee: settings.grid_fee,
+        consumption_levy: settings.consumption_levy,
+        base_fee: settings.base_fee,
+        meter_fee: settings.meter_fee,
+        vat_rate: settings.vat_rate,
         consuming_periods: settings.consuming_periods.map((period) => ({
           id: period.id,
           energy_settings_id: period.energy_settings_id,
           start_time: period.start_time,
           end_time: period.end_time,
           price: period.price,
+          days_of_week: period.days_of_week,
+          season_start: period.season_start,
+          season_end: period.season_end,
         })),
       };
     } catch (error) {
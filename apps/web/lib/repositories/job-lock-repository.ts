@@ -0,0 +1,153 @@
+import { PrismaClient } from '@prisma/client';
+import type { JobLock, JobRunStatus } from '@/types/jobs';
+
+interface JobLockRow {
+  name: string;
+  owner: string | null;
+  locked_until: number;
+  status: string;
+  last_run_at: number;
+  last_skipped_at: number;
+}
+
+/**
+ * Repository for lease-based job locks.
+ * A lock is held by one owner until it is released or its lease expires, so a crashed process
+ * cannot block a job forever. Lease times use the database clock, so hosts with skewed clocks agree.
+ */
+export class JobLockRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Acquires a lock if it is free or its lease has expired, and marks the job as running.
+   * @param name - Name of the lock (one per job)
+   * @param owner - Unique identifier of the acquiring run
+   * @param leaseSeconds - Duration of the lease
+   * @returns Promise resolving to true if the lock was acquired
+   */
+  async tryAcquire(name: string, owner: string, leaseSeconds: number): Promise<boolean> {
+    try {
+      const acquired = await this.prisma.$queryRaw<{ name: string }[]>`
+        INSERT INTO job_locks (name, owner, locked_until, status, last_run_at)
+        VALUES (
+          ${name},
+          ${owner},
+          EXTRACT(EPOCH FROM NOW())::INTEGER + ${leaseSeconds}::INTEGER,
+          'running',
+          EXTRACT(EPOCH FROM NOW())::INTEGER
+        )
+        ON CONFLICT (name) DO UPDATE SET
+          owner = EXCLUDED.owner,
+          locked_until = EXCLUDED.locked_until,
+          status = EXCLUDED.status,
+          last_run_at = EXCLUDED.last_run_at
+        WHERE job_locks.owner IS NULL
+           OR job_locks.locked_until <= EXTRACT(EPOCH FROM NOW())::INTEGER
+        RETURNING name
+      `;
+      return acquired.length > 0;
+    } catch (error) {
+      console.error('Error acquiring job lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extends the lease of a lock that is still held by the owner.
+   * @param name - Name of the lock
+   * @param owner - Identifier the lock was acquired with
+   * @param leaseSeconds - Duration of the new lease, starting now
+   * @returns Promise resolving to false if the lock has been taken over by another owner
+   */
+  async renew(name: string, owner: string, leaseSeconds: number): Promise<boolean> {
+    try {
+      const renewed = await this.prisma.$executeRaw`
+        UPDATE job_locks
+        SET locked_until = EXTRACT(EPOCH FROM NOW())::INTEGER + ${leaseSeconds}::INTEGER
+        WHERE name = ${name}
+          AND owner = ${owner}
+      `;
+      return renewed > 0;
+    } catch (error) {
+      console.error('Error renewing job lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Releases a lock held by the owner and records the outcome of the run.
+   * Does nothing if the lock has been taken over by another owner in the meantime.
+   * @param name - Name of the lock
+   * @param owner - Identifier the lock was acquired with
+   * @param status - Outcome of the run
+   */
+  async release(name: string, owner: string, status: Extract<JobRunStatus, 'completed' | 'error'>): Promise<void> {
+    try {
+      await this.prisma.jobLock.updateMany({
+        where: { name, owner },
+        data: { owner: null, locked_until: 0, status },
+      });
+    } catch (error) {
+      console.error('Error releasing job lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records that a run was skipped because the lock was held.
+   * The status of the running job is kept.
+   * @param name - Name of the lock
+   * @returns Promise resolving to the lock held by the other run, or null if it does not exist
+   */
+  async recordSkip(name: string): Promise<JobLock | null> {
+    try {
+      const locks = await this.prisma.$queryRaw<JobLockRow[]>`
+        UPDATE job_locks
+        SET last_skipped_at = EXTRACT(EPOCH FROM NOW())::INTEGER
+        WHERE name = ${name}
+        RETURNING name, owner, locked_until, status, last_run_at, last_skipped_at
+      `;
+      return locks.length > 0 ? this.toJobLock(locks[0]) : null;
+    } catch (error) {
+      console.error('Error recording skipped job run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the current state of a lock.
+   * @param name - Name of the lock
+   * @returns Promise resolving to the lock, or null if the job has never run
+   */
+  async getLock(name: string): Promise<JobLock | null> {
+    try {
+      const lock = await this.prisma.jobLock.findUnique({
+        where: { name },
+      });
+      return lock ? this.toJobLock(lock) : null;
+    } catch (error) {
+      console.error('Error querying job lock:', error);
+      throw error;
+    }
+  }
+
+  private toJobLock(lock: JobLockRow): JobLock {
+    return {
+      name: lock.name,
+      owner: lock.owner,
+      locked_until: lock.locked_until,
+      status: lock.status as JobRunStatus,
+      last_run_at: lock.last_run_at,
+      last_skipped_at: lock.last_skipped_at,
+    };
+  }
+}
+
+/**
+ * Factory function to create a JobLockRepository instance.
+ * @param prisma - PrismaClient instance
+ * @returns JobLockRepository instance
+ */
+export function createJobLockRepository(prisma: PrismaClient): JobLockRepository {
+  return new JobLockRepository(prisma);
+}
@@ -0,0 +1,68 @@
+import { PrismaClient } from '@prisma/client';
+import type { SpotPrice } from '@/types/energy';
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+/**
+ * Repository for imported day-ahead spot prices.
+ * Encapsulates database access logic and accepts PrismaClient via dependency injection.
+ */
+export class SpotPriceRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Gets the spot prices of a site overlapping a time range, ordered by start.
+   * @param from - Start of the range (Unix seconds)
+   * @param to - End of the range (exclusive, Unix seconds)
+   * @param siteId - Site to read from
+   * @returns Promise resolving to array of SpotPrice
+   */
+  async getSpotPrices(from: number, to: number, siteId: number = DEFAULT_SITE_ID): Promise<SpotPrice[]> {
+    try {
+      return await this.prisma.spotPrice.findMany({
+        where: {
+          site_id: siteId,
+          starts_at: { lt: to },
+          ends_at: { gt: from },
+        },
+        select: { starts_at: true, ends_at: true, price: true },
+        orderBy: { starts_at: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error querying spot prices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes spot prices of a site, replacing stored prices with the same start (e.g. a re-imported day).
+   * @param siteId - Site the prices apply to
+   * @param prices - Prices to write
+   * @returns Promise resolving to the number of written prices
+   */
+  async upsertSpotPrices(siteId: number, prices: SpotPrice[]): Promise<number> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const [, created] = await this.prisma.$transaction([
+        this.prisma.spotPrice.deleteMany({
+          where: { site_id: siteId, starts_at: { in: prices.map((price) => price.starts_at) } },
+        }),
+        this.prisma.spotPrice.createMany({
+          data: prices.map((price) => ({ ...price, site_id: siteId, created_at: now })),
+        }),
+      ]);
+      return created.count;
+    } catch (error) {
+      console.error('Error writing spot prices:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Factory function to create a SpotPriceRepository instance.
+ * @param prisma - PrismaClient instance
+ * @returns SpotPriceRepository instance
+ */
+export function createSpotPriceRepository(prisma: PrismaClient): SpotPriceRepository {
+  return new SpotPriceRepository(prisma);
+}
@@ -1,22 +1,77 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { PrismaClient } from '@prisma/client';
 import type { Cache } from '@/lib/cache/cache-interface';
+import { createJobLockRepository, type JobLockRepository } from '@/lib/repositories/job-lock-repository';
+import {
+  createAggregationJobRepository,
+  type AggregationJobRepository,
+} from '@/lib/repositories/aggregation-job-repository';
+import { integratePositivePart } from '@/lib/energy-aggregation';
+import { DEFAULT_SITE_ID } from '@/types/site';
+import type { BucketRange } from '@/types/energy';
+import { AGGREGATION_LOCK_NAME, type JobRun, type JobRunStatus, type JobTrigger, type NewJobRun } from '@/types/jobs';
+
+/** Number of seconds aggregated per statement when catching up on unprocessed buckets */
+const AGGREGATION_CHUNK_SECONDS = 86400;
+
+/** Lease of the aggregation lock; renewed before every chunk, so only a single chunk has to finish within it */
+const AGGREGATION_LOCK_LEASE_SECONDS = 300;
+
+/** Recorded runs are kept for this many days */
+const JOB_RUN_RETENTION_DAYS = 30;
+
+/**
+ * Start of the earliest bucket that can be aggregated again: buckets also integrate the segments from the
+ * readings of the previous minute, and readings before `readingsPurgedBefore` may have been removed by retention.
+ * @param readingsPurgedBefore - `readings_purged_before` of the aggregation cursor of the site
+ * @returns Start of the first bucket whose readings are complete (Unix seconds)
+ */
+function firstRebuildableBucket(readingsPurgedBefore: number): number {
+  return readingsPurgedBefore > 0 ? readingsPurgedBefore + 60 : 0;
+}
+
+/**
+ * Outcome of re-aggregating the buckets changed by late readings.
+ */
+export interface LateReadingsResult {
+  /** Re-aggregated bucket ranges */
+  ranges: BucketRange[];
+  /** Number of buckets written */
+  bucketsProcessed: number;
+}
+
+/**
+ * Work done while holding the aggregation lock.
+ * @param renewLease - Extends the lease; throws if another run has taken over the lock
+ * @returns Number of buckets written and the error messages of failed sites
+ */
+type ExclusiveWork = (renewLease: () => Promise<void>) => Promise<{ bucketsProcessed: number; errors: string[] }>;
 
 /**
  * Service for aggregating raw energy readings into pre-aggregated buckets.
- * Uses SQL window functions for efficient database-level aggregation.
+ * Buckets are aggregated set-based in the database (`aggregateRange`); `aggregateMinuteBucket`
+ * integrates a single bucket in JavaScript and is kept as the reference implementation.
  */
 export class EnergyAggregationJob {
   constructor(
     private prisma: PrismaClient,
-    private cache?: Cache
+    private cache?: Cache,
+    private locks: JobLockRepository = createJobLockRepository(prisma),
+    private runs: AggregationJobRepository = createAggregationJobRepository(prisma)
   ) {}
 
   /**
-   * Aggregates raw readings for a specific 1-minute bucket.
-   * Calculates trapezoidal integrals for each metric (home, grid, car, solar).
+   * Aggregates raw readings of a site for a specific 1-minute bucket.
+   * Calculates trapezoidal integrals for each metric (home, grid, car, solar, battery), and for grid and battery
+   * separately for their positive and negative parts, split at zero crossings of the interpolated power.
+   * Segments between readings of adjacent minutes are split at the minute boundary with the linearly
+   * interpolated power, so buckets add up to the integral over the readings; longer gaps are not bridged.
+   * Reference implementation of `aggregateRange`, which produces the same buckets in a single statement.
    * @param bucketStart - Start timestamp of the bucket (Unix seconds, rounded to minute)
+   * @param siteId - Site whose readings are aggregated
    */
-  async aggregateMinuteBucket(bucketStart: number): Promise<void> {
+  async aggregateMinuteBucket(bucketStart: number, siteId: number = DEFAULT_SITE_ID): Promise<void> {
     const bucketEnd = bucketStart + 60;
     console.log("aggregating minute bucket from", bucketStart, "to", bucketEnd);
 
@@ -25,22 +80,23 @@ export class EnergyAggregationJob {
     const dateEnd = new Date(bucketEnd * 1000);
     console.log(dateStart.toString(), "to", dateEnd.toString());
     console.log("########################################################");
-    // Fetch readings for this bucket
+    // Fetch readings for this bucket and its neighbours, whose segments may extend into it
     const readings = await this.prisma.energyReading.findMany({
       where: {
+        site_id: siteId,
         timestamp: {
-          gte: bucketStart,
-          lt: bucketEnd,
+          gte: bucketStart - 60,
+          lt: bucketEnd + 60,
         },
       },
-      orderBy: {
-        timestamp: 'asc',
-      },
+      // Readings of several meters may share a timestamp; the id keeps their order stable
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
     });
+    const bucketReadings = readings.filter((reading) => reading.timestamp >= bucketStart && reading.timestamp < bucketEnd);
 
-    if (readings.length < 2) {
-      // Not enough readings for integration, skip this bucket
-      console.log("not enough readings for integration, skipping bucket");
+    if (bucketReadings.length === 0) {
+      // No readings in this minute, skip this bucket
+      console.log("no readings in minute, skipping bucket");
       return;
     }
 
@@ -49,45 +105,97 @@ export class EnergyAggregationJob {
     let gridKwh = 0;
     let carKwh = 0;
     let solarKwh = 0;
+    let batteryKwh = 0;
+    let gridImportKwh = 0;
+    let gridExportKwh = 0;
+    let batteryChargeKwh = 0;
+    let batteryDischargeKwh = 0;
 
-    for (let i = 0; i < readings.length - 1; i++) {
-      const r1 = readings[i];
-      const r2 = readings[i + 1];
-      const timeDelta = r2.timestamp - r1.timestamp; // seconds
+    // Meters report different channels (unmapped ones as 0), so only readings of the same meter are paired;
+    // the parts of all meters are summed
+    const readingsByMeter = new Map<number | null, typeof readings>();
+    for (const reading of readings) {
+      const meterReadings = readingsByMeter.get(reading.meter_id) ?? [];
+      meterReadings.push(reading);
+      readingsByMeter.set(reading.meter_id, meterReadings);
+    }
 
-      // Trapezoidal integration: ((power1 + power2) / 2) * time_delta / 3600 (convert to kWh)
-      homeKwh += ((r1.home + r2.home) / 2) * timeDelta / 3600 / 1000; // Convert watts to kW, seconds to hours
-      gridKwh += ((r1.grid + r2.grid) / 2) * timeDelta / 3600 / 1000;
-      carKwh += ((r1.car + r2.car) / 2) * timeDelta / 3600 / 1000;
-      solarKwh += ((r1.solar + r2.solar) / 2) * timeDelta / 3600 / 1000;
+    for (const meterReadings of readingsByMeter.values()) {
+      for (let i = 0; i < meterReadings.length - 1; i++) {
+        const r1 = meterReadings[i];
+        const r2 = meterReadings[i + 1];
+        if (Math.floor(r2.timestamp / 60) - Math.floor(r1.timestamp / 60) > 1) {
+          continue; // Gap over a whole minute
+        }
+
+        // Part of the segment within the bucket
+        const partStart = Math.max(r1.timestamp, bucketStart);
+        const partEnd = Math.min(r2.timestamp, bucketEnd);
+        if (partEnd <= partStart) {
+          continue;
+        }
+        // The average power of the part is the interpolated power at its midpoint
+        const position = ((partStart + partEnd) / 2 - r1.timestamp) / (r2.timestamp - r1.timestamp);
+        const timeDelta = partEnd - partStart; // seconds
+
+        // Trapezoidal integration: average power * time_delta / 3600 (convert to kWh)
+        homeKwh += (r1.home + (r2.home - r1.home) * position) * timeDelta / 3600 / 1000; // Convert watts to kW, seconds to hours
+        gridKwh += (r1.grid + (r2.grid - r1.grid) * position) * timeDelta / 3600 / 1000;
+        carKwh += (r1.car + (r2.car - r1.car) * position) * timeDelta / 3600 / 1000;
+        solarKwh += (r1.solar + (r2.solar - r1.solar) * position) * timeDelta / 3600 / 1000;
+        batteryKwh += (r1.battery + (r2.battery - r1.battery) * position) * timeDelta / 3600 / 1000;
+
+        // Positive and negative parts, split at zero crossings of the interpolated power
+        const startPosition = (partStart - r1.timestamp) / (r2.timestamp - r1.timestamp);
+        const endPosition = (partEnd - r1.timestamp) / (r2.timestamp - r1.timestamp);
+        const gridStart = r1.grid + (r2.grid - r1.grid) * startPosition;
+        const gridEnd = r1.grid + (r2.grid - r1.grid) * endPosition;
+        const batteryStart = r1.battery + (r2.battery - r1.battery) * startPosition;
+        const batteryEnd = r1.battery + (r2.battery - r1.battery) * endPosition;
+        gridImportKwh += integratePositivePart(gridStart, gridEnd, timeDelta) / 3600 / 1000;
+        gridExportKwh += integratePositivePart(-gridStart, -gridEnd, timeDelta) / 3600 / 1000;
+        batteryChargeKwh += integratePositivePart(batteryStart, batteryEnd, timeDelta) / 3600 / 1000;
+        batteryDischargeKwh += integratePositivePart(-batteryStart, -batteryEnd, timeDelta) / 3600 / 1000;
+      }
     }
 
-    console.log("homeKwh:", homeKwh, "gridKwh:", gridKwh, "carKwh:", carKwh, "solarKwh:", solarKwh);
+    console.log("homeKwh:", homeKwh, "gridKwh:", gridKwh, "carKwh:", carKwh, "solarKwh:", solarKwh, "batteryKwh:", batteryKwh);
 
-    const firstReading = readings[0];
-    const lastReading = readings[readings.length - 1];
+    const firstReading = bucketReadings[0];
+    const lastReading = bucketReadings[bucketReadings.length - 1];
+    // State of charge is optional; keep the most recent reported value of the bucket
+    const lastSocReading = [...bucketReadings].reverse().find((reading) => reading.battery_soc !== null);
 
     // Upsert bucket
     await this.prisma.energyBucket.upsert({
-      where: { bucket_start: bucketStart },
+      where: { site_id_bucket_start: { site_id: siteId, bucket_start: bucketStart } },
       create: {
+        site_id: siteId,
         bucket_start: bucketStart,
         bucket_end: bucketEnd,
         home_kwh: homeKwh,
         grid_kwh: gridKwh,
         car_kwh: carKwh,
         solar_kwh: solarKwh,
-        readings_count: readings.length,
+        battery_kwh: batteryKwh,
+        grid_import_kwh: gridImportKwh,
+        grid_export_kwh: gridExportKwh,
+        battery_charge_kwh: batteryChargeKwh,
+        battery_discharge_kwh: batteryDischargeKwh,
+        readings_count: bucketReadings.length,
         first_timestamp: firstReading.timestamp,
         last_timestamp: lastReading.timestamp,
         first_home: firstReading.home,
         first_grid: firstReading.grid,
         first_car: firstReading.car,
         first_solar: firstReading.solar,
+        first_battery: firstReading.battery,
         last_home: lastReading.home,
         last_grid: lastReading.grid,
         last_car: lastReading.car,
         last_solar: lastReading.solar,
+        last_battery: lastReading.battery,
+        last_battery_soc: lastSocReading?.battery_soc ?? null,
       },
       update: {
         bucket_end: bucketEnd,
@@ -95,38 +203,235 @@ export class EnergyAggregationJob {
         grid_kwh: gridKwh,
         car_kwh: carKwh,
         solar_kwh: solarKwh,
-        readings_count: readings.length,
+        battery_kwh: batteryKwh,
+        grid_import_kwh: gridImportKwh,
+        grid_export_kwh: gridExportKwh,
+        battery_charge_kwh: batteryChargeKwh,
+        battery_discharge_kwh: batteryDischargeKwh,
+        readings_count: bucketReadings.length,
         first_timestamp: firstReading.timestamp,
         last_timestamp: lastReading.timestamp,
         first_home: firstReading.home,
         first_grid: firstReading.grid,
         first_car: firstReading.car,
         first_solar: firstReading.solar,
+        first_battery: firstReading.battery,
         last_home: lastReading.home,
         last_grid: lastReading.grid,
         last_car: lastReading.car,
         last_solar: lastReading.solar,
+        last_battery: lastReading.battery,
+        last_battery_soc: lastSocReading?.battery_soc ?? null,
       },
     });
   }
 
   /**
-   * Processes all unprocessed 1-minute buckets since the last run.
-   * Finds the last processed timestamp and processes buckets up to now.
+   * Aggregates raw readings of a site into all 1-minute buckets within [from, to) in a single statement.
+   * Consecutive readings of each meter are paired with LAG window functions and integrated with the trapezoidal
+   * rule, the parts of all meters summed per bucket,
+   * like `aggregateMinuteBucket`: pairs within a minute count for that minute, pairs of adjacent minutes are
+   * split at the minute boundary. Readings of the neighbouring minutes are read for the split segments.
+   * Grid and battery are also integrated per sign, splitting parts at zero crossings of the interpolated power.
+   * Buckets are upserted with INSERT ... ON CONFLICT. Minutes without readings produce no bucket.
+   * @param from - Start of the range (Unix seconds, rounded to minute)
+   * @param to - End of the range (exclusive, Unix seconds, rounded to minute)
+   * @param siteId - Site whose readings are aggregated
+   * @returns Number of buckets written
    */
-  async processLatest(): Promise<void> {
+  async aggregateRange(from: number, to: number, siteId: number = DEFAULT_SITE_ID): Promise<number> {
+    return this.prisma.$executeRaw`
+      WITH pairs AS (
+        SELECT
+          id, site_id, meter_id, timestamp, home, grid, car, solar, battery, battery_soc,
+          (timestamp / 60) * 60 AS bucket_start,
+          LAG(timestamp) OVER series AS prev_timestamp,
+          LAG(home) OVER series AS prev_home,
+          LAG(grid) OVER series AS prev_grid,
+          LAG(car) OVER series AS prev_car,
+          LAG(solar) OVER series AS prev_solar,
+          LAG(battery) OVER series AS prev_battery
+        FROM energy_readings
+        WHERE site_id = ${siteId}
+          AND timestamp >= ${from} - 60
+          AND timestamp < ${to} + 60
+        WINDOW series AS (PARTITION BY meter_id ORDER BY timestamp, id)
+      ),
+      segments AS (
+        -- Part of a pair in the minute of its later reading (the whole pair if both lie in that minute)
+        SELECT *, bucket_start AS part_bucket, GREATEST(prev_timestamp, bucket_start) AS part_start, timestamp AS part_end
+        FROM pairs
+        WHERE prev_timestamp >= bucket_start - 60
+        UNION ALL
+        -- Part of a pair crossing a minute boundary in the minute of its earlier reading
+        SELECT *, bucket_start - 60, prev_timestamp, bucket_start
+        FROM pairs
+        WHERE prev_timestamp >= bucket_start - 60
+          AND prev_timestamp < bucket_start
+      ),
+      parts AS (
+        -- Positions of the start, middle and end of each part between its readings (0 to 1)
+        SELECT
+          *,
+          part_end - part_start AS duration,
+          (part_start - prev_timestamp)::DOUBLE PRECISION / NULLIF(timestamp - prev_timestamp, 0) AS start_position,
+          ((part_start + part_end) / 2.0 - prev_timestamp)::DOUBLE PRECISION / NULLIF(timestamp - prev_timestamp, 0) AS position,
+          (part_end - prev_timestamp)::DOUBLE PRECISION / NULLIF(timestamp - prev_timestamp, 0) AS end_position
+        FROM segments
+        WHERE part_bucket >= ${from}
+          AND part_bucket < ${to}
+          AND part_end > part_start
+      ),
+      powers AS (
+        -- The average power of a part is the interpolated power at its midpoint;
+        -- signed channels also need the power at both ends to locate zero crossings
+        SELECT
+          part_bucket,
+          duration,
+          prev_home + (home - prev_home) * position AS home_power,
+          prev_grid + (grid - prev_grid) * position AS grid_power,
+          prev_car + (car - prev_car) * position AS car_power,
+          prev_solar + (solar - prev_solar) * position AS solar_power,
+          prev_battery + (battery - prev_battery) * position AS battery_power,
+          prev_grid + (grid - prev_grid) * start_position AS grid_start,
+          prev_grid + (grid - prev_grid) * end_position AS grid_end,
+          prev_battery + (battery - prev_battery) * start_position AS battery_start,
+          prev_battery + (battery - prev_battery) * end_position AS battery_end
+        FROM parts
+      ),
+      energy AS (
+        -- A part crossing zero has the sign of its larger end for peak / |start - end| of its duration
+        SELECT
+          part_bucket AS bucket_start,
+          SUM(home_power * duration) / 3600 / 1000 AS home_kwh,
+          SUM(grid_power * duration) / 3600 / 1000 AS grid_kwh,
+          SUM(car_power * duration) / 3600 / 1000 AS car_kwh,
+          SUM(solar_power * duration) / 3600 / 1000 AS solar_kwh,
+          SUM(battery_power * duration) / 3600 / 1000 AS battery_kwh,
+          SUM(CASE
+            WHEN grid_start >= 0 AND grid_end >= 0 THEN grid_power
+            WHEN grid_start <= 0 AND grid_end <= 0 THEN 0
+            ELSE GREATEST(grid_start, grid_end) ^ 2 / (2 * ABS(grid_start - grid_end))
+          END * duration) / 3600 / 1000 AS grid_import_kwh,
+          SUM(CASE
+            WHEN grid_start <= 0 AND grid_end <= 0 THEN -grid_power
+            WHEN grid_start >= 0 AND grid_end >= 0 THEN 0
+            ELSE LEAST(grid_start, grid_end) ^ 2 / (2 * ABS(grid_start - grid_end))
+          END * duration) / 3600 / 1000 AS grid_export_kwh,
+          SUM(CASE
+            WHEN battery_start >= 0 AND battery_end >= 0 THEN battery_power
+            WHEN battery_start <= 0 AND battery_end <= 0 THEN 0
+            ELSE GREATEST(battery_start, battery_end) ^ 2 / (2 * ABS(battery_start - battery_end))
+          END * duration) / 3600 / 1000 AS battery_charge_kwh,
+          SUM(CASE
+            WHEN battery_start <= 0 AND battery_end <= 0 THEN -battery_power
+            WHEN battery_start >= 0 AND battery_end >= 0 THEN 0
+            ELSE LEAST(battery_start, battery_end) ^ 2 / (2 * ABS(battery_start - battery_end))
+          END * duration) / 3600 / 1000 AS battery_discharge_kwh
+        FROM powers
+        GROUP BY part_bucket
+      ),
+      stats AS (
+        SELECT
+          site_id,
+          bucket_start,
+          COUNT(*) AS readings_count,
+          MIN(timestamp) AS first_timestamp,
+          MAX(timestamp) AS last_timestamp,
+          (ARRAY_AGG(home ORDER BY timestamp, id))[1] AS first_home,
+          (ARRAY_AGG(grid ORDER BY timestamp, id))[1] AS first_grid,
+          (ARRAY_AGG(car ORDER BY timestamp, id))[1] AS first_car,
+          (ARRAY_AGG(solar ORDER BY timestamp, id))[1] AS first_solar,
+          (ARRAY_AGG(battery ORDER BY timestamp, id))[1] AS first_battery,
+          (ARRAY_AGG(home ORDER BY timestamp DESC, id DESC))[1] AS last_home,
+          (ARRAY_AGG(grid ORDER BY timestamp DESC, id DESC))[1] AS last_grid,
+          (ARRAY_AGG(car ORDER BY timestamp DESC, id DESC))[1] AS last_car,
+          (ARRAY_AGG(solar ORDER BY timestamp DESC, id DESC))[1] AS last_solar,
+          (ARRAY_AGG(battery ORDER BY timestamp DESC, id DESC))[1] AS last_battery,
+          (ARRAY_AGG(battery_soc ORDER BY timestamp DESC, id DESC) FILTER (WHERE battery_soc IS NOT NULL))[1] AS last_battery_soc
+        FROM pairs
+        WHERE timestamp >= ${from}
+          AND timestamp < ${to}
+        GROUP BY site_id, bucket_start
+      )
+      INSERT INTO energy_buckets (
+        site_id, bucket_start, bucket_end,
+        home_kwh, grid_kwh, car_kwh, solar_kwh, battery_kwh,
+        grid_import_kwh, grid_export_kwh, battery_charge_kwh, battery_discharge_kwh,
+        readings_count, first_timestamp, last_timestamp,
+        first_home, first_grid, first_car, first_solar, first_battery,
+        last_home, last_grid, last_car, last_solar, last_battery, last_battery_soc
+      )
+      SELECT
+        stats.site_id,
+        stats.bucket_start,
+        stats.bucket_start + 60,
+        COALESCE(energy.home_kwh, 0),
+        COALESCE(energy.grid_kwh, 0),
+        COALESCE(energy.car_kwh, 0),
+        COALESCE(energy.solar_kwh, 0),
+        COALESCE(energy.battery_kwh, 0),
+        COALESCE(energy.grid_import_kwh, 0),
+        COALESCE(energy.grid_export_kwh, 0),
+        COALESCE(energy.battery_charge_kwh, 0),
+        COALESCE(energy.battery_discharge_kwh, 0),
+        readings_count, first_timestamp, last_timestamp,
+        first_home, first_grid, first_car, first_solar, first_battery,
+        last_home, last_grid, last_car, last_solar, last_battery, last_battery_soc
+      FROM stats
+      LEFT JOIN energy ON energy.bucket_start = stats.bucket_start
+      ON CONFLICT (site_id, bucket_start) DO UPDATE SET
+        bucket_end = EXCLUDED.bucket_end,
+        home_kwh = EXCLUDED.home_kwh,
+        grid_kwh = EXCLUDED.grid_kwh,
+        car_kwh = EXCLUDED.car_kwh,
+        solar_kwh = EXCLUDED.solar_kwh,
+        battery_kwh = EXCLUDED.battery_kwh,
+        grid_import_kwh = EXCLUDED.grid_import_kwh,
+        grid_export_kwh = EXCLUDED.grid_export_kwh,
+        battery_charge_kwh = EXCLUDED.battery_charge_kwh,
+        battery_discharge_kwh = EXCLUDED.battery_discharge_kwh,
+        readings_count = EXCLUDED.readings_count,
+        first_timestamp = EXCLUDED.first_timestamp,
+        last_timestamp = EXCLUDED.last_timestamp,
+        first_home = EXCLUDED.first_home,
+        first_grid = EXCLUDED.first_grid,
+        first_car = EXCLUDED.first_car,
+        first_solar = EXCLUDED.first_solar,
+        first_battery = EXCLUDED.first_battery,
+        last_home = EXCLUDED.last_home,
+        last_grid = EXCLUDED.last_grid,
+        last_car = EXCLUDED.last_car,
+        last_solar = EXCLUDED.last_solar,
+        last_battery = EXCLUDED.last_battery,
+        last_battery_soc = EXCLUDED.last_battery_soc
+    `;
+  }
+
+  /**
+   * Processes all unprocessed 1-minute buckets of a site since the last run.
+   * Finds the site's last processed timestamp and processes buckets up to now.
+   * @param siteId - Site to process
+   * @param renewLease - Extends the aggregation lock before every chunk, so catching up on a backlog keeps it
+   * @returns Number of buckets written, including re-aggregated buckets with late readings
+   */
+  async processLatest(
+    siteId: number = DEFAULT_SITE_ID,
+    renewLease: () => Promise<void> = async () => {}
+  ): Promise<number> {
     
     const now = Math.floor(Date.now() / 1000);
     const nowBucketStart = Math.floor(now / 60) * 60; // Round down to minute
 
     // Get or create job status
     let jobStatus = await this.prisma.energyBucketAggregationJob.findUnique({
-      where: { id: 1 },
+      where: { site_id: siteId },
     });
 
     if (!jobStatus) {
       // Initialize job status - start from earliest reading or 24 hours ago
       const earliestReading = await this.prisma.energyReading.findFirst({
+        where: { site_id: siteId },
         orderBy: { timestamp: 'asc' },
         select: { timestamp: true },
       });
@@ -137,8 +442,9 @@ export class EnergyAggregationJob {
 
       jobStatus = await this.prisma.energyBucketAggregationJob.create({
         data: {
-          id: 1,
+          site_id: siteId,
           last_processed_timestamp: startTimestamp,
+          last_ingested_at: now,
           last_run_at: now,
           status: 'running',
         },
@@ -146,59 +452,175 @@ export class EnergyAggregationJob {
     }
 
     const lastProcessed = jobStatus.last_processed_timestamp;
-    let currentBucketStart = lastProcessed + 60; // Start from next bucket after last processed
+    const lastIngestedAt = jobStatus.last_ingested_at;
+    // Start from the last processed bucket again: its segment into the next minute was not known before
+    let currentBucketStart = lastProcessed;
 
     // Update status to running
     await this.prisma.energyBucketAggregationJob.update({
-      where: { id: 1 },
+      where: { site_id: siteId },
       data: { status: 'running', last_run_at: now },
     });
 
     try {
-      let processedCount = 0;
+      let bucketsProcessed = 0;
 
-      // Process buckets up to now (but not including current minute)
+      // Process buckets up to now (but not including current minute), one chunk per statement
       while (currentBucketStart < nowBucketStart) {
-        await this.aggregateMinuteBucket(currentBucketStart);
-        currentBucketStart += 60;
-        processedCount++;
-
-        // Update status every 10 buckets to show progress
-        if (processedCount % 10 === 0) {
-          await this.prisma.energyBucketAggregationJob.update({
-            where: { id: 1 },
-            data: { last_processed_timestamp: currentBucketStart - 60 },
-          });
-        }
+        await renewLease();
+        const chunkEnd = Math.min(currentBucketStart + AGGREGATION_CHUNK_SECONDS, nowBucketStart);
+        bucketsProcessed += await this.aggregateRange(currentBucketStart, chunkEnd, siteId);
+        currentBucketStart = chunkEnd;
+
+        // Update status after every chunk to show progress
+        await this.prisma.energyBucketAggregationJob.update({
+          where: { site_id: siteId },
+          data: { last_processed_timestamp: currentBucketStart - 60 },
+        });
       }
 
+      // Buckets processed before this run may have received late readings since the last run
+      await renewLease();
+      const late = await this.reaggregateLateReadings(
+        siteId,
+        lastProcessed,
+        lastIngestedAt,
+        jobStatus.readings_purged_before
+      );
+      bucketsProcessed += late.bucketsProcessed;
+
       // Update final status
       await this.prisma.energyBucketAggregationJob.update({
-        where: { id: 1 },
+        where: { site_id: siteId },
         data: {
           last_processed_timestamp: currentBucketStart - 60,
+          last_ingested_at: now,
           status: 'completed',
           last_run_at: now,
         },
       });
 
-      // Invalidate cache for affected time range
+      // Charging sessions in the re-aggregated buckets are detected again by the car session job
+      if (late.ranges.length > 0) {
+        await this.markCarSessionsStale(siteId, late.ranges[0].start);
+      }
+
+      // Invalidate cached responses overlapping the new and re-aggregated buckets
       if (this.cache) {
-        await this.cache.invalidatePattern('energy:aggregated:*');
+        for (const range of [{ start: lastProcessed, end: currentBucketStart }, ...late.ranges]) {
+          await this.cache.invalidateRange(siteId, range.start, range.end);
+        }
       }
 
-      // Refresh materialized views
-      await this.refreshMaterializedViews();
+      return bucketsProcessed;
     } catch (error) {
       console.error('Error processing aggregation job:', error);
       await this.prisma.energyBucketAggregationJob.update({
-        where: { id: 1 },
+        where: { site_id: siteId },
         data: { status: 'error', last_run_at: now },
       });
       throw error;
     }
   }
 
+  /**
+   * Re-aggregates minute buckets of a site that changed through readings stored after they were aggregated,
+   * e.g. readings replayed after a database outage, written late by the batching writer or imported for past periods.
+   * Late readings are recognized by their ingestion time (`created_at`) lying after the start of the previous run.
+   * A late reading changes the bucket of its minute, the previous bucket if it is the first reading of its meter in
+   * the minute (the segment from the previous minute now ends at it) and the next bucket if it is the last one.
+   * Buckets from `reprocessedFrom` on are aggregated by the current run anyway and are skipped.
+   * @param siteId - Site to check
+   * @param reprocessedFrom - First bucket the current run aggregates again (Unix seconds)
+   * @param ingestedSince - Start of the previous run; readings created since then are checked (Unix seconds)
+   * @param readingsPurgedBefore - Readings before this timestamp may have been removed by retention (Unix seconds)
+   * @returns Re-aggregated bucket ranges, merged where buckets are consecutive, and the number of buckets written
+   */
+  async reaggregateLateReadings(
+    siteId: number,
+    reprocessedFrom: number,
+    ingestedSince: number,
+    readingsPurgedBefore: number = 0
+  ): Promise<LateReadingsResult> {
+    const changedBuckets = await this.prisma.$queryRaw<{ bucket_start: number }[]>`
+      WITH late AS (
+        SELECT meter_id, timestamp, (timestamp / 60) * 60 AS bucket_start
+        FROM energy_readings
+        WHERE site_id = ${siteId}
+          AND created_at >= ${ingestedSince}
+          AND timestamp < ${reprocessedFrom} + 60
+      ),
+      changed AS (
+        SELECT bucket_start FROM late
+        UNION
+        SELECT l.bucket_start - 60
+        FROM late l
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM energy_readings r
+          WHERE r.site_id = ${siteId}
+            AND r.meter_id IS NOT DISTINCT FROM l.meter_id
+            AND r.timestamp >= l.bucket_start
+            AND r.timestamp < l.timestamp
+        )
+        UNION
+        SELECT l.bucket_start + 60
+        FROM late l
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM energy_readings r
+          WHERE r.site_id = ${siteId}
+            AND r.meter_id IS NOT DISTINCT FROM l.meter_id
+            AND r.timestamp > l.timestamp
+            AND r.timestamp < l.bucket_start + 60
+        )
+      )
+      SELECT bucket_start
+      FROM changed
+      WHERE bucket_start >= ${firstRebuildableBucket(readingsPurgedBefore)}
+        AND bucket_start < ${reprocessedFrom}
+      ORDER BY bucket_start
+    `;
+
+    const ranges: BucketRange[] = [];
+    for (const { bucket_start: bucketStart } of changedBuckets) {
+      const lastRange = ranges[ranges.length - 1];
+      if (lastRange && lastRange.end === bucketStart) {
+        lastRange.end = bucketStart + 60;
+      } else {
+        ranges.push({ start: bucketStart, end: bucketStart + 60 });
+      }
+    }
+
+    let bucketsProcessed = 0;
+    for (const range of ranges) {
+      bucketsProcessed += await this.aggregateRange(range.start, range.end, siteId);
+    }
+
+    if (ranges.length > 0) {
+      console.log(
+        `Re-aggregated ${bucketsProcessed} bucket(s) with late readings for site ${siteId}:`,
+        ranges.map((range) => `${new Date(range.start * 1000).toISOString()} - ${new Date(range.end * 1000).toISOString()}`)
+      );
+    }
+
+    return { ranges, bucketsProcessed };
+  }
+
+  /**
+   * Records that buckets of a site were re-aggregated from a timestamp on, so the car session job detects the
+   * sessions from there again. Only lowers the marker: runs of the session job may not have seen earlier buckets yet.
+   * @param siteId - Site whose buckets were re-aggregated
+   * @param from - Start of the first re-aggregated bucket (Unix seconds)
+   */
+  private async markCarSessionsStale(siteId: number, from: number): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE energy_bucket_aggregation_jobs
+      SET car_sessions_stale_from = LEAST(car_sessions_stale_from, ${from})
+      WHERE site_id = ${siteId}
+    `;
+  }
+
   /**
    * Refreshes PostgreSQL materialized views for hourly and daily aggregations.
    */
@@ -250,23 +672,150 @@ export class EnergyAggregationJob {
 
   /**
    * Main entry point for the aggregation job.
-   * Processes all unprocessed buckets since last run.
+   * Processes all unprocessed buckets of every site since their last run, then refreshes the views once.
+   * A failing site is recorded in its job status and does not block the other sites.
+   * Runs are serialized across processes by a lease-based lock; a run is skipped while another one holds it.
+   * Every run is recorded in the run history.
+   * @param trigger - What started the run
+   * @returns Promise resolving to the outcome of the run
    */
-  async run(): Promise<void> {
+  async run(trigger: JobTrigger = 'schedule'): Promise<JobRunStatus> {
     if (process.env.AGGREGATION_JOB_ENABLED === 'false') {
       console.log('Aggregation job is disabled');
-      return;
+      return 'skipped';
     }
 
-    await this.processLatest();
+    const run = await this.runExclusive({ trigger }, async (renewLease) => {
+      const sites = await this.prisma.site.findMany({
+        select: { id: true },
+        orderBy: { id: 'asc' },
+      });
+
+      let bucketsProcessed = 0;
+      const errors: string[] = [];
+      for (const site of sites) {
+        await renewLease();
+        try {
+          bucketsProcessed += await this.processLatest(site.id, renewLease);
+        } catch (error) {
+          errors.push(`Site ${site.id}: ${error instanceof Error ? error.message : String(error)}`);
+          console.error(`Aggregation failed for site ${site.id}:`, error);
+        }
+      }
+
+      // Refresh materialized views
+      await this.refreshMaterializedViews();
+
+      await this.runs.pruneRuns(Math.floor(Date.now() / 1000) - JOB_RUN_RETENTION_DAYS * 86400);
+      return { bucketsProcessed, errors };
+    });
+
+    return run.status;
+  }
+
+  /**
+   * Aggregates all minute buckets of a site within a time range again, e.g. after readings were corrected.
+   * Runs under the same lock as the scheduled job and is recorded in the run history.
+   * The range starts no earlier than the first bucket whose readings were not removed by retention.
+   * @param from - Start of the range (Unix seconds, rounded down to minute)
+   * @param to - End of the range (exclusive, Unix seconds, rounded up to minute)
+   * @param siteId - Site to re-aggregate
+   * @param trigger - What started the run
+   * @returns Promise resolving to the recorded run; its status is `skipped` if another run held the lock
+   */
+  async reaggregate(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID,
+    trigger: JobTrigger = 'manual'
+  ): Promise<JobRun> {
+    // Buckets next to readings removed by retention cannot be rebuilt and are kept as they are
+    const cursor = await this.prisma.energyBucketAggregationJob.findUnique({
+      where: { site_id: siteId },
+      select: { readings_purged_before: true },
+    });
+    const rangeEnd = Math.ceil(to / 60) * 60;
+    const rangeStart = Math.min(
+      Math.max(Math.floor(from / 60) * 60, firstRebuildableBucket(cursor?.readings_purged_before ?? 0)),
+      rangeEnd
+    );
+
+    return this.runExclusive({ trigger, siteId, rangeStart, rangeEnd }, async (renewLease) => {
+      let bucketsProcessed = 0;
+      for (let chunkStart = rangeStart; chunkStart < rangeEnd; chunkStart += AGGREGATION_CHUNK_SECONDS) {
+        await renewLease();
+        bucketsProcessed += await this.aggregateRange(
+          chunkStart,
+          Math.min(chunkStart + AGGREGATION_CHUNK_SECONDS, rangeEnd),
+          siteId
+        );
+      }
+
+      if (rangeStart < rangeEnd) {
+        await this.markCarSessionsStale(siteId, rangeStart);
+      }
+      if (this.cache) {
+        await this.cache.invalidateRange(siteId, rangeStart, rangeEnd);
+      }
+      await this.refreshMaterializedViews();
+
+      console.log(
+        `Re-aggregated ${bucketsProcessed} bucket(s) of site ${siteId} from ` +
+        `${new Date(rangeStart * 1000).toISOString()} to ${new Date(rangeEnd * 1000).toISOString()}`
+      );
+      return { bucketsProcessed, errors: [] };
+    });
+  }
+
+  /**
+   * Runs work while holding the aggregation lock and records the run in the run history.
+   * If another run holds the lock, a skipped run is recorded instead.
+   * @param details - Trigger and, for re-aggregations, site and range of the run
+   * @param work - Work to run; failed sites are reported as errors, thrown errors abort the run
+   * @returns Promise resolving to the recorded run
+   */
+  private async runExclusive(details: NewJobRun, work: ExclusiveWork): Promise<JobRun> {
+    const owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+    const acquired = await this.locks.tryAcquire(AGGREGATION_LOCK_NAME, owner, AGGREGATION_LOCK_LEASE_SECONDS);
+    if (!acquired) {
+      const lock = await this.locks.recordSkip(AGGREGATION_LOCK_NAME);
+      console.log(
+        `Aggregation job skipped: lock held by ${lock?.owner ?? 'another run'}` +
+        (lock ? ` until ${new Date(lock.locked_until * 1000).toISOString()}` : '')
+      );
+      return this.runs.recordSkippedRun(details);
+    }
+
+    const renewLease = async () => {
+      // Stop if the lease expired and another run took over, instead of racing it
+      if (!(await this.locks.renew(AGGREGATION_LOCK_NAME, owner, AGGREGATION_LOCK_LEASE_SECONDS))) {
+        throw new Error('Aggregation lock was taken over by another run');
+      }
+    };
+
+    let status: Extract<JobRunStatus, 'completed' | 'error'> = 'error';
+    try {
+      const run = await this.runs.startRun(details);
+      try {
+        const { bucketsProcessed, errors } = await work(renewLease);
+        status = errors.length > 0 ? 'error' : 'completed';
+        return await this.runs.finishRun(run.id, status, bucketsProcessed, errors.length > 0 ? errors.join('\n') : null);
+      } catch (error) {
+        await this.runs.finishRun(run.id, 'error', 0, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    } finally {
+      await this.locks.release(AGGREGATION_LOCK_NAME, owner, status);
+    }
   }
 
   /**
-   * Public method to aggregate a single bucket (used by backfill script).
+   * Public method to aggregate a single bucket with the reference implementation.
    * @param bucketStart - Start timestamp of the bucket (Unix seconds, rounded to minute)
+   * @param siteId - Site whose readings are aggregated
    */
-  async aggregateBucket(bucketStart: number): Promise<void> {
-    return this.aggregateMinuteBucket(bucketStart);
+  async aggregateBucket(bucketStart: number, siteId: number = DEFAULT_SITE_ID): Promise<void> {
+    return this.aggregateMinuteBucket(bucketStart, siteId);
   }
 }
 
@@ -1,232 +1,229 @@
 import type { 
   EnergyReading, 
   EnergySettings, 
-  AggregatedDataPoint,
   AggregatedResponse,
   GridAggregatedResponse,
-  EnergyBucket
+  BatteryAggregatedResponse,
+  EnergyBucket,
+  EnergyType,
+  EnergySummaryResponse,
+  EnergyFlowsResponse,
+  EnergyCostsResponse,
+  CostSeriesKey,
+  Granularity,
+  TariffCandidate,
+  TariffComparisonResponse
 } from '@/types/energy';
 import {
-  getTimeframeBounds,
-  aggregateByHour,
-  aggregateByDay,
-  calculateTotalEnergy,
-  integratePartialBucket,
+  getDefaultGranularity,
+  getGranularityStart,
+  integrateIntoPoints,
+  toDataPoints,
+  type IntegrationOptions,
 } from '@/lib/energy-aggregation';
+import { buildEnergySummary, emptyChannelEnergy, type ChannelEnergy } from '@/lib/energy-summary';
+import { sumEnergyFlows } from '@/lib/energy-flows';
+import { getCoarsestBucketSource, planBucketQuery, type BucketQuerySegment } from '@/lib/bucket-query-planner';
 import type { EnergyRepository } from '@/lib/repositories/energy-repository';
 import type { EnergyBucketRepository } from '@/lib/repositories/energy-bucket-repository';
+import type { SpotPriceRepository } from '@/lib/repositories/spot-price-repository';
 import type { Cache } from '@/lib/cache/cache-interface';
+import {
+  findSettingsAt,
+  getCarSolarKwh,
+  getConsumingPrice,
+  getPriceChanges,
+  prorateHistoryFees,
+} from '@/lib/tariffs';
+import { createSpotPriceLookup } from '@/lib/spot-prices';
+import {
+  ACTUAL_TARIFF_NAME,
+  compareTariff,
+  splitComparisonRange,
+  toCandidateSettings,
+  type ComparisonPart,
+} from '@/lib/tariff-comparison';
+import { getLocalTimeZone } from '@/lib/timezone';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 /**
- * Service for energy cost calculations and data aggregation.
- * Provides business logic for calculating energy costs and aggregating energy data.
+ * A series of an aggregated response, read from buckets (kWh) or integrated from readings (W).
+ * Negative values are not part of a series: signed channels are split into a positive and a negative series.
  */
-export class EnergyService {
-  constructor(
-    private repository?: EnergyRepository,
-    private bucketRepository?: EnergyBucketRepository,
-    private cache?: Cache
-  ) {}
-  /**
-   * Calculates the cost for energy consumption based on kWh, timestamp, and settings.
-   * Uses time-of-day pricing periods to determine the appropriate price.
-   *
-   * @param kwh - Energy consumption in kWh (must be positive)
-   * @param timestamp - Unix timestamp in seconds
-   * @param settings - Energy settings containing consuming price periods
-   * @returns Cost in euros, or 0 if kwh <= 0 or no settings provided
-   */
-  calculateConsumptionCost(
-    kwh: number,
-    timestamp: number,
-    settings: EnergySettings | null
-  ): number {
-    if (!settings || kwh <= 0) {
-      return 0;
-    }
+interface BucketSeries {
+  bucket: (bucket: EnergyBucket) => number;
+  reading: (reading: EnergyReading) => number;
+  /** Part of the signed reading that makes up the series */
+  sign?: 'positive' | 'negative';
+}
+
+/**
+ * Series per energy type, in the order of the response (consumption/feed-in, charge/discharge).
+ */
+const BUCKET_SERIES: Record<EnergyType, BucketSeries[]> = {
+  grid: [
+    { bucket: (b) => b.grid_import_kwh, reading: (r) => r.grid, sign: 'positive' },
+    { bucket: (b) => b.grid_export_kwh, reading: (r) => r.grid, sign: 'negative' },
+  ],
+  battery: [
+    { bucket: (b) => b.battery_charge_kwh, reading: (r) => r.battery, sign: 'positive' },
+    { bucket: (b) => b.battery_discharge_kwh, reading: (r) => r.battery, sign: 'negative' },
+  ],
+  car: [{ bucket: (b) => b.car_kwh, reading: (r) => Math.max(r.car, 0) }],
+  solar: [{ bucket: (b) => b.solar_kwh, reading: (r) => Math.max(r.solar, 0) }],
+  home: [{ bucket: (b) => b.home_kwh, reading: (r) => Math.max(r.home, 0) }],
+};
 
-    // For positive kWh (consuming), find the appropriate price based on time of day
-    const date = new Date(timestamp * 1000);
-    const minutes = date.getHours() * 60 + date.getMinutes();
+/**
+ * Series making up the channel energy that is allocated to energy flows.
+ */
+const FLOW_SERIES: [keyof ChannelEnergy, BucketSeries][] = [
+  ['home', BUCKET_SERIES.home[0]],
+  ['car', BUCKET_SERIES.car[0]],
+  ['solar', BUCKET_SERIES.solar[0]],
+  ['gridImport', BUCKET_SERIES.grid[0]],
+  ['gridExport', BUCKET_SERIES.grid[1]],
+  ['batteryCharge', BUCKET_SERIES.battery[0]],
+  ['batteryDischarge', BUCKET_SERIES.battery[1]],
+];
 
-    // Find the period that contains this time
-    if (settings.consuming_periods) {
-      for (const period of settings.consuming_periods) {
-        if (period.start_time <= minutes && minutes < period.end_time) {
-          return kwh * period.price;
-        }
-        // Handle wrap-around (e.g., 22:00 to 06:00)
-        if (period.start_time > period.end_time) {
-          if (minutes >= period.start_time || minutes < period.end_time) {
-            return kwh * period.price;
-          }
-        }
-      }
+/**
+ * Series priced by `getEnergyCosts`. Like in the dashboard, battery charging is valued at the producing price
+ * (energy not sold to the grid) and discharging at the consuming price (energy not bought from the grid).
+ */
+const COST_SERIES: [CostSeriesKey, BucketSeries, 'consuming' | 'producing'][] = [
+  ['consumption', BUCKET_SERIES.grid[0], 'consuming'],
+  ['feedIn', BUCKET_SERIES.grid[1], 'producing'],
+  ['car', BUCKET_SERIES.car[0], 'consuming'],
+  ['solar', BUCKET_SERIES.solar[0], 'producing'],
+  ['batteryCharge', BUCKET_SERIES.battery[0], 'producing'],
+  ['batteryDischarge', BUCKET_SERIES.battery[1], 'consuming'],
+  ['home', BUCKET_SERIES.home[0], 'consuming'],
+];
 
-      // If no period matches, use the first period's price as fallback
-      const fallbackPrice = settings.consuming_periods[0]?.price ?? 0;
-      return kwh * fallbackPrice;
-    }
+/**
+ * Series replayed by `compareTariffs`.
+ */
+const COMPARISON_SERIES: [keyof Pick<ComparisonPart, 'gridImport' | 'gridExport' | 'car'>, BucketSeries][] = [
+  ['gridImport', BUCKET_SERIES.grid[0]],
+  ['gridExport', BUCKET_SERIES.grid[1]],
+  ['car', BUCKET_SERIES.car[0]],
+];
 
-    return 0;
+/**
+ * Series of the car minutes of `compareTariffs`, to share solar between home and car per minute.
+ */
+const CAR_MINUTE_SERIES: BucketSeries[] = [BUCKET_SERIES.home[0], BUCKET_SERIES.car[0], BUCKET_SERIES.solar[0]];
+
+/**
+ * Splits the readings of a site into the readings of each meter, sorted by timestamp.
+ * Meters report different channels (unmapped ones as 0), so only readings of the same meter are integrated
+ * together and the energy of all meters is summed, like in the minute buckets.
+ * @param readings - Readings of any meters
+ * @returns Readings per meter
+ */
+function groupReadingsByMeter(readings: EnergyReading[]): EnergyReading[][] {
+  const readingsByMeter = new Map<number | null, EnergyReading[]>();
+  for (const reading of readings) {
+    const meterId = reading.meter_id ?? null;
+    const meterReadings = readingsByMeter.get(meterId) ?? [];
+    meterReadings.push(reading);
+    readingsByMeter.set(meterId, meterReadings);
   }
+  return [...readingsByMeter.values()].map((meterReadings) => meterReadings.sort((a, b) => a.timestamp - b.timestamp));
+}
 
-  /**
-   * Calculates the cost for energy feed-in (energy fed back to the grid).
-   * Always uses the producing_price from settings.
-   *
-   * @param kwh - Energy feed-in in kWh (must be positive)
-   * @param settings - Energy settings containing producing price
-   * @returns Cost in euros, or 0 if kwh <= 0 or no settings provided
-   */
-  calculateFeedInCost(kwh: number, settings: EnergySettings | null): number {
-    if (!settings || kwh <= 0) {
-      return 0;
-    }
-    // Feed-in always uses producing_price
-    return kwh * settings.producing_price;
+/**
+ * Integrates a series over the readings of each meter and sums the energy per data point.
+ * @param meters - Readings per meter, see `groupReadingsByMeter`
+ * @param series - Series to integrate
+ * @param granularity - Resolution of the data points
+ * @param timeZone - IANA timezone for data point boundaries
+ * @param options - Range and gap handling (the sign is taken from the series)
+ * @returns Energy in kWh per data point start
+ */
+function integrateMeterReadings(
+  meters: EnergyReading[][],
+  series: BucketSeries,
+  granularity: Granularity,
+  timeZone: string,
+  options: Omit<IntegrationOptions, 'sign'> = {}
+): Map<number, number> {
+  const points = new Map<number, number>();
+  for (const meterReadings of meters) {
+    integrateIntoPoints(meterReadings, series.reading, granularity, timeZone, points, { ...options, sign: series.sign });
   }
+  return points;
+}
 
+/**
+ * Service for energy cost calculations and data aggregation.
+ * Provides business logic for calculating energy costs and aggregating energy data.
+ */
+export class EnergyService {
+  constructor(
+    private repository?: EnergyRepository,
+    private bucketRepository?: EnergyBucketRepository,
+    private cache?: Cache,
+    private spotPriceRepository?: SpotPriceRepository
+  ) {}
   /**
    * Aggregates energy readings by timeframe and type.
-   * Handles grid (consumption/feed-in split), car, and solar energy types.
+   * Handles grid (consumption/feed-in split), battery (charge/discharge split), car, solar, and home energy types.
    * Note: Readings should already be filtered to the desired time range by the caller.
    *
    * @param readings - Array of energy readings (should already be filtered to time range)
-   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (used for aggregation granularity)
-   * @param type - Type of energy: 'grid', 'car', or 'solar'
+   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (determines the default granularity)
+   * @param type - Type of energy: 'grid', 'car', 'solar', 'battery', or 'home'
+   * @param timeZone - IANA timezone for data point boundaries and labels (defaults to the runtime timezone)
+   * @param granularity - Resolution of the data points (defaults to hours for single days, days otherwise)
    * @returns Aggregated response (format depends on type)
    */
   aggregateEnergyData(
     readings: EnergyReading[],
     timeframe: string,
-    type: 'grid' | 'car' | 'solar'
-  ): AggregatedResponse | GridAggregatedResponse {
-    if (readings.length === 0) {
-      if (type === 'grid') {
-        return {
-          consumption: { data: [], total: 0 },
-          feedIn: { data: [], total: 0 },
-        };
-      }
-      return { data: [], total: 0 };
-    }
-
-    // Handle grid type (consumption and feed-in)
-    if (type === 'grid') {
-      // Consumption: positive grid values
-      const consumptionReadings = readings.map((r) => ({
-        timestamp: r.timestamp,
-        grid: r.grid,
-      }));
-
-      // Feed-in: negative grid values converted to positive
-      const feedInReadings = readings.map((r) => ({
-        timestamp: r.timestamp,
-        grid: r.grid < 0 ? Math.abs(r.grid) : 0,
-      }));
-
-      // Calculate totals
-      const consumptionTotal = calculateTotalEnergy(
-        consumptionReadings,
-        (r) => r.grid,
-        (grid) => grid >= 0
-      );
-      const feedInTotal = calculateTotalEnergy(
-        feedInReadings,
-        (r) => r.grid,
-        (grid) => grid > 0
-      );
-
-      // Aggregate based on timeframe
-      let consumptionAggregated: AggregatedDataPoint[];
-      let feedInAggregated: AggregatedDataPoint[];
-
-      if (timeframe === 'day' || timeframe === 'yesterday') {
-        consumptionAggregated = aggregateByHour(
-          consumptionReadings,
-          (r) => r.grid,
-          (grid) => grid >= 0
-        );
-        feedInAggregated = aggregateByHour(
-          feedInReadings,
-          (r) => r.grid,
-          (grid) => grid > 0
-        );
-      } else {
-        // week or month - aggregate by day
-        consumptionAggregated = aggregateByDay(
-          consumptionReadings,
-          (r) => r.grid,
-          (grid) => grid >= 0
-        );
-        feedInAggregated = aggregateByDay(
-          feedInReadings,
-          (r) => r.grid,
-          (grid) => grid > 0
-        );
-      }
+    type: EnergyType,
+    timeZone: string = getLocalTimeZone(),
+    granularity: Granularity = getDefaultGranularity(timeframe)
+  ): AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse {
+    return this.aggregateReadings(readings, type, granularity, timeZone);
+  }
 
-      return {
-        consumption: {
-          data: consumptionAggregated,
-          total: consumptionTotal,
-        },
-        feedIn: {
-          data: feedInAggregated,
-          total: feedInTotal,
-        },
-      };
+  /**
+   * Aggregates energy readings into data points of a granularity.
+   *
+   * @param readings - Array of energy readings (should already be filtered to time range)
+   * @param type - Type of energy: 'grid', 'car', 'solar', 'battery', or 'home'
+   * @param granularity - Resolution of the data points
+   * @param timeZone - IANA timezone for data point boundaries and labels
+   * @returns Aggregated response (format depends on type)
+   */
+  private aggregateReadings(
+    readings: EnergyReading[],
+    type: EnergyType,
+    granularity: Granularity,
+    timeZone: string
+  ): AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse {
+    const series = BUCKET_SERIES[type];
+    if (!series) {
+      // This should never be reached due to TypeScript, but included for safety
+      throw new Error(`Unknown energy type: ${type}`);
     }
 
-    // Handle car type (only positive values)
-    if (type === 'car') {
-      const carReadings = readings.map((r) => ({
-        timestamp: r.timestamp,
-        car: r.car,
-      }));
-
-      const total = calculateTotalEnergy(
-        carReadings,
-        (r) => r.car,
-        (car) => car > 0
-      );
-
-      let aggregated: AggregatedDataPoint[];
-      if (timeframe === 'day' || timeframe === 'yesterday') {
-        aggregated = aggregateByHour(carReadings, (r) => r.car, (car) => car > 0);
-      } else {
-        aggregated = aggregateByDay(carReadings, (r) => r.car, (car) => car > 0);
-      }
+    const meters = groupReadingsByMeter(readings);
+    const [first, second] = series.map((entry) => {
+      const data = toDataPoints(integrateMeterReadings(meters, entry, granularity, timeZone), granularity, timeZone);
+      return { data, total: data.reduce((total, point) => total + point.kwh, 0) };
+    });
 
-      return { data: aggregated, total };
+    // Grid is split into consumption and feed-in, battery into charge and discharge
+    if (type === 'grid') {
+      return { consumption: first, feedIn: second };
     }
-
-    // Handle solar type (only positive values)
-    if (type === 'solar') {
-      const solarReadings = readings.map((r) => ({
-        timestamp: r.timestamp,
-        solar: r.solar,
-      }));
-
-      const total = calculateTotalEnergy(
-        solarReadings,
-        (r) => r.solar,
-        (solar) => solar > 0
-      );
-
-      let aggregated: AggregatedDataPoint[];
-      if (timeframe === 'day' || timeframe === 'yesterday') {
-        aggregated = aggregateByHour(solarReadings, (r) => r.solar, (solar) => solar > 0);
-      } else {
-        aggregated = aggregateByDay(solarReadings, (r) => r.solar, (solar) => solar > 0);
-      }
-
-      return { data: aggregated, total };
+    if (type === 'battery') {
+      return { charge: first, discharge: second };
     }
-
-    // This should never be reached due to TypeScript, but included for safety
-    throw new Error(`Unknown energy type: ${type}`);
+    return first;
   }
 
   /**
@@ -237,6 +234,7 @@ export class EnergyService {
    * @param offset - Number of readings to skip
    * @param from - Optional start timestamp (Unix seconds)
    * @param to - Optional end timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyReading
    * @throws Error if repository is not provided
    */
@@ -244,12 +242,47 @@ export class EnergyService {
     limit: number = 100,
     offset: number = 0,
     from?: number,
-    to?: number
+    to?: number,
+    siteId: number = DEFAULT_SITE_ID
   ): Promise<EnergyReading[]> {
     if (!this.repository) {
       throw new Error('EnergyRepository is required for getReadings');
     }
-    return this.repository.getEnergyReadings(limit, offset, from, to);
+    return this.repository.getEnergyReadings(limit, offset, from, to, siteId);
+  }
+
+  /**
+   * Gets the ID of the reading of a site that was stored last.
+   *
+   * @param siteId - Site to read from
+   * @returns Promise resolving to the reading ID, or null if the site has no readings
+   * @throws Error if repository is not provided
+   */
+  async getLatestReadingId(siteId: number = DEFAULT_SITE_ID): Promise<number | null> {
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for getLatestReadingId');
+    }
+    return this.repository.getLatestEnergyReadingId(siteId);
+  }
+
+  /**
+   * Gets the readings of a site stored after a given reading, in the order they were stored.
+   *
+   * @param afterId - ID of the last reading already seen
+   * @param limit - Maximum number of readings to return
+   * @param siteId - Site to read from
+   * @returns Promise resolving to array of EnergyReading, oldest stored first
+   * @throws Error if repository is not provided
+   */
+  async getReadingsAfterId(
+    afterId: number,
+    limit: number = 100,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading[]> {
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for getReadingsAfterId');
+    }
+    return this.repository.getEnergyReadingsAfterId(afterId, limit, siteId);
   }
 
   /**
@@ -258,14 +291,19 @@ export class EnergyService {
    *
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
    * @returns Promise resolving to array of EnergyReading
    * @throws Error if repository is not provided
    */
-  async getReadingsForRange(from: number, to: number): Promise<EnergyReading[]> {
+  async getReadingsForRange(
+    from: number,
+    to: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergyReading[]> {
     if (!this.repository) {
       throw new Error('EnergyRepository is required for getReadingsForRange');
     }
-    return this.repository.getEnergyReadingsForRange(from, to);
+    return this.repository.getEnergyReadingsForRange(from, to, siteId);
   }
 
   /**
@@ -274,22 +312,28 @@ export class EnergyService {
    *
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
-   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (used for aggregation granularity)
-   * @param type - Type of energy: 'grid', 'car', or 'solar'
+   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (determines the default granularity)
+   * @param type - Type of energy: 'grid', 'car', 'solar', 'battery', or 'home'
+   * @param siteId - Site to aggregate
+   * @param timeZone - IANA timezone of the site (defaults to the runtime timezone)
+   * @param granularity - Resolution of the data points (defaults to hours for single days, days otherwise)
    * @returns Promise resolving to aggregated response
    */
   async getAggregatedEnergyData(
     from: number,
     to: number,
     timeframe: string,
-    type: 'grid' | 'car' | 'solar'
-  ): Promise<AggregatedResponse | GridAggregatedResponse> {
-    // Generate cache key
-    const cacheKey = `energy:aggregated:${type}:${timeframe}:${from}:${to}`;
+    type: EnergyType,
+    siteId: number = DEFAULT_SITE_ID,
+    timeZone: string = getLocalTimeZone(),
+    granularity: Granularity = getDefaultGranularity(timeframe)
+  ): Promise<AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse> {
+    // Generate cache key (site first so a site's entries can be invalidated together)
+    const cacheKey = `energy:aggregated:${siteId}:${type}:${granularity}:${from}:${to}:${timeZone}`;
 
     // Check cache first
     if (this.cache) {
-      const cached = await this.cache.get<AggregatedResponse | GridAggregatedResponse>(cacheKey);
+      const cached = await this.cache.get<AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse>(cacheKey);
       if (cached !== null) {
         console.log("cached result found");
         return cached;
@@ -301,17 +345,17 @@ export class EnergyService {
     const timeRangeSeconds = to - from;
     const useBuckets = timeRangeSeconds >= 3600; // Use buckets for ranges >= 1 hour
 
-    let result: AggregatedResponse | GridAggregatedResponse;
+    let result: AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse;
 
     if (useBuckets && this.bucketRepository && this.repository) {
       // Use bucket table + partial integration for high precision
       console.log("using bucket table + partial integration for high precision");
-      result = await this.aggregateEnergyDataFromBuckets(from, to, timeframe, type);
+      result = await this.aggregateEnergyDataFromBuckets(from, to, granularity, type, siteId, timeZone);
     } else if (this.repository) {
       // Use raw table for small ranges or when bucket repository is not available
       console.log("using raw table for small ranges or when bucket repository is not available");
-      const readings = await this.repository.getEnergyReadingsForRange(from, to);
-      result = this.aggregateEnergyData(readings, timeframe, type);
+      const readings = await this.repository.getEnergyReadingsForRange(from, to, siteId);
+      result = this.aggregateReadings(readings, type, granularity, timeZone);
     } else {
       throw new Error('EnergyRepository is required for getAggregatedEnergyData');
     }
@@ -325,115 +369,518 @@ export class EnergyService {
   }
 
   /**
-   * Aggregates energy data from buckets with high-precision partial bucket integration.
+   * Gets self-sufficiency KPIs (autarky, self-consumption, solar use) per data point and for the whole range.
+   * Built on the aggregated home, car, solar, grid and battery data, so buckets and cache are used like for
+   * `getAggregatedEnergyData`.
+   *
    * @param from - Start timestamp (Unix seconds)
    * @param to - End timestamp (Unix seconds)
-   * @param timeframe - Timeframe string
-   * @param type - Type of energy: 'grid', 'car', or 'solar'
-   * @returns Aggregated response
+   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (determines the default granularity)
+   * @param siteId - Site to aggregate
+   * @param timeZone - IANA timezone of the site (defaults to the runtime timezone)
+   * @param granularity - Resolution of the data points (defaults to hours for single days, days otherwise)
+   * @returns Promise resolving to the summary
    */
-  private async aggregateEnergyDataFromBuckets(
+  async getEnergySummary(
     from: number,
     to: number,
     timeframe: string,
-    type: 'grid' | 'car' | 'solar'
-  ): Promise<AggregatedResponse | GridAggregatedResponse> {
-    if (!this.bucketRepository || !this.repository) {
-      throw new Error('Both bucketRepository and repository are required for bucket-based aggregation');
+    siteId: number = DEFAULT_SITE_ID,
+    timeZone: string = getLocalTimeZone(),
+    granularity: Granularity = getDefaultGranularity(timeframe)
+  ): Promise<EnergySummaryResponse> {
+    const aggregate = (type: EnergyType) =>
+      this.getAggregatedEnergyData(from, to, timeframe, type, siteId, timeZone, granularity);
+
+    const [home, car, solar, grid, battery] = await Promise.all([
+      aggregate('home'),
+      aggregate('car'),
+      aggregate('solar'),
+      aggregate('grid'),
+      aggregate('battery'),
+    ]);
+
+    return buildEnergySummary({
+      home: home as AggregatedResponse,
+      car: car as AggregatedResponse,
+      solar: solar as AggregatedResponse,
+      grid: grid as GridAggregatedResponse,
+      battery: battery as BatteryAggregatedResponse,
+    });
+  }
+
+  /**
+   * Gets the energy flows between channels (e.g. solar to home, grid to battery) over a range.
+   * Flows are allocated per minute bucket with `allocateEnergyFlows` and summed, so energy going in and out of the
+   * grid or battery at different times of the range does not cancel out.
+   *
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to aggregate
+   * @returns Promise resolving to the flows
+   */
+  async getEnergyFlows(from: number, to: number, siteId: number = DEFAULT_SITE_ID): Promise<EnergyFlowsResponse> {
+    // Minute boundaries do not depend on the timezone, so the entry is shared by all timezones
+    const cacheKey = `energy:aggregated:${siteId}:flows:${from}:${to}`;
+
+    if (this.cache) {
+      const cached = await this.cache.get<EnergyFlowsResponse>(cacheKey);
+      if (cached !== null) {
+        return cached;
+      }
+    }
+
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for getEnergyFlows');
+    }
+
+    const points = await this.sumSeriesPerMinute(from, to, FLOW_SERIES.map(([, entry]) => entry), siteId);
+    const minutes = new Set(points.flatMap((seriesPoints) => [...seriesPoints.keys()]));
+    const result: EnergyFlowsResponse = {
+      flows: sumEnergyFlows(
+        [...minutes].map((minute) => {
+          const energy = emptyChannelEnergy();
+          FLOW_SERIES.forEach(([channel], index) => {
+            energy[channel] = points[index].get(minute) ?? 0;
+          });
+          return energy;
+        })
+      ),
+    };
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, result);
     }
 
-    // Round timestamps to minute boundaries for bucket queries
-    const firstBucketStart = Math.floor(from / 60) * 60;
-    const lastBucketStart = Math.floor(to / 60) * 60;
-
-    // Determine if we need to integrate partial buckets
-    const needsPartialFirst = firstBucketStart < from;
-    const needsPartialLast = lastBucketStart < to;
-
-    // Get full buckets (from first full bucket to last full bucket)
-    const fullBucketStart = needsPartialFirst ? firstBucketStart + 60 : firstBucketStart;
-    const fullBucketEnd = needsPartialLast ? lastBucketStart : lastBucketStart + 60;
-
-    const buckets: EnergyBucket[] = [];
-    if (fullBucketStart < fullBucketEnd) {
-      if (timeframe === 'day' || timeframe === 'yesterday') {
-        // For hourly aggregation, use 1-minute buckets
-        buckets.push(...(await this.bucketRepository.getBucketsForRange(fullBucketStart, fullBucketEnd)));
-      } else {
-        // For daily aggregation, use hourly or daily materialized views if available
-        // For now, use 1-minute buckets (can be optimized later)
-        buckets.push(...(await this.bucketRepository.getBucketsForRange(fullBucketStart, fullBucketEnd)));
+    return result;
+  }
+
+  /**
+   * Gets the energy and its cost per data point for grid consumption and feed-in, car, solar, battery and home.
+   * Each minute is priced with the settings applying at that minute: consumption-like series at the consuming price
+   * (for dynamic tariffs from the imported spot prices) plus the VAT of the settings for the gross cost, feed-in-like
+   * series at the producing price. Data points are split where prices may change (see `getPriceChanges`) and each part
+   * is priced at once, so whole hours and days with constant prices are read from the hourly and daily views. The
+   * monthly fees of the settings are prorated over the range.
+   *
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param timeframe - Timeframe string: 'day', 'yesterday', 'week', or 'month' (determines the default granularity)
+   * @param siteId - Site to aggregate
+   * @param timeZone - IANA timezone of the site (defaults to the runtime timezone)
+   * @param granularity - Resolution of the data points (defaults to hours for single days, days otherwise)
+   * @returns Promise resolving to the priced series
+   */
+  async getEnergyCosts(
+    from: number,
+    to: number,
+    timeframe: string,
+    siteId: number = DEFAULT_SITE_ID,
+    timeZone: string = getLocalTimeZone(),
+    granularity: Granularity = getDefaultGranularity(timeframe)
+  ): Promise<EnergyCostsResponse> {
+    const cacheKey = `energy:aggregated:${siteId}:costs:${granularity}:${from}:${to}:${timeZone}`;
+
+    if (this.cache) {
+      const cached = await this.cache.get<EnergyCostsResponse>(cacheKey);
+      if (cached !== null) {
+        return cached;
       }
     }
 
-    // Get partial bucket readings if needed
-    let partialFirstReadings: EnergyReading[] = [];
-    let partialLastReadings: EnergyReading[] = [];
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for getEnergyCosts');
+    }
 
-    if (needsPartialFirst) {
-      const readingBefore = await this.bucketRepository.getFirstReadingBefore(from);
-      const readingsInRange = await this.repository.getEnergyReadingsForRange(
-        Math.max(firstBucketStart, from - 300), // Include some readings before for integration
-        Math.min(firstBucketStart + 60, to)
-      );
-      if (readingBefore) {
-        partialFirstReadings = [readingBefore, ...readingsInRange];
-      } else {
-        partialFirstReadings = readingsInRange;
+    const [history, spotPrices] = await Promise.all([
+      this.repository.getAllEnergySettings(siteId),
+      this.spotPriceRepository ? this.spotPriceRepository.getSpotPrices(from, to, siteId) : Promise.resolve([]),
+    ]);
+    const getSpotPrice = createSpotPriceLookup(spotPrices);
+    const series = COST_SERIES.map(([, entry]) => entry);
+    const priceChanges = getPriceChanges(history, spotPrices, from, to, timeZone);
+    // Energy per part of a data point with constant prices, from the coarsest buckets within the part
+    const points = this.bucketRepository
+      ? await this.sumSeriesFromBuckets(from, to, granularity, series, siteId, timeZone, priceChanges)
+      : await this.sumSeriesPerMinute(from, to, series, siteId);
+
+    // Consuming and producing price and VAT rate per part, shared by the series
+    const prices = new Map<number, { consuming: number; producing: number; vatRate: number }>();
+    const getPrices = (partStart: number) => {
+      let partPrices = prices.get(partStart);
+      if (!partPrices) {
+        // The first data point may start before the range
+        const timestamp = Math.max(partStart, from);
+        const settings = findSettingsAt(history, timestamp);
+        partPrices = {
+          consuming: settings ? getConsumingPrice(settings, timestamp, timeZone, getSpotPrice(timestamp)) ?? 0 : 0,
+          producing: settings?.producing_price ?? 0,
+          vatRate: settings?.vat_rate ?? 0,
+        };
+        prices.set(partStart, partPrices);
+      }
+      return partPrices;
+    };
+
+    const result = { fixedFees: prorateHistoryFees(history, from, to, timeZone) } as EnergyCostsResponse;
+    COST_SERIES.forEach(([key, , price], index) => {
+      const energy = new Map<number, number>();
+      const costs = new Map<number, number>();
+      let gross = 0;
+      for (const [partStart, kwh] of points[index]) {
+        const pointStart = getGranularityStart(partStart, granularity, timeZone);
+        const partPrices = getPrices(partStart);
+        const cost = kwh * partPrices[price];
+        energy.set(pointStart, (energy.get(pointStart) ?? 0) + kwh);
+        costs.set(pointStart, (costs.get(pointStart) ?? 0) + cost);
+        // Feed-in-like values carry no VAT
+        gross += price === 'consuming' ? cost * (1 + partPrices.vatRate) : cost;
+      }
+
+      const data = toDataPoints(energy, granularity, timeZone).map((point) => ({
+        ...point,
+        cost: costs.get(point.timestamp) ?? 0,
+      }));
+      result[key] = {
+        data,
+        total: data.reduce((total, point) => total + point.kwh, 0),
+        cost: data.reduce((total, point) => total + point.cost, 0),
+        gross,
+      };
+    });
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replays the energy of a range against the actual tariffs of the site (its settings history) and hypothetical
+   * tariffs, see `compareTariff`. Dynamic tariffs use the spot prices imported for the site.
+   * The energy is summed per part of the local days with constant prices in all tariffs (see `splitComparisonRange`),
+   * from the coarsest buckets within each part. The car energy from the grid and the peak charging energy are summed
+   * from the minutes in which the car drew energy, as solar is shared between home and car per minute.
+   *
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param candidates - Tariffs to compare
+   * @param siteId - Site whose energy is replayed
+   * @param timeZone - IANA timezone of the site (defaults to the runtime timezone)
+   * @returns Promise resolving to the costs per tariff, the actual tariff first if the site has settings
+   */
+  async compareTariffs(
+    from: number,
+    to: number,
+    candidates: TariffCandidate[],
+    siteId: number = DEFAULT_SITE_ID,
+    timeZone: string = getLocalTimeZone()
+  ): Promise<TariffComparisonResponse> {
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for compareTariffs');
+    }
+
+    const [history, spotPrices] = await Promise.all([
+      this.repository.getAllEnergySettings(siteId),
+      this.spotPriceRepository ? this.spotPriceRepository.getSpotPrices(from, to, siteId) : Promise.resolve([]),
+    ]);
+    const getSpotPrice = createSpotPriceLookup(spotPrices);
+
+    const tariffs: [string, EnergySettings[]][] = [
+      ...(history.length > 0 ? [[ACTUAL_TARIFF_NAME, history] as [string, EnergySettings[]]] : []),
+      ...candidates.map((candidate): [string, EnergySettings[]] => [candidate.name, [toCandidateSettings(candidate)]]),
+    ];
+
+    const parts = splitComparisonRange(tariffs.map(([, settings]) => settings), spotPrices, from, to, timeZone);
+    const partStarts = parts.map((part) => part.start);
+    const series = COMPARISON_SERIES.map(([, entry]) => entry);
+    const [points, carMinutes] = await Promise.all([
+      this.bucketRepository
+        ? this.sumSeriesFromBuckets(from, to, 'day', series, siteId, timeZone, partStarts)
+        : this.sumSeriesPerMinute(from, to, series, siteId),
+      this.getCarMinutes(from, to, siteId),
+    ]);
+
+    // Index of the part containing a timestamp; the first data point may start before the range
+    const partAt = (timestamp: number) => {
+      let [low, high] = [0, parts.length - 1];
+      while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (partStarts[middle] <= timestamp) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return parts[low];
+    };
+    COMPARISON_SERIES.forEach(([channel], index) => {
+      for (const [pointStart, kwh] of points[index]) {
+        partAt(pointStart)[channel] += kwh;
+      }
+    });
+    for (const [minute, [home, car, solar]] of carMinutes) {
+      const part = partAt(minute);
+      part.carGrid += car - getCarSolarKwh(home, car, solar);
+      part.carPeak = Math.max(part.carPeak, car);
+    }
+
+    return {
+      from,
+      to,
+      tariffs: tariffs.map(([name, settings]) => compareTariff(name, settings, parts, from, to, timeZone, getSpotPrice)),
+    };
+  }
+
+  /**
+   * Gets the home, car and solar energy of the minutes in which the car drew energy, from minute buckets if
+   * available and from raw readings otherwise. Partial minutes at the edges and minutes after the latest bucket are
+   * integrated from raw readings, like in `sumSeriesFromBuckets`.
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param siteId - Site to read from
+   * @returns Home, car and solar energy in kWh per minute start
+   */
+  private async getCarMinutes(from: number, to: number, siteId: number): Promise<Map<number, number[]>> {
+    let plan: BucketQuerySegment[] = [{ source: 'readings', start: from, end: to }];
+    if (this.bucketRepository) {
+      const latestBucket = await this.bucketRepository.getLatestBucketTimestamp(siteId);
+      const aggregatedUntil = latestBucket === null ? from : Math.min(Math.max(latestBucket + 60, from), to);
+      plan = planBucketQuery(from, aggregatedUntil, 'UTC', 'minutes');
+      if (aggregatedUntil < to) {
+        plan.push({ source: 'readings', start: aggregatedUntil, end: to });
       }
     }
 
-    if (needsPartialLast && lastBucketStart !== firstBucketStart) {
-      partialLastReadings = await this.repository.getEnergyReadingsForRange(
-        lastBucketStart,
-        to
+    const minutes = new Map<number, number[]>();
+    for (const segment of plan) {
+      if (segment.source !== 'readings') {
+        const buckets = await this.bucketRepository!.getCarBucketsForRange(segment.start, segment.end, siteId);
+        for (const bucket of buckets) {
+          minutes.set(bucket.bucket_start, [bucket.home_kwh, bucket.car_kwh, bucket.solar_kwh]);
+        }
+        continue;
+      }
+
+      const readings = await this.repository!.getEnergyReadingsForRange(
+        Math.floor(segment.start / 60) * 60 - 60,
+        Math.ceil(segment.end / 60) * 60 + 60,
+        siteId
       );
-      const readingAfter = await this.bucketRepository.getFirstReadingAfter(to);
-      if (readingAfter) {
-        partialLastReadings.push(readingAfter);
+      const meters = groupReadingsByMeter(readings);
+      const [home, car, solar] = CAR_MINUTE_SERIES.map((entry) =>
+        integrateMeterReadings(meters, entry, '1m', 'UTC', {
+          range: segment,
+          skipGaps: this.bucketRepository !== undefined,
+        })
+      );
+      for (const [minute, kwh] of car) {
+        if (kwh > 0) {
+          minutes.set(minute, [home.get(minute) ?? 0, kwh, solar.get(minute) ?? 0]);
+        }
       }
     }
+    return minutes;
+  }
 
-    // Convert buckets to readings-like format for aggregation functions
-    // For now, use the existing aggregateEnergyData with combined data
-    // This is a simplified approach - can be optimized later to sum buckets directly
-    const allReadings: EnergyReading[] = [];
-
-    // Add partial first bucket readings
-    allReadings.push(...partialFirstReadings);
-
-    // Convert buckets to readings (using first/last values from buckets)
-    for (const bucket of buckets) {
-      // Create a reading from bucket's first values
-      allReadings.push({
-        id: 0, // Not used
-        timestamp: bucket.first_timestamp,
-        home: bucket.first_home,
-        grid: bucket.first_grid,
-        car: bucket.first_car,
-        solar: bucket.first_solar,
-        created_at: 0,
-      });
-      // Create a reading from bucket's last values
-      allReadings.push({
-        id: 0,
-        timestamp: bucket.last_timestamp,
-        home: bucket.last_home,
-        grid: bucket.last_grid,
-        car: bucket.last_car,
-        solar: bucket.last_solar,
-        created_at: 0,
-      });
+  /**
+   * Sums the energy of series per minute, from buckets if available and from raw readings otherwise.
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param series - Series to sum
+   * @param siteId - Site to aggregate
+   * @returns Energy in kWh per minute start, one map per series
+   */
+  private async sumSeriesPerMinute(
+    from: number,
+    to: number,
+    series: BucketSeries[],
+    siteId: number
+  ): Promise<Map<number, number>[]> {
+    if (this.bucketRepository && this.repository) {
+      return this.sumSeriesFromBuckets(from, to, '1m', series, siteId, 'UTC');
+    }
+    if (!this.repository) {
+      throw new Error('EnergyRepository is required for per-minute aggregation');
     }
 
-    // Add partial last bucket readings
-    allReadings.push(...partialLastReadings);
+    const readings = await this.repository.getEnergyReadingsForRange(from, to, siteId);
+    const meters = groupReadingsByMeter(readings);
+    return series.map((entry) => integrateMeterReadings(meters, entry, '1m', 'UTC'));
+  }
 
-    // Sort by timestamp
-    allReadings.sort((a, b) => a.timestamp - b.timestamp);
+  /**
+   * Aggregates energy data from precomputed buckets (see `sumSeriesFromBuckets`).
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param granularity - Resolution of the data points
+   * @param type - Type of energy: 'grid', 'car', 'solar', 'battery', or 'home'
+   * @param siteId - Site to aggregate
+   * @param timeZone - IANA timezone of the site
+   * @returns Aggregated response
+   */
+  private async aggregateEnergyDataFromBuckets(
+    from: number,
+    to: number,
+    granularity: Granularity,
+    type: EnergyType,
+    siteId: number,
+    timeZone: string
+  ): Promise<AggregatedResponse | GridAggregatedResponse | BatteryAggregatedResponse> {
+    const points = await this.sumSeriesFromBuckets(from, to, granularity, BUCKET_SERIES[type], siteId, timeZone);
+
+    const [first, second] = points.map((seriesPoints) => {
+      const data = toDataPoints(seriesPoints, granularity, timeZone);
+      return { data, total: data.reduce((total, point) => total + point.kwh, 0) };
+    });
 
-    // Use existing aggregation logic
-    return this.aggregateEnergyData(allReadings, timeframe, type);
+    if (type === 'grid') {
+      return { consumption: first, feedIn: second };
+    }
+    if (type === 'battery') {
+      return { charge: first, discharge: second };
+    }
+    return first;
+  }
+
+  /**
+   * Sums the energy of series per data point from precomputed buckets.
+   * The range is planned with `planBucketQuery`: whole local days and hours are read from the daily and hourly
+   * views, remaining whole minutes from minute buckets, and their kWh are summed per data point. Partial minutes
+   * at the edges and minutes after the latest bucket (not aggregated yet) are integrated from the raw readings of each
+   * meter.
+   * With split points (e.g. price changes), each part of the range between them is planned on its own, so only
+   * hours and days containing a split point are read at a finer resolution, and data points are summed per part.
+   * @param from - Start timestamp (Unix seconds)
+   * @param to - End timestamp (Unix seconds)
+   * @param granularity - Resolution of the data points
+   * @param series - Series to sum
+   * @param siteId - Site to aggregate
+   * @param timeZone - IANA timezone of the site
+   * @param splits - Sorted timestamps at which data points are split
+   * @returns Energy in kWh per data point start, or per start of the part after a split point within a data point,
+   * one map per series
+   */
+  private async sumSeriesFromBuckets(
+    from: number,
+    to: number,
+    granularity: Granularity,
+    series: BucketSeries[],
+    siteId: number,
+    timeZone: string,
+    splits: number[] = []
+  ): Promise<Map<number, number>[]> {
+    if (!this.bucketRepository || !this.repository) {
+      throw new Error('Both bucketRepository and repository are required for bucket-based aggregation');
+    }
+
+    const coarsest = getCoarsestBucketSource(granularity);
+    const splitRange = (start: number, end: number) => {
+      const bounds = [start, ...splits.filter((split) => split > start && split < end), end];
+      return bounds.slice(1).map((partEnd, index) => ({ start: bounds[index], end: partEnd }));
+    };
+    // Start of the data point containing a timestamp, or of the part after the last split point before it
+    const getKey = (timestamp: number, pointStart: number) => {
+      let [low, high] = [0, splits.length - 1];
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (splits[middle] <= timestamp) {
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return high >= 0 ? Math.max(pointStart, splits[high]) : pointStart;
+    };
+
+    const latestBucket = await this.bucketRepository.getLatestBucketTimestamp(siteId);
+    const aggregatedUntil = latestBucket === null ? from : Math.min(Math.max(latestBucket + 60, from), to);
+    const plan: BucketQuerySegment[] = [];
+    for (const part of splitRange(from, aggregatedUntil)) {
+      for (const segment of planBucketQuery(part.start, part.end, timeZone, coarsest)) {
+        // Adjacent bucket segments of the same source are read at once
+        const previous = plan[plan.length - 1];
+        if (previous && previous.source === segment.source && segment.source !== 'readings') {
+          previous.end = segment.end;
+        } else {
+          plan.push(segment);
+        }
+      }
+    }
+    if (aggregatedUntil < to) {
+      plan.push({ source: 'readings', start: aggregatedUntil, end: to });
+    }
+
+    // Energy in kWh per data point start, one map per series
+    const points = series.map(() => new Map<number, number>());
+
+    for (const segment of plan) {
+      if (segment.source === 'readings') {
+        // Readings of the neighbouring minutes bound the segments reaching into the range
+        const readings = await this.repository.getEnergyReadingsForRange(
+          Math.floor(segment.start / 60) * 60 - 60,
+          Math.ceil(segment.end / 60) * 60 + 60,
+          siteId
+        );
+        const parts = splitRange(segment.start, segment.end);
+        for (const meterReadings of groupReadingsByMeter(readings)) {
+          let first = 0;
+          for (const part of parts) {
+            // Readings from the last one at or before the start of the part to the first one at or after its end
+            while (first < meterReadings.length - 1 && meterReadings[first + 1].timestamp <= part.start) {
+              first++;
+            }
+            let last = first;
+            while (last < meterReadings.length - 1 && meterReadings[last].timestamp < part.end) {
+              last++;
+            }
+            const partReadings = meterReadings.slice(first, last + 1);
+            series.forEach((entry, index) => {
+              const partPoints = new Map<number, number>();
+              integrateIntoPoints(partReadings, entry.reading, granularity, timeZone, partPoints, {
+                range: part,
+                skipGaps: true,
+                sign: entry.sign,
+              });
+              for (const [pointStart, kwh] of partPoints) {
+                const key = getKey(part.start, pointStart);
+                points[index].set(key, (points[index].get(key) ?? 0) + kwh);
+              }
+            });
+          }
+        }
+        continue;
+      }
+
+      const buckets = await this.getBucketsForSegment(segment, siteId);
+      for (const bucket of buckets) {
+        // The source is never coarser than the granularity, so each bucket lies within one data point
+        const key = getKey(bucket.bucket_start, getGranularityStart(bucket.bucket_start, granularity, timeZone));
+        series.forEach((entry, index) =>
+          points[index].set(key, (points[index].get(key) ?? 0) + entry.bucket(bucket))
+        );
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Reads the buckets of a planned segment from the minute buckets or the hourly/daily views.
+   * @param segment - Segment with a bucket source
+   * @param siteId - Site to read from
+   * @returns Buckets within the segment
+   */
+  private async getBucketsForSegment(segment: BucketQuerySegment, siteId: number): Promise<EnergyBucket[]> {
+    switch (segment.source) {
+      case 'days':
+        return this.bucketRepository!.getDailyBucketsForRange(segment.start, segment.end, siteId);
+      case 'hours':
+        return this.bucketRepository!.getHourlyBucketsForRange(segment.start, segment.end, siteId);
+      default:
+        return this.bucketRepository!.getBucketsForRange(segment.start, segment.end, siteId);
+    }
   }
 }
 
@@ -442,23 +889,16 @@ export class EnergyService {
  * @param repository - Optional EnergyRepository instance (required for methods that access the database)
  * @param bucketRepository - Optional EnergyBucketRepository instance (for optimized bucket queries)
  * @param cache - Optional Cache instance (for caching aggregated results)
+ * @param spotPriceRepository - Optional SpotPriceRepository instance (for dynamic tariff costs)
  * @returns EnergyService instance
  */
 export function createEnergyService(
   repository?: EnergyRepository,
   bucketRepository?: EnergyBucketRepository,
-  cache?: Cache
+  cache?: Cache,
+  spotPriceRepository?: SpotPriceRepository
 ): EnergyService {
-  return new EnergyService(repository, bucketRepository, cache);
-}
-
-/**
- * Factory function to create a client-safe EnergyService instance.
- * This instance does not require a repository since it only uses pure business logic methods.
- * @returns EnergyService instance (without database access)
- */
-export function createClientEnergyService(): EnergyService {
-  return new EnergyService();
+  return new EnergyService(repository, bucketRepository, cache, spotPriceRepository);
 }
 
 // Singleton instance for backward compatibility (deprecated - use createEnergyService instead)
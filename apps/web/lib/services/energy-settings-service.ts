@@ -1,69 +1,30 @@
-import type { EnergySettings, ConsumingPricePeriod } from '@/types/energy';
+import type { EnergySettings, ConsumingPricePeriod, DynamicTariff, TariffCharges } from '@/types/energy';
 import type { EnergyRepository } from '@/lib/repositories/energy-repository';
+import { validateDynamicTariff, validateTariff, validateTariffCharges } from '@/lib/tariffs';
+import { DEFAULT_SITE_ID } from '@/types/site';
 
 /**
- * Service for managing energy settings and price calculations.
+ * Service for managing energy settings.
  * Provides a clean abstraction layer for business logic related to energy pricing.
+ * Prices are calculated where costs are computed, with `getConsumingPrice` from the pricing module.
  */
 export class EnergySettingsService {
   constructor(private repository: EnergyRepository) {}
   /**
-   * Gets the active energy settings for a given timestamp.
+   * Gets the active energy settings of a site for a given timestamp.
    * If no timestamp is provided, returns settings for the current time.
    *
    * @param timestamp - Unix timestamp in seconds (optional, defaults to current time)
+   * @param siteId - Site whose tariffs are used
    * @returns Promise resolving to EnergySettings or null if no settings found
    */
-  async getActiveSettings(timestamp?: number): Promise<EnergySettings | null> {
+  async getActiveSettings(
+    timestamp?: number,
+    siteId: number = DEFAULT_SITE_ID
+  ): Promise<EnergySettings | null> {
     // Business logic: default to current time if no timestamp provided
     const queryTime = timestamp ?? Math.floor(Date.now() / 1000);
-    return this.repository.findActiveEnergySettings(queryTime);
-  }
-
-  /**
-   * Calculates the price per kWh for a given timestamp and type.
-   *
-   * @param timestamp - Unix timestamp in seconds
-   * @param type - 'consuming' for consumption price, 'producing' for feed-in price
-   * @returns Promise resolving to price per kWh, or null if no settings found
-   */
-  async calculatePriceAt(
-    timestamp: number,
-    type: 'consuming' | 'producing'
-  ): Promise<number | null> {
-    const settings = await this.getActiveSettings(timestamp);
-    
-    if (!settings) {
-      return null;
-    }
-
-    if (type === 'producing') {
-      return settings.producing_price;
-    }
-
-    // For consuming, find the appropriate price based on time of day
-    if (!settings.consuming_periods || settings.consuming_periods.length === 0) {
-      return null;
-    }
-
-    const date = new Date(timestamp * 1000);
-    const minutes = date.getHours() * 60 + date.getMinutes();
-
-    // Find the period that contains this time
-    for (const period of settings.consuming_periods) {
-      if (period.start_time <= minutes && minutes < period.end_time) {
-        return period.price;
-      }
-      // Handle wrap-around (e.g., 22:00 to 06:00)
-      if (period.start_time > period.end_time) {
-        if (minutes >= period.start_time || minutes < period.end_time) {
-          return period.price;
-        }
-      }
-    }
-
-    // If no period matches, return the first period's price as fallback
-    return settings.consuming_periods[0]?.price ?? null;
+    return this.repository.findActiveEnergySettings(queryTime, siteId);
   }
 
   /**
@@ -71,16 +32,27 @@ export class EnergySettingsService {
    * This method handles validation, active settings detection, and period ending logic.
    *
    * @param producingPrice - Price per kWh for energy production (feed-in)
-   * @param consumingPeriods - Array of time-based consuming price periods
+   * @param consumingPeriods - Array of consuming price periods by time of day, day of week and season
    * @param startDate - Optional start date for the new settings (defaults to current time)
+   * @param siteId - Site the settings apply to
+   * @param holidays - Holidays priced by the periods' holiday flag ('YYYY-MM-DD' or 'MM-DD' for every year)
+   * @param dynamicTariff - Price components of a dynamic tariff (null for a fixed tariff); the consuming periods
+   *   price the intervals without a spot price
+   * @param charges - Monthly fees, levies per kWh and VAT (none if null)
    * @returns Promise resolving to the created EnergySettings
    */
   async updateSettings(
     producingPrice: number,
     consumingPeriods: ConsumingPricePeriod[],
-    startDate?: number
+    startDate?: number,
+    siteId: number = DEFAULT_SITE_ID,
+    holidays: string[] = [],
+    dynamicTariff: DynamicTariff | null = null,
+    charges: TariffCharges | null = null
   ): Promise<EnergySettings> {
-    console.log('updateSettings called with:', { producingPrice, consumingPeriods, startDate });
+    console.log('updateSettings called with:', {
+      producingPrice, consumingPeriods, startDate, siteId, holidays, dynamicTariff, charges,
+    });
     
     const now = Math.floor(Date.now() / 1000);
     const effectiveStartDate = startDate ?? now;
@@ -90,19 +62,22 @@ export class EnergySettingsService {
       throw new Error('At least one consuming price period is required');
     }
 
-    // Business logic: Validate time ranges (0-1439 minutes)
-    for (const period of consumingPeriods) {
-      if (period.start_time < 0 || period.start_time > 1439 || 
-          period.end_time < 0 || period.end_time > 1439) {
-        throw new Error('Time values must be between 0 and 1439 (minutes since midnight)');
-      }
-      if (period.price < 0) {
-        throw new Error('Prices must be non-negative');
-      }
+    // Business logic: Validate time ranges (0-1439 minutes), prices, days, seasons and holidays
+    const tariffError = validateTariff(consumingPeriods, holidays);
+    if (tariffError) {
+      throw new Error(tariffError);
+    }
+    const dynamicTariffError = dynamicTariff ? validateDynamicTariff(dynamicTariff) : null;
+    if (dynamicTariffError) {
+      throw new Error(dynamicTariffError);
+    }
+    const chargesError = charges ? validateTariffCharges(charges) : null;
+    if (chargesError) {
+      throw new Error(chargesError);
     }
 
     // Business logic: Find the currently active settings (if any)
-    const activeSettings = await this.repository.findActiveEnergySettings(now);
+    const activeSettings = await this.repository.findActiveEnergySettings(now, siteId);
 
     // Business logic: Handle period transitions
     if (activeSettings) {
@@ -123,7 +98,11 @@ export class EnergySettingsService {
       producingPrice,
       consumingPeriods,
       effectiveStartDate,
-      null // Currently active (no end date)
+      null, // Currently active (no end date)
+      siteId,
+      holidays,
+      dynamicTariff,
+      charges
     );
 
     console.log('Settings created successfully:', created);
@@ -131,13 +110,14 @@ export class EnergySettingsService {
   }
 
   /**
-   * Gets all energy settings (including past, current, and future).
+   * Gets all energy settings (including past, current, and future) of a site.
    * Provides a service layer abstraction for data access.
    *
+   * @param siteId - Site whose tariffs are returned
    * @returns Promise resolving to array of all EnergySettings
    */
-  async getAllSettings(): Promise<EnergySettings[]> {
-    return this.repository.getAllEnergySettings();
+  async getAllSettings(siteId: number = DEFAULT_SITE_ID): Promise<EnergySettings[]> {
+    return this.repository.getAllEnergySettings(siteId);
   }
 }
 
@@ -1,14 +1,26 @@
 import { getPrismaClient } from '@/lib/db';
 import { createEnergyRepository } from '@/lib/repositories/energy-repository';
 import { createEnergyBucketRepository } from '@/lib/repositories/energy-bucket-repository';
+import { createSiteRepository } from '@/lib/repositories/site-repository';
+import { createAggregationJobRepository } from '@/lib/repositories/aggregation-job-repository';
+import { createJobLockRepository } from '@/lib/repositories/job-lock-repository';
+import { createCarSessionRepository } from '@/lib/repositories/car-session-repository';
+import { createSpotPriceRepository } from '@/lib/repositories/spot-price-repository';
 import { createEnergyService } from './energy-service';
 import { createEnergySettingsService } from './energy-settings-service';
+import { createEnergyAggregationJob } from './energy-aggregation-job';
 import { getRedisClient } from '@/lib/cache/cache-client';
 import { createRedisCache } from '@/lib/cache/redis-cache';
 import type { EnergyRepository } from '@/lib/repositories/energy-repository';
 import type { EnergyBucketRepository } from '@/lib/repositories/energy-bucket-repository';
+import type { SiteRepository } from '@/lib/repositories/site-repository';
+import type { AggregationJobRepository } from '@/lib/repositories/aggregation-job-repository';
+import type { JobLockRepository } from '@/lib/repositories/job-lock-repository';
+import type { CarSessionRepository } from '@/lib/repositories/car-session-repository';
+import type { SpotPriceRepository } from '@/lib/repositories/spot-price-repository';
 import type { EnergyService } from './energy-service';
 import type { EnergySettingsService } from './energy-settings-service';
+import type { EnergyAggregationJob } from './energy-aggregation-job';
 import type { Cache } from '@/lib/cache/cache-interface';
 import { PrismaClient } from '@prisma/client';
 
@@ -20,9 +32,15 @@ export interface ServiceContainer {
   prisma: PrismaClient;
   repository: EnergyRepository;
   bucketRepository: EnergyBucketRepository;
+  siteRepository: SiteRepository;
+  aggregationJobRepository: AggregationJobRepository;
+  jobLockRepository: JobLockRepository;
+  carSessionRepository: CarSessionRepository;
+  spotPriceRepository: SpotPriceRepository;
   cache: Cache | null;
   energyService: EnergyService;
   energySettingsService: EnergySettingsService;
+  aggregationJob: EnergyAggregationJob;
 }
 
 /**
@@ -35,6 +53,11 @@ export function createServiceContainer(): ServiceContainer {
   const prisma = getPrismaClient();
   const repository = createEnergyRepository(prisma);
   const bucketRepository = createEnergyBucketRepository(prisma);
+  const siteRepository = createSiteRepository(prisma);
+  const aggregationJobRepository = createAggregationJobRepository(prisma);
+  const jobLockRepository = createJobLockRepository(prisma);
+  const carSessionRepository = createCarSessionRepository(prisma);
+  const spotPriceRepository = createSpotPriceRepository(prisma);
 
   // Cache is optional - create only if REDIS_URL is configured
   let cache: Cache | null = null;
@@ -45,15 +68,22 @@ export function createServiceContainer(): ServiceContainer {
     console.warn('Redis cache not available, continuing without cache:', error);
   }
 
-  const energyService = createEnergyService(repository, bucketRepository, cache || undefined);
+  const energyService = createEnergyService(repository, bucketRepository, cache || undefined, spotPriceRepository);
   const energySettingsService = createEnergySettingsService(repository);
+  const aggregationJob = createEnergyAggregationJob(prisma, cache || undefined);
 
   return {
     prisma,
     repository,
     bucketRepository,
+    siteRepository,
+    aggregationJobRepository,
+    jobLockRepository,
+    carSessionRepository,
+    spotPriceRepository,
     cache,
     energyService,
     energySettingsService,
+    aggregationJob,
   };
 }
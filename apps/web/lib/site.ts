@@ -0,0 +1,30 @@
+import { DEFAULT_SITE_ID } from '@/types/site';
+
+/**
+ * Parses a site id from a query string value.
+ *
+ * @param value - Raw `site` parameter value
+ * @returns Site id (the default site if the value is missing), or null if the value is invalid
+ */
+export function parseSiteId(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return DEFAULT_SITE_ID;
+  }
+
+  const siteId = Number(value);
+  if (!Number.isInteger(siteId) || siteId < 1) {
+    return null;
+  }
+
+  return siteId;
+}
+
+/**
+ * Reads the `site` query parameter shared by the energy and settings routes.
+ *
+ * @param searchParams - Query parameters of the request
+ * @returns Site id (the default site if the parameter is missing), or null if the parameter is invalid
+ */
+export function getSiteIdParam(searchParams: URLSearchParams): number | null {
+  return parseSiteId(searchParams.get('site'));
+}
@@ -0,0 +1,174 @@
+import type { SpotPrice } from '@/types/energy';
+
+export { createSpotPriceLookup } from '@repo/core/pricing';
+
+/** Interval assumed for files with a single price and start times only (s) */
+const DEFAULT_INTERVAL_SECONDS = 3600;
+
+// Field names of the aWATTar export (start_timestamp, end_timestamp, marketprice in €/MWh) and of the Tibber
+// export (startsAt, energy in €/kWh), plus generic names; compared case-insensitively
+const START_FIELDS = ['start_timestamp', 'startsat', 'start'];
+const END_FIELDS = ['end_timestamp', 'endsat', 'end'];
+const PRICE_FIELDS: [field: string, defaultUnit: string][] = [
+  ['marketprice', 'Eur/MWh'],
+  ['energy', 'Eur/kWh'],
+  ['price', 'Eur/kWh'],
+];
+
+interface ParsedPrice {
+  starts_at: number;
+  ends_at: number | null;
+  price: number;
+}
+
+/**
+ * Divisor converting a price unit to €/kWh, e.g. 1000 for 'Eur/MWh' or 100 for 'ct/kWh'.
+ */
+function getUnitDivisor(unit: string): number {
+  const normalized = unit.toLowerCase().replace(/\s/g, '');
+  return (normalized.includes('mwh') ? 1000 : 1) * (normalized.startsWith('ct') ? 100 : 1);
+}
+
+/**
+ * Parses a timestamp given as Unix seconds, Unix milliseconds or ISO date.
+ */
+function parseTimestamp(value: unknown, field: string): number {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const timestamp = Number(value);
+    return Math.floor(timestamp > 1e11 ? timestamp / 1000 : timestamp);
+  }
+  if (typeof value === 'string') {
+    const milliseconds = Date.parse(value.trim());
+    if (!isNaN(milliseconds)) {
+      return Math.floor(milliseconds / 1000);
+    }
+  }
+  throw new Error(`Invalid ${field} ${JSON.stringify(value)}: expected Unix seconds, milliseconds or an ISO date`);
+}
+
+/**
+ * Parses a price given as number or string (with a decimal point or comma).
+ */
+function parsePrice(value: unknown): number {
+  const price = typeof value === 'string' ? Number(value.trim().replace(',', '.')) : value;
+  if (typeof price !== 'number' || !Number.isFinite(price)) {
+    throw new Error(`Invalid price ${JSON.stringify(value)}`);
+  }
+  return price;
+}
+
+/**
+ * Reads a price from a record of an export (JSON object or CSV row).
+ * @param record - Fields of the record, names in lower case
+ * @param unit - Unit of the file (e.g. from a CSV header), overrides the unit of the price field
+ */
+function parseRecord(record: Map<string, unknown>, unit?: string): ParsedPrice {
+  const startField = START_FIELDS.find((field) => record.get(field) != null);
+  const endField = END_FIELDS.find((field) => record.get(field) != null);
+  const priceField = PRICE_FIELDS.find(([field]) => record.get(field) != null);
+  if (!startField || !priceField) {
+    throw new Error('Every price needs a start (start_timestamp, startsAt or start) and a price (marketprice, energy or price)');
+  }
+
+  const recordUnit = typeof record.get('unit') === 'string' ? (record.get('unit') as string) : undefined;
+  return {
+    starts_at: parseTimestamp(record.get(startField), startField),
+    ends_at: endField ? parseTimestamp(record.get(endField), endField) : null,
+    price: parsePrice(record.get(priceField[0])) / getUnitDivisor(unit ?? recordUnit ?? priceField[1]),
+  };
+}
+
+function toRecord(value: object): Map<string, unknown> {
+  return new Map(Object.entries(value).map(([key, field]) => [key.toLowerCase(), field]));
+}
+
+/**
+ * Collects the price records of a JSON export: the `data` list of aWATTar, the `today`/`tomorrow`/`range` lists of
+ * Tibber (at any depth of the API response) or a plain list of records.
+ */
+function collectJsonRecords(value: unknown, records: Map<string, unknown>[] = []): Map<string, unknown>[] {
+  if (Array.isArray(value)) {
+    value.forEach((entry) => collectJsonRecords(entry, records));
+  } else if (value !== null && typeof value === 'object') {
+    const record = toRecord(value);
+    if (START_FIELDS.some((field) => record.has(field))) {
+      records.push(record);
+    } else {
+      Object.values(value).forEach((entry) => collectJsonRecords(entry, records));
+    }
+  }
+  return records;
+}
+
+/**
+ * Reads the rows of a CSV export with a header row. The delimiter is a comma or, for exports with decimal commas,
+ * a semicolon; a unit may follow a column name in brackets, e.g. `marketprice (Eur/MWh)`.
+ */
+function parseCsv(content: string): ParsedPrice[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('CSV files need a header row and at least one price');
+  }
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  let unit: string | undefined;
+  const columns = lines[0].split(delimiter).map((column) => {
+    const match = /^\s*"?([^("]+?)\s*(?:[([]\s*([^)\]]+?)\s*[)\]])?"?\s*$/.exec(column);
+    const name = (match?.[1] ?? column).trim().toLowerCase();
+    if (match?.[2] && PRICE_FIELDS.some(([field]) => field === name)) {
+      unit = match[2];
+    }
+    return name;
+  });
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+    return parseRecord(new Map(columns.map((column, index) => [column, cells[index] === '' ? undefined : cells[index]])), unit);
+  });
+}
+
+/**
+ * Parses a day-ahead price file: an aWATTar or Tibber JSON export, or a CSV file with the same field names.
+ * Prices are converted to €/kWh. Prices without an end last until the next price, or as long as the shortest gap
+ * between two prices; if a start occurs twice, the later entry wins.
+ *
+ * @param content - File content
+ * @returns Prices ordered by start
+ * @throws Error describing the first invalid entry
+ */
+export function parseSpotPriceFile(content: string): SpotPrice[] {
+  const trimmed = content.trim();
+  if (trimmed === '') {
+    throw new Error('The file contains no prices');
+  }
+
+  let parsed: ParsedPrice[];
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    parsed = collectJsonRecords(json).map((record) => parseRecord(record));
+  } else {
+    parsed = parseCsv(trimmed);
+  }
+
+  if (parsed.length === 0) {
+    throw new Error('The file contains no prices');
+  }
+
+  const byStart = new Map(parsed.map((price) => [price.starts_at, price]));
+  const sorted = [...byStart.values()].sort((a, b) => a.starts_at - b.starts_at);
+  const gaps = sorted.slice(1).map((price, index) => price.starts_at - sorted[index].starts_at);
+  const interval = gaps.length > 0 ? Math.min(...gaps) : DEFAULT_INTERVAL_SECONDS;
+
+  return sorted.map((price) => {
+    const endsAt = price.ends_at ?? price.starts_at + interval;
+    if (endsAt <= price.starts_at) {
+      throw new Error(`Price starting at ${new Date(price.starts_at * 1000).toISOString()} ends before it starts`);
+    }
+    return { starts_at: price.starts_at, ends_at: endsAt, price: price.price };
+  });
+}
@@ -0,0 +1,328 @@
+import type {
+  ConsumingPricePeriod,
+  EnergySettings,
+  SpotPrice,
+  TariffCandidate,
+  TariffComparison,
+  TariffComparisonMonth,
+  TariffCostBreakdown,
+} from '@/types/energy';
+import { formatGranularityLabel, getGranularityStart, getNextGranularityStart } from '@/lib/energy-aggregation';
+import {
+  findSettingsAt,
+  getConsumingPrice,
+  getPriceChanges,
+  prorateHistoryFees,
+  validateDynamicTariff,
+  validateTariff,
+  validateTariffCharges,
+} from '@/lib/tariffs';
+import { fromLocalDateTime, getLocalDateTime, startOfLocalDay } from '@/lib/timezone';
+
+/** Maximum number of candidate tariffs per comparison */
+export const MAX_TARIFF_CANDIDATES = 5;
+
+/** Longest comparison range (s), a leap year */
+export const MAX_COMPARISON_SECONDS = 366 * 86400;
+
+/** Name of the tariff priced with the settings history of the site */
+export const ACTUAL_TARIFF_NAME = 'Actual tariff';
+
+/**
+ * Energy of a part of a local day in which the prices of all compared tariffs are constant (kWh).
+ */
+export interface ComparisonPart {
+  start: number;
+  /** End of the part (exclusive) */
+  end: number;
+  gridImport: number;
+  gridExport: number;
+  car: number;
+  /** Car energy not supplied by solar, summed per minute (see `getCarSolarKwh`) */
+  carGrid: number;
+  /** Highest car energy of a minute */
+  carPeak: number;
+}
+
+/**
+ * Car charging of a local day, collected to estimate the savings of shifting it.
+ */
+interface ChargingDay {
+  /** Consuming prices and lengths in minutes of the priced parts of the day */
+  prices: { price: number; minutes: number }[];
+  /** Car energy from the grid */
+  car: number;
+  carCost: number;
+  /** Highest car energy of a minute, i.e. the charging power available */
+  peak: number;
+}
+
+function emptyTariffCostBreakdown(): TariffCostBreakdown {
+  return {
+    consumption: 0,
+    feedIn: 0,
+    car: 0,
+    energyCost: 0,
+    fixedFees: 0,
+    feedInRevenue: 0,
+    net: 0,
+    gross: 0,
+    carCost: 0,
+    carShiftSavings: 0,
+  };
+}
+
+/**
+ * Gets the default range of a tariff comparison: the twelve whole months of the site before the current month.
+ * @param now - Current time (Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @returns Start and end of the range (Unix seconds)
+ */
+export function getDefaultComparisonRange(now: number, timeZone: string): { start: number; end: number } {
+  const end = getGranularityStart(now, 'month', timeZone);
+  const local = getLocalDateTime(end, timeZone);
+  return { start: fromLocalDateTime(local.year - 1, local.month, 1, 0, 0, timeZone), end };
+}
+
+/**
+ * Turns a candidate tariff into settings applying at all times.
+ */
+export function toCandidateSettings(candidate: TariffCandidate): EnergySettings {
+  const { consuming_periods: periods, ...tariff } = candidate;
+  return {
+    ...tariff,
+    id: 0,
+    start_date: 0,
+    end_date: null,
+    updated_at: 0,
+    consuming_periods: periods.map((period, index) => ({ ...period, id: index + 1, energy_settings_id: 0 })),
+  };
+}
+
+/**
+ * Turns energy settings into a candidate tariff, e.g. to start a comparison from the current settings.
+ */
+export function toTariffCandidate(settings: EnergySettings, name: string): TariffCandidate {
+  return {
+    name,
+    producing_price: settings.producing_price,
+    consuming_periods: (settings.consuming_periods ?? []).map((period) => ({
+      start_time: period.start_time,
+      end_time: period.end_time,
+      price: period.price,
+      days_of_week: period.days_of_week,
+      season_start: period.season_start,
+      season_end: period.season_end,
+    })),
+    holidays: settings.holidays ?? [],
+    tariff_type: settings.tariff_type ?? 'fixed',
+    spot_markup: settings.spot_markup ?? 0,
+    grid_fee: settings.grid_fee ?? 0,
+    consumption_levy: settings.consumption_levy ?? 0,
+    base_fee: settings.base_fee ?? 0,
+    meter_fee: settings.meter_fee ?? 0,
+    vat_rate: settings.vat_rate ?? 0,
+  };
+}
+
+/**
+ * Validates a candidate tariff of a comparison request like the settings of `PUT /api/energy/settings`.
+ * @param candidate - Tariff as sent by the client
+ * @returns Error message, or null if the tariff is valid
+ */
+export function validateTariffCandidate(candidate: unknown): string | null {
+  if (candidate === null || typeof candidate !== 'object') {
+    return 'Every tariff must be an object';
+  }
+  const tariff = candidate as Partial<TariffCandidate>;
+  if (typeof tariff.name !== 'string' || tariff.name.trim() === '') {
+    return 'Every tariff needs a name';
+  }
+
+  const describe = (error: string) => `Tariff "${tariff.name}": ${error}`;
+  if (typeof tariff.producing_price !== 'number' || !Number.isFinite(tariff.producing_price)
+      || tariff.producing_price < 0) {
+    return describe('producing_price must be a non-negative number');
+  }
+  if (!Array.isArray(tariff.consuming_periods) || tariff.consuming_periods.length === 0) {
+    return describe('consuming_periods must be a non-empty array');
+  }
+  if (tariff.consuming_periods.some((period) =>
+    typeof period?.start_time !== 'number' || typeof period.end_time !== 'number' || typeof period.price !== 'number'
+  )) {
+    return describe('start_time, end_time and price of the periods must be numbers');
+  }
+  if (tariff.holidays !== undefined && !Array.isArray(tariff.holidays)) {
+    return describe('holidays must be an array of dates');
+  }
+  if (tariff.tariff_type !== undefined && tariff.tariff_type !== 'fixed' && tariff.tariff_type !== 'dynamic') {
+    return describe("tariff_type must be 'fixed' or 'dynamic'");
+  }
+
+  const error = validateTariff(tariff.consuming_periods as ConsumingPricePeriod[], tariff.holidays ?? [])
+    ?? (tariff.tariff_type === 'dynamic'
+      ? validateDynamicTariff({ spot_markup: tariff.spot_markup ?? 0, grid_fee: tariff.grid_fee ?? 0 })
+      : null)
+    ?? validateTariffCharges({
+      base_fee: tariff.base_fee ?? 0,
+      meter_fee: tariff.meter_fee ?? 0,
+      consumption_levy: tariff.consumption_levy ?? 0,
+      vat_rate: tariff.vat_rate ?? 0,
+    });
+  return error ? describe(error) : null;
+}
+
+/**
+ * Splits a range into the parts priced at once by `compareTariff`: the local days, split where the prices of any of
+ * the compared tariffs may change (see `getPriceChanges`).
+ * @param tariffs - Settings of each compared tariff
+ * @param spotPrices - Spot prices of the range
+ * @param start - Start of the range (Unix seconds)
+ * @param end - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @returns Parts without energy, ordered by start
+ */
+export function splitComparisonRange(
+  tariffs: EnergySettings[][],
+  spotPrices: SpotPrice[],
+  start: number,
+  end: number,
+  timeZone: string
+): ComparisonPart[] {
+  const bounds = new Set([start, end, ...tariffs.flatMap((history) =>
+    getPriceChanges(history, spotPrices, start, end, timeZone)
+  )]);
+  for (let day = startOfLocalDay(start, timeZone, 1); day < end; day = startOfLocalDay(day, timeZone, 1)) {
+    bounds.add(day);
+  }
+
+  const sorted = [...bounds].sort((a, b) => a - b);
+  return sorted.slice(1).map((partEnd, index) => ({
+    start: sorted[index],
+    end: partEnd,
+    gridImport: 0,
+    gridExport: 0,
+    car: 0,
+    carGrid: 0,
+    carPeak: 0,
+  }));
+}
+
+/**
+ * Estimates the cost of a day's car charging in the cheapest minutes of the day, charging at most the day's peak
+ * energy per minute.
+ */
+function getShiftedCost(day: ChargingDay): number {
+  let remaining = day.car;
+  let cost = 0;
+  for (const { price, minutes } of [...day.prices].sort((a, b) => a.price - b.price)) {
+    if (remaining <= 0) {
+      break;
+    }
+    const kwh = Math.min(day.peak * minutes, remaining);
+    cost += kwh * price;
+    remaining -= kwh;
+  }
+  return cost;
+}
+
+/**
+ * Prices the energy of a range with a tariff, per local month and in total.
+ * Each part is priced with the settings applying at its start (see `findSettingsAt`): grid consumption and the car
+ * charging from the grid at the consuming price, feed-in at the producing price; parts without settings are not
+ * priced. Monthly fees are prorated per month. The car shift savings compare the car charging from the grid of each
+ * local day with charging the same energy in the cheapest minutes of that day, at most at the highest charging power
+ * of the day.
+ *
+ * @param name - Name of the tariff
+ * @param history - Settings of the tariff, e.g. the settings history of the site or a single candidate
+ * @param parts - Energy per part of the range with constant prices (see `splitComparisonRange`), ordered by start
+ * @param start - Start of the range (Unix seconds)
+ * @param end - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @param getSpotPrice - Spot price at a timestamp, for dynamic tariffs
+ * @returns Costs per month and in total
+ */
+export function compareTariff(
+  name: string,
+  history: EnergySettings[],
+  parts: ComparisonPart[],
+  start: number,
+  end: number,
+  timeZone: string,
+  getSpotPrice: (timestamp: number) => number | null = () => null
+): TariffComparison {
+  const months: TariffComparisonMonth[] = [];
+  const monthEnds: number[] = [];
+  for (let monthStart = getGranularityStart(start, 'month', timeZone); monthStart < end;) {
+    const monthEnd = getNextGranularityStart(monthStart, 'month', timeZone);
+    const fees = prorateHistoryFees(history, Math.max(start, monthStart), Math.min(end, monthEnd), timeZone);
+    months.push({
+      ...emptyTariffCostBreakdown(),
+      label: formatGranularityLabel(monthStart, 'month', timeZone),
+      timestamp: monthStart,
+      fixedFees: fees.cost,
+      gross: fees.gross,
+    });
+    monthEnds.push(monthEnd);
+    monthStart = monthEnd;
+  }
+
+  let monthIndex = 0;
+  let day: ChargingDay | null = null;
+  let dayMonth: TariffComparisonMonth | null = null;
+  let dayEnd = -Infinity;
+  const closeDay = () => {
+    if (day && dayMonth && day.car > 0) {
+      dayMonth.carShiftSavings += day.carCost - getShiftedCost(day);
+    }
+  };
+
+  for (const part of parts) {
+    while (monthIndex < monthEnds.length - 1 && part.start >= monthEnds[monthIndex]) {
+      monthIndex++;
+    }
+    const month = months[monthIndex];
+    if (!month) {
+      break;
+    }
+    if (part.start >= dayEnd) {
+      closeDay();
+      day = { prices: [], car: 0, carCost: 0, peak: 0 };
+      dayMonth = month;
+      dayEnd = getNextGranularityStart(getGranularityStart(part.start, 'day', timeZone), 'day', timeZone);
+    }
+
+    month.consumption += part.gridImport;
+    month.feedIn += part.gridExport;
+    month.car += part.car;
+
+    const settings = findSettingsAt(history, part.start);
+    if (!settings || !day) {
+      continue;
+    }
+    const price = getConsumingPrice(settings, part.start, timeZone, getSpotPrice(part.start)) ?? 0;
+    const energyCost = part.gridImport * price;
+    const feedInRevenue = part.gridExport * settings.producing_price;
+    month.energyCost += energyCost;
+    month.feedInRevenue += feedInRevenue;
+    month.gross += energyCost * (1 + (settings.vat_rate ?? 0)) - feedInRevenue;
+    month.carCost += part.carGrid * price;
+
+    day.prices.push({ price, minutes: (part.end - part.start) / 60 });
+    day.car += part.carGrid;
+    day.carCost += part.carGrid * price;
+    day.peak = Math.max(day.peak, part.carPeak);
+  }
+  closeDay();
+
+  const total = emptyTariffCostBreakdown();
+  for (const month of months) {
+    month.net = month.energyCost + month.fixedFees - month.feedInRevenue;
+    for (const key of Object.keys(total) as (keyof TariffCostBreakdown)[]) {
+      total[key] += month[key];
+    }
+  }
+
+  return { name, months, total };
+}
@@ -0,0 +1,296 @@
+import type {
+  ConsumingPricePeriod,
+  DynamicTariff,
+  EnergySettings,
+  FixedFees,
+  SpotPrice,
+  TariffCharges,
+} from '@/types/energy';
+import { fromLocalDateTime, getLocalDateTime, getTimeZoneOffset, startOfLocalDay } from '@/lib/timezone';
+
+// Price lookups and the solar share of car charging, shared with the worker, which prices charging sessions alike
+export { findConsumingPeriod, getCarSolarKwh, getConsumingPrice, getDynamicPrice } from '@repo/core/pricing';
+
+/**
+ * Day flags of `ConsumingPricePeriod.days_of_week`, Monday to Sunday, then public holidays.
+ * On a holiday only the holiday flag counts, so holidays can be priced like Sundays.
+ */
+export const TARIFF_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun', 'Holiday'] as const;
+
+/** Periods without a day mask apply on every day, holidays included */
+export const ALL_TARIFF_DAYS = (1 << TARIFF_DAYS.length) - 1;
+
+const HOLIDAY_PATTERN = /^(\d{4}-)?(\d{2})-(\d{2})$/;
+
+// Days per month, allowing 29 February for seasons and recurring holidays
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function isValidMonthDay(month: number, day: number): boolean {
+  return Number.isInteger(month) && month >= 1 && month <= 12 && Number.isInteger(day) && day >= 1
+    && day <= DAYS_IN_MONTH[month - 1];
+}
+
+function formatDatePart(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Finds the settings applying at a timestamp in a site's settings history, like `findActiveEnergySettings`:
+ * the latest settings that started at or before the timestamp and had not ended yet.
+ * @param history - Settings of the site in any order
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Applying settings, or null if none apply
+ */
+export function findSettingsAt(history: EnergySettings[], timestamp: number): EnergySettings | null {
+  let match: EnergySettings | null = null;
+  for (const settings of history) {
+    if (settings.start_date <= timestamp && (settings.end_date === null || settings.end_date > timestamp)
+        && (!match || settings.start_date > match.start_date)) {
+      match = settings;
+    }
+  }
+  return match;
+}
+
+/**
+ * Adds the VAT of a tariff to a net amount of consumption costs or fees.
+ * @param net - Net amount (€)
+ * @param settings - Settings with the VAT rate
+ * @returns Gross amount (€)
+ */
+export function getGrossAmount(net: number, settings: EnergySettings): number {
+  return net * (1 + (settings.vat_rate ?? 0));
+}
+
+/**
+ * Prorates the monthly base fee and meter rental over a range: each calendar month of the site contributes the share
+ * of its length that lies in the range, so a whole month costs exactly the monthly fees.
+ *
+ * @param settings - Settings with the monthly fees
+ * @param start - Start of the range (Unix seconds)
+ * @param end - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @returns Net fees of the range (€)
+ */
+export function prorateMonthlyFees(settings: EnergySettings, start: number, end: number, timeZone: string): number {
+  const monthlyFees = (settings.base_fee ?? 0) + (settings.meter_fee ?? 0);
+  if (monthlyFees === 0 || end <= start) {
+    return 0;
+  }
+
+  const local = getLocalDateTime(start, timeZone);
+  let [year, month] = [local.year, local.month];
+  let monthStart = fromLocalDateTime(year, month, 1, 0, 0, timeZone);
+  let fees = 0;
+  while (monthStart < end) {
+    [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+    const monthEnd = fromLocalDateTime(year, month, 1, 0, 0, timeZone);
+    fees += (monthlyFees * (Math.min(end, monthEnd) - Math.max(start, monthStart))) / (monthEnd - monthStart);
+    monthStart = monthEnd;
+  }
+  return fees;
+}
+
+/**
+ * Prorates the monthly fees of a settings history over a range. Each settings record is charged while it applies,
+ * i.e. until its end date or the start of the next record (see `findSettingsAt`).
+ *
+ * @param history - Settings of the site in any order
+ * @param start - Start of the range (Unix seconds)
+ * @param end - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @returns Net and gross fees of the range
+ */
+export function prorateHistoryFees(history: EnergySettings[], start: number, end: number, timeZone: string): FixedFees {
+  const sorted = [...history].sort((a, b) => a.start_date - b.start_date);
+  const fees: FixedFees = { cost: 0, gross: 0 };
+  sorted.forEach((settings, index) => {
+    const appliesFrom = Math.max(start, settings.start_date);
+    const appliesUntil = Math.min(end, settings.end_date ?? end, sorted[index + 1]?.start_date ?? end);
+    const cost = prorateMonthlyFees(settings, appliesFrom, appliesUntil, timeZone);
+    fees.cost += cost;
+    fees.gross += getGrossAmount(cost, settings);
+  });
+  return fees;
+}
+
+/**
+ * Gets the timestamps of a local day at which the wall clock shows given minutes since midnight.
+ * On days with a DST change, times skipped by the change map to the change itself and repeated times occur twice.
+ */
+function getLocalMinuteTimestamps(dayStart: number, dayEnd: number, minutes: number[], timeZone: string): number[] {
+  const startOffset = getTimeZoneOffset(dayStart, timeZone);
+  const endOffset = getTimeZoneOffset(dayEnd - 1, timeZone);
+  if (startOffset === endOffset) {
+    return minutes.map((minute) => dayStart + minute * 60);
+  }
+
+  // First minute with the offset of the end of the day
+  let [low, high] = [Math.floor(dayStart / 60), Math.floor((dayEnd - 1) / 60)];
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (getTimeZoneOffset(middle * 60, timeZone) === endOffset) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  const change = low * 60;
+  return [
+    change,
+    ...minutes.map((minute) => dayStart + minute * 60).filter((timestamp) => timestamp < change),
+    ...minutes.map((minute) => dayStart + minute * 60 - (endOffset - startOffset))
+      .filter((timestamp) => timestamp >= change),
+  ];
+}
+
+/**
+ * Gets the timestamps within a range at which the prices of a settings history may change: the start and end of
+ * each settings record, local midnights (days, holidays and seasons change) and the start and end times of the
+ * consuming periods, and for dynamic tariffs the bounds of the spot price intervals. Energy between two changes can be
+ * priced at once. Prices apply per minute (see `getConsumingPrice`), so changes within a minute count from the next.
+ *
+ * @param history - Settings of the site in any order
+ * @param spotPrices - Spot prices of the range, used if a settings record is a dynamic tariff
+ * @param start - Start of the range (Unix seconds)
+ * @param end - End of the range (exclusive, Unix seconds)
+ * @param timeZone - IANA timezone of the site
+ * @returns Sorted timestamps after the start and before the end of the range
+ */
+export function getPriceChanges(
+  history: EnergySettings[],
+  spotPrices: SpotPrice[],
+  start: number,
+  end: number,
+  timeZone: string
+): number[] {
+  const applying = history.filter((settings) =>
+    settings.start_date < end && (settings.end_date === null || settings.end_date > start)
+  );
+  const changes = applying.flatMap((settings) => [settings.start_date, settings.end_date ?? end]);
+
+  const minutes = [...new Set(applying.flatMap((settings) =>
+    (settings.consuming_periods ?? []).flatMap((period) => [period.start_time, period.end_time])
+  ))];
+  if (minutes.length > 0) {
+    for (let dayStart = startOfLocalDay(start, timeZone); dayStart < end;) {
+      const dayEnd = startOfLocalDay(dayStart, timeZone, 1);
+      changes.push(dayStart, ...getLocalMinuteTimestamps(dayStart, dayEnd, minutes, timeZone));
+      dayStart = dayEnd;
+    }
+  }
+
+  if (applying.some((settings) => settings.tariff_type === 'dynamic')) {
+    changes.push(...spotPrices.flatMap((price) => [price.starts_at, price.ends_at]));
+  }
+
+  const minuteStarts = changes
+    .map((timestamp) => Math.ceil(timestamp / 60) * 60)
+    .filter((timestamp) => timestamp > start && timestamp < end);
+  return [...new Set(minuteStarts)].sort((a, b) => a - b);
+}
+
+/**
+ * Validates the price components of a dynamic tariff.
+ * @returns Error message, or null if the components are valid
+ */
+export function validateDynamicTariff(tariff: DynamicTariff): string | null {
+  if (!Number.isFinite(tariff.spot_markup) || !Number.isFinite(tariff.grid_fee)) {
+    return 'spot_markup and grid_fee must be numbers (€/kWh)';
+  }
+  if (tariff.grid_fee < 0) {
+    return 'grid_fee must be non-negative';
+  }
+  return null;
+}
+
+/**
+ * Validates the fixed fees, levies and VAT of a tariff.
+ * @returns Error message, or null if the charges are valid
+ */
+export function validateTariffCharges(charges: TariffCharges): string | null {
+  for (const field of ['base_fee', 'meter_fee', 'consumption_levy'] as const) {
+    if (!Number.isFinite(charges[field]) || charges[field] < 0) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (!Number.isFinite(charges.vat_rate) || charges.vat_rate < 0 || charges.vat_rate > 1) {
+    return 'vat_rate must be between 0 and 1, e.g. 0.19 for 19%';
+  }
+  return null;
+}
+
+/**
+ * Validates the consuming periods and holidays of a tariff.
+ * @param periods - Consuming price periods
+ * @param holidays - Holidays as 'YYYY-MM-DD' or 'MM-DD'
+ * @returns Error message, or null if the tariff is valid
+ */
+export function validateTariff(periods: ConsumingPricePeriod[], holidays: string[] = []): string | null {
+  for (const period of periods) {
+    if (period.start_time < 0 || period.start_time > 1439 ||
+        period.end_time < 0 || period.end_time > 1439) {
+      return 'Time values must be between 0 and 1439 (minutes since midnight)';
+    }
+    if (period.price < 0) {
+      return 'Prices must be non-negative';
+    }
+    const days = period.days_of_week ?? ALL_TARIFF_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > ALL_TARIFF_DAYS) {
+      return `days_of_week must select at least one day (1-${ALL_TARIFF_DAYS})`;
+    }
+    if ((period.season_start == null) !== (period.season_end == null)) {
+      return 'season_start and season_end must be set together';
+    }
+    for (const value of [period.season_start, period.season_end]) {
+      if (value != null && !isValidMonthDay(Math.floor(value / 100), value % 100)) {
+        return 'Season dates must be given as MMDD, e.g. 1101 for 1 November';
+      }
+    }
+  }
+
+  for (const holiday of holidays) {
+    const match = typeof holiday === 'string' ? HOLIDAY_PATTERN.exec(holiday) : null;
+    if (!match || !isValidMonthDay(Number(match[2]), Number(match[3]))) {
+      return `Invalid holiday ${JSON.stringify(holiday)}: must be YYYY-MM-DD or MM-DD (every year)`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Formats an MMDD season date for display and input, e.g. 1101 as '11-01'.
+ */
+export function formatSeasonDate(value: number): string {
+  return `${formatDatePart(Math.floor(value / 100))}-${formatDatePart(value % 100)}`;
+}
+
+/**
+ * Parses a season date entered as 'MM-DD'.
+ * @returns MMDD value, null for an empty input, or NaN for an invalid input
+ */
+export function parseSeasonDate(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return null;
+  }
+  const match = /^(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  return match ? Number(match[1]) * 100 + Number(match[2]) : NaN;
+}
+
+/**
+ * Describes on which days and in which season a period applies, e.g. 'Sat, Sun, Holiday · 11-01 to 03-31'.
+ * @returns Description, or null if the period applies on every day all year
+ */
+export function describePeriodScope(period: ConsumingPricePeriod): string | null {
+  const parts: string[] = [];
+  const days = period.days_of_week ?? ALL_TARIFF_DAYS;
+  if (days !== ALL_TARIFF_DAYS) {
+    parts.push(TARIFF_DAYS.filter((_, index) => (days & (1 << index)) !== 0).join(', '));
+  }
+  if (period.season_start != null && period.season_end != null) {
+    parts.push(`${formatSeasonDate(period.season_start)} to ${formatSeasonDate(period.season_end)}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -0,0 +1,156 @@
+/**
+ * Timezone helpers based on Intl, used to compute local hours and days of a site.
+ * Timestamps are Unix seconds; timezones are IANA names such as "Europe/Berlin".
+ */
+
+export interface LocalDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Gets the timezone of the runtime (server or browser).
+ * @returns IANA timezone name
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Checks whether a string is a timezone known to the runtime.
+ * @param timeZone - IANA timezone name
+ * @returns True if the timezone can be used for date calculations
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone.trim().length === 0) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a timestamp to the wall-clock date and time of a timezone.
+ * @param timestamp - Unix seconds
+ * @param timeZone - IANA timezone name
+ * @returns Local date and time
+ */
+export function getLocalDateTime(timestamp: number, timeZone: string): LocalDateTime {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp * 1000));
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+/**
+ * Gets the offset of a timezone from UTC at a point in time.
+ * @param timestamp - Unix seconds
+ * @param timeZone - IANA timezone name
+ * @returns Offset in seconds (positive east of UTC), e.g. 7200 for Europe/Berlin in summer
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const local = getLocalDateTime(timestamp, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) / 1000;
+  return localAsUtc - Math.floor(timestamp);
+}
+
+/**
+ * Converts a wall-clock date and time of a timezone to a timestamp.
+ * Out-of-range values roll over like `Date.UTC` (e.g. day 0 is the last day of the previous month).
+ * Times skipped by a DST change resolve to the same offset as before the change.
+ * @param year - Year
+ * @param month - Month (1-12)
+ * @param day - Day of the month
+ * @param hour - Hour (0-23)
+ * @param minute - Minute
+ * @param timeZone - IANA timezone name
+ * @returns Unix seconds
+ */
+export function fromLocalDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number {
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute) / 1000;
+  // The offset at the guessed instant may differ from the offset at the result when a DST change lies in between
+  const firstOffset = getTimeZoneOffset(localAsUtc, timeZone);
+  const secondOffset = getTimeZoneOffset(localAsUtc - firstOffset, timeZone);
+  return localAsUtc - secondOffset;
+}
+
+/**
+ * Gets the start of the local day containing a timestamp.
+ * @param timestamp - Unix seconds
+ * @param timeZone - IANA timezone name
+ * @param dayOffset - Days to move from that day (e.g. -1 for the previous day)
+ * @returns Unix seconds of local midnight
+ */
+export function startOfLocalDay(timestamp: number, timeZone: string, dayOffset: number = 0): number {
+  const local = getLocalDateTime(timestamp, timeZone);
+  return fromLocalDateTime(local.year, local.month, local.day + dayOffset, 0, 0, timeZone);
+}
+
+/**
+ * Gets the start of the local week (Monday) containing a timestamp.
+ * @param timestamp - Unix seconds
+ * @param timeZone - IANA timezone name
+ * @returns Unix seconds of local midnight on Monday
+ */
+export function startOfLocalWeek(timestamp: number, timeZone: string): number {
+  const local = getLocalDateTime(timestamp, timeZone);
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay(); // 0 = Sunday
+  return fromLocalDateTime(local.year, local.month, local.day - ((weekday + 6) % 7), 0, 0, timeZone);
+}
+
+/**
+ * Gets the start of the local hour containing a timestamp.
+ * Differs from the UTC hour for timezones with a fractional offset (e.g. Asia/Kolkata).
+ * @param timestamp - Unix seconds
+ * @param timeZone - IANA timezone name
+ * @returns Unix seconds of the start of the hour
+ */
+export function startOfLocalHour(timestamp: number, timeZone: string): number {
+  const localSeconds = Math.floor(timestamp) + getTimeZoneOffset(timestamp, timeZone);
+  return Math.floor(timestamp) - (((localSeconds % 3600) + 3600) % 3600);
+}
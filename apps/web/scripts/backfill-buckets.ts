@@ -3,6 +3,7 @@
 /**
  * Backfill script to process all historical raw energy readings into buckets.
  * This should be run once after the buckets table migration is applied.
+ * Every site is backfilled separately.
  * 
  * Usage:
  *   pnpm tsx scripts/backfill-buckets.ts
@@ -12,65 +13,91 @@
  */
 
 import { getPrismaClient } from '../lib/db';
-import { createEnergyAggregationJob } from '../lib/services/energy-aggregation-job';
+import { createEnergyAggregationJob, type EnergyAggregationJob } from '../lib/services/energy-aggregation-job';
+import type { PrismaClient } from '@prisma/client';
 
-async function backfillBuckets() {
-  console.log('Starting bucket backfill...');
+const DAY_SECONDS = 86400;
 
-  const prisma = getPrismaClient();
-  const aggregationJob = createEnergyAggregationJob(prisma);
+/**
+ * Processes all raw readings of one site into buckets.
+ * @param aggregationJob - Aggregation job used to integrate the buckets
+ * @param prisma - PrismaClient instance
+ * @param siteId - Site to backfill
+ */
+async function backfillSite(
+  aggregationJob: EnergyAggregationJob,
+  prisma: PrismaClient,
+  siteId: number
+) {
+  // Get earliest and latest timestamps from raw readings
+  const earliestReading = await prisma.energyReading.findFirst({
+    where: { site_id: siteId },
+    orderBy: { timestamp: 'asc' },
+    select: { timestamp: true },
+  });
 
-  try {
-    // Get earliest and latest timestamps from raw readings
-    const earliestReading = await prisma.energyReading.findFirst({
-      orderBy: { timestamp: 'asc' },
-      select: { timestamp: true },
-    });
+  const latestReading = await prisma.energyReading.findFirst({
+    where: { site_id: siteId },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
 
-    const latestReading = await prisma.energyReading.findFirst({
-      orderBy: { timestamp: 'desc' },
-      select: { timestamp: true },
-    });
+  if (!earliestReading || !latestReading) {
+    console.log('No readings found for this site. Nothing to backfill.');
+    return;
+  }
 
-    if (!earliestReading || !latestReading) {
-      console.log('No readings found in database. Nothing to backfill.');
-      return;
-    }
+  console.log(`Found readings from ${new Date(earliestReading.timestamp * 1000).toISOString()} to ${new Date(latestReading.timestamp * 1000).toISOString()}`);
 
-    console.log(`Found readings from ${new Date(earliestReading.timestamp * 1000).toISOString()} to ${new Date(latestReading.timestamp * 1000).toISOString()}`);
+  // Round to minute boundaries
+  const firstBucketStart = Math.floor(earliestReading.timestamp / 60) * 60;
+  const lastBucketStart = Math.floor(latestReading.timestamp / 60) * 60;
 
-    // Round to minute boundaries
-    const firstBucketStart = Math.floor(earliestReading.timestamp / 60) * 60;
-    const lastBucketStart = Math.floor(latestReading.timestamp / 60) * 60;
+  console.log(`Processing buckets from ${new Date(firstBucketStart * 1000).toISOString()} to ${new Date(lastBucketStart * 1000).toISOString()}`);
 
-    console.log(`Processing buckets from ${new Date(firstBucketStart * 1000).toISOString()} to ${new Date(lastBucketStart * 1000).toISOString()}`);
+  let currentBucketStart = firstBucketStart;
+  let processedCount = 0;
+  let writtenCount = 0;
+  const totalBuckets = Math.floor((lastBucketStart - firstBucketStart) / 60) + 1;
 
-    let currentBucketStart = firstBucketStart;
-    let processedCount = 0;
-    const totalBuckets = Math.floor((lastBucketStart - firstBucketStart) / 60) + 1;
+  console.log(`Total buckets to process: ${totalBuckets}`);
 
-    console.log(`Total buckets to process: ${totalBuckets}`);
+  // Process buckets one day per statement
+  while (currentBucketStart <= lastBucketStart) {
+    const chunkEnd = Math.min(currentBucketStart + DAY_SECONDS, lastBucketStart + 60);
+    try {
+      writtenCount += await aggregationJob.aggregateRange(currentBucketStart, chunkEnd, siteId);
+      processedCount += (chunkEnd - currentBucketStart) / 60;
 
-    // Process buckets in batches
-    while (currentBucketStart <= lastBucketStart) {
-      try {
-        await aggregationJob.aggregateBucket(currentBucketStart);
-        processedCount++;
+      const progress = ((processedCount / totalBuckets) * 100).toFixed(1);
+      console.log(`Progress: ${processedCount}/${totalBuckets} buckets (${progress}%)`);
+    } catch (error) {
+      console.error(`Error processing buckets from ${currentBucketStart} to ${chunkEnd}:`, error);
+      // Continue with next day
+    }
 
-        // Log progress every 100 buckets
-        if (processedCount % 100 === 0) {
-          const progress = ((processedCount / totalBuckets) * 100).toFixed(1);
-          console.log(`Progress: ${processedCount}/${totalBuckets} buckets (${progress}%)`);
-        }
-      } catch (error) {
-        console.error(`Error processing bucket ${currentBucketStart}:`, error);
-        // Continue with next bucket
-      }
+    currentBucketStart = chunkEnd;
+  }
 
-      currentBucketStart += 60;
-    }
+  console.log(`Backfill complete! Processed ${processedCount} buckets, wrote ${writtenCount} buckets with readings.`);
+}
 
-    console.log(`Backfill complete! Processed ${processedCount} buckets.`);
+async function backfillBuckets() {
+  console.log('Starting bucket backfill...');
+
+  const prisma = getPrismaClient();
+  const aggregationJob = createEnergyAggregationJob(prisma);
+
+  try {
+    const sites = await prisma.site.findMany({
+      select: { id: true, name: true },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const site of sites) {
+      console.log(`Backfilling site ${site.id} (${site.name})...`);
+      await backfillSite(aggregationJob, prisma, site.id);
+    }
 
     // Refresh materialized views
     console.log('Refreshing materialized views...');
@@ -0,0 +1,51 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import script for day-ahead spot prices from a file, e.g. an aWATTar or Tibber export downloaded beforehand.
+ * Works offline against the database; the file formats are those of `POST /api/energy/spot-prices`.
+ * Prices with the same start as stored prices replace them. Cached costs expire with the cache TTL.
+ *
+ * Usage:
+ *   pnpm tsx scripts/import-spot-prices.ts <file> [siteId]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { getPrismaClient } from '../lib/db';
+import { createSpotPriceRepository } from '../lib/repositories/spot-price-repository';
+import { parseSpotPriceFile } from '../lib/spot-prices';
+import { DEFAULT_SITE_ID } from '../types/site';
+
+async function importSpotPrices(file: string, siteId: number) {
+  const prices = parseSpotPriceFile(await readFile(file, 'utf8'));
+  console.log(`Parsed ${prices.length} prices from ${new Date(prices[0].starts_at * 1000).toISOString()} to ${new Date(prices[prices.length - 1].ends_at * 1000).toISOString()}`);
+
+  const prisma = getPrismaClient();
+  try {
+    const site = await prisma.site.findUnique({ where: { id: siteId }, select: { id: true } });
+    if (!site) {
+      throw new Error(`Site ${siteId} not found`);
+    }
+
+    const imported = await createSpotPriceRepository(prisma).upsertSpotPrices(siteId, prices);
+    console.log(`Imported ${imported} prices for site ${siteId}.`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+const [file, siteArg] = process.argv.slice(2);
+const siteId = siteArg === undefined ? DEFAULT_SITE_ID : Number(siteArg);
+
+if (!file || !Number.isInteger(siteId) || siteId <= 0) {
+  console.error('Usage: pnpm tsx scripts/import-spot-prices.ts <file> [siteId]');
+  process.exit(1);
+}
+
+importSpotPrices(file, siteId)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Spot price import failed:', error);
+    process.exit(1);
+  });
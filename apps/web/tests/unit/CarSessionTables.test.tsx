@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { CarSessionMonthTable, CarSessionTable } from '@/components/car-sessions/CarSessionTables';
+import type { CarChargingSession } from '@/types/car';
+
+describe('CarSessionTables', () => {
+  it('should render a row per month with solar share and net and gross cost', () => {
+    render(
+      <CarSessionMonthTable
+        months={[{ month: '2025-10', sessions: 2, energy_kwh: 15, solar_kwh: 9, cost: 2.4, gross_cost: 2.86 }]}
+      />
+    );
+
+    expect(screen.getByText('October 2025')).toBeInTheDocument();
+    expect(screen.getByText('15.00 kWh')).toBeInTheDocument();
+    expect(screen.getByText('60%')).toBeInTheDocument();
+    expect(screen.getByText('€2.40')).toBeInTheDocument();
+    expect(screen.getByText('€2.86')).toBeInTheDocument();
+  });
+
+  it('should render sessions in the site timezone', () => {
+    const session: CarChargingSession = {
+      id: 1,
+      site_id: 1,
+      started_at: 1761953400, // 2025-10-31 23:30 UTC
+      ended_at: 1761958800,
+      energy_kwh: 10,
+      solar_kwh: 0,
+      peak_power: 11000,
+      cost: null,
+      gross_cost: null,
+      updated_at: 0,
+    };
+    render(<CarSessionTable sessions={[session]} timeZone="Europe/Berlin" />);
+
+    expect(screen.getByText(/Nov 1, 2025/)).toBeInTheDocument();
+    expect(screen.getByText('1 h 30 min')).toBeInTheDocument();
+    expect(screen.getByText('11.0 kW')).toBeInTheDocument();
+    expect(screen.getByText('0%')).toBeInTheDocument();
+    expect(screen.getAllByText('–')).toHaveLength(2);
+  });
+
+  it('should show an empty state without sessions', () => {
+    render(<CarSessionTable sessions={[]} timeZone="UTC" />);
+
+    expect(screen.getByText('No charging sessions detected yet.')).toBeInTheDocument();
+  });
+});
@@ -106,5 +106,42 @@ describe('EnergyCard', () => {
 
     expect(screen.getByText('Loading...')).toBeInTheDocument();
   });
+
+  it('should show the gross value and fixed fees in cost mode', () => {
+    const { rerender } = render(
+      <EnergyCard
+        title="Test Card"
+        description="Test description"
+        value={10}
+        displayMode="cost"
+        timeframe="day"
+        loading={false}
+        error={null}
+        color="hsl(var(--chart-1))"
+        grossValue={11.9}
+        fixedFees={0.4}
+      />
+    );
+
+    expect(screen.getByText(/€10\.00/)).toBeInTheDocument();
+    expect(screen.getByText('Gross incl. VAT: +€11.90')).toBeInTheDocument();
+    expect(screen.getByText('Includes €0.40 prorated fixed fees')).toBeInTheDocument();
+
+    rerender(
+      <EnergyCard
+        title="Test Card"
+        description="Test description"
+        value={10}
+        displayMode="kwh"
+        timeframe="day"
+        loading={false}
+        error={null}
+        color="hsl(var(--chart-1))"
+        grossValue={10}
+      />
+    );
+
+    expect(screen.queryByText(/Gross incl\. VAT/)).not.toBeInTheDocument();
+  });
 });
 
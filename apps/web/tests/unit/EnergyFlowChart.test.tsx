@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { EnergyFlowChart } from '@/components/energy-dashboard/EnergyFlowChart';
+import type { EnergyFlowsResponse } from '@/types/energy';
+
+describe('EnergyFlowChart', () => {
+  it('should render title and description', () => {
+    const flows: EnergyFlowsResponse = { flows: [{ source: 'solar', target: 'home', kwh: 5 }] };
+    render(<EnergyFlowChart flows={flows} loading={false} error={null} />);
+
+    expect(screen.getByText('Energy Flows')).toBeInTheDocument();
+    expect(
+      screen.getByText('Energy from solar, battery and grid to home, car, battery and grid (kWh)')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('No data available for the selected timeframe')).not.toBeInTheDocument();
+  });
+
+  it('should show empty state when no energy flowed', () => {
+    const flows: EnergyFlowsResponse = { flows: [{ source: 'solar', target: 'home', kwh: 0 }] };
+    render(<EnergyFlowChart flows={flows} loading={false} error={null} />);
+
+    expect(screen.getByText('No data available for the selected timeframe')).toBeInTheDocument();
+  });
+
+  it('should show loading state', () => {
+    render(<EnergyFlowChart flows={null} loading={true} error={null} />);
+
+    expect(screen.getByText('Loading data...')).toBeInTheDocument();
+  });
+
+  it('should show error message', () => {
+    render(<EnergyFlowChart flows={null} loading={false} error="Failed to fetch energy flows" />);
+
+    expect(screen.getByText('Failed to fetch energy flows')).toBeInTheDocument();
+  });
+});
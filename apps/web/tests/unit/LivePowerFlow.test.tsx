@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { LivePowerFlow, getPowerLines } from '@/components/live-energy/LivePowerFlow';
+import type { EnergyHistoryEntry } from '@/types/energy';
+
+const NOW = 1767225600;
+
+const reading = (values: Partial<EnergyHistoryEntry> = {}): EnergyHistoryEntry => ({
+  timestamp: NOW - 5,
+  home: 800,
+  grid: -1500,
+  car: 0,
+  solar: 3200,
+  battery: 900,
+  battery_soc: 64,
+  ...values,
+});
+
+describe('LivePowerFlow', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getPowerLines', () => {
+    it('should derive the direction of grid and battery from the sign', () => {
+      const lines = getPowerLines(reading({ grid: 400, battery: -250 }));
+
+      expect(lines.find((line) => line.channel === 'grid')).toMatchObject({
+        watts: 400,
+        towardsHome: true,
+        direction: 'Import',
+      });
+      expect(lines.find((line) => line.channel === 'battery')).toMatchObject({
+        watts: 250,
+        towardsHome: true,
+        direction: 'Discharging',
+      });
+    });
+
+    it('should send feed-in and battery charging away from the house', () => {
+      const lines = getPowerLines(reading());
+
+      expect(lines.find((line) => line.channel === 'grid')).toMatchObject({ watts: 1500, towardsHome: false });
+      expect(lines.find((line) => line.channel === 'battery')).toMatchObject({ watts: 900, towardsHome: false });
+    });
+  });
+
+  it('should render the wattage of every node', () => {
+    render(<LivePowerFlow current={reading()} error={null} />);
+
+    expect(screen.getByText('Live Power Flow')).toBeInTheDocument();
+    expect(screen.getByText('3.20 kW')).toBeInTheDocument();
+    expect(screen.getByText('1.50 kW')).toBeInTheDocument();
+    expect(screen.getByText('800 W')).toBeInTheDocument();
+    expect(screen.getByText('900 W')).toBeInTheDocument();
+    expect(screen.getByText('Export')).toBeInTheDocument();
+    expect(screen.getByText('Charging (64%)')).toBeInTheDocument();
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should point lines in the direction of the flow', () => {
+    const { container } = render(<LivePowerFlow current={reading()} error={null} />);
+
+    const direction = (channel: string) =>
+      container.querySelector(`path[data-channel="${channel}"]`)?.getAttribute('data-direction');
+    expect(direction('solar')).toBe('in');
+    expect(direction('grid')).toBe('out');
+    expect(direction('battery')).toBe('out');
+    expect(direction('car')).toBe('idle');
+    expect(container.querySelectorAll('animate')).toHaveLength(3);
+  });
+
+  it('should indicate stale data and stop the animation', () => {
+    const { container } = render(<LivePowerFlow current={reading({ timestamp: NOW - 300 })} error={null} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('No new reading for 5 min');
+    expect(container.querySelectorAll('animate')).toHaveLength(0);
+  });
+
+  it('should honour a custom stale threshold', () => {
+    render(<LivePowerFlow current={reading({ timestamp: NOW - 30 })} error={null} staleAfterSeconds={10} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('No new reading for 30 s');
+  });
+
+  it('should wait for the first reading', () => {
+    render(<LivePowerFlow current={null} error="Connection lost. Reconnecting..." />);
+
+    expect(screen.getByText('Waiting for live data...')).toBeInTheDocument();
+    expect(screen.getByText('Connection lost. Reconnecting...')).toBeInTheDocument();
+  });
+});
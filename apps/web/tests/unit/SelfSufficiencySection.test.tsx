@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SelfSufficiencySection } from '@/components/energy-dashboard/SelfSufficiencySection';
+import type { EnergySummaryResponse } from '@/types/energy';
+
+const total = {
+  demand: 10,
+  gridImport: 2.5,
+  solar: 12,
+  solarDirectUse: 5,
+  solarStored: 4,
+  solarExported: 3,
+  autarky: 0.75,
+  selfConsumption: 0.75,
+};
+
+const mockSummary: EnergySummaryResponse = {
+  data: [{ label: '10:00', timestamp: 1000, ...total }],
+  total,
+};
+
+describe('SelfSufficiencySection', () => {
+  it('should render autarky and self-consumption as percentages', () => {
+    render(<SelfSufficiencySection summary={mockSummary} timeframe="day" loading={false} error={null} />);
+
+    expect(screen.getByText('Autarky')).toBeInTheDocument();
+    expect(screen.getByText('Self-Consumption')).toBeInTheDocument();
+    expect(screen.getAllByText('75%')).toHaveLength(2);
+    expect(screen.getByText('2.50 of 10.00 kWh drawn from the grid')).toBeInTheDocument();
+    expect(screen.getByText('3.00 of 12.00 kWh exported')).toBeInTheDocument();
+    expect(screen.getByText('Solar Use Overview')).toBeInTheDocument();
+  });
+
+  it('should render a dash without demand or production', () => {
+    const summary = { data: [], total: { ...total, autarky: null, selfConsumption: null } };
+    render(<SelfSufficiencySection summary={summary} timeframe="day" loading={false} error={null} />);
+
+    expect(screen.getAllByText('–')).toHaveLength(2);
+    expect(screen.getByText('No data available for the selected timeframe')).toBeInTheDocument();
+  });
+
+  it('should show loading state', () => {
+    render(<SelfSufficiencySection summary={null} timeframe="day" loading={true} error={null} />);
+
+    expect(screen.getAllByText('Loading...')).toHaveLength(2);
+    expect(screen.getByText('Loading data...')).toBeInTheDocument();
+  });
+
+  it('should show errors', () => {
+    render(<SelfSufficiencySection summary={null} timeframe="day" loading={false} error="Failed to fetch energy summary" />);
+
+    expect(screen.getAllByText('Failed to fetch energy summary')).toHaveLength(3);
+  });
+});
@@ -2,11 +2,12 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { NextRequest, NextResponse } from 'next/server';
 import { handleAggregatedEnergyRequest } from '@/lib/api/aggregated-energy-handler';
 import { createServiceContainer } from '@/lib/services/service-container';
-import type { EnergyReading, AggregatedResponse, GridAggregatedResponse } from '@/types/energy';
+import type { EnergyReading, AggregatedResponse, GridAggregatedResponse, BatteryAggregatedResponse } from '@/types/energy';
 
 // Mock the service container
 vi.mock('@/lib/services/service-container');
-vi.mock('@/lib/energy-aggregation', () => ({
+vi.mock('@/lib/energy-aggregation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/energy-aggregation')>()),
   getTimeframeBounds: vi.fn((timeframe: string) => {
     const now = new Date();
     const start = new Date(now);
@@ -20,6 +21,7 @@ vi.mock('@/lib/energy-aggregation', () => ({
 
 describe('handleAggregatedEnergyRequest', () => {
   let mockEnergyService: any;
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
   const mockReadings: EnergyReading[] = [
     {
       id: 1,
@@ -28,6 +30,8 @@ describe('handleAggregatedEnergyRequest', () => {
       grid: 2000,
       car: 500,
       solar: 3000,
+      battery: 0,
+      battery_soc: null,
       created_at: 1704067200,
     },
   ];
@@ -39,8 +43,14 @@ describe('handleAggregatedEnergyRequest', () => {
       aggregateEnergyData: vi.fn(),
       getAggregatedEnergyData: vi.fn(),
     };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
     vi.mocked(createServiceContainer).mockReturnValue({
       energyService: mockEnergyService,
+      siteRepository: mockSiteRepository,
     } as any);
   });
 
@@ -66,7 +76,10 @@ describe('handleAggregatedEnergyRequest', () => {
         expect.any(Number),
         expect.any(Number),
         'day',
-        'grid'
+        'grid',
+        1,
+        'Europe/Berlin',
+        'hour'
       );
     });
 
@@ -87,7 +100,10 @@ describe('handleAggregatedEnergyRequest', () => {
         expect.any(Number),
         expect.any(Number),
         'week',
-        'grid'
+        'grid',
+        1,
+        'Europe/Berlin',
+        'day'
       );
     });
 
@@ -110,7 +126,10 @@ describe('handleAggregatedEnergyRequest', () => {
         start,
         end,
         'day',
-        'grid'
+        'grid',
+        1,
+        'Europe/Berlin',
+        'hour'
       );
     });
   });
@@ -133,7 +152,10 @@ describe('handleAggregatedEnergyRequest', () => {
         expect.any(Number),
         expect.any(Number),
         'day',
-        'car'
+        'car',
+        1,
+        'Europe/Berlin',
+        'hour'
       );
     });
   });
@@ -156,12 +178,219 @@ describe('handleAggregatedEnergyRequest', () => {
         expect.any(Number),
         expect.any(Number),
         'month',
-        'solar'
+        'solar',
+        1,
+        'Europe/Berlin',
+        'day'
+      );
+    });
+  });
+
+  describe('home type', () => {
+    it('should handle home aggregation request', async () => {
+      const mockHomeResponse: AggregatedResponse = {
+        data: [],
+        total: 4500,
+      };
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue(mockHomeResponse);
+
+      const request = createMockRequest('/api/energy/aggregated/home?timeframe=day');
+      const response = await handleAggregatedEnergyRequest(request, 'home');
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual(mockHomeResponse);
+      expect(mockEnergyService.getAggregatedEnergyData).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        'day',
+        'home',
+        1,
+        'Europe/Berlin',
+        'hour'
+      );
+    });
+  });
+
+  describe('battery type', () => {
+    it('should handle battery aggregation request', async () => {
+      const mockBatteryResponse: BatteryAggregatedResponse = {
+        charge: { data: [], total: 1200 },
+        discharge: { data: [], total: 900 },
+      };
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue(mockBatteryResponse);
+
+      const request = createMockRequest('/api/energy/aggregated/battery?timeframe=week');
+      const response = await handleAggregatedEnergyRequest(request, 'battery');
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual(mockBatteryResponse);
+      expect(mockEnergyService.getAggregatedEnergyData).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        'week',
+        'battery',
+        1,
+        'Europe/Berlin',
+        'day'
+      );
+    });
+  });
+
+  describe('site parameter', () => {
+    it('should aggregate data of the requested site', async () => {
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue({ data: [], total: 0 });
+
+      const request = createMockRequest('/api/energy/aggregated/car?timeframe=day&site=2');
+      const response = await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(response.status).toBe(200);
+      expect(mockEnergyService.getAggregatedEnergyData).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        'day',
+        'car',
+        2,
+        'Europe/Berlin',
+        'hour'
+      );
+    });
+
+    it('should return 400 for an invalid site', async () => {
+      const request = createMockRequest('/api/energy/aggregated/car?site=abc');
+      const response = await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data).toEqual({ error: 'Invalid site parameter. Must be a positive integer.' });
+      expect(mockEnergyService.getAggregatedEnergyData).not.toHaveBeenCalled();
+    });
+
+    it('should compute the timeframe bounds in the timezone of the site', async () => {
+      const { getTimeframeBounds } = await import('@/lib/energy-aggregation');
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue({ data: [], total: 0 });
+
+      const request = createMockRequest('/api/energy/aggregated/car?timeframe=yesterday');
+      await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(getTimeframeBounds).toHaveBeenCalledWith('yesterday', 'Europe/Berlin');
+    });
+
+    it('should return 404 for an unknown site', async () => {
+      mockSiteRepository.getSite.mockResolvedValue(null);
+
+      const request = createMockRequest('/api/energy/aggregated/car?site=9');
+      const response = await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(response.status).toBe(404);
+      const data = await response.json();
+      expect(data).toEqual({ error: 'Site 9 not found' });
+      expect(mockEnergyService.getAggregatedEnergyData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('range parameters', () => {
+    it.each([
+      ['start=abc&end=1704153600'],
+      ['start=1704067200&end=1.5e9'],
+      ['start=1704067200.5&end=1704153600'],
+      ['start=-5&end=1704153600'],
+      ['start=1704153600&end=1704067200'],
+      ['start=1704067200&end=1704067200'],
+      ['start=1704067200'],
+      ['end=1704153600'],
+    ])('should return 400 for %s', async (query) => {
+      const request = createMockRequest(`/api/energy/aggregated/grid?${query}`);
+      const response = await handleAggregatedEnergyRequest(request, 'grid');
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data).toEqual({
+        error: 'Invalid start or end parameter. Both must be Unix timestamps in seconds with start before end.',
+      });
+      expect(mockEnergyService.getAggregatedEnergyData).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the timeframe for empty start and end parameters', async () => {
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue({ data: [], total: 0 });
+
+      const request = createMockRequest('/api/energy/aggregated/car?timeframe=week&start=&end=');
+      const response = await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(response.status).toBe(200);
+      expect(mockEnergyService.getAggregatedEnergyData).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        'week',
+        'car',
+        1,
+        'Europe/Berlin',
+        'day'
+      );
+    });
+  });
+
+  describe('granularity parameter', () => {
+    it('should aggregate with the requested granularity', async () => {
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue({ data: [], total: 0 });
+
+      const request = createMockRequest('/api/energy/aggregated/solar?timeframe=day&granularity=15m');
+      const response = await handleAggregatedEnergyRequest(request, 'solar');
+
+      expect(response.status).toBe(200);
+      expect(mockEnergyService.getAggregatedEnergyData).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        'day',
+        'solar',
+        1,
+        'Europe/Berlin',
+        '15m'
+      );
+    });
+
+    it('should return 400 for an unknown granularity', async () => {
+      const request = createMockRequest('/api/energy/aggregated/solar?granularity=2h');
+      const response = await handleAggregatedEnergyRequest(request, 'solar');
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data).toEqual({
+        error: 'Invalid granularity parameter. Must be one of: 1m, 5m, 15m, hour, day, week, month, year.',
+      });
+      expect(mockEnergyService.getAggregatedEnergyData).not.toHaveBeenCalled();
+    });
+
+    it('should reject ranges with too many data points', async () => {
+      const start = 1767225600; // 2026-01-01T00:00:00Z
+      const end = start + 365 * 86400;
+      const request = createMockRequest(
+        `/api/energy/aggregated/grid?start=${start}&end=${end}&granularity=1m`
       );
+      const response = await handleAggregatedEnergyRequest(request, 'grid');
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data).toEqual({
+        error: 'Too many data points (525600) for granularity 1m. Maximum is 5000; use day or coarser.',
+      });
+      expect(mockEnergyService.getAggregatedEnergyData).not.toHaveBeenCalled();
+    });
+
+    it('should allow a full day at 1-minute resolution', async () => {
+      mockEnergyService.getAggregatedEnergyData.mockResolvedValue({ data: [], total: 0 });
+
+      const request = createMockRequest(
+        '/api/energy/aggregated/car?start=1767225600&end=1767312000&granularity=1m'
+      );
+      const response = await handleAggregatedEnergyRequest(request, 'car');
+
+      expect(response.status).toBe(200);
     });
   });
 
-  describe('error handling', () => {
+    describe('error handling', () => {
     it('should return 500 error when service throws an error', async () => {
       mockEnergyService.getAggregatedEnergyData.mockRejectedValue(new Error('Database error'));
 
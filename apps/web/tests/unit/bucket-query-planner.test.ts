@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getCoarsestBucketSource, planBucketQuery } from '@/lib/bucket-query-planner';
+
+describe('getCoarsestBucketSource', () => {
+  it('should use the coarsest source within a data point', () => {
+    expect(getCoarsestBucketSource('1m')).toBe('minutes');
+    expect(getCoarsestBucketSource('15m')).toBe('minutes');
+    expect(getCoarsestBucketSource('hour')).toBe('hours');
+    expect(getCoarsestBucketSource('day')).toBe('days');
+    expect(getCoarsestBucketSource('year')).toBe('days');
+  });
+});
+
+describe('planBucketQuery', () => {
+  const FROM = 1792535415; // 2026-10-20T22:30:15Z
+  const TO = 1792732200; // 2026-10-23T05:10:00Z
+
+  it('should return no segments for an empty range', () => {
+    expect(planBucketQuery(FROM, FROM, 'UTC', 'days')).toEqual([]);
+  });
+
+  it('should read a range within a single minute from readings', () => {
+    expect(planBucketQuery(FROM, FROM + 30, 'UTC', 'days')).toEqual([
+      { source: 'readings', start: FROM, end: FROM + 30 },
+    ]);
+  });
+
+  it('should stitch days, hours, minutes and partial minutes', () => {
+    expect(planBucketQuery(FROM, TO, 'UTC', 'days')).toEqual([
+      { source: 'readings', start: FROM, end: 1792535460 },
+      { source: 'minutes', start: 1792535460, end: 1792537200 },
+      { source: 'hours', start: 1792537200, end: 1792540800 },
+      { source: 'days', start: 1792540800, end: 1792713600 },
+      { source: 'hours', start: 1792713600, end: 1792731600 },
+      { source: 'minutes', start: 1792731600, end: TO },
+    ]);
+  });
+
+  it('should not use sources coarser than allowed', () => {
+    expect(planBucketQuery(FROM, TO, 'UTC', 'hours')).toEqual([
+      { source: 'readings', start: FROM, end: 1792535460 },
+      { source: 'minutes', start: 1792535460, end: 1792537200 },
+      { source: 'hours', start: 1792537200, end: 1792731600 },
+      { source: 'minutes', start: 1792731600, end: TO },
+    ]);
+    expect(planBucketQuery(FROM, TO, 'UTC', 'minutes')).toEqual([
+      { source: 'readings', start: FROM, end: 1792535460 },
+      { source: 'minutes', start: 1792535460, end: TO },
+    ]);
+  });
+
+  it('should read whole local days, including a 25-hour DST day', () => {
+    // 2026-10-24 22:00 to 2026-10-26 02:00 in Berlin; summer time ends on 2026-10-25
+    expect(planBucketQuery(1792872000, 1792976400, 'Europe/Berlin', 'days')).toEqual([
+      { source: 'hours', start: 1792872000, end: 1792879200 },
+      { source: 'days', start: 1792879200, end: 1792969200 },
+      { source: 'hours', start: 1792969200, end: 1792976400 },
+    ]);
+  });
+
+  it('should read local hours of timezones with a fractional offset', () => {
+    // 09:30 to 12:15 in Kolkata (UTC+05:30); local hours start at half past UTC hours
+    expect(planBucketQuery(1792555200, 1792565100, 'Asia/Kolkata', 'hours')).toEqual([
+      { source: 'minutes', start: 1792555200, end: 1792557000 },
+      { source: 'hours', start: 1792557000, end: 1792564200 },
+      { source: 'minutes', start: 1792564200, end: 1792565100 },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleCarSessionsRequest } from '@/lib/api/car-sessions-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { CarChargingSession } from '@/types/car';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('handleCarSessionsRequest', () => {
+  let mockCarSessionRepository: { getSessions: ReturnType<typeof vi.fn> };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+
+  const mockSession: CarChargingSession = {
+    id: 1,
+    site_id: 2,
+    started_at: 1761953400, // 2025-10-31 23:30 UTC
+    ended_at: 1761960600,
+    energy_kwh: 10,
+    solar_kwh: 0,
+    peak_power: 11000,
+    cost: 3,
+    gross_cost: 3.57,
+    updated_at: 1761960660,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCarSessionRepository = {
+      getSessions: vi.fn().mockResolvedValue([mockSession]),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      carSessionRepository: mockCarSessionRepository,
+      siteRepository: mockSiteRepository,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  function createMockRequest(url: string): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'));
+  }
+
+  it('should return the sessions of the site with months of the site timezone', async () => {
+    const request = createMockRequest('/api/car/sessions?site=2');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      sessions: [mockSession],
+      months: [{ month: '2025-11', sessions: 1, energy_kwh: 10, solar_kwh: 0, cost: 3, gross_cost: 3.57 }],
+    });
+    expect(mockCarSessionRepository.getSessions).toHaveBeenCalledWith(2, undefined, undefined);
+  });
+
+  it('should pass the start and end parameters', async () => {
+    const request = createMockRequest('/api/car/sessions?start=1759276800&end=1761955200');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(mockCarSessionRepository.getSessions).toHaveBeenCalledWith(1, 1759276800, 1761955200);
+  });
+
+  it('should return 400 for an invalid range', async () => {
+    const request = createMockRequest('/api/car/sessions?start=yesterday');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(400);
+    expect(mockCarSessionRepository.getSessions).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid site', async () => {
+    const request = createMockRequest('/api/car/sessions?site=abc');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(400);
+    expect(mockCarSessionRepository.getSessions).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown site', async () => {
+    mockSiteRepository.getSite.mockResolvedValue(null);
+
+    const request = createMockRequest('/api/car/sessions?site=9');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Site 9 not found' });
+  });
+
+  it('should return 500 when the sessions fail', async () => {
+    mockCarSessionRepository.getSessions.mockRejectedValue(new Error('Database error'));
+
+    const request = createMockRequest('/api/car/sessions');
+    const response = await handleCarSessionsRequest(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to fetch car charging sessions' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeSessionsByMonth } from '@/lib/car-sessions';
+import type { CarChargingSession } from '@/types/car';
+
+function session(id: number, startedAt: number, energyKwh: number, solarKwh: number, cost: number | null): CarChargingSession {
+  return {
+    id,
+    site_id: 1,
+    started_at: startedAt,
+    ended_at: startedAt + 3600,
+    energy_kwh: energyKwh,
+    solar_kwh: solarKwh,
+    peak_power: 11000,
+    cost,
+    gross_cost: cost !== null ? cost * 1.2 : null,
+    updated_at: 0,
+  };
+}
+
+describe('car-sessions', () => {
+  describe('summarizeSessionsByMonth', () => {
+    it('should sum the sessions of each month, newest month first', () => {
+      const months = summarizeSessionsByMonth(
+        [
+          session(1, 1759312800, 10, 4, 2), // 2025-10-01 10:00 UTC
+          session(2, 1761991200, 20, 5, 4.5), // 2025-11-01 10:00 UTC
+          session(3, 1759917600, 5, 5, 0.4), // 2025-10-08 10:00 UTC
+        ],
+        'UTC'
+      );
+
+      expect(months).toHaveLength(2);
+      expect(months[0]).toEqual({
+        month: '2025-11',
+        sessions: 1,
+        energy_kwh: 20,
+        solar_kwh: 5,
+        cost: 4.5,
+        gross_cost: expect.closeTo(5.4),
+      });
+      expect(months[1].month).toBe('2025-10');
+      expect(months[1].sessions).toBe(2);
+      expect(months[1].energy_kwh).toBeCloseTo(15);
+      expect(months[1].solar_kwh).toBeCloseTo(9);
+      expect(months[1].cost).toBeCloseTo(2.4);
+      expect(months[1].gross_cost).toBeCloseTo(2.88);
+    });
+
+    it('should assign sessions to the month of the site timezone', () => {
+      // 2025-10-31 23:30 UTC is already November in Berlin
+      const months = summarizeSessionsByMonth([session(1, 1761953400, 10, 0, 3)], 'Europe/Berlin');
+
+      expect(months.map((month) => month.month)).toEqual(['2025-11']);
+    });
+
+    it('should only sum the cost of sessions with a cost', () => {
+      const months = summarizeSessionsByMonth(
+        [session(1, 1759312800, 10, 0, null), session(2, 1759917600, 10, 0, 3)],
+        'UTC'
+      );
+
+      expect(months[0].sessions).toBe(2);
+      expect(months[0].cost).toBe(3);
+      expect(months[0].gross_cost).toBeCloseTo(3.6);
+    });
+
+    it('should return no months without sessions', () => {
+      expect(summarizeSessionsByMonth([], 'UTC')).toEqual([]);
+    });
+  });
+});
@@ -1,9 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   getTimeframeBounds,
   aggregateByHour,
   aggregateByDay,
+  aggregateByGranularity,
   calculateTotalEnergy,
+  getFinestGranularity,
+  getGranularityStart,
+  integrateIntoPoints,
+  integratePositivePart,
 } from '@/lib/energy-aggregation';
 
 describe('getTimeframeBounds', () => {
@@ -337,3 +342,230 @@ describe('calculateTotalEnergy', () => {
   });
 });
 
+
+describe('timezone-aware aggregation', () => {
+  interface TestReading {
+    timestamp: number;
+    value: number;
+  }
+
+  // Europe/Berlin switches to summer time on 2026-03-29 and back on 2026-10-25
+  const MARCH_29_BERLIN = 1774738800; // 2026-03-28T23:00:00Z
+  const MARCH_30_BERLIN = 1774821600; // 2026-03-29T22:00:00Z
+  const OCTOBER_25_BERLIN = 1792879200; // 2026-10-24T22:00:00Z
+  const OCTOBER_26_BERLIN = 1792969200; // 2026-10-25T23:00:00Z
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start "day" at local midnight of the timezone', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-29T12:00:00Z'));
+
+    expect(getTimeframeBounds('day', 'Europe/Berlin').start).toBe(MARCH_29_BERLIN);
+    expect(getTimeframeBounds('day', 'UTC').start).toBe(1774742400); // 2026-03-29T00:00:00Z
+  });
+
+  it('should span 23 hours for "yesterday" after the switch to summer time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-30T12:00:00Z'));
+
+    const bounds = getTimeframeBounds('yesterday', 'Europe/Berlin');
+
+    expect(bounds).toEqual({ start: MARCH_29_BERLIN, end: MARCH_30_BERLIN });
+    expect(bounds.end - bounds.start).toBe(23 * 3600);
+  });
+
+  it('should span 25 hours for "yesterday" after the switch to winter time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-26T12:00:00Z'));
+
+    const bounds = getTimeframeBounds('yesterday', 'Europe/Berlin');
+
+    expect(bounds).toEqual({ start: OCTOBER_25_BERLIN, end: OCTOBER_26_BERLIN });
+    expect(bounds.end - bounds.start).toBe(25 * 3600);
+  });
+
+  it('should start "month" on the local first of the month', () => {
+    vi.useFakeTimers();
+    // Still September 30 in UTC, already October 1 in Berlin
+    vi.setSystemTime(new Date('2026-09-30T23:30:00Z'));
+
+    expect(getTimeframeBounds('month', 'Europe/Berlin').start).toBe(1790805600); // 2026-09-30T22:00:00Z
+    expect(getTimeframeBounds('month', 'UTC').start).toBe(1788220800); // 2026-09-01T00:00:00Z
+  });
+
+  it('should label the repeated hour twice when summer time ends', () => {
+    // 00:00-02:00 UTC covers 02:00-03:00 CEST and 02:00-03:00 CET
+    const readings: TestReading[] = [];
+    for (let t = 1792886400; t < 1792893600; t += 600) {
+      readings.push({ timestamp: t, value: 1000 });
+    }
+
+    const result = aggregateByHour(readings, (r) => r.value, undefined, 'Europe/Berlin');
+
+    expect(result.map((point) => point.label)).toEqual(['02:00', '02:00']);
+    expect(result.map((point) => point.timestamp)).toEqual([1792886400, 1792890000]);
+  });
+
+  it('should group hours of timezones with a fractional offset', () => {
+    // Asia/Kolkata is UTC+05:30, so local hours start at half past the UTC hour
+    const readings: TestReading[] = [
+      { timestamp: 1767227400, value: 1000 }, // 2026-01-01T00:30:00Z = 06:00 local
+      { timestamp: 1767229200, value: 1000 }, // 2026-01-01T01:00:00Z = 06:30 local
+    ];
+
+    const result = aggregateByHour(readings, (r) => r.value, undefined, 'Asia/Kolkata');
+
+    expect(result).toEqual([{ label: '06:00', kwh: 0.5, timestamp: 1767227400 }]);
+  });
+
+  it('should assign readings to local days', () => {
+    const readings: TestReading[] = [
+      { timestamp: MARCH_29_BERLIN + 1800, value: 1000 }, // 00:30 local, still March 28 in UTC
+      { timestamp: MARCH_29_BERLIN + 2400, value: 1000 },
+      { timestamp: MARCH_30_BERLIN + 1800, value: 1000 },
+      { timestamp: MARCH_30_BERLIN + 2400, value: 1000 },
+    ];
+
+    const berlin = aggregateByDay(readings, (r) => r.value, undefined, 'Europe/Berlin');
+    const utc = aggregateByDay(readings, (r) => r.value, undefined, 'UTC');
+
+    expect(berlin.map((point) => [point.label, point.timestamp])).toEqual([
+      ['Mar 29', MARCH_29_BERLIN],
+      ['Mar 30', MARCH_30_BERLIN],
+    ]);
+    expect(utc.map((point) => point.label)).toEqual(['Mar 28', 'Mar 29']);
+  });
+});
+
+describe('aggregateByGranularity', () => {
+  interface TestReading {
+    timestamp: number;
+    value: number;
+  }
+
+  // 2026-10-21T10:00:00Z, a Wednesday
+  const WEDNESDAY = 1792576800;
+
+  it('should aggregate readings into 5-minute points', () => {
+    const readings: TestReading[] = [];
+    for (let t = WEDNESDAY; t < WEDNESDAY + 900; t += 60) {
+      readings.push({ timestamp: t, value: 1200 });
+    }
+
+    const result = aggregateByGranularity(readings, (r) => r.value, undefined, '5m', 'Europe/Berlin');
+
+    expect(result.map((point) => point.label)).toEqual(['12:00', '12:05', '12:10']);
+    // 5 minutes of 1.2 kW, including the segment into the next point; the last point ends with the last reading
+    expect(result[0].kwh).toBeCloseTo(0.1, 6);
+    expect(result[2].kwh).toBeCloseTo(0.08, 6);
+  });
+
+  it('should split segments at data point boundaries with the interpolated power', () => {
+    const readings: TestReading[] = [
+      { timestamp: WEDNESDAY + 3000, value: 1000 }, // 12:50 in Berlin
+      { timestamp: WEDNESDAY + 4200, value: 3000 }, // 13:10
+    ];
+
+    const result = aggregateByGranularity(readings, (r) => r.value, undefined, 'hour', 'Europe/Berlin');
+
+    // 10 minutes ramping from 1 to 2 kW, then 10 minutes from 2 to 3 kW
+    expect(result.map((point) => point.label)).toEqual(['12:00', '13:00']);
+    expect(result[0].kwh).toBeCloseTo(0.25, 6);
+    expect(result[1].kwh).toBeCloseTo(2.5 / 6, 6);
+  });
+
+  it('should start weeks on local Monday', () => {
+    expect(getGranularityStart(WEDNESDAY, 'week', 'Europe/Berlin')).toBe(1792360800); // 2026-10-18T22:00:00Z
+  });
+
+  it('should aggregate readings into local months and years', () => {
+    const readings: TestReading[] = [
+      { timestamp: 1790805600, value: 1000 }, // 2026-10-01 00:00 in Berlin
+      { timestamp: 1790809200, value: 1000 },
+      { timestamp: 1798758000, value: 1000 }, // 2027-01-01 00:00 in Berlin
+      { timestamp: 1798761600, value: 1000 },
+    ];
+
+    const months = aggregateByGranularity(readings, (r) => r.value, undefined, 'month', 'Europe/Berlin');
+    const years = aggregateByGranularity(readings, (r) => r.value, undefined, 'year', 'Europe/Berlin');
+
+    // The gap between the two pairs of readings is bridged, so the months in between receive energy as well
+    expect(months.map((point) => [point.label, point.timestamp])).toEqual([
+      ['Oct 2026', 1790805600],
+      ['Nov 2026', 1793487600],
+      ['Dec 2026', 1796079600],
+      ['Jan 2027', 1798758000],
+    ]);
+    expect(years.map((point) => point.label)).toEqual(['2026', '2027']);
+    expect(years[1].kwh).toBeCloseTo(1, 6);
+  });
+
+  it('should find the finest granularity within the point limit', () => {
+    expect(getFinestGranularity(0, 86400)).toBe('1m');
+    expect(getFinestGranularity(0, 30 * 86400)).toBe('15m');
+    expect(getFinestGranularity(0, 365 * 86400)).toBe('day');
+  });
+});
+
+describe('integratePositivePart', () => {
+  it('should integrate spans without a sign change with the trapezoidal rule', () => {
+    expect(integratePositivePart(1000, 3000, 60)).toBe(120000);
+    expect(integratePositivePart(-1000, -3000, 60)).toBe(0);
+    expect(integratePositivePart(0, 1000, 60)).toBe(30000);
+  });
+
+  it('should interpolate the zero crossing', () => {
+    // +1000 W to -1000 W crosses zero after 30 s
+    expect(integratePositivePart(1000, -1000, 60)).toBe(15000);
+    expect(integratePositivePart(-1000, 1000, 60)).toBe(15000);
+    // +1000 W to -3000 W crosses zero after 15 s
+    expect(integratePositivePart(1000, -3000, 60)).toBe(7500);
+    expect(integratePositivePart(-1000, 3000, 60)).toBe(67500);
+  });
+});
+
+describe('integrateIntoPoints', () => {
+  // 2026-10-21T10:00:00Z
+  const START = 1792576800;
+
+  it('should split signed power into positive and negative parts at the zero crossing', () => {
+    // Sign change within a minute: 1 kW import at :00, 3 kW feed-in at :60
+    const readings = [
+      { timestamp: START, grid: 1000 },
+      { timestamp: START + 60, grid: -3000 },
+    ];
+    const net = new Map<number, number>();
+    const positive = new Map<number, number>();
+    const negative = new Map<number, number>();
+
+    integrateIntoPoints(readings, (r) => r.grid, '1m', 'UTC', net);
+    integrateIntoPoints(readings, (r) => r.grid, '1m', 'UTC', positive, { sign: 'positive' });
+    integrateIntoPoints(readings, (r) => r.grid, '1m', 'UTC', negative, { sign: 'negative' });
+
+    expect(positive.get(START)).toBeCloseTo(7500 / 3600 / 1000, 12);
+    expect(negative.get(START)).toBeCloseTo(67500 / 3600 / 1000, 12);
+    expect(positive.get(START)! - negative.get(START)!).toBeCloseTo(net.get(START)!, 12);
+  });
+
+  it('should split the parts at data point boundaries', () => {
+    // Zero crossing at :45, in the second minute
+    const readings = [
+      { timestamp: START + 30, grid: 3000 },
+      { timestamp: START + 90, grid: -1000 },
+    ];
+    const positive = new Map<number, number>();
+    const negative = new Map<number, number>();
+
+    integrateIntoPoints(readings, (r) => r.grid, '1m', 'UTC', positive, { sign: 'positive' });
+    integrateIntoPoints(readings, (r) => r.grid, '1m', 'UTC', negative, { sign: 'negative' });
+
+    // 3000 W to 1000 W in the first minute, 1000 W to 0 W and 0 W to -1000 W (15 s each) in the second
+    expect(positive.get(START)).toBeCloseTo(60000 / 3600 / 1000, 12);
+    expect(positive.get(START + 60)).toBeCloseTo(7500 / 3600 / 1000, 12);
+    expect(negative.get(START)).toBe(0);
+    expect(negative.get(START + 60)).toBeCloseTo(7500 / 3600 / 1000, 12);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleEnergyCostsRequest } from '@/lib/api/energy-costs-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { CostSeries, EnergyCostsResponse } from '@/types/energy';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('handleEnergyCostsRequest', () => {
+  let mockEnergyService: { getEnergyCosts: ReturnType<typeof vi.fn> };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+
+  const series: CostSeries = {
+    data: [{ label: '10:00', kwh: 2, timestamp: 1767261600, cost: 0.5 }],
+    total: 2,
+    cost: 0.5,
+    gross: 0.595,
+  };
+  const mockCosts: EnergyCostsResponse = {
+    consumption: series,
+    feedIn: series,
+    car: series,
+    solar: series,
+    batteryCharge: series,
+    batteryDischarge: series,
+    home: series,
+    fixedFees: { cost: 0.4, gross: 0.476 },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnergyService = {
+      getEnergyCosts: vi.fn().mockResolvedValue(mockCosts),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      energyService: mockEnergyService,
+      siteRepository: mockSiteRepository,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  function createMockRequest(url: string): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'));
+  }
+
+  it('should return the costs of the requested range and site', async () => {
+    const request = createMockRequest('/api/energy/costs?start=1767225600&end=1767312000&site=2');
+    const response = await handleEnergyCostsRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(mockCosts);
+    expect(mockEnergyService.getEnergyCosts).toHaveBeenCalledWith(
+      1767225600,
+      1767312000,
+      'day',
+      2,
+      'Europe/Berlin',
+      'hour'
+    );
+  });
+
+  it('should return 404 for an unknown site', async () => {
+    mockSiteRepository.getSite.mockResolvedValue(null);
+
+    const request = createMockRequest('/api/energy/costs?site=9');
+    const response = await handleEnergyCostsRequest(request);
+
+    expect(response.status).toBe(404);
+    expect(mockEnergyService.getEnergyCosts).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the calculation fails', async () => {
+    mockEnergyService.getEnergyCosts.mockRejectedValue(new Error('Database error'));
+
+    const request = createMockRequest('/api/energy/costs');
+    const response = await handleEnergyCostsRequest(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to calculate energy costs' });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { EnergyDashboard } from '@/components/energy-dashboard';
 
 // Mock the hooks
@@ -7,25 +7,32 @@ vi.mock('@/hooks/useEnergyData', () => ({
   useEnergyData: vi.fn(),
 }));
 
-vi.mock('@/hooks/useEnergySettings', () => ({
-  useEnergySettings: vi.fn(),
-}));
-
 vi.mock('@/hooks/useEnergyCostCalculations', () => ({
   useEnergyCostCalculations: vi.fn(),
 }));
 
-// Mock the energy service
-vi.mock('@/lib/services/energy-service', () => ({
-  createClientEnergyService: vi.fn(() => ({
-    calculateConsumptionCost: vi.fn((kwh: number) => kwh * 0.2),
-    calculateFeedInCost: vi.fn((kwh: number) => kwh * 0.1),
-  })),
+vi.mock('@/hooks/useEnergySummary', () => ({
+  useEnergySummary: vi.fn(),
+}));
+
+vi.mock('@/hooks/useEnergyFlows', () => ({
+  useEnergyFlows: vi.fn(),
+}));
+
+vi.mock('@/hooks/useEnergyCosts', () => ({
+  useEnergyCosts: vi.fn(),
+}));
+
+vi.mock('@/hooks/useSites', () => ({
+  useSites: vi.fn(),
 }));
 
 import { useEnergyData } from '@/hooks/useEnergyData';
-import { useEnergySettings } from '@/hooks/useEnergySettings';
 import { useEnergyCostCalculations } from '@/hooks/useEnergyCostCalculations';
+import { useEnergySummary } from '@/hooks/useEnergySummary';
+import { useEnergyFlows } from '@/hooks/useEnergyFlows';
+import { useEnergyCosts } from '@/hooks/useEnergyCosts';
+import { useSites } from '@/hooks/useSites';
 
 describe('EnergyDashboard', () => {
   beforeEach(() => {
@@ -57,10 +64,46 @@ describe('EnergyDashboard', () => {
         loading: false,
         error: null,
       },
+      batteryCharge: {
+        data: [{ label: '10:00', kwh: 0.8, timestamp: 1000 }],
+        total: 0.8,
+        loading: false,
+        error: null,
+      },
+      batteryDischarge: {
+        data: [{ label: '10:00', kwh: 0.6, timestamp: 1000 }],
+        total: 0.6,
+        loading: false,
+        error: null,
+      },
+      home: {
+        data: [{ label: '10:00', kwh: 7.1, timestamp: 1000 }],
+        total: 7.1,
+        loading: false,
+        error: null,
+      },
     });
 
-    (useEnergySettings as any).mockReturnValue({
-      settings: null,
+    vi.mocked(useEnergySummary).mockReturnValue({
+      summary: null,
+      loading: true,
+      error: null,
+    });
+
+    vi.mocked(useEnergyFlows).mockReturnValue({
+      flows: null,
+      loading: true,
+      error: null,
+    });
+
+    vi.mocked(useEnergyCosts).mockReturnValue({
+      costs: null,
+      loading: false,
+      error: null,
+    });
+
+    vi.mocked(useSites).mockReturnValue({
+      sites: [{ id: 1, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] }],
       loading: false,
       error: null,
     });
@@ -75,6 +118,12 @@ describe('EnergyDashboard', () => {
       carTotalValue: 1.2,
       solarChartData: [{ label: '10:00', kwh: 3.4, timestamp: 1000, value: 3.4 }],
       solarTotalValue: 3.4,
+      batteryChargeChartData: [{ label: '10:00', kwh: 0.8, timestamp: 1000, value: 0.8 }],
+      batteryChargeTotalValue: 0.8,
+      batteryDischargeChartData: [{ label: '10:00', kwh: 0.6, timestamp: 1000, value: 0.6 }],
+      batteryDischargeTotalValue: 0.6,
+      homeChartData: [{ label: '10:00', kwh: 7.1, timestamp: 1000, value: 7.1 }],
+      homeTotalValue: 7.1,
     });
   });
 
@@ -86,6 +135,9 @@ describe('EnergyDashboard', () => {
       expect(screen.getByText('Grid Energy Feed-In')).toBeInTheDocument();
       expect(screen.getByText('Car Energy Consumption')).toBeInTheDocument();
       expect(screen.getByText('Solar Energy Production')).toBeInTheDocument();
+      expect(screen.getByText('Battery Charge')).toBeInTheDocument();
+      expect(screen.getByText('Battery Discharge')).toBeInTheDocument();
+      expect(screen.getByText('Home Energy Consumption')).toBeInTheDocument();
     });
   });
 
@@ -94,6 +146,11 @@ describe('EnergyDashboard', () => {
 
     await waitFor(() => {
       expect(screen.getByText('Grid Energy Consumption Overview')).toBeInTheDocument();
+      expect(screen.getByText('Battery Charge Overview')).toBeInTheDocument();
+      expect(screen.getByText('Battery Discharge Overview')).toBeInTheDocument();
+      expect(screen.getByText('Home Energy Consumption Overview')).toBeInTheDocument();
+      expect(screen.getByText('Solar Use Overview')).toBeInTheDocument();
+      expect(screen.getByText('Energy Flows')).toBeInTheDocument();
     });
   });
 
@@ -106,6 +163,36 @@ describe('EnergyDashboard', () => {
     });
   });
 
+  it('should not render a site switcher for a single site', async () => {
+    render(<EnergyDashboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Current Day')).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('navigation', { name: 'Sites' })).not.toBeInTheDocument();
+  });
+
+  it('should render a site switcher and load data of the selected site', async () => {
+    vi.mocked(useSites).mockReturnValue({
+      sites: [
+        { id: 1, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] },
+        { id: 2, name: 'Holiday Flat', created_at: 0, timezone: 'Europe/Lisbon', meters: [] },
+      ],
+      loading: false,
+      error: null,
+    });
+
+    render(<EnergyDashboard siteId={2} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: 'Holiday Flat' })).toHaveAttribute('aria-current', 'page');
+    });
+    expect(screen.getByRole('link', { name: 'Home' })).toHaveAttribute('href', '/?site=1');
+    expect(useEnergyData).toHaveBeenCalledWith('day', 2);
+    expect(useEnergyCosts).toHaveBeenCalledWith('day', 2, false);
+    expect(useEnergySummary).toHaveBeenCalledWith('day', 2);
+  });
+
   it('should display values in kWh mode', async () => {
     render(<EnergyDashboard />);
 
@@ -124,7 +211,7 @@ describe('EnergyDashboard', () => {
 
     // Verify the hook was called with the correct parameters
     const callArgs = (useEnergyCostCalculations as any).mock.calls[0];
-    expect(callArgs).toHaveLength(7);
+    expect(callArgs).toHaveLength(9);
     expect(callArgs[0]).toEqual({
       data: [{ label: '10:00', kwh: 5.5, timestamp: 1000 }],
       total: 5.5,
@@ -150,8 +237,72 @@ describe('EnergyDashboard', () => {
       error: null,
     }); // solar
     expect(callArgs[4]).toBe('kwh'); // displayMode
-    expect(callArgs[5]).toBe(null); // settings
-    expect(callArgs[6]).toBeDefined(); // energyService
+    expect(callArgs[5]).toBeNull(); // server-side costs
+    expect(callArgs[6]).toEqual({
+      data: [{ label: '10:00', kwh: 0.8, timestamp: 1000 }],
+      total: 0.8,
+      loading: false,
+      error: null,
+    }); // batteryCharge
+    expect(callArgs[7]).toEqual({
+      data: [{ label: '10:00', kwh: 0.6, timestamp: 1000 }],
+      total: 0.6,
+      loading: false,
+      error: null,
+    }); // batteryDischarge
+    expect(callArgs[8]).toEqual({
+      data: [{ label: '10:00', kwh: 7.1, timestamp: 1000 }],
+      total: 7.1,
+      loading: false,
+      error: null,
+    }); // home
   });
-});
 
+  it('should fetch server-side costs in cost mode', async () => {
+    render(<EnergyDashboard />);
+
+    await waitFor(() => {
+      expect(useEnergyCosts).toHaveBeenCalledWith('day', 1, false);
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: '€' }));
+
+    await waitFor(() => {
+      expect(useEnergyCosts).toHaveBeenLastCalledWith('day', 1, true);
+    });
+  });
+
+  it('should show cards and charts as loading until the server-side costs are available', async () => {
+    vi.mocked(useEnergySummary).mockReturnValue({ summary: null, loading: false, error: null });
+    vi.mocked(useEnergyFlows).mockReturnValue({ flows: null, loading: false, error: null });
+    render(<EnergyDashboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/5\.50 kWh/)).toBeInTheDocument();
+    });
+    const loadingInKwhMode = screen.queryAllByText('Loading...').length;
+
+    fireEvent.click(screen.getByRole('button', { name: '€' }));
+
+    await waitFor(() => {
+      // 7 cards and 4 charts wait for the costs
+      expect(screen.queryAllByText('Loading...').length).toBeGreaterThanOrEqual(loadingInKwhMode + 7);
+    });
+  });
+
+  it('should show the error of the server-side costs in cost mode', async () => {
+    vi.mocked(useEnergyCosts).mockReturnValue({ costs: null, loading: false, error: 'Failed to fetch energy costs' });
+    render(<EnergyDashboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/5\.50 kWh/)).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Failed to fetch energy costs')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '€' }));
+
+    await waitFor(() => {
+      expect(screen.getAllByText('Failed to fetch energy costs').length).toBeGreaterThanOrEqual(7);
+    });
+  });
+});
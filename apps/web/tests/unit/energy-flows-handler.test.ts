@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleEnergyFlowsRequest } from '@/lib/api/energy-flows-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { EnergyFlowsResponse } from '@/types/energy';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('handleEnergyFlowsRequest', () => {
+  let mockEnergyService: { getEnergyFlows: ReturnType<typeof vi.fn> };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+
+  const mockFlows: EnergyFlowsResponse = {
+    flows: [
+      { source: 'solar', target: 'home', kwh: 5 },
+      { source: 'grid', target: 'battery', kwh: 1.5 },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnergyService = {
+      getEnergyFlows: vi.fn().mockResolvedValue(mockFlows),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      energyService: mockEnergyService,
+      siteRepository: mockSiteRepository,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  function createMockRequest(url: string): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'));
+  }
+
+  it('should return the flows of the requested range and site', async () => {
+    const request = createMockRequest('/api/energy/flows?start=1767225600&end=1767312000&site=2');
+    const response = await handleEnergyFlowsRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(mockFlows);
+    expect(mockEnergyService.getEnergyFlows).toHaveBeenCalledWith(1767225600, 1767312000, 2);
+  });
+
+  it('should not limit the number of minutes in the range', async () => {
+    const request = createMockRequest('/api/energy/flows?timeframe=month');
+    const response = await handleEnergyFlowsRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(mockEnergyService.getEnergyFlows).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), 1);
+  });
+
+  it('should return 400 for an invalid site', async () => {
+    const request = createMockRequest('/api/energy/flows?site=abc');
+    const response = await handleEnergyFlowsRequest(request);
+
+    expect(response.status).toBe(400);
+    expect(mockEnergyService.getEnergyFlows).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown site', async () => {
+    mockSiteRepository.getSite.mockResolvedValue(null);
+
+    const request = createMockRequest('/api/energy/flows?site=9');
+    const response = await handleEnergyFlowsRequest(request);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Site 9 not found' });
+  });
+
+  it('should return 500 when the flows fail', async () => {
+    mockEnergyService.getEnergyFlows.mockRejectedValue(new Error('Database error'));
+
+    const request = createMockRequest('/api/energy/flows');
+    const response = await handleEnergyFlowsRequest(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to calculate energy flows' });
+  });
+});
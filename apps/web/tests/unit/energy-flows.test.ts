@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { allocateEnergyFlows, sumEnergyFlows, ENERGY_FLOWS } from '@/lib/energy-flows';
+import { emptyChannelEnergy, type ChannelEnergy } from '@/lib/energy-summary';
+import type { EnergyFlow } from '@/types/energy';
+
+const energy = (values: Partial<ChannelEnergy>): ChannelEnergy => ({ ...emptyChannelEnergy(), ...values });
+
+const flowsOf = (flows: EnergyFlow[]) =>
+  Object.fromEntries(flows.filter((flow) => flow.kwh !== 0).map((flow) => [`${flow.source}:${flow.target}`, flow.kwh]));
+
+describe('energy-flows', () => {
+  describe('allocateEnergyFlows', () => {
+    it('should return every flow in a fixed order', () => {
+      const flows = allocateEnergyFlows(emptyChannelEnergy());
+
+      expect(flows.map((flow) => [flow.source, flow.target])).toEqual(ENERGY_FLOWS);
+      expect(flows.every((flow) => flow.kwh === 0)).toBe(true);
+    });
+
+    it('should supply demand from solar first, then charge the battery and export the rest', () => {
+      const flows = allocateEnergyFlows(energy({ home: 3, car: 1, solar: 10, batteryCharge: 2, gridExport: 4 }));
+
+      expect(flowsOf(flows)).toEqual({
+        'solar:home': 3,
+        'solar:car': 1,
+        'solar:battery': 2,
+        'solar:grid': 4,
+      });
+    });
+
+    it('should share each source between home and car in proportion to their demand', () => {
+      const flows = allocateEnergyFlows(energy({ home: 3, car: 1, solar: 2, batteryDischarge: 1, gridImport: 1 }));
+
+      expect(flowsOf(flows)).toEqual({
+        'solar:home': 1.5,
+        'solar:car': 0.5,
+        'battery:home': 0.75,
+        'battery:car': 0.25,
+        'grid:home': 0.75,
+        'grid:car': 0.25,
+      });
+    });
+
+    it('should attribute battery charging beyond the solar surplus to the grid', () => {
+      const flows = allocateEnergyFlows(energy({ home: 1, solar: 2, gridImport: 4, batteryCharge: 5 }));
+
+      expect(flowsOf(flows)).toEqual({
+        'solar:home': 1,
+        'solar:battery': 1,
+        'grid:battery': 4,
+      });
+    });
+
+    it('should export battery discharge beyond demand', () => {
+      const flows = allocateEnergyFlows(energy({ home: 1, batteryDischarge: 3, gridExport: 2 }));
+
+      expect(flowsOf(flows)).toEqual({ 'battery:home': 1, 'battery:grid': 2 });
+    });
+
+    it('should not allocate energy that no target takes', () => {
+      const flows = allocateEnergyFlows(energy({ home: 1, solar: 3, gridImport: 1 }));
+
+      expect(flowsOf(flows)).toEqual({ 'solar:home': 1 });
+    });
+  });
+
+  describe('sumEnergyFlows', () => {
+    it('should allocate each period separately', () => {
+      // Over both minutes the grid balances out, but energy was exported in one and imported in the other
+      const flows = sumEnergyFlows([
+        energy({ home: 1, solar: 2, gridExport: 1 }),
+        energy({ home: 1, gridImport: 1 }),
+      ]);
+
+      expect(flowsOf(flows)).toEqual({ 'solar:home': 1, 'solar:grid': 1, 'grid:home': 1 });
+    });
+
+    it('should return zero flows without periods', () => {
+      expect(sumEnergyFlows([]).every((flow) => flow.kwh === 0)).toBe(true);
+    });
+  });
+});
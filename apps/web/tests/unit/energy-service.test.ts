@@ -1,6 +1,18 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EnergyService, createEnergyService } from '@/lib/services/energy-service';
-import type { EnergyReading, EnergySettings } from '@/types/energy';
+import type { EnergyRepository } from '@/lib/repositories/energy-repository';
+import type { EnergyBucketRepository } from '@/lib/repositories/energy-bucket-repository';
+import type { SpotPriceRepository } from '@/lib/repositories/spot-price-repository';
+import { startOfLocalDay, startOfLocalHour } from '@/lib/timezone';
+import type {
+  AggregatedResponse,
+  BatteryAggregatedResponse,
+  EnergyBucket,
+  EnergyReading,
+  EnergySettings,
+  GridAggregatedResponse,
+  TariffCandidate,
+} from '@/types/energy';
 
 describe('EnergyService', () => {
   let service: EnergyService;
@@ -10,170 +22,6 @@ describe('EnergyService', () => {
     service = createEnergyService();
   });
 
-  describe('calculateConsumptionCost', () => {
-    const mockSettings: EnergySettings = {
-      id: 1,
-      producing_price: 0.12,
-      start_date: 1000000,
-      end_date: null,
-      updated_at: 1000000,
-      consuming_periods: [
-        {
-          id: 1,
-          energy_settings_id: 1,
-          start_time: 0, // 00:00
-          end_time: 480, // 08:00
-          price: 0.20,
-        },
-        {
-          id: 2,
-          energy_settings_id: 1,
-          start_time: 480, // 08:00
-          end_time: 1440, // 24:00
-          price: 0.30,
-        },
-      ],
-    };
-
-    it('should return 0 for zero or negative kWh', () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      expect(service.calculateConsumptionCost(0, timestamp, mockSettings)).toBe(0);
-      expect(service.calculateConsumptionCost(-5, timestamp, mockSettings)).toBe(0);
-    });
-
-    it('should return 0 when no settings provided', () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      expect(service.calculateConsumptionCost(10, timestamp, null)).toBe(0);
-    });
-
-    it('should calculate cost based on time of day period', () => {
-      // 14:30 = 870 minutes (should match second period: 08:00-24:00)
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      const kwh = 10;
-      const result = service.calculateConsumptionCost(kwh, timestamp, mockSettings);
-
-      expect(result).toBe(3.0); // 10 kWh * 0.30 €/kWh
-    });
-
-    it('should handle wrap-around periods', () => {
-      const wrapAroundSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [
-          {
-            id: 1,
-            energy_settings_id: 1,
-            start_time: 1320, // 22:00
-            end_time: 360, // 06:00 (next day)
-            price: 0.15,
-          },
-          {
-            id: 2,
-            energy_settings_id: 1,
-            start_time: 360, // 06:00
-            end_time: 1320, // 22:00
-            price: 0.25,
-          },
-        ],
-      };
-
-      // 02:00 = 120 minutes (should match wrap-around period: 22:00-06:00)
-      const timestamp = Math.floor(new Date('2024-01-01T02:00:00Z').getTime() / 1000);
-      const kwh = 10;
-      const result = service.calculateConsumptionCost(kwh, timestamp, wrapAroundSettings);
-
-      expect(result).toBe(1.5); // 10 kWh * 0.15 €/kWh
-    });
-
-    it('should use fallback price when no period matches', () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      const settingsWithSinglePeriod: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [
-          {
-            id: 1,
-            energy_settings_id: 1,
-            start_time: 0,
-            end_time: 480,
-            price: 0.20,
-          },
-        ],
-      };
-
-      const kwh = 10;
-      const result = service.calculateConsumptionCost(kwh, timestamp, settingsWithSinglePeriod);
-
-      expect(result).toBe(2.0); // 10 kWh * 0.20 €/kWh (fallback)
-    });
-
-    it('should return 0 when no consuming periods available', () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      const settingsWithoutPeriods: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [],
-      };
-
-      const kwh = 10;
-      const result = service.calculateConsumptionCost(kwh, timestamp, settingsWithoutPeriods);
-
-      expect(result).toBe(0);
-    });
-  });
-
-  describe('calculateFeedInCost', () => {
-    const mockSettings: EnergySettings = {
-      id: 1,
-      producing_price: 0.12,
-      start_date: 1000000,
-      end_date: null,
-      updated_at: 1000000,
-      consuming_periods: [],
-    };
-
-    it('should return 0 for zero or negative kWh', () => {
-      expect(service.calculateFeedInCost(0, mockSettings)).toBe(0);
-      expect(service.calculateFeedInCost(-5, mockSettings)).toBe(0);
-    });
-
-    it('should return 0 when no settings provided', () => {
-      expect(service.calculateFeedInCost(10, null)).toBe(0);
-    });
-
-    it('should calculate cost using producing_price', () => {
-      const kwh = 10;
-      const result = service.calculateFeedInCost(kwh, mockSettings);
-
-      expect(result).toBe(1.2); // 10 kWh * 0.12 €/kWh
-    });
-
-    it('should handle different producing prices', () => {
-      const settingsWithDifferentPrice: EnergySettings = {
-        id: 1,
-        producing_price: 0.08,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [],
-      };
-
-      const kwh = 15;
-      const result = service.calculateFeedInCost(kwh, settingsWithDifferentPrice);
-
-      expect(result).toBe(1.2); // 15 kWh * 0.08 €/kWh
-    });
-  });
-
   describe('aggregateEnergyData', () => {
     const baseTimestamp = Math.floor(new Date('2024-01-01T10:00:00Z').getTime() / 1000);
     const hourKey = Math.floor(baseTimestamp / 3600) * 3600;
@@ -186,6 +34,8 @@ describe('EnergyService', () => {
         grid: 2000,
         car: 500,
         solar: 3000,
+        battery: 0,
+        battery_soc: null,
         created_at: baseTimestamp,
       },
       {
@@ -195,6 +45,8 @@ describe('EnergyService', () => {
         grid: 2200,
         car: 600,
         solar: 3200,
+        battery: 0,
+        battery_soc: null,
         created_at: baseTimestamp + 600,
       },
       {
@@ -204,6 +56,8 @@ describe('EnergyService', () => {
         grid: 2100,
         car: 550,
         solar: 3100,
+        battery: 0,
+        battery_soc: null,
         created_at: baseTimestamp + 1200,
       },
     ];
@@ -229,6 +83,15 @@ describe('EnergyService', () => {
       expect(result).toEqual({ data: [], total: 0 });
     });
 
+    it('should return empty data for empty readings (battery)', () => {
+      const result = service.aggregateEnergyData([], 'day', 'battery');
+
+      expect(result).toEqual({
+        charge: { data: [], total: 0 },
+        discharge: { data: [], total: 0 },
+      });
+    });
+
     it('should aggregate grid data by hour for day timeframe', () => {
       const result = service.aggregateEnergyData(mockReadings, 'day', 'grid');
 
@@ -251,6 +114,19 @@ describe('EnergyService', () => {
       }
     });
 
+    it('should aggregate with an explicit granularity', () => {
+      // Readings at 10:00, 10:10 and 10:20 UTC: the segment 10:10-10:20 is split at 10:15
+      const result = service.aggregateEnergyData(mockReadings, 'day', 'car', 'UTC', '15m');
+
+      expect(result).toEqual({
+        data: [
+          { label: '10:00', kwh: expect.closeTo(0.140625, 9), timestamp: baseTimestamp },
+          { label: '10:15', kwh: expect.closeTo(0.046875, 9), timestamp: baseTimestamp + 900 },
+        ],
+        total: expect.closeTo(0.1875, 9),
+      });
+    });
+
     it('should aggregate car data by hour for day timeframe', () => {
       const result = service.aggregateEnergyData(mockReadings, 'day', 'car');
 
@@ -273,6 +149,17 @@ describe('EnergyService', () => {
       }
     });
 
+    it('should aggregate home data by hour for day timeframe', () => {
+      const result = service.aggregateEnergyData(mockReadings, 'day', 'home');
+
+      expect('data' in result).toBe(true);
+      expect('total' in result).toBe(true);
+      if ('data' in result) {
+        expect(Array.isArray(result.data)).toBe(true);
+        expect(result.total).toBeGreaterThan(0);
+      }
+    });
+
     it('should handle negative grid values for feed-in', () => {
       const readingsWithFeedIn: EnergyReading[] = [
         {
@@ -282,6 +169,8 @@ describe('EnergyService', () => {
           grid: -500, // Feed-in
           car: 0,
           solar: 0,
+          battery: 0,
+          battery_soc: null,
           created_at: baseTimestamp,
         },
         {
@@ -291,6 +180,8 @@ describe('EnergyService', () => {
           grid: -600, // Feed-in
           car: 0,
           solar: 0,
+          battery: 0,
+          battery_soc: null,
           created_at: baseTimestamp + 600,
         },
       ];
@@ -304,6 +195,41 @@ describe('EnergyService', () => {
       }
     });
 
+    it('should split battery values into charge and discharge', () => {
+      const readingsWithDischarge: EnergyReading[] = [
+        {
+          id: 1,
+          timestamp: baseTimestamp,
+          home: 1000,
+          grid: 0,
+          car: 0,
+          solar: 0,
+          battery: -800, // Discharging
+          battery_soc: 60,
+          created_at: baseTimestamp,
+        },
+        {
+          id: 2,
+          timestamp: baseTimestamp + 600,
+          home: 1000,
+          grid: 0,
+          car: 0,
+          solar: 0,
+          battery: -1000, // Discharging
+          battery_soc: 55,
+          created_at: baseTimestamp + 600,
+        },
+      ];
+
+      const result = service.aggregateEnergyData(readingsWithDischarge, 'day', 'battery');
+
+      expect('discharge' in result).toBe(true);
+      if ('discharge' in result) {
+        expect(result.discharge.total).toBeGreaterThan(0);
+        expect(result.charge.total).toBe(0); // No positive battery values
+      }
+    });
+
     it('should throw error for unknown energy type', () => {
       expect(() => {
         service.aggregateEnergyData(mockReadings, 'day', 'unknown' as any);
@@ -311,6 +237,644 @@ describe('EnergyService', () => {
     });
   });
 
+  describe('getAggregatedEnergyData with buckets', () => {
+    // 2026-10-24 22:00:30 to 2026-10-26 01:55:50 in Berlin, across the end of summer time
+    const FROM = 1792872030;
+    const TO = 1792976150;
+    // Minutes from 01:50 on are not aggregated yet
+    const AGGREGATED_UNTIL = 1792975800;
+    const TIME_ZONE = 'Europe/Berlin';
+
+    const readings: EnergyReading[] = [];
+    for (let t = FROM - 3000, id = 1; t < TO + 3000; t += 10, id++) {
+      const power = 1500 + 1200 * Math.sin(t / 3000) + (id % 7) * 40;
+      readings.push({
+        id,
+        timestamp: t,
+        home: power,
+        // Changes sign several times within some minutes
+        grid: 1800 - power + 300 * Math.sin(t / 40),
+        car: id % 500 < 100 ? 0 : power * 2,
+        solar: power,
+        battery: id % 3 === 0 ? -400 : 250,
+        battery_soc: null,
+        created_at: t,
+      });
+    }
+
+    /** Builds buckets like the aggregation job and its views, by adding the energy of each part to its bucket */
+    const buildBuckets = (bucketStartOf: (timestamp: number) => number): EnergyBucket[] => {
+      const buckets = new Map<number, EnergyBucket>();
+      for (let i = 0; i < readings.length - 1; i++) {
+        const [r1, r2] = [readings[i], readings[i + 1]];
+        for (let partStart = r1.timestamp; partStart < r2.timestamp; ) {
+          const minuteStart = Math.floor(partStart / 60) * 60;
+          const partEnd = Math.min(r2.timestamp, minuteStart + 60);
+          if (minuteStart >= AGGREGATED_UNTIL) {
+            break;
+          }
+          const position = ((partStart + partEnd) / 2 - r1.timestamp) / (r2.timestamp - r1.timestamp);
+          const kwh = (channel: 'car' | 'solar' | 'home') =>
+            ((r1[channel] + (r2[channel] - r1[channel]) * position) * (partEnd - partStart)) / 3600 / 1000;
+          // Positive and negative part, split at the zero crossing within the part
+          const signedKwh = (channel: 'grid' | 'battery') => {
+            const powerAt = (t: number) => r1[channel] + ((r2[channel] - r1[channel]) * (t - r1.timestamp)) / (r2.timestamp - r1.timestamp);
+            const [p1, p2] = [powerAt(partStart), powerAt(partEnd)];
+            // Time from the start of the part to the zero crossing
+            const crossing = ((partEnd - partStart) * p1) / (p1 - p2);
+            const parts = p1 * p2 < 0
+              ? [(p1 / 2) * crossing, (p2 / 2) * (partEnd - partStart - crossing)]
+              : [((p1 + p2) / 2) * (partEnd - partStart)];
+            return {
+              positive: parts.filter((part) => part > 0).reduce((sum, part) => sum + part, 0) / 3600 / 1000,
+              negative: -parts.filter((part) => part < 0).reduce((sum, part) => sum + part, 0) / 3600 / 1000,
+            };
+          };
+
+          const bucketStart = bucketStartOf(minuteStart);
+          const bucket = buckets.get(bucketStart) ?? ({
+            bucket_start: bucketStart,
+            car_kwh: 0,
+            solar_kwh: 0,
+            home_kwh: 0,
+            grid_import_kwh: 0,
+            grid_export_kwh: 0,
+            battery_charge_kwh: 0,
+            battery_discharge_kwh: 0,
+          } as EnergyBucket);
+          bucket.car_kwh += kwh('car');
+          bucket.solar_kwh += kwh('solar');
+          bucket.home_kwh += kwh('home');
+          const grid = signedKwh('grid');
+          bucket.grid_import_kwh += grid.positive;
+          bucket.grid_export_kwh += grid.negative;
+          const battery = signedKwh('battery');
+          bucket.battery_charge_kwh += battery.positive;
+          bucket.battery_discharge_kwh += battery.negative;
+          buckets.set(bucketStart, bucket);
+          partStart = partEnd;
+        }
+      }
+      return [...buckets.values()];
+    };
+
+    const minuteBuckets = buildBuckets((timestamp) => timestamp);
+    const hourlyBuckets = buildBuckets((timestamp) => startOfLocalHour(timestamp, TIME_ZONE));
+    const dailyBuckets = buildBuckets((timestamp) => startOfLocalDay(timestamp, TIME_ZONE));
+
+    /** Buckets of a view overlapping [from, to), like the repository queries */
+    const inRange = (buckets: EnergyBucket[], size: (bucket: EnergyBucket) => number) =>
+      (from: number, to: number) =>
+        Promise.resolve(buckets.filter((bucket) => bucket.bucket_start < to && bucket.bucket_start + size(bucket) > from));
+
+    let bucketRepository: {
+      getLatestBucketTimestamp: ReturnType<typeof vi.fn>;
+      getBucketsForRange: ReturnType<typeof vi.fn>;
+      getCarBucketsForRange: ReturnType<typeof vi.fn>;
+      getHourlyBucketsForRange: ReturnType<typeof vi.fn>;
+      getDailyBucketsForRange: ReturnType<typeof vi.fn>;
+    };
+    let bucketService: EnergyService;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const repository = {
+        getEnergyReadingsForRange: vi.fn((from: number, to: number) =>
+          Promise.resolve(readings.filter((reading) => reading.timestamp >= from && reading.timestamp <= to))
+        ),
+      };
+      bucketRepository = {
+        getLatestBucketTimestamp: vi.fn().mockResolvedValue(AGGREGATED_UNTIL - 60),
+        getBucketsForRange: vi.fn(inRange(minuteBuckets, () => 60)),
+        getCarBucketsForRange: vi.fn(inRange(minuteBuckets.filter((bucket) => bucket.car_kwh > 0), () => 60)),
+        getHourlyBucketsForRange: vi.fn(inRange(hourlyBuckets, () => 3600)),
+        getDailyBucketsForRange: vi.fn(
+          inRange(dailyBuckets, (bucket) => startOfLocalDay(bucket.bucket_start, TIME_ZONE, 1) - bucket.bucket_start)
+        ),
+      };
+      bucketService = createEnergyService(
+        repository as unknown as EnergyRepository,
+        bucketRepository as unknown as EnergyBucketRepository
+      );
+    });
+
+    const rawReadings = readings.filter((reading) => reading.timestamp >= FROM && reading.timestamp <= TO);
+
+    it.each(['day', 'hour', '15m'] as const)('should equal the raw-reading path at granularity %s', async (granularity) => {
+      const seriesOf = (response: object): AggregatedResponse[] =>
+        'consumption' in response
+          ? [(response as GridAggregatedResponse).consumption, (response as GridAggregatedResponse).feedIn]
+          : 'charge' in response
+            ? [(response as BatteryAggregatedResponse).charge, (response as BatteryAggregatedResponse).discharge]
+            : [response as AggregatedResponse];
+
+      for (const type of ['solar', 'car', 'grid', 'battery', 'home'] as const) {
+        const fromBuckets = seriesOf(
+          await bucketService.getAggregatedEnergyData(FROM, TO, 'custom', type, 1, TIME_ZONE, granularity)
+        );
+        const fromReadings = seriesOf(service.aggregateEnergyData(rawReadings, 'custom', type, TIME_ZONE, granularity));
+
+        fromReadings.forEach((expected, seriesIndex) => {
+          const actual = fromBuckets[seriesIndex];
+          expect(actual.data.map((point) => [point.label, point.timestamp])).toEqual(
+            expected.data.map((point) => [point.label, point.timestamp])
+          );
+          actual.data.forEach((point, index) => expect(point.kwh).toBeCloseTo(expected.data[index].kwh, 9));
+          expect(actual.total).toBeCloseTo(expected.total, 9);
+          expect(expected.total).toBeGreaterThan(0);
+        });
+      }
+    });
+
+    it('should read whole days from the daily view and stitch the edges', async () => {
+      await bucketService.getAggregatedEnergyData(FROM, TO, 'custom', 'solar', 1, TIME_ZONE, 'day');
+
+      // Sunday 2026-10-25 has 25 hours
+      expect(bucketRepository.getDailyBucketsForRange).toHaveBeenCalledWith(1792879200, 1792969200, 1);
+      expect(bucketRepository.getHourlyBucketsForRange.mock.calls).toEqual([
+        [1792875600, 1792879200, 1],
+        [1792969200, 1792972800, 1],
+      ]);
+    });
+
+    it('should read the views for signed channels', async () => {
+      await bucketService.getAggregatedEnergyData(FROM, TO, 'custom', 'grid', 1, TIME_ZONE, 'day');
+
+      expect(bucketRepository.getDailyBucketsForRange).toHaveBeenCalledWith(1792879200, 1792969200, 1);
+      expect(bucketRepository.getBucketsForRange).not.toHaveBeenCalledWith(1792872060, AGGREGATED_UNTIL, 1);
+    });
+
+    it('should price parts with constant prices from the views like the raw-reading path prices minutes', async () => {
+      // Cheaper from 22:15 to 02:30, which occurs twice at the end of summer time; dynamic from 12:00:30 on Sunday
+      const change = 1792929630;
+      const periods = [
+        { id: 1, energy_settings_id: 1, start_time: 150, end_time: 1335, price: 0.3 },
+        { id: 2, energy_settings_id: 1, start_time: 1335, end_time: 150, price: 0.2 },
+      ];
+      const history: EnergySettings[] = [
+        { id: 1, producing_price: 0.08, start_date: 0, end_date: change, updated_at: 0, consuming_periods: periods },
+        {
+          id: 2,
+          producing_price: 0.07,
+          start_date: change,
+          end_date: null,
+          updated_at: change,
+          consuming_periods: periods,
+          tariff_type: 'dynamic',
+          spot_markup: 0.02,
+          grid_fee: 0.1,
+          vat_rate: 0.19,
+        },
+      ];
+      const spotPrices = [0, 1, 2, 3, 4, 5].map((quarter) => ({
+        starts_at: 1792933200 + quarter * 900,
+        ends_at: 1792933200 + (quarter + 1) * 900,
+        price: 0.05 * quarter,
+      }));
+      const repository = (readingsOf: (from: number, to: number) => Promise<EnergyReading[]>) => ({
+        getEnergyReadingsForRange: vi.fn(readingsOf),
+        getAllEnergySettings: vi.fn().mockResolvedValue(history),
+      }) as unknown as EnergyRepository;
+      const spotPriceRepository = {
+        getSpotPrices: vi.fn().mockResolvedValue(spotPrices),
+      } as unknown as SpotPriceRepository;
+      const costService = createEnergyService(
+        repository((from, to) =>
+          Promise.resolve(readings.filter((reading) => reading.timestamp >= from && reading.timestamp <= to))
+        ),
+        bucketRepository as unknown as EnergyBucketRepository,
+        undefined,
+        spotPriceRepository
+      );
+      const readingService = createEnergyService(
+        repository(() => Promise.resolve(rawReadings)),
+        undefined,
+        undefined,
+        spotPriceRepository
+      );
+
+      const fromBuckets = await costService.getEnergyCosts(FROM, TO, 'custom', 1, TIME_ZONE, 'day');
+      const fromReadings = await readingService.getEnergyCosts(FROM, TO, 'custom', 1, TIME_ZONE, 'day');
+
+      for (const key of ['consumption', 'feedIn', 'car', 'solar', 'batteryCharge', 'batteryDischarge', 'home'] as const) {
+        expect(fromBuckets[key].data.map((point) => point.timestamp)).toEqual(
+          fromReadings[key].data.map((point) => point.timestamp)
+        );
+        fromBuckets[key].data.forEach((point, index) => {
+          expect(point.kwh).toBeCloseTo(fromReadings[key].data[index].kwh, 9);
+          expect(point.cost).toBeCloseTo(fromReadings[key].data[index].cost, 9);
+        });
+        expect(fromBuckets[key].gross).toBeCloseTo(fromReadings[key].gross, 9);
+      }
+      // Every day has price changes, so whole hours come from the hourly view and only hours with a change from
+      // minute buckets
+      expect(bucketRepository.getDailyBucketsForRange).not.toHaveBeenCalled();
+      expect(bucketRepository.getHourlyBucketsForRange).toHaveBeenCalled();
+      expect(bucketRepository.getBucketsForRange.mock.calls).toEqual([
+        // Saturday 22:00:30 to 23:00 (from 22:15)
+        [1792872060, 1792875600, 1],
+        // Both hours from 02:00 on Sunday (02:30, end of summer time, 02:30)
+        [1792886400, 1792893600, 1],
+        // 12:00 to 15:00 (new settings, spot prices per quarter hour from 13:00 to 14:30)
+        [1792929600, 1792940400, 1],
+        // 22:00 to 23:00 (22:15)
+        [1792962000, 1792965600, 1],
+        // Monday 01:00 to the end of the buckets at 01:50
+        [1792972800, AGGREGATED_UNTIL, 1],
+      ]);
+    });
+
+    it('should compare tariffs per part with constant prices like the raw-reading path', async () => {
+      const candidates: TariffCandidate[] = [
+        {
+          name: 'Night rate',
+          producing_price: 0.08,
+          consuming_periods: [
+            { start_time: 150, end_time: 1335, price: 0.3 },
+            { start_time: 1335, end_time: 150, price: 0.2 },
+          ],
+        },
+        {
+          name: 'Spot',
+          producing_price: 0.07,
+          consuming_periods: [{ start_time: 0, end_time: 0, price: 0.3 }],
+          tariff_type: 'dynamic',
+          spot_markup: 0.02,
+          grid_fee: 0.1,
+        },
+      ];
+      const spotPriceRepository = {
+        getSpotPrices: vi.fn().mockResolvedValue([0, 1, 2, 3].map((hour) => ({
+          starts_at: 1792933200 + hour * 3600,
+          ends_at: 1792933200 + (hour + 1) * 3600,
+          price: 0.05 * hour,
+        }))),
+      } as unknown as SpotPriceRepository;
+      const repository = (readingsOf: (from: number, to: number) => Promise<EnergyReading[]>) => ({
+        getEnergyReadingsForRange: vi.fn(readingsOf),
+        getAllEnergySettings: vi.fn().mockResolvedValue([]),
+      }) as unknown as EnergyRepository;
+      const comparisonService = createEnergyService(
+        repository((from, to) =>
+          Promise.resolve(readings.filter((reading) => reading.timestamp >= from && reading.timestamp <= to))
+        ),
+        bucketRepository as unknown as EnergyBucketRepository,
+        undefined,
+        spotPriceRepository
+      );
+      const readingService = createEnergyService(
+        repository(() => Promise.resolve(rawReadings)),
+        undefined,
+        undefined,
+        spotPriceRepository
+      );
+
+      const fromBuckets = await comparisonService.compareTariffs(FROM, TO, candidates, 1, TIME_ZONE);
+      const fromReadings = await readingService.compareTariffs(FROM, TO, candidates, 1, TIME_ZONE);
+
+      fromBuckets.tariffs.forEach((tariff, index) => {
+        for (const [key, value] of Object.entries(tariff.total)) {
+          expect(value).toBeCloseTo(fromReadings.tariffs[index].total[key as keyof typeof tariff.total], 9);
+        }
+      });
+      const [nightRate] = fromBuckets.tariffs;
+      expect(nightRate.total.carCost).toBeGreaterThan(0);
+      // Solar supplies part of the car charging
+      expect(nightRate.total.carCost).toBeLessThan(nightRate.total.car * 0.3 - 0.01);
+      // Minute buckets only for the hours with a change within the hour (hourly spot prices change on the hour) and
+      // the minutes in which the car drew energy
+      expect(bucketRepository.getDailyBucketsForRange).not.toHaveBeenCalled();
+      expect(bucketRepository.getHourlyBucketsForRange).toHaveBeenCalled();
+      expect(bucketRepository.getBucketsForRange.mock.calls).toEqual([
+        [1792872060, 1792875600, 1],
+        [1792886400, 1792893600, 1],
+        [1792962000, 1792965600, 1],
+        [1792972800, AGGREGATED_UNTIL, 1],
+      ]);
+      expect(bucketRepository.getCarBucketsForRange).toHaveBeenCalledWith(1792872060, AGGREGATED_UNTIL, 1);
+    });
+
+    it('should allocate energy flows per minute like the raw-reading path', async () => {
+      const readingService = createEnergyService({
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(rawReadings),
+      } as unknown as EnergyRepository);
+
+      const fromBuckets = await bucketService.getEnergyFlows(FROM, TO, 1);
+      const fromReadings = await readingService.getEnergyFlows(FROM, TO, 1);
+
+      expect(bucketRepository.getHourlyBucketsForRange).not.toHaveBeenCalled();
+      expect(bucketRepository.getDailyBucketsForRange).not.toHaveBeenCalled();
+      fromBuckets.flows.forEach((flow, index) => {
+        expect([flow.source, flow.target]).toEqual([fromReadings.flows[index].source, fromReadings.flows[index].target]);
+        expect(flow.kwh).toBeCloseTo(fromReadings.flows[index].kwh, 9);
+      });
+      // Flows do not cancel out within the range: the grid is both a source and a target
+      const kwhOf = (source: string, target: string) =>
+        fromBuckets.flows.find((flow) => flow.source === source && flow.target === target)!.kwh;
+      expect(kwhOf('grid', 'home')).toBeGreaterThan(0);
+      expect(kwhOf('battery', 'grid')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getEnergySummary', () => {
+    const from = 1704067200;
+    const readings: EnergyReading[] = [0, 600, 1200, 1800].map((offset, index) => ({
+      id: index + 1,
+      timestamp: from + offset,
+      home: 1000,
+      grid: index < 2 ? 400 : -600,
+      car: index === 1 ? 2000 : 0,
+      solar: index < 2 ? 600 : 1600,
+      battery: 0,
+      battery_soc: null,
+      created_at: from + offset,
+    }));
+
+    it('should combine the aggregated channels into KPIs', async () => {
+      const repository = {
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+      };
+      const summaryService = createEnergyService(repository as unknown as EnergyRepository);
+
+      const result = await summaryService.getEnergySummary(from, from + 1800, 'custom', 1, 'UTC', '15m');
+
+      const total = (type: 'home' | 'car' | 'solar') =>
+        (service.aggregateEnergyData(readings, 'custom', type, 'UTC', '15m') as AggregatedResponse).total;
+      const grid = service.aggregateEnergyData(readings, 'custom', 'grid', 'UTC', '15m') as GridAggregatedResponse;
+
+      expect(repository.getEnergyReadingsForRange).toHaveBeenCalledTimes(5);
+      expect(result.data.map((point) => point.label)).toEqual(['00:00', '00:15']);
+      expect(result.total.demand).toBeCloseTo(total('home') + total('car'));
+      expect(result.total.autarky).toBeCloseTo(1 - grid.consumption.total / (total('home') + total('car')));
+      expect(result.total.solarExported).toBeCloseTo(grid.feedIn.total);
+      expect(result.total.selfConsumption).toBeCloseTo(1 - grid.feedIn.total / total('solar'));
+    });
+  });
+
+  describe('getEnergyCosts', () => {
+    // 2026-10-19 00:00 UTC
+    const from = 1792368000;
+    const readings: EnergyReading[] = [];
+    for (let t = from, id = 1; t <= from + 7200; t += 60, id++) {
+      readings.push({
+        id,
+        timestamp: t,
+        home: 1000,
+        grid: 1000,
+        car: 0,
+        solar: 500,
+        battery: 0,
+        battery_soc: null,
+        created_at: t,
+      });
+    }
+    const dynamicSettings: EnergySettings = {
+      id: 2,
+      producing_price: 0.08,
+      start_date: from + 5400,
+      end_date: null,
+      updated_at: from,
+      consuming_periods: [{ id: 1, energy_settings_id: 2, start_time: 0, end_time: 0, price: 0.3 }],
+      tariff_type: 'dynamic',
+      spot_markup: 0.02,
+      grid_fee: 0.1,
+      vat_rate: 0.19,
+      // €0.10 per hour in October
+      meter_fee: 74.4,
+    };
+    const fixedSettings: EnergySettings = {
+      ...dynamicSettings,
+      id: 1,
+      start_date: 0,
+      end_date: from + 5400,
+      consuming_periods: [{ id: 2, energy_settings_id: 1, start_time: 0, end_time: 0, price: 0.25 }],
+      tariff_type: 'fixed',
+      vat_rate: 0,
+      // €1 per hour in October
+      base_fee: 744,
+      meter_fee: 0,
+    };
+
+    it('should price each minute with the settings and spot price applying at that minute', async () => {
+      const repository = {
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([dynamicSettings, fixedSettings]),
+      };
+      const spotPriceRepository = {
+        getSpotPrices: vi.fn().mockResolvedValue([
+          { starts_at: from, ends_at: from + 3600, price: 0.5 },
+          { starts_at: from + 3600, ends_at: from + 6600, price: 0.08 },
+        ]),
+      };
+      const costService = createEnergyService(
+        repository as unknown as EnergyRepository,
+        undefined,
+        undefined,
+        spotPriceRepository as unknown as SpotPriceRepository
+      );
+
+      const result = await costService.getEnergyCosts(from, from + 7200, 'custom', 1, 'UTC', 'hour');
+
+      expect(spotPriceRepository.getSpotPrices).toHaveBeenCalledWith(from, from + 7200, 1);
+      expect(result.consumption.data.map((point) => point.label)).toEqual(['00:00', '01:00']);
+      result.consumption.data.forEach((point) => expect(point.kwh).toBeCloseTo(1));
+      // Fixed tariff until 01:30 (the spot price is ignored), then dynamic until 01:50 and the periods afterwards
+      expect(result.consumption.data[0].cost).toBeCloseTo(0.25);
+      expect(result.consumption.data[1].cost).toBeCloseTo(0.5 * 0.25 + (20 / 60) * 0.2 + (10 / 60) * 0.3);
+      expect(result.consumption.cost).toBeCloseTo(result.consumption.data[0].cost + result.consumption.data[1].cost);
+      expect(result.home.cost).toBeCloseTo(result.consumption.cost);
+      // Feed-in-like series at the producing price
+      expect(result.solar.total).toBeCloseTo(1);
+      expect(result.solar.cost).toBeCloseTo(0.08);
+      expect(result.feedIn.total).toBe(0);
+      expect(result.feedIn.cost).toBe(0);
+    });
+
+    it('should add the VAT and prorate the fees of the settings applying at each minute', async () => {
+      const costService = createEnergyService({
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([dynamicSettings, fixedSettings]),
+      } as unknown as EnergyRepository);
+
+      const result = await costService.getEnergyCosts(from, from + 7200, 'custom', 1, 'UTC', 'hour');
+
+      // No spot prices: the periods apply, without VAT until 01:30 and with VAT afterwards
+      expect(result.consumption.cost).toBeCloseTo(1.5 * 0.25 + 0.5 * 0.3);
+      expect(result.consumption.gross).toBeCloseTo(1.5 * 0.25 + 0.5 * 0.3 * 1.19);
+      expect(result.solar.gross).toBeCloseTo(result.solar.cost);
+      expect(result.fixedFees.cost).toBeCloseTo(1.5 + 0.05);
+      expect(result.fixedFees.gross).toBeCloseTo(1.5 + 0.05 * 1.19);
+    });
+
+    it('should not price minutes without settings', async () => {
+      const costService = createEnergyService({
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([]),
+      } as unknown as EnergyRepository);
+
+      const result = await costService.getEnergyCosts(from, from + 7200, 'custom', 1, 'UTC', 'hour');
+
+      expect(result.consumption.total).toBeCloseTo(2);
+      expect(result.consumption.cost).toBe(0);
+      expect(result.fixedFees).toEqual({ cost: 0, gross: 0 });
+    });
+  });
+
+  describe('compareTariffs', () => {
+    // 2026-10-19 00:00 UTC
+    const from = 1792368000;
+    const readings: EnergyReading[] = [];
+    for (let t = from, id = 1; t <= from + 7200; t += 60, id++) {
+      readings.push({
+        id,
+        timestamp: t,
+        home: 1000,
+        grid: 2000,
+        car: 1000,
+        solar: 0,
+        battery: 0,
+        battery_soc: null,
+        created_at: t,
+      });
+    }
+    const actualSettings: EnergySettings = {
+      id: 1,
+      producing_price: 0.08,
+      start_date: 0,
+      end_date: null,
+      updated_at: 0,
+      consuming_periods: [{ id: 1, energy_settings_id: 1, start_time: 0, end_time: 0, price: 0.3 }],
+    };
+    const candidate: TariffCandidate = {
+      name: 'Cheaper',
+      producing_price: 0.08,
+      consuming_periods: [{ start_time: 0, end_time: 0, price: 0.2 }],
+    };
+
+    it('should replay the energy of the range against the actual tariff and the candidates', async () => {
+      const repository = {
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([actualSettings]),
+      };
+      const costService = createEnergyService(repository as unknown as EnergyRepository);
+
+      const result = await costService.compareTariffs(from, from + 7200, [candidate], 1, 'UTC');
+
+      expect(repository.getAllEnergySettings).toHaveBeenCalledWith(1);
+      expect(result.from).toBe(from);
+      expect(result.to).toBe(from + 7200);
+      expect(result.tariffs.map((tariff) => tariff.name)).toEqual(['Actual tariff', 'Cheaper']);
+      expect(result.tariffs[0].total.consumption).toBeCloseTo(4);
+      expect(result.tariffs[0].total.car).toBeCloseTo(2);
+      expect(result.tariffs[0].total.energyCost).toBeCloseTo(4 * 0.3);
+      expect(result.tariffs[1].total.energyCost).toBeCloseTo(4 * 0.2);
+      // Constant prices leave nothing to gain by shifting
+      expect(result.tariffs[1].total.carShiftSavings).toBeCloseTo(0);
+    });
+
+    it('should price only the car charging not supplied by solar', async () => {
+      const sunnyReadings = readings.map((reading) => ({ ...reading, grid: 1000, solar: 1000 }));
+      const costService = createEnergyService({
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(sunnyReadings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([actualSettings]),
+      } as unknown as EnergyRepository);
+
+      const result = await costService.compareTariffs(from, from + 7200, [candidate], 1, 'UTC');
+
+      // Solar covers half of the demand of home and car
+      expect(result.tariffs[0].total.car).toBeCloseTo(2);
+      expect(result.tariffs[0].total.carCost).toBeCloseTo(1 * 0.3);
+      expect(result.tariffs[1].total.carCost).toBeCloseTo(1 * 0.2);
+    });
+
+    it('should only compare the candidates without settings history', async () => {
+      const costService = createEnergyService({
+        getEnergyReadingsForRange: vi.fn().mockResolvedValue(readings),
+        getAllEnergySettings: vi.fn().mockResolvedValue([]),
+      } as unknown as EnergyRepository);
+
+      const result = await costService.compareTariffs(from, from + 7200, [candidate], 1, 'UTC');
+
+      expect(result.tariffs.map((tariff) => tariff.name)).toEqual(['Cheaper']);
+    });
+  });
+
+  describe('with readings of several meters', () => {
+    // 2026-10-19 00:00 UTC
+    const from = 1792368000;
+    const to = from + 3600;
+    // A grid meter with home and car and a solar inverter, stored interleaved at the same seconds
+    const readings: EnergyReading[] = [];
+    for (let t = from, id = 1; t <= to; t += 10, id += 2) {
+      readings.push(
+        { id, meter_id: 1, timestamp: t, home: 1000, grid: 500, car: 1000, solar: 0, battery: 0, battery_soc: null, created_at: t },
+        { id: id + 1, meter_id: 2, timestamp: t, home: 0, grid: 0, car: 0, solar: 1500, battery: 0, battery_soc: null, created_at: t }
+      );
+    }
+    const actualSettings: EnergySettings = {
+      id: 1,
+      producing_price: 0.08,
+      start_date: 0,
+      end_date: null,
+      updated_at: 0,
+      consuming_periods: [{ id: 1, energy_settings_id: 1, start_time: 0, end_time: 0, price: 0.3 }],
+    };
+
+    const createRepository = () => ({
+      getEnergyReadingsForRange: vi.fn((rangeFrom: number, rangeTo: number) =>
+        Promise.resolve(readings.filter((reading) => reading.timestamp >= rangeFrom && reading.timestamp <= rangeTo))
+      ),
+      getAllEnergySettings: vi.fn().mockResolvedValue([actualSettings]),
+    });
+    // No minute is aggregated yet, so the whole range is integrated from readings
+    const createBucketRepository = () => ({ getLatestBucketTimestamp: vi.fn().mockResolvedValue(null) });
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should integrate the readings of each meter and sum them', () => {
+      const home = service.aggregateEnergyData(readings, 'day', 'home', 'UTC') as AggregatedResponse;
+      const solar = service.aggregateEnergyData(readings, 'day', 'solar', 'UTC') as AggregatedResponse;
+      const grid = service.aggregateEnergyData(readings, 'day', 'grid', 'UTC') as GridAggregatedResponse;
+
+      expect(home.total).toBeCloseTo(1);
+      expect(solar.total).toBeCloseTo(1.5);
+      expect(grid.consumption.total).toBeCloseTo(0.5);
+      expect(grid.feedIn.total).toBe(0);
+    });
+
+    it('should integrate the readings of each meter where no buckets exist', async () => {
+      const bucketService = createEnergyService(
+        createRepository() as unknown as EnergyRepository,
+        createBucketRepository() as unknown as EnergyBucketRepository
+      );
+
+      const home = await bucketService.getAggregatedEnergyData(from, to, 'custom', 'home', 1, 'UTC', 'hour');
+      const solar = await bucketService.getAggregatedEnergyData(from, to, 'custom', 'solar', 1, 'UTC', 'hour');
+      const costs = await bucketService.getEnergyCosts(from, to, 'custom', 1, 'UTC', 'hour');
+
+      expect((home as AggregatedResponse).total).toBeCloseTo(1);
+      expect((solar as AggregatedResponse).total).toBeCloseTo(1.5);
+      expect(costs.consumption.total).toBeCloseTo(0.5);
+      expect(costs.car.total).toBeCloseTo(1);
+    });
+
+    it('should integrate the readings of each meter per minute without buckets', async () => {
+      const costService = createEnergyService(createRepository() as unknown as EnergyRepository);
+
+      const costs = await costService.getEnergyCosts(from, to, 'custom', 1, 'UTC', 'hour');
+      const comparison = await costService.compareTariffs(from, to, [], 1, 'UTC');
+
+      expect(costs.home.total).toBeCloseTo(1);
+      expect(costs.solar.total).toBeCloseTo(1.5);
+      expect(costs.consumption.cost).toBeCloseTo(0.5 * 0.3);
+      // Solar covers three quarters of the demand of home and car
+      expect(comparison.tariffs[0].total.car).toBeCloseTo(1);
+      expect(comparison.tariffs[0].total.carCost).toBeCloseTo(0.25 * 0.3);
+    });
+  });
+
   describe('createEnergyService', () => {
     it('should create a new instance without repository', () => {
       const instance = createEnergyService();
@@ -45,7 +45,7 @@ describe('EnergySettingsService', () => {
       const result = await service.getActiveSettings();
 
       expect(result).toEqual(mockSettings);
-      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(mockNow);
+      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(mockNow, 1);
     });
 
     it('should return settings for specific timestamp', async () => {
@@ -64,7 +64,7 @@ describe('EnergySettingsService', () => {
       const result = await service.getActiveSettings(timestamp);
 
       expect(result).toEqual(mockSettings);
-      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(timestamp);
+      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(timestamp, 1);
     });
 
     it('should return null when no settings found', async () => {
@@ -75,166 +75,95 @@ describe('EnergySettingsService', () => {
       const result = await service.getActiveSettings();
 
       expect(result).toBeNull();
-      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(mockNow);
+      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(mockNow, 1);
     });
-  });
-
-  describe('calculatePriceAt', () => {
-    it('should return producing price for producing type', async () => {
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [],
-      };
-
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
 
+    it('should look up settings of the given site', async () => {
       const timestamp = 1000000;
-      const result = await service.calculatePriceAt(timestamp, 'producing');
-
-      expect(result).toBe(0.12);
-      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(timestamp);
-    });
-
-    it('should return consuming price based on time of day', async () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      // 14:30 = 14 * 60 + 30 = 870 minutes
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [
-          {
-            id: 1,
-            energy_settings_id: 1,
-            start_time: 0, // 00:00
-            end_time: 480, // 08:00
-            price: 0.20,
-          },
-          {
-            id: 2,
-            energy_settings_id: 1,
-            start_time: 480, // 08:00
-            end_time: 1440, // 24:00
-            price: 0.30,
-          },
-        ],
-      };
-
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
+      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(null);
 
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
+      await service.getActiveSettings(timestamp, 2);
 
-      expect(result).toBe(0.30); // Should match the second period (08:00-24:00)
+      expect(mockRepository.findActiveEnergySettings).toHaveBeenCalledWith(timestamp, 2);
     });
+  });
 
-    it('should handle wrap-around periods (e.g., 22:00 to 06:00)', async () => {
-      const timestamp = Math.floor(new Date('2024-01-01T02:00:00Z').getTime() / 1000);
-      // 02:00 = 120 minutes
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [
-          {
-            id: 1,
-            energy_settings_id: 1,
-            start_time: 1320, // 22:00
-            end_time: 360, // 06:00 (next day)
-            price: 0.15,
-          },
-          {
-            id: 2,
-            energy_settings_id: 1,
-            start_time: 360, // 06:00
-            end_time: 1320, // 22:00
-            price: 0.25,
-          },
-        ],
-      };
-
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
-
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
-
-      expect(result).toBe(0.15); // Should match the wrap-around period (22:00-06:00)
-    });
+  describe('updateSettings', () => {
+    const period = { id: 0, energy_settings_id: 0, start_time: 0, end_time: 1439, price: 0.3 };
 
-    it('should return fallback price when no period matches', async () => {
-      const timestamp = Math.floor(new Date('2024-01-01T14:30:00Z').getTime() / 1000);
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
+    it('should pass the holidays to the repository', async () => {
+      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(null);
+      vi.mocked(mockRepository.createEnergySettings).mockResolvedValue({
+        id: 2,
+        producing_price: 0.08,
+        start_date: 1000,
         end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [
-          {
-            id: 1,
-            energy_settings_id: 1,
-            start_time: 0,
-            end_time: 480,
-            price: 0.20,
-          },
-        ],
-      };
+        updated_at: 1000,
+        consuming_periods: [],
+        holidays: ['01-01'],
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await service.updateSettings(0.08, [{ ...period, days_of_week: 0b11100000 }], 1000, 2, ['01-01']);
+
+      expect(mockRepository.createEnergySettings).toHaveBeenCalledWith(
+        0.08,
+        [{ ...period, days_of_week: 0b11100000 }],
+        1000,
+        null,
+        2,
+        ['01-01'],
+        null,
+        null
+      );
+    });
 
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
+    it('should pass the components of dynamic tariffs to the repository', async () => {
+      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(null);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const dynamicTariff = { spot_markup: 0.02, grid_fee: 0.1 };
 
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
+      await service.updateSettings(0.08, [period], 1000, 1, [], dynamicTariff);
 
-      expect(result).toBe(0.20); // Should use first period as fallback
+      expect(mockRepository.createEnergySettings).toHaveBeenCalledWith(0.08, [period], 1000, null, 1, [], dynamicTariff, null);
     });
 
-    it('should return null when no settings found', async () => {
+    it('should pass fees, levies and VAT to the repository', async () => {
       vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(null);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const charges = { base_fee: 12.5, meter_fee: 2, consumption_levy: 0.03, vat_rate: 0.19 };
 
-      const timestamp = 1000000;
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
+      await service.updateSettings(0.08, [period], 1000, 1, [], null, charges);
 
-      expect(result).toBeNull();
+      expect(mockRepository.createEnergySettings).toHaveBeenCalledWith(0.08, [period], 1000, null, 1, [], null, charges);
     });
 
-    it('should return null when no consuming periods available', async () => {
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-        consuming_periods: [],
-      };
-
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
-
-      const timestamp = 1000000;
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
+    it('should reject invalid VAT rates', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      expect(result).toBeNull();
+      await expect(
+        service.updateSettings(0.08, [period], undefined, 1, [], null, {
+          base_fee: 0, meter_fee: 0, consumption_levy: 0, vat_rate: 19,
+        })
+      ).rejects.toThrow('vat_rate must be between 0 and 1');
+      expect(mockRepository.createEnergySettings).not.toHaveBeenCalled();
     });
 
-    it('should return null when consuming_periods is undefined', async () => {
-      const mockSettings: EnergySettings = {
-        id: 1,
-        producing_price: 0.12,
-        start_date: 1000000,
-        end_date: null,
-        updated_at: 1000000,
-      };
+    it('should reject periods without days', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      vi.mocked(mockRepository.findActiveEnergySettings).mockResolvedValue(mockSettings);
+      await expect(service.updateSettings(0.08, [{ ...period, days_of_week: 0 }])).rejects.toThrow(
+        'days_of_week must select at least one day'
+      );
+      expect(mockRepository.createEnergySettings).not.toHaveBeenCalled();
+    });
 
-      const timestamp = 1000000;
-      const result = await service.calculatePriceAt(timestamp, 'consuming');
+    it('should reject seasons with only one end', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      expect(result).toBeNull();
+      await expect(service.updateSettings(0.08, [{ ...period, season_start: 1101 }])).rejects.toThrow(
+        'season_start and season_end must be set together'
+      );
     });
   });
 
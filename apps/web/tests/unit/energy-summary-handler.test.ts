@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleEnergySummaryRequest } from '@/lib/api/energy-summary-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { EnergySummaryResponse } from '@/types/energy';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('handleEnergySummaryRequest', () => {
+  let mockEnergyService: { getEnergySummary: ReturnType<typeof vi.fn> };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+
+  const mockSummary: EnergySummaryResponse = {
+    data: [],
+    total: {
+      demand: 10,
+      gridImport: 2.5,
+      solar: 12,
+      solarDirectUse: 5,
+      solarStored: 4,
+      solarExported: 3,
+      autarky: 0.75,
+      selfConsumption: 0.75,
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnergyService = {
+      getEnergySummary: vi.fn().mockResolvedValue(mockSummary),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      energyService: mockEnergyService,
+      siteRepository: mockSiteRepository,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  function createMockRequest(url: string): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'));
+  }
+
+  it('should return the summary of the requested range and site', async () => {
+    const request = createMockRequest('/api/energy/summary?start=1767225600&end=1767312000&site=2');
+    const response = await handleEnergySummaryRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(mockSummary);
+    expect(mockEnergyService.getEnergySummary).toHaveBeenCalledWith(
+      1767225600,
+      1767312000,
+      'day',
+      2,
+      'Europe/Berlin',
+      'hour'
+    );
+  });
+
+  it('should pass the requested granularity', async () => {
+    const request = createMockRequest('/api/energy/summary?timeframe=week&granularity=hour');
+    await handleEnergySummaryRequest(request);
+
+    expect(mockEnergyService.getEnergySummary).toHaveBeenCalledWith(
+      expect.any(Number),
+      expect.any(Number),
+      'week',
+      1,
+      'Europe/Berlin',
+      'hour'
+    );
+  });
+
+  it('should return 400 for an unknown granularity', async () => {
+    const request = createMockRequest('/api/energy/summary?granularity=2h');
+    const response = await handleEnergySummaryRequest(request);
+
+    expect(response.status).toBe(400);
+    expect(mockEnergyService.getEnergySummary).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown site', async () => {
+    mockSiteRepository.getSite.mockResolvedValue(null);
+
+    const request = createMockRequest('/api/energy/summary?site=9');
+    const response = await handleEnergySummaryRequest(request);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Site 9 not found' });
+  });
+
+  it('should return 500 when the summary fails', async () => {
+    mockEnergyService.getEnergySummary.mockRejectedValue(new Error('Database error'));
+
+    const request = createMockRequest('/api/energy/summary');
+    const response = await handleEnergySummaryRequest(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to calculate energy summary' });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { buildEnergySummary, calculateSelfSufficiency } from '@/lib/energy-summary';
+import type { AggregatedResponse } from '@/types/energy';
+
+describe('energy-summary', () => {
+  describe('calculateSelfSufficiency', () => {
+    it('should calculate autarky and self-consumption', () => {
+      const result = calculateSelfSufficiency({
+        home: 8,
+        car: 2,
+        solar: 12,
+        gridImport: 2.5,
+        gridExport: 3,
+        batteryCharge: 4,
+        batteryDischarge: 0,
+      });
+
+      expect(result.demand).toBe(10);
+      expect(result.autarky).toBeCloseTo(0.75);
+      expect(result.selfConsumption).toBeCloseTo(0.75);
+      expect(result.solarExported).toBe(3);
+      expect(result.solarStored).toBe(4);
+      expect(result.solarDirectUse).toBe(5);
+    });
+
+    it('should return null shares without demand or production', () => {
+      const result = calculateSelfSufficiency({
+        home: 0,
+        car: 0,
+        solar: 0,
+        gridImport: 0,
+        gridExport: 0,
+        batteryCharge: 0,
+        batteryDischarge: 0,
+      });
+
+      expect(result.autarky).toBeNull();
+      expect(result.selfConsumption).toBeNull();
+    });
+
+    it('should attribute battery charging beyond the solar surplus to the grid', () => {
+      const result = calculateSelfSufficiency({
+        home: 1,
+        car: 0,
+        solar: 2,
+        gridImport: 3,
+        gridExport: 0.5,
+        batteryCharge: 4,
+        batteryDischarge: 0,
+      });
+
+      expect(result.solarExported).toBe(0.5);
+      expect(result.solarStored).toBe(1.5);
+      expect(result.solarDirectUse).toBe(0);
+    });
+
+    it('should clamp shares to [0, 1]', () => {
+      // Grid import above demand, e.g. when charging the battery from the grid
+      const result = calculateSelfSufficiency({
+        home: 1,
+        car: 0,
+        solar: 1,
+        gridImport: 2,
+        gridExport: 1.5,
+        batteryCharge: 0,
+        batteryDischarge: 0,
+      });
+
+      expect(result.autarky).toBe(0);
+      expect(result.selfConsumption).toBe(0);
+      expect(result.solarExported).toBe(1);
+    });
+  });
+
+  describe('buildEnergySummary', () => {
+    const series = (points: [number, number][]): AggregatedResponse => ({
+      data: points.map(([timestamp, kwh]) => ({ label: `${timestamp}`, kwh, timestamp })),
+      total: points.reduce((total, [, kwh]) => total + kwh, 0),
+    });
+
+    it('should calculate the KPIs per data point and from the totals', () => {
+      const result = buildEnergySummary({
+        home: series([[0, 2], [3600, 1]]),
+        car: series([[3600, 3]]),
+        solar: series([[0, 1], [3600, 6]]),
+        grid: { consumption: series([[0, 1]]), feedIn: series([[3600, 2]]) },
+        battery: { charge: series([[3600, 1]]), discharge: series([]) },
+      });
+
+      expect(result.data.map((point) => point.timestamp)).toEqual([0, 3600]);
+      expect(result.data[0]).toMatchObject({ label: '0', demand: 2, autarky: 0.5, selfConsumption: 1 });
+      expect(result.data[1]).toMatchObject({
+        label: '3600',
+        demand: 4,
+        autarky: 1,
+        solarDirectUse: 3,
+        solarStored: 1,
+        solarExported: 2,
+      });
+      expect(result.data[1].selfConsumption).toBeCloseTo(4 / 6);
+
+      // Totals are not averages of the data points
+      expect(result.total.demand).toBe(6);
+      expect(result.total.autarky).toBeCloseTo(5 / 6);
+      expect(result.total.selfConsumption).toBeCloseTo(5 / 7);
+    });
+
+    it('should include data points of any channel', () => {
+      const result = buildEnergySummary({
+        home: series([]),
+        car: series([]),
+        solar: series([[7200, 1]]),
+        grid: { consumption: series([]), feedIn: series([[7200, 1]]) },
+        battery: { charge: series([]), discharge: series([]) },
+      });
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]).toMatchObject({ timestamp: 7200, autarky: null, selfConsumption: 0 });
+    });
+  });
+});
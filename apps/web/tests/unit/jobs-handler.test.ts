@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleJobsRequest, handleReaggregateRequest } from '@/lib/api/jobs-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { JobRun } from '@/types/jobs';
+
+vi.mock('@/lib/services/service-container');
+
+describe('jobs handlers', () => {
+  const completedRun: JobRun = {
+    id: 3,
+    trigger: 'manual',
+    status: 'completed',
+    site_id: 2,
+    range_start: 3600,
+    range_end: 7200,
+    started_at: 10000,
+    finished_at: 10002,
+    buckets_processed: 60,
+    error: null,
+  };
+
+  let aggregationJobRepository: { getRuns: ReturnType<typeof vi.fn>; getCursors: ReturnType<typeof vi.fn> };
+  let jobLockRepository: { getLock: ReturnType<typeof vi.fn> };
+  let aggregationJob: { reaggregate: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JOBS_API_TOKEN', 'secret-token');
+    aggregationJobRepository = {
+      getRuns: vi.fn().mockResolvedValue([completedRun]),
+      getCursors: vi.fn().mockResolvedValue([
+        { site_id: 1, last_processed_timestamp: 9900, last_ingested_at: 9950, readings_purged_before: 0, car_sessions_stale_from: null, last_run_at: 9950, status: 'completed' },
+      ]),
+    };
+    jobLockRepository = { getLock: vi.fn().mockResolvedValue(null) };
+    aggregationJob = { reaggregate: vi.fn().mockResolvedValue(completedRun) };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      aggregationJobRepository,
+      jobLockRepository,
+      aggregationJob,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function createReaggregateRequest(body: unknown, token: string | null = 'secret-token'): NextRequest {
+    return new NextRequest(new URL('/api/jobs/reaggregate', 'http://localhost:3000'), {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('handleJobsRequest', () => {
+    it('should return runs, cursors and the lock', async () => {
+      const response = await handleJobsRequest(
+        new NextRequest(new URL('/api/jobs?limit=10&offset=5', 'http://localhost:3000'))
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(aggregationJobRepository.getRuns).toHaveBeenCalledWith(10, 5);
+      expect(jobLockRepository.getLock).toHaveBeenCalledWith('energy-aggregation');
+      expect(data.runs).toEqual([completedRun]);
+      expect(data.cursors).toHaveLength(1);
+      expect(data.lock).toBeNull();
+    });
+
+    it('should reject an invalid limit', async () => {
+      const response = await handleJobsRequest(
+        new NextRequest(new URL('/api/jobs?limit=0', 'http://localhost:3000'))
+      );
+
+      expect(response.status).toBe(400);
+      expect(aggregationJobRepository.getRuns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleReaggregateRequest', () => {
+    it('should re-aggregate the requested range of a site', async () => {
+      const response = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200, site: 2 }));
+
+      expect(response.status).toBe(200);
+      expect(aggregationJob.reaggregate).toHaveBeenCalledWith(3600, 7200, 2);
+      expect(await response.json()).toEqual(completedRun);
+    });
+
+    it('should default to the default site', async () => {
+      await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200 }));
+
+      expect(aggregationJob.reaggregate).toHaveBeenCalledWith(3600, 7200, 1);
+    });
+
+    it('should reject requests without a valid token', async () => {
+      const missing = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200 }, null));
+      const wrong = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200 }, 'wrong'));
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(aggregationJob.reaggregate).not.toHaveBeenCalled();
+    });
+
+    it('should be unavailable without a configured token', async () => {
+      vi.stubEnv('JOBS_API_TOKEN', '');
+
+      const response = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200 }));
+
+      expect(response.status).toBe(503);
+    });
+
+    it('should reject an invalid range', async () => {
+      const reversed = await handleReaggregateRequest(createReaggregateRequest({ from: 7200, to: 3600 }));
+      const missing = await handleReaggregateRequest(createReaggregateRequest({ from: 3600 }));
+      const invalidSite = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200, site: 0 }));
+
+      expect(reversed.status).toBe(400);
+      expect(missing.status).toBe(400);
+      expect(invalidSite.status).toBe(400);
+      expect(aggregationJob.reaggregate).not.toHaveBeenCalled();
+    });
+
+    it('should respond with conflict while another run holds the lock', async () => {
+      aggregationJob.reaggregate.mockResolvedValue({ ...completedRun, status: 'skipped', buckets_processed: 0 });
+
+      const response = await handleReaggregateRequest(createReaggregateRequest({ from: 3600, to: 7200 }));
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).run.status).toBe('skipped');
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  createLiveEnergyStream,
+  handleLiveEnergyRequest,
+  parseLastEventId,
+  LIVE_HISTORY_LIMIT,
+} from '@/lib/api/live-energy-handler';
+import { getLiveReadingHub } from '@/lib/live/live-reading-hub';
+import type { LiveReadingHub, LiveReadingListener } from '@/lib/live/live-reading-hub';
+import { getPollingReadingHub } from '@/lib/live/polling-reading-hub';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { EnergyService } from '@/lib/services/energy-service';
+import type { EnergyHistoryEntry, EnergyReading } from '@/types/energy';
+import type { LiveEnergySnapshot, LiveReading } from '@/types/live';
+
+vi.mock('@/lib/services/service-container');
+vi.mock('@/lib/live/live-reading-hub');
+vi.mock('@/lib/live/polling-reading-hub');
+
+interface SseEvent {
+  id: string | null;
+  event: string;
+  data: unknown;
+}
+
+function createReading(timestamp: number, meterId: number | null = null): EnergyReading {
+  return {
+    id: timestamp,
+    timestamp,
+    home: 1000,
+    grid: 500,
+    car: 0,
+    solar: 500,
+    battery: 0,
+    battery_soc: null,
+    meter_id: meterId,
+    created_at: timestamp,
+  };
+}
+
+function toLiveReading(timestamp: number, meterId: number | null, home: number): LiveReading {
+  return { ...toEntry(timestamp), home, meter_id: meterId };
+}
+
+function toEntry(timestamp: number): EnergyHistoryEntry {
+  const { home, grid, car, solar, battery, battery_soc } = createReading(timestamp);
+  return { timestamp, home, grid, car, solar, battery, battery_soc };
+}
+
+function parseEvents(text: string): SseEvent[] {
+  return text
+    .split('\n\n')
+    .filter((block) => block.includes('data: '))
+    .map((block) => {
+      const lines = block.split('\n');
+      const field = (name: string) =>
+        lines.find((line) => line.startsWith(`${name}: `))?.slice(name.length + 2) ?? null;
+      return {
+        id: field('id'),
+        event: field('event') ?? 'message',
+        data: JSON.parse(field('data') ?? 'null'),
+      };
+    });
+}
+
+/**
+ * Reads the stream in the background; read() returns the text received since the previous call.
+ */
+function collect(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const decoder = new TextDecoder();
+  let text = '';
+  (async () => {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) {
+        return;
+      }
+      text += decoder.decode(result.value);
+    }
+  })();
+
+  return {
+    async read(): Promise<string> {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const received = text;
+      text = '';
+      return received;
+    },
+  };
+}
+
+describe('createLiveEnergyStream', () => {
+  let listener: LiveReadingListener | null;
+  let unsubscribe: Mock<() => Promise<void>>;
+  let hub: { subscribe: Mock<LiveReadingHub['subscribe']> };
+  let energyService: { getReadings: Mock<EnergyService['getReadings']> };
+  let abortController: AbortController;
+
+  beforeEach(() => {
+    listener = null;
+    unsubscribe = vi.fn().mockResolvedValue(undefined);
+    hub = {
+      subscribe: vi.fn(async (_siteId: number, newListener: LiveReadingListener) => {
+        listener = newListener;
+        return unsubscribe;
+      }),
+    };
+    energyService = {
+      getReadings: vi.fn().mockResolvedValue([]),
+    };
+    abortController = new AbortController();
+  });
+
+  function openStream(lastEventId: string | null = null, siteId: number = 1) {
+    return createLiveEnergyStream({
+      siteId,
+      lastEventId: parseLastEventId(lastEventId),
+      energyService,
+      hub,
+      signal: abortController.signal,
+      heartbeatIntervalMs: 60000,
+    }).getReader();
+  }
+
+  it('should send a snapshot of the latest readings to new clients', async () => {
+    energyService.getReadings.mockResolvedValue([createReading(1020), createReading(1010)]);
+
+    const events = parseEvents(await collect(openStream(null, 2)).read());
+
+    expect(hub.subscribe).toHaveBeenCalledWith(2, expect.any(Function));
+    expect(energyService.getReadings).toHaveBeenCalledWith(LIVE_HISTORY_LIMIT, 0, undefined, undefined, 2);
+    expect(events).toHaveLength(1);
+    expect(events[0].event).toBe('snapshot');
+    expect(events[0].id).toBe('1020');
+    const snapshot = events[0].data as LiveEnergySnapshot;
+    expect(snapshot.current.timestamp).toBe(1020);
+    expect(snapshot.history).toEqual([toEntry(1020), toEntry(1010)]);
+  });
+
+  it('should forward published readings as deltas with their timestamp as id', async () => {
+    energyService.getReadings.mockResolvedValue([createReading(1000)]);
+    const stream = collect(openStream());
+    await stream.read();
+
+    listener!(toEntry(1001));
+    listener!(toEntry(1001));
+    listener!(toEntry(1002));
+
+    const events = parseEvents(await stream.read());
+    expect(events.map((event) => event.event)).toEqual(['reading', 'reading']);
+    expect(events.map((event) => event.id)).toEqual(['1001', '1002']);
+    expect(events[1].data).toEqual(toEntry(1002));
+    // Live readings never hit the database
+    expect(energyService.getReadings).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay only the missed readings in order when resuming with Last-Event-ID', async () => {
+    energyService.getReadings.mockResolvedValue([createReading(1030), createReading(1020)]);
+
+    const events = parseEvents(await collect(openStream('1010')).read());
+
+    expect(energyService.getReadings).toHaveBeenCalledWith(LIVE_HISTORY_LIMIT + 1, 0, 1010, undefined, 1);
+    expect(events.map((event) => event.event)).toEqual(['reading', 'reading']);
+    expect(events.map((event) => event.id)).toEqual(['1020', '1030']);
+  });
+
+  it('should send a fresh snapshot when the client is too far behind', async () => {
+    const missed = Array.from({ length: LIVE_HISTORY_LIMIT + 1 }, (_, index) => createReading(5000 - index));
+    energyService.getReadings.mockResolvedValue(missed);
+
+    const events = parseEvents(await collect(openStream('100')).read());
+
+    expect(events).toHaveLength(1);
+    expect(events[0].event).toBe('snapshot');
+    expect((events[0].data as LiveEnergySnapshot).history).toHaveLength(LIVE_HISTORY_LIMIT);
+    expect(events[0].id).toBe('5000');
+  });
+
+  it('should forward readings published while the backlog loads without duplicates', async () => {
+    let resolveReadings: (readings: EnergyReading[]) => void = () => {};
+    energyService.getReadings.mockReturnValue(
+      new Promise<EnergyReading[]>((resolve) => {
+        resolveReadings = resolve;
+      })
+    );
+    const stream = collect(openStream());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    listener!(toEntry(1010));
+    listener!(toEntry(1011));
+    resolveReadings([createReading(1010), createReading(1000)]);
+
+    const events = parseEvents(await stream.read());
+    expect(events.map((event) => `${event.event}:${event.id}`)).toEqual(['snapshot:1010', 'reading:1011']);
+  });
+
+  it('should combine the readings of all meters of the site', async () => {
+    energyService.getReadings.mockResolvedValue([createReading(1010, 2), createReading(1010, 1), createReading(1009, 2)]);
+    const stream = collect(openStream());
+
+    const [snapshot] = parseEvents(await stream.read());
+    expect(snapshot.id).toBe('2:1010,1:1010');
+    // The second before both meters reported is left out, it would lack the first meter
+    expect((snapshot.data as LiveEnergySnapshot).history).toEqual([{ ...toEntry(1010), home: 2000, grid: 1000, solar: 1000 }]);
+
+    // Both meters reporting the same second are forwarded, each updating the site reading of that second
+    listener!(toLiveReading(1011, 1, 300));
+    listener!(toLiveReading(1011, 2, 400));
+    listener!(toLiveReading(1011, 2, 400));
+
+    const events = parseEvents(await stream.read());
+    expect(events.map((event) => event.id)).toEqual(['2:1010,1:1011', '2:1011,1:1011']);
+    expect(events.map((event) => (event.data as EnergyHistoryEntry).home)).toEqual([1300, 700]);
+  });
+
+  it('should resume each meter from its own position', async () => {
+    // The second meter stored its readings late, the client received the first meter up to 1012
+    energyService.getReadings.mockResolvedValue([
+      createReading(1012, 1),
+      createReading(1011, 2),
+      createReading(1010, 2),
+      createReading(1010, 1),
+    ]);
+
+    const events = parseEvents(await collect(openStream('1:1012,2:1010')).read());
+
+    expect(energyService.getReadings).toHaveBeenCalledWith(LIVE_HISTORY_LIMIT + 1, 0, 1010, undefined, 1);
+    expect(events.map((event) => event.id)).toEqual(['1:1012,2:1011']);
+    expect(events[0].data).toEqual({ ...toEntry(1011), home: 2000, grid: 1000, solar: 1000 });
+  });
+
+  it('should unsubscribe when the client disconnects', async () => {
+    const reader = openStream();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    abortController.abort();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    await reader.read(); // retry
+    await reader.read(); // snapshot
+    const result = await reader.read();
+    expect(result.done).toBe(true);
+  });
+
+  it('should disconnect clients that do not keep up instead of buffering', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const reader = openStream();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Nothing is read from the stream, so its queue fills up
+    for (let timestamp = 2000; timestamp < 2100; timestamp++) {
+      listener!(toEntry(timestamp));
+    }
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    const events = parseEvents(await collect(reader).read());
+    expect(events.length).toBeLessThan(100);
+    warn.mockRestore();
+  });
+});
+
+describe('handleLiveEnergyRequest', () => {
+  const energyService = { getReadings: vi.fn().mockResolvedValue([createReading(1000)]) };
+  const pollingHub = { subscribe: vi.fn().mockResolvedValue(vi.fn().mockResolvedValue(undefined)) };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createServiceContainer).mockReturnValue({
+      energyService,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+    vi.mocked(getPollingReadingHub).mockReturnValue(pollingHub as never);
+  });
+
+  it('should poll the database for live readings when Redis is not configured', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getLiveReadingHub).mockImplementation(() => {
+      throw new Error('REDIS_URL environment variable is not set.');
+    });
+    const abortController = new AbortController();
+    const request = new NextRequest(new URL('/api/energy?site=3', 'http://localhost:3000'), {
+      signal: abortController.signal,
+    });
+
+    const response = await handleLiveEnergyRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(getPollingReadingHub).toHaveBeenCalledWith(energyService);
+    const events = parseEvents(await collect(response.body!.getReader()).read());
+    expect(pollingHub.subscribe).toHaveBeenCalledWith(3, expect.any(Function));
+    expect(events.map((event) => event.event)).toEqual(['snapshot']);
+    abortController.abort();
+    warn.mockRestore();
+  });
+
+  it('should reject invalid site parameters', async () => {
+    const response = await handleLiveEnergyRequest(
+      new NextRequest(new URL('/api/energy?site=abc', 'http://localhost:3000'))
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('parseLastEventId', () => {
+  it('should parse reading timestamps', () => {
+    expect(parseLastEventId('1704067200')).toEqual(new Map([[null, 1704067200]]));
+  });
+
+  it('should parse reading timestamps per meter', () => {
+    expect(parseLastEventId('1:1704067200,2:1704067199')).toEqual(
+      new Map([
+        [1, 1704067200],
+        [2, 1704067199],
+      ])
+    );
+  });
+
+  it('should ignore missing or invalid ids', () => {
+    expect(parseLastEventId(null)).toBeNull();
+    expect(parseLastEventId('')).toBeNull();
+    expect(parseLastEventId('abc')).toBeNull();
+    expect(parseLastEventId('-5')).toBeNull();
+    expect(parseLastEventId('1:')).toBeNull();
+    expect(parseLastEventId('1:2:3')).toBeNull();
+  });
+});
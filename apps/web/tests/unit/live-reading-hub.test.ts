@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LiveReadingHub } from '@/lib/live/live-reading-hub';
+import type { createClient } from 'redis';
+
+describe('LiveReadingHub', () => {
+  let handlers: Map<string, (message: string) => void>;
+  let subscriber: { subscribe: ReturnType<typeof vi.fn>; unsubscribe: ReturnType<typeof vi.fn> };
+  let hub: LiveReadingHub;
+
+  const reading = {
+    timestamp: 1704067200,
+    home: 1000,
+    grid: 200,
+    car: 0,
+    solar: 800,
+    battery: 0,
+    battery_soc: null,
+  };
+
+  beforeEach(() => {
+    handlers = new Map();
+    subscriber = {
+      subscribe: vi.fn(async (channel: string, handler: (message: string) => void) => {
+        handlers.set(channel, handler);
+      }),
+      unsubscribe: vi.fn(async (channel: string) => {
+        handlers.delete(channel);
+      }),
+    };
+    hub = new LiveReadingHub(subscriber as unknown as ReturnType<typeof createClient>);
+  });
+
+  it('should share one channel subscription between listeners of a site', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    await hub.subscribe(2, first);
+    await hub.subscribe(2, second);
+    handlers.get('energy:live:2')!(JSON.stringify(reading));
+
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe).toHaveBeenCalledWith('energy:live:2', expect.any(Function));
+    expect(first).toHaveBeenCalledWith(reading);
+    expect(second).toHaveBeenCalledWith(reading);
+  });
+
+  it('should unsubscribe the channel when the last listener leaves', async () => {
+    const unsubscribeFirst = await hub.subscribe(1, vi.fn());
+    const unsubscribeSecond = await hub.subscribe(1, vi.fn());
+
+    await unsubscribeFirst();
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+    await unsubscribeSecond();
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith('energy:live:1', expect.any(Function));
+  });
+
+  it('should only deliver readings of the subscribed site', async () => {
+    const listener = vi.fn();
+    await hub.subscribe(1, listener);
+    await hub.subscribe(2, vi.fn());
+
+    handlers.get('energy:live:2')!(JSON.stringify(reading));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should ignore malformed messages', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    await hub.subscribe(1, listener);
+
+    handlers.get('energy:live:1')!('not json');
+
+    expect(listener).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
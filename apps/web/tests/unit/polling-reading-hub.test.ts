@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import { PollingReadingHub } from '@/lib/live/polling-reading-hub';
+import type { EnergyService } from '@/lib/services/energy-service';
+import type { EnergyReading } from '@/types/energy';
+
+function createReading(timestamp: number, id: number = timestamp, meterId: number | null = null): EnergyReading {
+  return {
+    id,
+    timestamp,
+    home: 1000,
+    grid: 500,
+    car: 0,
+    solar: 500,
+    battery: 0,
+    battery_soc: null,
+    meter_id: meterId,
+    created_at: timestamp,
+  };
+}
+
+describe('PollingReadingHub', () => {
+  let energyService: {
+    getLatestReadingId: Mock<EnergyService['getLatestReadingId']>;
+    getReadingsAfterId: Mock<EnergyService['getReadingsAfterId']>;
+  };
+  let hub: PollingReadingHub;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    energyService = {
+      getLatestReadingId: vi.fn().mockResolvedValue(1000),
+      getReadingsAfterId: vi.fn().mockResolvedValue([]),
+    };
+    hub = new PollingReadingHub(energyService, 2000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deliver readings stored after subscribing in order', async () => {
+    const listener = vi.fn();
+    await hub.subscribe(2, listener);
+    expect(energyService.getLatestReadingId).toHaveBeenCalledWith(2);
+
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1001), createReading(1002)]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(energyService.getReadingsAfterId).toHaveBeenLastCalledWith(1000, 100, 2);
+    expect(listener.mock.calls.map(([reading]) => reading.timestamp)).toEqual([1001, 1002]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(energyService.getReadingsAfterId).toHaveBeenLastCalledWith(1002, 100, 2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should deliver readings a meter stores after newer readings of another meter', async () => {
+    const listener = vi.fn();
+    await hub.subscribe(2, listener);
+
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1010, 1001, 1)]);
+    await vi.advanceTimersByTimeAsync(2000);
+    // The second meter flushes its batch later, with readings older than the first meter's
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1009, 1002, 2), createReading(1010, 1003, 2)]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(energyService.getReadingsAfterId).toHaveBeenLastCalledWith(1001, 100, 2);
+    expect(listener.mock.calls.map(([reading]) => `${reading.meter_id}:${reading.timestamp}`)).toEqual([
+      '1:1010',
+      '2:1009',
+      '2:1010',
+    ]);
+  });
+
+  it('should deliver every reading of a site that had no readings when subscribing', async () => {
+    energyService.getLatestReadingId.mockResolvedValueOnce(null);
+    const listener = vi.fn();
+    await hub.subscribe(2, listener);
+
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1000, 1)]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(energyService.getReadingsAfterId).toHaveBeenLastCalledWith(0, 100, 2);
+    expect(listener).toHaveBeenCalledWith(createReading(1000, 1));
+  });
+
+  it('should poll a site once for all its listeners', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    await hub.subscribe(1, first);
+    await hub.subscribe(1, second);
+
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1001)]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(energyService.getLatestReadingId).toHaveBeenCalledTimes(1);
+    expect(energyService.getReadingsAfterId).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(createReading(1001));
+    expect(second).toHaveBeenCalledWith(createReading(1001));
+  });
+
+  it('should stop polling when the last listener leaves', async () => {
+    const unsubscribeFirst = await hub.subscribe(1, vi.fn());
+    const unsubscribeSecond = await hub.subscribe(1, vi.fn());
+
+    await unsubscribeFirst();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(energyService.getReadingsAfterId).toHaveBeenCalledTimes(1);
+
+    await unsubscribeSecond();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(energyService.getReadingsAfterId).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep polling after a failed query', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    await hub.subscribe(1, listener);
+
+    energyService.getReadingsAfterId.mockRejectedValueOnce(new Error('connection lost'));
+    await vi.advanceTimersByTimeAsync(2000);
+    energyService.getReadingsAfterId.mockResolvedValueOnce([createReading(1001)]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(createReading(1001));
+    error.mockRestore();
+  });
+});
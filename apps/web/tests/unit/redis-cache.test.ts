@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient } from 'redis';
+import { RedisCache, parseCachedRange } from '@/lib/cache/redis-cache';
+
+describe('parseCachedRange', () => {
+  it('should find the range of aggregated, flow and cost responses', () => {
+    expect(parseCachedRange('energy:aggregated:1:grid:5m:1000:2000:Europe/Berlin')).toEqual({ from: 1000, to: 2000 });
+    expect(parseCachedRange('energy:aggregated:1:flows:1000:2000')).toEqual({ from: 1000, to: 2000 });
+    expect(parseCachedRange('energy:aggregated:2:costs:hour:1000:2000:UTC')).toEqual({ from: 1000, to: 2000 });
+  });
+
+  it('should return null for keys without a range', () => {
+    expect(parseCachedRange('energy:aggregated:1:summary')).toBeNull();
+  });
+});
+
+describe('RedisCache.invalidateRange', () => {
+  const keys = [
+    'energy:aggregated:1:grid:hour:0:3600:UTC',
+    'energy:aggregated:1:flows:3600:7200',
+    'energy:aggregated:1:costs:day:7200:10800:UTC',
+    'energy:aggregated:1:summary',
+  ];
+  let client: { scan: ReturnType<typeof vi.fn>; del: ReturnType<typeof vi.fn> };
+  let cache: RedisCache;
+
+  beforeEach(() => {
+    client = {
+      scan: vi.fn().mockResolvedValue({ cursor: 0, keys }),
+      del: vi.fn().mockResolvedValue(1),
+    };
+    cache = new RedisCache(client as unknown as ReturnType<typeof createClient>);
+  });
+
+  it('should delete the responses of the site overlapping the range and those without a range', async () => {
+    await cache.invalidateRange(1, 3000, 3660);
+
+    expect(client.scan).toHaveBeenCalledWith(0, { MATCH: 'energy:aggregated:1:*', COUNT: 100 });
+    expect(client.del).toHaveBeenCalledWith([keys[0], keys[1], keys[3]]);
+  });
+
+  it('should not touch the cache for empty ranges', async () => {
+    await cache.invalidateRange(1, 3600, 3600);
+
+    expect(client.scan).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { SiteReadingCombiner, combineReadings } from '@/lib/live/site-reading-combiner';
+import type { LiveReading } from '@/types/live';
+
+function reading(timestamp: number, meterId: number | null, home: number, batterySoc: number | null = null): LiveReading {
+  return {
+    timestamp,
+    home,
+    grid: home / 2,
+    car: 0,
+    solar: 0,
+    battery: 0,
+    battery_soc: batterySoc,
+    meter_id: meterId,
+  };
+}
+
+describe('SiteReadingCombiner', () => {
+  it('should sum the latest reading of every meter', () => {
+    const combiner = new SiteReadingCombiner();
+
+    expect(combiner.add(reading(1000, 1, 100))?.home).toBe(100);
+    expect(combiner.add(reading(1000, 2, 200))).toMatchObject({ timestamp: 1000, home: 300, grid: 150 });
+    expect(combiner.add(reading(1001, 1, 50))).toMatchObject({ timestamp: 1001, home: 250 });
+    expect(combiner.cursor()).toEqual(
+      new Map([
+        [1, 1001],
+        [2, 1000],
+      ])
+    );
+  });
+
+  it('should drop readings a meter already had', () => {
+    const combiner = new SiteReadingCombiner(new Map([[1, 1000]]));
+
+    expect(combiner.add(reading(1000, 1, 100))).toBeNull();
+    expect(combiner.add(reading(999, 1, 100))).toBeNull();
+    expect(combiner.add(reading(1000, 2, 200))?.home).toBe(200);
+  });
+
+  it('should include seeded readings without sending them again', () => {
+    const combiner = new SiteReadingCombiner(new Map([[1, 1000]]));
+
+    combiner.seed(reading(1000, 1, 100));
+
+    expect(combiner.add(reading(1000, 1, 100))).toBeNull();
+    expect(combiner.add(reading(1001, 2, 200))?.home).toBe(300);
+  });
+
+  it('should average the state of charge over the meters reporting one', () => {
+    const combiner = new SiteReadingCombiner();
+
+    combiner.add(reading(1000, 1, 100, 40));
+    combiner.add(reading(1000, 2, 100, null));
+
+    expect(combiner.add(reading(1000, 3, 100, 60))?.battery_soc).toBe(50);
+  });
+});
+
+describe('combineReadings', () => {
+  it('should return one site reading per second once every meter reported', () => {
+    const combiner = new SiteReadingCombiner();
+
+    const history = combineReadings(
+      [reading(1002, 1, 100), reading(1001, 2, 200), reading(1001, 1, 50), reading(1000, 1, 10)],
+      combiner
+    );
+
+    expect(history.map((entry) => [entry.timestamp, entry.home])).toEqual([
+      [1002, 300],
+      [1001, 250],
+    ]);
+    expect(combiner.cursor()).toEqual(
+      new Map([
+        [1, 1002],
+        [2, 1001],
+      ])
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleSpotPriceImportRequest, handleSpotPricesRequest } from '@/lib/api/spot-prices-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('spot prices handlers', () => {
+  let mockSpotPriceRepository: {
+    getSpotPrices: ReturnType<typeof vi.fn>;
+    upsertSpotPrices: ReturnType<typeof vi.fn>;
+  };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+  let mockCache: { invalidatePattern: ReturnType<typeof vi.fn> };
+
+  const prices = [{ starts_at: 1767225600, ends_at: 1767229200, price: 0.0955 }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSpotPriceRepository = {
+      getSpotPrices: vi.fn().mockResolvedValue(prices),
+      upsertSpotPrices: vi.fn((_siteId: number, entries: unknown[]) => Promise.resolve(entries.length)),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'Europe/Berlin', meters: [] })
+      ),
+    };
+    mockCache = { invalidatePattern: vi.fn().mockResolvedValue(undefined) };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      spotPriceRepository: mockSpotPriceRepository,
+      siteRepository: mockSiteRepository,
+      cache: mockCache,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  function createImportRequest(url: string, body: string): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'), { method: 'POST', body });
+  }
+
+  describe('handleSpotPricesRequest', () => {
+    it('should return the prices of the requested range and site', async () => {
+      const request = new NextRequest(
+        new URL('/api/energy/spot-prices?start=1767225600&end=1767312000&site=2', 'http://localhost:3000')
+      );
+      const response = await handleSpotPricesRequest(request);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ prices });
+      expect(mockSpotPriceRepository.getSpotPrices).toHaveBeenCalledWith(1767225600, 1767312000, 2);
+    });
+  });
+
+  describe('handleSpotPriceImportRequest', () => {
+    it('should import the prices of the file and invalidate cached costs', async () => {
+      const body = JSON.stringify({
+        data: [{ start_timestamp: 1767225600000, end_timestamp: 1767229200000, marketprice: 95.5, unit: 'Eur/MWh' }],
+      });
+      const response = await handleSpotPriceImportRequest(createImportRequest('/api/energy/spot-prices?site=2', body));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ imported: 1, from: 1767225600, to: 1767229200 });
+      expect(mockSpotPriceRepository.upsertSpotPrices).toHaveBeenCalledWith(2, [
+        { starts_at: 1767225600, ends_at: 1767229200, price: 0.0955 },
+      ]);
+      expect(mockCache.invalidatePattern).toHaveBeenCalledWith('energy:aggregated:2:costs:*');
+    });
+
+    it('should return 400 for invalid files', async () => {
+      const response = await handleSpotPriceImportRequest(
+        createImportRequest('/api/energy/spot-prices', 'start,price\nyesterday,1')
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/^Invalid price file: Invalid start/);
+      expect(mockSpotPriceRepository.upsertSpotPrices).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown site', async () => {
+      mockSiteRepository.getSite.mockResolvedValue(null);
+
+      const response = await handleSpotPriceImportRequest(
+        createImportRequest('/api/energy/spot-prices?site=9', 'start,price\n1767225600,0.1')
+      );
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Site 9 not found' });
+    });
+
+    it('should return 500 when writing fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSpotPriceRepository.upsertSpotPrices.mockRejectedValue(new Error('Database error'));
+
+      const response = await handleSpotPriceImportRequest(
+        createImportRequest('/api/energy/spot-prices', 'start,price\n1767225600,0.1')
+      );
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Failed to import spot prices' });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { createSpotPriceLookup, parseSpotPriceFile } from '@/lib/spot-prices';
+
+// 2026-10-19 00:00 and 01:00 UTC
+const HOUR_0 = 1792368000;
+const HOUR_1 = HOUR_0 + 3600;
+
+describe('spot-prices', () => {
+  describe('parseSpotPriceFile', () => {
+    it('should parse aWATTar JSON exports in €/MWh', () => {
+      const content = JSON.stringify({
+        object: 'list',
+        data: [
+          { start_timestamp: HOUR_1 * 1000, end_timestamp: (HOUR_1 + 3600) * 1000, marketprice: 95.5, unit: 'Eur/MWh' },
+          { start_timestamp: HOUR_0 * 1000, end_timestamp: HOUR_1 * 1000, marketprice: -12.3, unit: 'Eur/MWh' },
+        ],
+        url: '/at/v1/marketdata',
+      });
+
+      const prices = parseSpotPriceFile(content);
+
+      expect(prices.map((price) => [price.starts_at, price.ends_at])).toEqual([
+        [HOUR_0, HOUR_1],
+        [HOUR_1, HOUR_1 + 3600],
+      ]);
+      expect(prices[0].price).toBeCloseTo(-0.0123);
+      expect(prices[1].price).toBeCloseTo(0.0955);
+    });
+
+    it('should parse Tibber API responses and derive the interval', () => {
+      const content = JSON.stringify({
+        data: {
+          viewer: {
+            homes: [{
+              currentSubscription: {
+                priceInfo: {
+                  today: [
+                    { total: 0.31, energy: 0.1012, tax: 0.2088, startsAt: '2026-10-19T02:00:00.000+02:00' },
+                    { total: 0.3, energy: 0.0921, tax: 0.2079, startsAt: '2026-10-19T02:15:00.000+02:00' },
+                  ],
+                },
+              },
+            }],
+          },
+        },
+      });
+
+      const prices = parseSpotPriceFile(content);
+
+      expect(prices).toEqual([
+        { starts_at: HOUR_0, ends_at: HOUR_0 + 900, price: 0.1012 },
+        { starts_at: HOUR_0 + 900, ends_at: HOUR_0 + 1800, price: 0.0921 },
+      ]);
+    });
+
+    it('should parse CSV files with units in the header', () => {
+      const content = [
+        'start_timestamp,end_timestamp,marketprice (Eur/MWh)',
+        `${HOUR_0 * 1000},${HOUR_1 * 1000},80.1`,
+        `${HOUR_1 * 1000},${(HOUR_1 + 3600) * 1000},90`,
+      ].join('\n');
+
+      const prices = parseSpotPriceFile(content);
+      expect(prices[0].price).toBeCloseTo(0.0801);
+      expect(prices[1].price).toBeCloseTo(0.09);
+    });
+
+    it('should parse semicolon CSV files with decimal commas and ISO dates', () => {
+      const content = 'startsAt;energy\r\n2026-10-19T00:00:00Z;0,1012\r\n2026-10-19T01:00:00Z;0,0921\r\n';
+
+      expect(parseSpotPriceFile(content)).toEqual([
+        { starts_at: HOUR_0, ends_at: HOUR_1, price: 0.1012 },
+        { starts_at: HOUR_1, ends_at: HOUR_1 + 3600, price: 0.0921 },
+      ]);
+    });
+
+    it('should convert cent prices', () => {
+      const content = `start,price (ct/kWh)\n${HOUR_0},10.5`;
+
+      const [price] = parseSpotPriceFile(content);
+      expect(price.price).toBeCloseTo(0.105);
+      expect(price.ends_at).toBe(HOUR_1);
+    });
+
+    it('should reject invalid files', () => {
+      expect(() => parseSpotPriceFile('')).toThrow('The file contains no prices');
+      expect(() => parseSpotPriceFile('{"data": [')).toThrow('The file is not valid JSON');
+      expect(() => parseSpotPriceFile('{"data": []}')).toThrow('The file contains no prices');
+      expect(() => parseSpotPriceFile('start,price')).toThrow(/header row and at least one price/);
+      expect(() => parseSpotPriceFile('start,value\n0,1')).toThrow(/needs a start/);
+      expect(() => parseSpotPriceFile('start,price\nyesterday,1')).toThrow(/Invalid start "yesterday"/);
+      expect(() => parseSpotPriceFile('start,price\n0,n/a')).toThrow('Invalid price "n/a"');
+      expect(() => parseSpotPriceFile(`start,end,price\n${HOUR_1},${HOUR_0},1`)).toThrow(/ends before it starts/);
+    });
+  });
+
+  describe('createSpotPriceLookup', () => {
+    it('should find the price of the interval containing a timestamp', () => {
+      const getSpotPrice = createSpotPriceLookup([
+        { starts_at: HOUR_1, ends_at: HOUR_1 + 3600, price: 0.2 },
+        { starts_at: HOUR_0, ends_at: HOUR_0 + 1800, price: 0.1 },
+      ]);
+
+      expect(getSpotPrice(HOUR_0)).toBe(0.1);
+      expect(getSpotPrice(HOUR_0 + 1799)).toBe(0.1);
+      // Gap between the intervals
+      expect(getSpotPrice(HOUR_0 + 1800)).toBeNull();
+      expect(getSpotPrice(HOUR_1 + 3599)).toBe(0.2);
+      expect(getSpotPrice(HOUR_0 - 1)).toBeNull();
+      expect(getSpotPrice(HOUR_1 + 3600)).toBeNull();
+      expect(createSpotPriceLookup([])(HOUR_0)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { handleTariffComparisonRequest } from '@/lib/api/tariff-comparison-handler';
+import { createServiceContainer } from '@/lib/services/service-container';
+import type { TariffCandidate, TariffComparisonResponse } from '@/types/energy';
+
+// Mock the service container
+vi.mock('@/lib/services/service-container');
+
+describe('handleTariffComparisonRequest', () => {
+  let mockEnergyService: { compareTariffs: ReturnType<typeof vi.fn> };
+  let mockSiteRepository: { getSite: ReturnType<typeof vi.fn> };
+
+  const candidate: TariffCandidate = {
+    name: 'Night rate',
+    producing_price: 0.08,
+    consuming_periods: [{ start_time: 0, end_time: 0, price: 0.25 }],
+  };
+  const mockComparison: TariffComparisonResponse = { from: 1759276800, to: 1790812800, tariffs: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnergyService = {
+      compareTariffs: vi.fn().mockResolvedValue(mockComparison),
+    };
+    mockSiteRepository = {
+      getSite: vi.fn((id: number) =>
+        Promise.resolve({ id, name: 'Home', created_at: 0, timezone: 'UTC', meters: [] })
+      ),
+    };
+    vi.mocked(createServiceContainer).mockReturnValue({
+      energyService: mockEnergyService,
+      siteRepository: mockSiteRepository,
+    } as unknown as ReturnType<typeof createServiceContainer>);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createMockRequest(url: string, body: unknown): NextRequest {
+    return new NextRequest(new URL(url, 'http://localhost:3000'), {
+      method: 'POST',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('should compare the tariffs over the requested range of the site', async () => {
+    const request = createMockRequest('/api/energy/tariff-comparison?site=2', {
+      tariffs: [candidate],
+      start: 1759276800,
+      end: 1761955200,
+    });
+    const response = await handleTariffComparisonRequest(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(mockComparison);
+    expect(mockEnergyService.compareTariffs).toHaveBeenCalledWith(1759276800, 1761955200, [candidate], 2, 'UTC');
+  });
+
+  it('should default to the twelve whole months before the current month', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+
+    const request = createMockRequest('/api/energy/tariff-comparison', { tariffs: [candidate] });
+    await handleTariffComparisonRequest(request);
+
+    expect(mockEnergyService.compareTariffs).toHaveBeenCalledWith(1759276800, 1790812800, [candidate], 1, 'UTC');
+  });
+
+  it('should return 400 for invalid tariffs', async () => {
+    const noTariffs = await handleTariffComparisonRequest(
+      createMockRequest('/api/energy/tariff-comparison', { tariffs: [] })
+    );
+    expect(noTariffs.status).toBe(400);
+
+    const invalid = await handleTariffComparisonRequest(
+      createMockRequest('/api/energy/tariff-comparison', { tariffs: [{ ...candidate, producing_price: -1 }] })
+    );
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({
+      error: 'Tariff "Night rate": producing_price must be a non-negative number',
+    });
+    expect(mockEnergyService.compareTariffs).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid body or range', async () => {
+    const notJson = await handleTariffComparisonRequest(createMockRequest('/api/energy/tariff-comparison', '{'));
+    expect(notJson.status).toBe(400);
+
+    const reversed = await handleTariffComparisonRequest(
+      createMockRequest('/api/energy/tariff-comparison', { tariffs: [candidate], start: 2000, end: 1000 })
+    );
+    expect(reversed.status).toBe(400);
+
+    const tooLong = await handleTariffComparisonRequest(
+      createMockRequest('/api/energy/tariff-comparison', { tariffs: [candidate], start: 0, end: 367 * 86400 })
+    );
+    expect(tooLong.status).toBe(400);
+    expect(mockEnergyService.compareTariffs).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown site', async () => {
+    mockSiteRepository.getSite.mockResolvedValue(null);
+
+    const request = createMockRequest('/api/energy/tariff-comparison?site=9', { tariffs: [candidate] });
+    const response = await handleTariffComparisonRequest(request);
+
+    expect(response.status).toBe(404);
+    expect(mockEnergyService.compareTariffs).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the comparison fails', async () => {
+    mockEnergyService.compareTariffs.mockRejectedValue(new Error('Database error'));
+
+    const request = createMockRequest('/api/energy/tariff-comparison', { tariffs: [candidate] });
+    const response = await handleTariffComparisonRequest(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to compare tariffs' });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareTariff,
+  getDefaultComparisonRange,
+  splitComparisonRange,
+  toCandidateSettings,
+  toTariffCandidate,
+  validateTariffCandidate,
+  type ComparisonPart,
+} from '@/lib/tariff-comparison';
+import type { EnergySettings, TariffCandidate } from '@/types/energy';
+
+function toTimestamp(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+function part(iso: string, energy: Partial<ComparisonPart>, minutes = 1): ComparisonPart {
+  const start = toTimestamp(iso);
+  return { start, end: start + minutes * 60, gridImport: 0, gridExport: 0, car: 0, carGrid: 0, carPeak: 0, ...energy };
+}
+
+// Night rate until 06:00, day rate afterwards
+const candidate: TariffCandidate = {
+  name: 'Night rate',
+  producing_price: 0.08,
+  consuming_periods: [
+    { start_time: 0, end_time: 360, price: 0.1 },
+    { start_time: 360, end_time: 0, price: 0.3 },
+  ],
+  base_fee: 20,
+  meter_fee: 10,
+  vat_rate: 0.2,
+};
+
+const september = toTimestamp('2026-09-01T00:00:00Z');
+const november = toTimestamp('2026-11-01T00:00:00Z');
+
+const parts: ComparisonPart[] = [
+  part('2026-09-10T03:00:00Z', { gridImport: 0.5 }),
+  part('2026-09-10T12:00:00Z', { gridImport: 1, car: 1, carGrid: 1, carPeak: 1 }),
+  part('2026-09-10T12:01:00Z', { gridImport: 1, car: 1, carGrid: 1, carPeak: 1 }),
+  part('2026-10-05T10:00:00Z', { gridExport: 2 }),
+];
+
+describe('tariff-comparison', () => {
+  describe('compareTariff', () => {
+    it('should price the energy of each month with the tariff', () => {
+      const result = compareTariff('Night rate', [toCandidateSettings(candidate)], parts, september, november, 'UTC');
+
+      expect(result.name).toBe('Night rate');
+      expect(result.months.map((month) => month.timestamp)).toEqual([september, toTimestamp('2026-10-01T00:00:00Z')]);
+
+      const [sep, oct] = result.months;
+      expect(sep.consumption).toBeCloseTo(2.5);
+      expect(sep.car).toBeCloseTo(2);
+      expect(sep.energyCost).toBeCloseTo(0.5 * 0.1 + 2 * 0.3);
+      expect(sep.fixedFees).toBeCloseTo(30);
+      expect(sep.net).toBeCloseTo(0.65 + 30);
+      expect(sep.gross).toBeCloseTo((0.65 + 30) * 1.2);
+      expect(oct.feedIn).toBeCloseTo(2);
+      expect(oct.feedInRevenue).toBeCloseTo(0.16);
+      // Feed-in revenue carries no VAT
+      expect(oct.net).toBeCloseTo(30 - 0.16);
+      expect(oct.gross).toBeCloseTo(36 - 0.16);
+
+      expect(result.total.consumption).toBeCloseTo(2.5);
+      expect(result.total.fixedFees).toBeCloseTo(60);
+      expect(result.total.net).toBeCloseTo(sep.net + oct.net);
+      expect(result.total.gross).toBeCloseTo(sep.gross + oct.gross);
+    });
+
+    it('should estimate the savings of charging the car in the cheapest minutes of the day', () => {
+      const result = compareTariff('Night rate', [toCandidateSettings(candidate)], parts, september, november, 'UTC');
+
+      // 2 kWh at the day rate, at most 1 kWh per minute: 1 kWh could have been charged at the night rate
+      expect(result.months[0].carCost).toBeCloseTo(0.6);
+      expect(result.months[0].carShiftSavings).toBeCloseTo(0.2);
+      expect(result.total.carShiftSavings).toBeCloseTo(0.2);
+    });
+
+    it('should price parts and prorate fees only while a settings record applies', () => {
+      const history: EnergySettings[] = [{
+        ...toCandidateSettings(candidate),
+        id: 1,
+        start_date: toTimestamp('2026-09-16T00:00:00Z'),
+      }];
+
+      const result = compareTariff('Actual tariff', history, parts, september, november, 'UTC');
+
+      expect(result.months[0].consumption).toBeCloseTo(2.5);
+      expect(result.months[0].energyCost).toBe(0);
+      expect(result.months[0].carShiftSavings).toBe(0);
+      expect(result.months[0].fixedFees).toBeCloseTo(15);
+      expect(result.months[1].fixedFees).toBeCloseTo(30);
+    });
+
+    it('should price dynamic tariffs with the spot price', () => {
+      const dynamic = toCandidateSettings({ ...candidate, tariff_type: 'dynamic', spot_markup: 0.02, grid_fee: 0.1 });
+
+      const result = compareTariff('Spot', [dynamic], parts, september, november, 'UTC', () => 0.05);
+
+      expect(result.months[0].energyCost).toBeCloseTo(2.5 * 0.17);
+    });
+  });
+
+  describe('splitComparisonRange', () => {
+    it('should split the local days where the prices of any tariff may change', () => {
+      const start = toTimestamp('2026-09-09T22:00:00Z');
+      const end = toTimestamp('2026-09-11T22:00:00Z');
+      const nightRate = toCandidateSettings(candidate);
+      const flat = toCandidateSettings({ ...candidate, consuming_periods: [{ start_time: 0, end_time: 0, price: 0.25 }] });
+
+      const result = splitComparisonRange([[flat], [nightRate]], [], start, end, 'Europe/Berlin');
+
+      expect(result.map((entry) => [entry.start, entry.end])).toEqual([
+        [start, toTimestamp('2026-09-10T04:00:00Z')],
+        [toTimestamp('2026-09-10T04:00:00Z'), toTimestamp('2026-09-10T22:00:00Z')],
+        [toTimestamp('2026-09-10T22:00:00Z'), toTimestamp('2026-09-11T04:00:00Z')],
+        [toTimestamp('2026-09-11T04:00:00Z'), end],
+      ]);
+      expect(result[0]).toMatchObject({ gridImport: 0, gridExport: 0, car: 0, carGrid: 0, carPeak: 0 });
+    });
+  });
+
+  describe('getDefaultComparisonRange', () => {
+    it('should cover the twelve whole months before the current month', () => {
+      expect(getDefaultComparisonRange(toTimestamp('2026-10-19T12:00:00Z'), 'UTC')).toEqual({
+        start: toTimestamp('2025-10-01T00:00:00Z'),
+        end: toTimestamp('2026-10-01T00:00:00Z'),
+      });
+    });
+
+    it('should follow the months of the site timezone', () => {
+      expect(getDefaultComparisonRange(toTimestamp('2026-10-19T12:00:00Z'), 'Europe/Berlin')).toEqual({
+        start: toTimestamp('2025-09-30T22:00:00Z'),
+        end: toTimestamp('2026-09-30T22:00:00Z'),
+      });
+    });
+  });
+
+  describe('toTariffCandidate', () => {
+    it('should turn settings into a candidate and back', () => {
+      const settings = toCandidateSettings(candidate);
+      const roundTrip = toTariffCandidate(settings, 'Copy');
+
+      expect(roundTrip.name).toBe('Copy');
+      expect(roundTrip.consuming_periods).toEqual([
+        expect.objectContaining({ start_time: 0, end_time: 360, price: 0.1 }),
+        expect.objectContaining({ start_time: 360, end_time: 0, price: 0.3 }),
+      ]);
+      expect(roundTrip.consuming_periods[0]).not.toHaveProperty('id');
+      expect(roundTrip).toMatchObject({ tariff_type: 'fixed', base_fee: 20, meter_fee: 10, vat_rate: 0.2 });
+    });
+  });
+
+  describe('validateTariffCandidate', () => {
+    it('should accept a valid tariff', () => {
+      expect(validateTariffCandidate(candidate)).toBeNull();
+    });
+
+    it('should require a name', () => {
+      expect(validateTariffCandidate({ ...candidate, name: ' ' })).toBe('Every tariff needs a name');
+      expect(validateTariffCandidate(null)).toBe('Every tariff must be an object');
+    });
+
+    it('should name the tariff in the errors of its settings', () => {
+      expect(validateTariffCandidate({ ...candidate, consuming_periods: [] }))
+        .toBe('Tariff "Night rate": consuming_periods must be a non-empty array');
+      expect(validateTariffCandidate({ ...candidate, tariff_type: 'hourly' }))
+        .toBe('Tariff "Night rate": tariff_type must be \'fixed\' or \'dynamic\'');
+      expect(validateTariffCandidate({ ...candidate, base_fee: -1 })).toMatch(/^Tariff "Night rate": /);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describePeriodScope,
+  findConsumingPeriod,
+  findSettingsAt,
+  getConsumingPrice,
+  getDynamicPrice,
+  getGrossAmount,
+  getPriceChanges,
+  parseSeasonDate,
+  prorateMonthlyFees,
+  validateDynamicTariff,
+  validateTariff,
+  validateTariffCharges,
+} from '@/lib/tariffs';
+import type { ConsumingPricePeriod, EnergySettings } from '@/types/energy';
+
+function createPeriod(
+  id: number,
+  startTime: number,
+  endTime: number,
+  price: number,
+  scope: Partial<ConsumingPricePeriod> = {}
+): ConsumingPricePeriod {
+  return { id, energy_settings_id: 1, start_time: startTime, end_time: endTime, price, ...scope };
+}
+
+function createSettings(periods: ConsumingPricePeriod[], holidays: string[] = []): EnergySettings {
+  return {
+    id: 1,
+    producing_price: 0.08,
+    start_date: 0,
+    end_date: null,
+    updated_at: 0,
+    consuming_periods: periods,
+    holidays,
+  };
+}
+
+function toTimestamp(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+const WEEKDAYS = 0b00011111;
+const WEEKEND_AND_HOLIDAYS = 0b11100000;
+
+describe('tariffs', () => {
+  describe('findConsumingPeriod', () => {
+    // Weekday day/night tariff, flat weekend rate
+    const weekdayDay = createPeriod(1, 360, 1320, 0.35, { days_of_week: WEEKDAYS });
+    const weekdayNight = createPeriod(2, 1320, 360, 0.25, { days_of_week: WEEKDAYS });
+    const weekend = createPeriod(3, 0, 0, 0.2, { days_of_week: WEEKEND_AND_HOLIDAYS });
+    const settings = createSettings([weekend, weekdayNight, weekdayDay], ['12-25', '2027-03-26']);
+
+    it('should select the period of the weekday and time of day', () => {
+      expect(findConsumingPeriod(settings, toTimestamp('2026-10-19T10:00:00Z'), 'UTC')).toBe(weekdayDay); // Monday
+      expect(findConsumingPeriod(settings, toTimestamp('2026-10-19T23:00:00Z'), 'UTC')).toBe(weekdayNight);
+    });
+
+    it('should use the first period of the day if no time of day matches', () => {
+      // The weekend period covers no minute (00:00 to 00:00), so it applies as the day's fallback
+      expect(findConsumingPeriod(settings, toTimestamp('2026-10-18T10:00:00Z'), 'UTC')).toBe(weekend); // Sunday
+    });
+
+    it('should use the weekday of the site timezone', () => {
+      // Sunday 22:30 UTC is already Monday in Tokyo
+      const timestamp = toTimestamp('2026-10-18T22:30:00Z');
+
+      expect(findConsumingPeriod(settings, timestamp, 'UTC')).toBe(weekend);
+      expect(findConsumingPeriod(settings, timestamp, 'Asia/Tokyo')).toBe(weekdayDay);
+    });
+
+    it('should only use periods with the holiday flag on recurring and single holidays', () => {
+      expect(findConsumingPeriod(settings, toTimestamp('2026-12-25T10:00:00Z'), 'UTC')).toBe(weekend); // Friday
+      expect(findConsumingPeriod(settings, toTimestamp('2027-03-26T10:00:00Z'), 'UTC')).toBe(weekend); // Friday
+      expect(findConsumingPeriod(settings, toTimestamp('2028-03-24T10:00:00Z'), 'UTC')).toBe(weekdayDay); // Friday
+    });
+
+    it('should select periods by season, including seasons across the turn of the year', () => {
+      const winter = createPeriod(1, 0, 0, 0.32, { season_start: 1101, season_end: 331 });
+      const summer = createPeriod(2, 0, 0, 0.28, { season_start: 401, season_end: 1031 });
+      const seasonal = createSettings([winter, summer]);
+
+      expect(findConsumingPeriod(seasonal, toTimestamp('2026-01-15T12:00:00Z'), 'UTC')).toBe(winter);
+      expect(findConsumingPeriod(seasonal, toTimestamp('2026-03-31T23:59:00Z'), 'UTC')).toBe(winter);
+      expect(findConsumingPeriod(seasonal, toTimestamp('2026-04-01T00:00:00Z'), 'UTC')).toBe(summer);
+      expect(findConsumingPeriod(seasonal, toTimestamp('2026-11-01T00:00:00Z'), 'UTC')).toBe(winter);
+    });
+
+    it('should apply periods without days or season on every day', () => {
+      const always = createPeriod(1, 0, 1439, 0.3);
+
+      expect(findConsumingPeriod(createSettings([always], ['12-25']), toTimestamp('2026-12-25T10:00:00Z'), 'UTC'))
+        .toBe(always);
+    });
+
+    it('should fall back to the first period if none applies to the day', () => {
+      const weekdaysOnly = createSettings([weekdayDay, weekdayNight]);
+
+      expect(findConsumingPeriod(weekdaysOnly, toTimestamp('2026-10-18T10:00:00Z'), 'UTC')).toBe(weekdayDay);
+    });
+
+    it('should return null without periods', () => {
+      expect(findConsumingPeriod(createSettings([]), 0, 'UTC')).toBeNull();
+    });
+  });
+
+  describe('validateTariff', () => {
+    const period = createPeriod(1, 0, 1439, 0.3);
+
+    it('should accept days, seasons and holidays', () => {
+      expect(
+        validateTariff(
+          [{ ...period, days_of_week: WEEKEND_AND_HOLIDAYS, season_start: 1101, season_end: 229 }],
+          ['12-25', '2027-03-26']
+        )
+      ).toBeNull();
+    });
+
+    it('should reject periods without days or with unknown day flags', () => {
+      expect(validateTariff([{ ...period, days_of_week: 0 }])).toMatch(/days_of_week/);
+      expect(validateTariff([{ ...period, days_of_week: 256 }])).toMatch(/days_of_week/);
+    });
+
+    it('should reject incomplete and invalid seasons', () => {
+      expect(validateTariff([{ ...period, season_end: 331 }])).toMatch(/set together/);
+      expect(validateTariff([{ ...period, season_start: 1301, season_end: 331 }])).toMatch(/MMDD/);
+      expect(validateTariff([{ ...period, season_start: 431, season_end: 1031 }])).toMatch(/MMDD/);
+    });
+
+    it('should reject invalid holidays', () => {
+      expect(validateTariff([period], ['25.12.'])).toMatch(/Invalid holiday/);
+      expect(validateTariff([period], ['02-30'])).toMatch(/Invalid holiday/);
+    });
+
+    it('should keep the time and price checks', () => {
+      expect(validateTariff([{ ...period, end_time: 1440 }])).toMatch(/between 0 and 1439/);
+      expect(validateTariff([{ ...period, price: -1 }])).toBe('Prices must be non-negative');
+    });
+  });
+
+  describe('parseSeasonDate', () => {
+    it('should parse MM-DD and empty inputs', () => {
+      expect(parseSeasonDate('11-01')).toBe(1101);
+      expect(parseSeasonDate(' 3-31 ')).toBe(331);
+      expect(parseSeasonDate('')).toBeNull();
+      expect(parseSeasonDate('November')).toBeNaN();
+    });
+  });
+
+  describe('describePeriodScope', () => {
+    it('should describe days and season', () => {
+      expect(
+        describePeriodScope(createPeriod(1, 0, 0, 0.2, { days_of_week: WEEKEND_AND_HOLIDAYS, season_start: 1101, season_end: 331 }))
+      ).toBe('Sat, Sun, Holiday · 11-01 to 03-31');
+      expect(describePeriodScope(createPeriod(1, 0, 0, 0.2))).toBeNull();
+    });
+  });
+
+  describe('dynamic tariffs', () => {
+    const tariff = { spot_markup: 0.02, grid_fee: 0.1 };
+    const settings: EnergySettings = {
+      ...createSettings([createPeriod(1, 0, 0, 0.3)]),
+      tariff_type: 'dynamic',
+      ...tariff,
+    };
+
+    it('should add markup and grid fee to the spot price', () => {
+      expect(getDynamicPrice(tariff, 0.08)).toBeCloseTo(0.2);
+      // Negative spot prices lower the price
+      expect(getDynamicPrice(tariff, -0.05)).toBeCloseTo(0.07);
+    });
+
+    it('should use the spot price for dynamic tariffs only', () => {
+      const timestamp = toTimestamp('2026-10-19T12:00:00Z');
+      expect(getConsumingPrice(settings, timestamp, 'UTC', 0.08)).toBeCloseTo(0.2);
+      expect(getConsumingPrice({ ...settings, tariff_type: 'fixed' }, timestamp, 'UTC', 0.08)).toBe(0.3);
+    });
+
+    it('should fall back to the consuming periods without a spot price', () => {
+      expect(getConsumingPrice(settings, toTimestamp('2026-10-19T12:00:00Z'), 'UTC')).toBe(0.3);
+      expect(getConsumingPrice(createSettings([]), 0, 'UTC')).toBeNull();
+    });
+
+    it('should validate the price components', () => {
+      expect(validateDynamicTariff(tariff)).toBeNull();
+      expect(validateDynamicTariff({ ...tariff, spot_markup: -0.01 })).toBeNull();
+      expect(validateDynamicTariff({ ...tariff, grid_fee: -0.1 })).toBe('grid_fee must be non-negative');
+      expect(validateDynamicTariff({ ...tariff, spot_markup: '0.02' as unknown as number })).toMatch(/must be numbers/);
+    });
+  });
+
+  describe('fees, levies and VAT', () => {
+    const charges = { base_fee: 10, meter_fee: 2.4, consumption_levy: 0.03, vat_rate: 0.19 };
+    const settings: EnergySettings = { ...createSettings([createPeriod(1, 0, 0, 0.3)]), ...charges };
+
+    it('should add the levies to fixed and dynamic prices', () => {
+      const timestamp = toTimestamp('2026-10-19T12:00:00Z');
+      expect(getConsumingPrice(settings, timestamp, 'UTC')).toBeCloseTo(0.33);
+      expect(
+        getConsumingPrice({ ...settings, tariff_type: 'dynamic', spot_markup: 0.02, grid_fee: 0.1 }, timestamp, 'UTC', 0.08)
+      ).toBeCloseTo(0.23);
+    });
+
+    it('should add VAT to net amounts', () => {
+      expect(getGrossAmount(10, settings)).toBeCloseTo(11.9);
+      expect(getGrossAmount(10, createSettings([]))).toBe(10);
+    });
+
+    it('should charge the monthly fees for a whole month', () => {
+      const start = toTimestamp('2026-10-01T00:00:00Z');
+      const end = toTimestamp('2026-11-01T00:00:00Z');
+      expect(prorateMonthlyFees(settings, start, end, 'UTC')).toBeCloseTo(12.4);
+    });
+
+    it('should prorate the monthly fees by the length of the month', () => {
+      // One day of October (31 days) and one day of February (28 days)
+      const october = toTimestamp('2026-10-19T00:00:00Z');
+      expect(prorateMonthlyFees(settings, october, october + 86400, 'UTC')).toBeCloseTo(12.4 / 31);
+      const february = toTimestamp('2027-02-10T00:00:00Z');
+      expect(prorateMonthlyFees(settings, february, february + 86400, 'UTC')).toBeCloseTo(12.4 / 28);
+      expect(prorateMonthlyFees(createSettings([]), october, october + 86400, 'UTC')).toBe(0);
+    });
+
+    it('should prorate ranges spanning several months in the site timezone', () => {
+      // Last day of September and first day of October in Berlin
+      const start = toTimestamp('2026-09-29T22:00:00Z');
+      const end = toTimestamp('2026-10-01T22:00:00Z');
+      expect(prorateMonthlyFees(settings, start, end, 'Europe/Berlin')).toBeCloseTo(12.4 / 30 + 12.4 / 31);
+    });
+
+    it('should validate fees, levies and VAT', () => {
+      expect(validateTariffCharges(charges)).toBeNull();
+      expect(validateTariffCharges({ ...charges, base_fee: -1 })).toBe('base_fee must be a non-negative number');
+      expect(validateTariffCharges({ ...charges, consumption_levy: NaN })).toMatch(/consumption_levy/);
+      expect(validateTariffCharges({ ...charges, vat_rate: 19 })).toMatch(/between 0 and 1/);
+    });
+  });
+
+  describe('findSettingsAt', () => {
+    it('should find the latest settings active at a timestamp', () => {
+      const past = { ...createSettings([]), id: 1, start_date: 0, end_date: 1000 };
+      const current = { ...createSettings([]), id: 2, start_date: 1000, end_date: null };
+      const future = { ...createSettings([]), id: 3, start_date: 5000, end_date: null };
+
+      expect(findSettingsAt([future, current, past], 999)?.id).toBe(1);
+      expect(findSettingsAt([past, current, future], 1000)?.id).toBe(2);
+      expect(findSettingsAt([past, current, future], 6000)?.id).toBe(3);
+      expect(findSettingsAt([current], 500)).toBeNull();
+    });
+  });
+
+  describe('getPriceChanges', () => {
+    const periods = [createPeriod(1, 150, 1335, 0.3), createPeriod(2, 1335, 150, 0.2)];
+
+    it('should list midnights, period bounds and settings bounds, moving changes within a minute to the next', () => {
+      const start = toTimestamp('2026-10-20T00:00:00Z');
+      const settings = [
+        { ...createSettings(periods), end_date: start + 43230 },
+        { ...createSettings(periods), id: 2, start_date: start + 43230 },
+      ];
+
+      expect(getPriceChanges(settings, [], start, start + 86400, 'Europe/Berlin')).toEqual([
+        toTimestamp('2026-10-20T00:30:00Z'), // 02:30 local
+        toTimestamp('2026-10-20T12:01:00Z'),
+        toTimestamp('2026-10-20T20:15:00Z'), // 22:15 local
+        toTimestamp('2026-10-20T22:00:00Z'), // Midnight local
+      ]);
+    });
+
+    it('should follow the wall clock across the end of summer time', () => {
+      const start = toTimestamp('2026-10-24T22:00:00Z');
+
+      // 02:30 occurs twice; the clock turns back from 03:00 to 02:00 at 01:00 UTC
+      expect(getPriceChanges([createSettings(periods)], [], start, start + 90000, 'Europe/Berlin')).toEqual([
+        toTimestamp('2026-10-25T00:30:00Z'),
+        toTimestamp('2026-10-25T01:00:00Z'),
+        toTimestamp('2026-10-25T01:30:00Z'),
+        toTimestamp('2026-10-25T21:15:00Z'),
+      ]);
+    });
+
+    it('should add the spot price intervals of dynamic tariffs', () => {
+      const start = toTimestamp('2026-10-20T00:00:00Z');
+      const spotPrices = [
+        { starts_at: start - 1800, ends_at: start + 1800, price: 0.1 },
+        { starts_at: start + 1800, ends_at: start + 5400, price: 0.2 },
+      ];
+      const fixed = createSettings([]);
+      const dynamic = { ...fixed, tariff_type: 'dynamic' as const };
+
+      expect(getPriceChanges([fixed], spotPrices, start, start + 7200, 'UTC')).toEqual([]);
+      expect(getPriceChanges([dynamic], spotPrices, start, start + 7200, 'UTC')).toEqual([start + 1800, start + 5400]);
+    });
+  });
+});
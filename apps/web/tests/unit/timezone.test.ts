@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fromLocalDateTime,
+  getLocalDateTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  startOfLocalDay,
+  startOfLocalHour,
+} from '@/lib/timezone';
+
+describe('timezone helpers', () => {
+  it('validates IANA timezone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Europe/Atlantis')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+
+  it('converts timestamps to local date and time', () => {
+    // 2026-10-25T00:30:00Z is 02:30 CEST, one hour later it is 02:30 CET
+    expect(getLocalDateTime(1792888200, 'Europe/Berlin')).toEqual({
+      year: 2026, month: 10, day: 25, hour: 2, minute: 30, second: 0,
+    });
+    expect(getLocalDateTime(1792891800, 'Europe/Berlin').hour).toBe(2);
+    expect(getTimeZoneOffset(1792888200, 'Europe/Berlin')).toBe(7200);
+    expect(getTimeZoneOffset(1792891800, 'Europe/Berlin')).toBe(3600);
+  });
+
+  it('converts local date and time to timestamps across DST changes', () => {
+    expect(fromLocalDateTime(2026, 3, 29, 0, 0, 'Europe/Berlin')).toBe(1774738800);
+    expect(fromLocalDateTime(2026, 3, 30, 0, 0, 'Europe/Berlin')).toBe(1774821600);
+    // Day 0 rolls over to the last day of the previous month
+    expect(fromLocalDateTime(2026, 4, 0, 0, 0, 'Europe/Berlin')).toBe(fromLocalDateTime(2026, 3, 31, 0, 0, 'Europe/Berlin'));
+  });
+
+  it('finds local day and hour starts', () => {
+    expect(startOfLocalDay(1774782000, 'Europe/Berlin')).toBe(1774738800); // 2026-03-29T11:00:00Z
+    expect(startOfLocalDay(1774782000, 'Europe/Berlin', 1)).toBe(1774821600);
+    expect(startOfLocalHour(1767229200, 'Asia/Kolkata')).toBe(1767227400); // 06:30 local -> 06:00 local
+    expect(startOfLocalHour(1767229200, 'UTC')).toBe(1767229200);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useCarSessions } from '@/hooks/useCarSessions';
+import type { CarSessionsResponse } from '@/types/car';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('useCarSessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch the sessions of the site', async () => {
+    const mockSessions: CarSessionsResponse = {
+      sessions: [],
+      months: [{ month: '2025-10', sessions: 2, energy_kwh: 15, solar_kwh: 9, cost: 2.4, gross_cost: 2.86 }],
+    };
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockSessions,
+    } as Response);
+
+    const { result } = renderHook(() => useCarSessions(2));
+
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/car/sessions?site=2');
+    expect(result.current.sessions).toEqual(mockSessions);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should handle fetch errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false } as Response);
+
+    const { result } = renderHook(() => useCarSessions());
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.sessions).toBeNull();
+    expect(result.current.error).toBe('Failed to fetch car charging sessions');
+  });
+});
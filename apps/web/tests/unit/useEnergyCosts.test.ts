@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useEnergyCosts } from '@/hooks/useEnergyCosts';
+import type { CostSeries, EnergyCostsResponse } from '@/types/energy';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('useEnergyCosts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch the costs of the timeframe and site', async () => {
+    const series: CostSeries = { data: [], total: 0, cost: 0, gross: 0 };
+    const mockCosts: EnergyCostsResponse = {
+      consumption: { data: [{ label: '10:00', kwh: 2, timestamp: 1000, cost: 0.5 }], total: 2, cost: 0.5, gross: 0.595 },
+      feedIn: series,
+      car: series,
+      solar: series,
+      batteryCharge: series,
+      batteryDischarge: series,
+      home: series,
+      fixedFees: { cost: 0, gross: 0 },
+    };
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockCosts,
+    } as Response);
+
+    const { result } = renderHook(() => useEnergyCosts('week', 2));
+
+    await waitFor(() => {
+      expect(result.current.costs).not.toBeNull();
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/energy/costs?timeframe=week&site=2');
+    expect(result.current.costs).toEqual(mockCosts);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should not fetch when disabled', () => {
+    const { result } = renderHook(() => useEnergyCosts('day', 1, false));
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.current.costs).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should handle fetch errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false } as Response);
+
+    const { result } = renderHook(() => useEnergyCosts('day'));
+
+    await waitFor(() => {
+      expect(result.current.error).toBe('Failed to fetch energy costs');
+    });
+
+    expect(result.current.costs).toBeNull();
+  });
+});
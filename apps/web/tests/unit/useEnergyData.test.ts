@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { useEnergyData } from '@/hooks/useEnergyData';
-import type { AggregatedResponse, GridAggregatedResponse } from '@/types/energy';
+import type { AggregatedResponse, BatteryAggregatedResponse, GridAggregatedResponse } from '@/types/energy';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -33,6 +33,22 @@ describe('useEnergyData', () => {
       total: 3.4,
     };
 
+    const mockBatteryData: BatteryAggregatedResponse = {
+      charge: {
+        data: [{ label: '10:00', kwh: 0.8, timestamp: 1000 }],
+        total: 0.8,
+      },
+      discharge: {
+        data: [{ label: '10:00', kwh: 0.5, timestamp: 1000 }],
+        total: 0.5,
+      },
+    };
+
+    const mockHomeData: AggregatedResponse = {
+      data: [{ label: '10:00', kwh: 7.1, timestamp: 1000 }],
+      total: 7.1,
+    };
+
     (global.fetch as any)
       .mockResolvedValueOnce({
         ok: true,
@@ -45,6 +61,14 @@ describe('useEnergyData', () => {
       .mockResolvedValueOnce({
         ok: true,
         json: async () => mockSolarData,
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockBatteryData,
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockHomeData,
       });
 
     const { result } = renderHook(() => useEnergyData('day'));
@@ -54,6 +78,9 @@ describe('useEnergyData', () => {
       expect(result.current.feedIn.loading).toBe(false);
       expect(result.current.car.loading).toBe(false);
       expect(result.current.solar.loading).toBe(false);
+      expect(result.current.batteryCharge.loading).toBe(false);
+      expect(result.current.batteryDischarge.loading).toBe(false);
+      expect(result.current.home.loading).toBe(false);
     });
 
     expect(result.current.consumption.data).toEqual(mockGridData.consumption.data);
@@ -64,11 +91,19 @@ describe('useEnergyData', () => {
     expect(result.current.car.total).toBe(1.2);
     expect(result.current.solar.data).toEqual(mockSolarData.data);
     expect(result.current.solar.total).toBe(3.4);
+    expect(result.current.batteryCharge.data).toEqual(mockBatteryData.charge.data);
+    expect(result.current.batteryCharge.total).toBe(0.8);
+    expect(result.current.batteryDischarge.data).toEqual(mockBatteryData.discharge.data);
+    expect(result.current.batteryDischarge.total).toBe(0.5);
+    expect(result.current.home.data).toEqual(mockHomeData.data);
+    expect(result.current.home.total).toBe(7.1);
   });
 
   it('should handle errors gracefully', async () => {
-    // Mock all 3 fetch calls to reject (grid, car, solar)
+    // Mock all 5 fetch calls to reject (grid, car, solar, battery, home)
     (global.fetch as any)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'))
       .mockRejectedValueOnce(new Error('Network error'))
       .mockRejectedValueOnce(new Error('Network error'))
       .mockRejectedValueOnce(new Error('Network error'));
@@ -86,6 +121,9 @@ describe('useEnergyData', () => {
     expect(result.current.feedIn.error).toBeTruthy();
     expect(result.current.car.error).toBeTruthy();
     expect(result.current.solar.error).toBeTruthy();
+    expect(result.current.batteryCharge.error).toBeTruthy();
+    expect(result.current.batteryDischarge.error).toBeTruthy();
+    expect(result.current.home.error).toBeTruthy();
   });
 
   it('should refetch when timeframe changes', async () => {
@@ -117,7 +155,7 @@ describe('useEnergyData', () => {
     });
 
     // Should have been called multiple times (once for each timeframe)
-    expect(global.fetch).toHaveBeenCalledTimes(6); // 3 calls for 'day', 3 calls for 'week'
+    expect(global.fetch).toHaveBeenCalledTimes(10); // 5 calls for 'day', 5 calls for 'week'
   });
 });
 
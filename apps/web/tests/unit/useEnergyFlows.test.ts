@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useEnergyFlows } from '@/hooks/useEnergyFlows';
+import type { EnergyFlowsResponse } from '@/types/energy';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('useEnergyFlows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch the flows of the timeframe and site', async () => {
+    const mockFlows: EnergyFlowsResponse = {
+      flows: [
+        { source: 'solar', target: 'home', kwh: 5 },
+        { source: 'grid', target: 'car', kwh: 2 },
+      ],
+    };
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockFlows,
+    } as Response);
+
+    const { result } = renderHook(() => useEnergyFlows('week', 2));
+
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/energy/flows?timeframe=week&site=2');
+    expect(result.current.flows).toEqual(mockFlows);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should handle fetch errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false } as Response);
+
+    const { result } = renderHook(() => useEnergyFlows('day'));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.flows).toBeNull();
+    expect(result.current.error).toBe('Failed to fetch energy flows');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useEnergySummary } from '@/hooks/useEnergySummary';
+import type { EnergySummaryResponse } from '@/types/energy';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('useEnergySummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch the summary of the timeframe and site', async () => {
+    const mockSummary: EnergySummaryResponse = {
+      data: [],
+      total: {
+        demand: 10,
+        gridImport: 2.5,
+        solar: 12,
+        solarDirectUse: 5,
+        solarStored: 4,
+        solarExported: 3,
+        autarky: 0.75,
+        selfConsumption: 0.75,
+      },
+    };
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockSummary,
+    } as Response);
+
+    const { result } = renderHook(() => useEnergySummary('week', 2));
+
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/energy/summary?timeframe=week&site=2');
+    expect(result.current.summary).toEqual(mockSummary);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should handle fetch errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false } as Response);
+
+    const { result } = renderHook(() => useEnergySummary('day'));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.summary).toBeNull();
+    expect(result.current.error).toBe('Failed to fetch energy summary');
+  });
+});
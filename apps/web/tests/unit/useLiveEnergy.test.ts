@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useLiveEnergy } from '@/hooks/useLiveEnergy';
+import type { EnergyHistoryEntry } from '@/types/energy';
+import type { LiveEnergySnapshot } from '@/types/live';
+
+/** Minimal EventSource that lets tests dispatch server events */
+class MockEventSource {
+  static CLOSED = 2;
+  static instances: MockEventSource[] = [];
+
+  readyState = 1;
+  onerror: ((event: Event) => void) | null = null;
+  close = vi.fn();
+  private listeners = new Map<string, (event: MessageEvent) => void>();
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+}
+
+global.EventSource = MockEventSource as unknown as typeof EventSource;
+
+const entry = (timestamp: number, home: number): EnergyHistoryEntry => ({
+  timestamp,
+  home,
+  grid: 0,
+  car: 0,
+  solar: 0,
+  battery: 0,
+  battery_soc: null,
+});
+
+describe('useLiveEnergy', () => {
+  beforeEach(() => {
+    MockEventSource.instances = [];
+  });
+
+  it('should connect to the live stream of the site', () => {
+    const { unmount } = renderHook(() => useLiveEnergy(2));
+
+    expect(MockEventSource.instances[0].url).toBe('/api/energy?site=2');
+    unmount();
+    expect(MockEventSource.instances[0].close).toHaveBeenCalled();
+  });
+
+  it('should take the current reading from the snapshot and newer readings', async () => {
+    const { result } = renderHook(() => useLiveEnergy());
+    const source = MockEventSource.instances[0];
+
+    const snapshot: LiveEnergySnapshot = { current: entry(100, 500), history: [entry(100, 500), entry(90, 400)] };
+    act(() => source.emit('snapshot', snapshot));
+    await waitFor(() => expect(result.current.current).toEqual(entry(100, 500)));
+
+    act(() => source.emit('reading', entry(110, 600)));
+    await waitFor(() => expect(result.current.current).toEqual(entry(110, 600)));
+    expect(result.current.history.map((reading) => reading.timestamp)).toEqual([110, 100, 90]);
+
+    // Late readings go into the history but do not replace the current reading
+    act(() => source.emit('reading', entry(95, 700)));
+    await waitFor(() => expect(result.current.history).toHaveLength(4));
+    expect(result.current.history.map((reading) => reading.timestamp)).toEqual([110, 100, 95, 90]);
+    expect(result.current.current).toEqual(entry(110, 600));
+
+    // A second meter reporting the same second replaces the site reading of that second
+    act(() => source.emit('reading', entry(110, 900)));
+    await waitFor(() => expect(result.current.current).toEqual(entry(110, 900)));
+    expect(result.current.history).toHaveLength(4);
+    expect(result.current.history[0]).toEqual(entry(110, 900));
+  });
+
+  it('should not treat the placeholder of an empty snapshot as a reading', async () => {
+    const { result } = renderHook(() => useLiveEnergy());
+
+    act(() => MockEventSource.instances[0].emit('snapshot', { current: entry(100, 0), history: [] }));
+
+    await waitFor(() => expect(result.current.history).toEqual([]));
+    expect(result.current.current).toBeNull();
+  });
+
+  it('should report connection errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderHook(() => useLiveEnergy());
+    const source = MockEventSource.instances[0];
+
+    act(() => source.onerror?.(new Event('error')));
+    await waitFor(() => expect(result.current.error).toBe('Connection lost. Reconnecting...'));
+
+    source.readyState = MockEventSource.CLOSED;
+    act(() => source.onerror?.(new Event('error')));
+    await waitFor(() =>
+      expect(result.current.error).toBe('Connection error. Make sure the MQTT broker is running.')
+    );
+  });
+});
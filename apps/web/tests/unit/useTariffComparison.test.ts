@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useTariffComparison } from '@/hooks/useTariffComparison';
+import type { TariffCandidate, TariffComparisonResponse } from '@/types/energy';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('useTariffComparison', () => {
+  const candidate: TariffCandidate = {
+    name: 'Night rate',
+    producing_price: 0.08,
+    consuming_periods: [{ start_time: 0, end_time: 0, price: 0.25 }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not fetch until tariffs are compared', async () => {
+    const mockComparison: TariffComparisonResponse = { from: 1759276800, to: 1790812800, tariffs: [] };
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockComparison,
+    } as Response);
+
+    const { result } = renderHook(() => useTariffComparison(2));
+
+    expect(result.current.loading).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    await act(() => result.current.compare([candidate]));
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/energy/tariff-comparison?site=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tariffs: [candidate] }),
+    });
+    expect(result.current.comparison).toEqual(mockComparison);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should report the error of the API', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: 'Tariff "Night rate": producing_price must be a non-negative number' }),
+    } as Response);
+
+    const { result } = renderHook(() => useTariffComparison());
+
+    await act(() => result.current.compare([candidate]));
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.comparison).toBeNull();
+    expect(result.current.error).toBe('Tariff "Night rate": producing_price must be a non-negative number');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Lock shared by all processes running the energy aggregation job (web app and worker).
+ */
+export const AGGREGATION_LOCK_NAME = 'energy-aggregation';
+
+/**
+ * Outcome of a scheduled job run.
+ * `skipped` means another process held the job's lock, `running` is recorded while the lock is held.
+ */
+export type JobRunStatus = 'skipped' | 'running' | 'completed' | 'error';
+
+/**
+ * Lease-based lock preventing overlapping runs of a job across processes.
+ */
+export interface JobLock {
+  name: string;
+  /** Process holding the lock, null when released */
+  owner: string | null;
+  /** End of the lease (Unix seconds); an expired lock can be taken over by another process */
+  locked_until: number;
+  /** Status of the last run that held the lock */
+  status: JobRunStatus;
+  last_run_at: number;
+  /** Last time a run was skipped because the lock was held (Unix seconds) */
+  last_skipped_at: number;
+}
+
+/**
+ * What started a job run: the periodic schedule or a manual trigger via the API.
+ */
+export type JobTrigger = 'schedule' | 'manual';
+
+/**
+ * Recorded run of the aggregation job.
+ */
+export interface JobRun {
+  id: number;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  /** Site of a manual re-aggregation, null for runs over all sites */
+  site_id: number | null;
+  /** Re-aggregated range [range_start, range_end) of a manual run (Unix seconds) */
+  range_start: number | null;
+  range_end: number | null;
+  started_at: number;
+  /** Null while the run is in progress */
+  finished_at: number | null;
+  buckets_processed: number;
+  /** Error message(s) of a failed run */
+  error: string | null;
+}
+
+/**
+ * Details of a job run known when it starts.
+ */
+export interface NewJobRun {
+  trigger: JobTrigger;
+  siteId?: number;
+  rangeStart?: number;
+  rangeEnd?: number;
+}
+
+/**
+ * Aggregation progress of a site.
+ */
+export interface AggregationCursor {
+  site_id: number;
+  /** Start of the last aggregated minute bucket (Unix seconds) */
+  last_processed_timestamp: number;
+  /** Readings ingested since then are checked for late arrivals (Unix seconds) */
+  last_ingested_at: number;
+  /** Raw readings before this timestamp may have been removed by the retention job (Unix seconds) */
+  readings_purged_before: number;
+  /** Earliest bucket re-aggregated since car sessions were last detected, null if none (Unix seconds) */
+  car_sessions_stale_from: number | null;
+  last_run_at: number;
+  status: string;
+}
@@ -0,0 +1,26 @@
+import type { EnergyData, EnergyHistoryEntry } from '@/types/energy';
+
+/**
+ * Redis pub/sub channel on which the worker publishes the live readings of a site.
+ * @param siteId - ID of the site
+ * @returns Channel name
+ */
+export function getLiveReadingsChannel(siteId: number): string {
+  return `energy:live:${siteId}`;
+}
+
+/**
+ * Reading published on the live channel of a site, tagged with the meter that produced it.
+ * Sites with several meters receive one reading per meter and second.
+ */
+export interface LiveReading extends EnergyHistoryEntry {
+  meter_id?: number | null; // Missing in readings published before meters were tagged
+}
+
+/**
+ * Initial state of the live stream: the latest reading and the most recent history (newest first).
+ */
+export interface LiveEnergySnapshot {
+  current: EnergyData;
+  history: EnergyHistoryEntry[];
+}
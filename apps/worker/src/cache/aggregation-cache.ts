@@ -0,0 +1,122 @@
+import { createClient } from 'redis';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Cache of aggregated API responses shared with the web app, from the worker's point of view:
+ * the worker only invalidates entries when it changes buckets the entries were computed from.
+ */
+export interface AggregationCache {
+    invalidatePattern(pattern: string): Promise<void>;
+    /** Deletes the cached responses of a site whose time range overlaps [from, to), and those without a range */
+    invalidateRange(siteId: number, from: number, to: number): Promise<void>;
+}
+
+/**
+ * Extracts the time range of a cached aggregated response from a key written by the web app, e.g.
+ * `energy:aggregated:<site>:<type>:<granularity>:<from>:<to>:<timezone>` or `energy:aggregated:<site>:flows:<from>:<to>`.
+ * @param key - Cache key
+ * @returns Range of the response, or null if the key contains none
+ */
+export function parseCachedRange(key: string): { from: number; to: number } | null {
+    const segments = key.split(':');
+    for (let i = 3; i < segments.length - 1; i++) {
+        if (/^\d+$/.test(segments[i]) && /^\d+$/.test(segments[i + 1])) {
+            return { from: Number(segments[i]), to: Number(segments[i + 1]) };
+        }
+    }
+    return null;
+}
+
+/**
+ * Redis implementation of the AggregationCache, matching the keys written by the web app's RedisCache.
+ */
+export class RedisAggregationCache implements AggregationCache {
+    constructor(private client: RedisClient) { }
+
+    /**
+     * Deletes all keys matching a pattern using SCAN.
+     * @param pattern - Pattern to match (e.g., "energy:aggregated:1:*")
+     */
+    async invalidatePattern(pattern: string): Promise<void> {
+        try {
+            const keys = await this.scanKeys(pattern);
+            if (keys.length > 0) {
+                await this.client.del(keys);
+            }
+        } catch (error) {
+            console.error(`Redis cache invalidatePattern error for pattern ${pattern}:`, error);
+            // Don't throw - entries expire by TTL anyway
+        }
+    }
+
+    /**
+     * Deletes the cached aggregated responses of a site whose time range overlaps [from, to).
+     * @param siteId - Site of the responses
+     * @param from - Start of the changed range (Unix seconds)
+     * @param to - End of the changed range (exclusive, Unix seconds)
+     */
+    async invalidateRange(siteId: number, from: number, to: number): Promise<void> {
+        if (to <= from) {
+            return;
+        }
+        const pattern = `energy:aggregated:${siteId}:*`;
+        try {
+            const keys = (await this.scanKeys(pattern)).filter((key) => {
+                const range = parseCachedRange(key);
+                return range === null || (range.from < to && from < range.to);
+            });
+            if (keys.length > 0) {
+                await this.client.del(keys);
+            }
+        } catch (error) {
+            console.error(`Redis cache invalidateRange error for site ${siteId} from ${from} to ${to}:`, error);
+            // Don't throw - entries expire by TTL anyway
+        }
+    }
+
+    private async scanKeys(pattern: string): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor = 0;
+        do {
+            const result = await this.client.scan(cursor, {
+                MATCH: pattern,
+                COUNT: 100,
+            });
+            cursor = result.cursor;
+            keys.push(...result.keys);
+        } while (cursor !== 0);
+        return keys;
+    }
+
+    async disconnect(): Promise<void> {
+        try {
+            await this.client.quit();
+        } catch (error) {
+            console.error('Error disconnecting Redis cache client:', error);
+        }
+    }
+}
+
+/**
+ * Creates a cache client connected to `REDIS_URL`.
+ * @param redisUrl - Redis connection URL
+ * @returns RedisAggregationCache, or null if no Redis URL is configured
+ */
+export function createAggregationCache(redisUrl: string | undefined = process.env.REDIS_URL): RedisAggregationCache | null {
+    if (!redisUrl) {
+        return null;
+    }
+
+    const client = createClient({ url: redisUrl });
+
+    client.on('error', (error) => {
+        console.error('Redis cache client error:', error);
+    });
+
+    client.connect().catch((error) => {
+        console.error('Failed to connect Redis cache client:', error);
+    });
+
+    return new RedisAggregationCache(client);
+}
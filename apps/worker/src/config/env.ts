@@ -0,0 +1,17 @@
+/**
+ * Reads an optional positive integer (e.g. an id or a limit) from the environment.
+ * @param name - Name of the environment variable
+ * @returns The configured value, or null if the variable is not set
+ * @throws Error if the variable is set but not a positive integer
+ */
+export function parsePositiveIntEnv(name: string): number | null {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') {
+        return null;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`${name} must be a positive integer, got "${raw}"`);
+    }
+    return value;
+}
@@ -1,9 +1,17 @@
 import dotenv from 'dotenv';
 import cron from 'node-cron';
 import { PrismaClient } from '@repo/database';
-import { createEnergyRepository } from '@repo/core';
-import { MqttWorker } from './mqtt-worker';
+import { createEnergyRepository, DEFAULT_SITE_ID } from '@repo/core';
+import { MqttWorker, type ReadingSource } from './mqtt-worker';
 import { EnergyAggregationJob } from './jobs/aggregation';
+import { ReadingRetentionJob, loadRetentionOptions } from './jobs/retention';
+import { CarSessionJob } from './jobs/car-sessions';
+import { loadTopicMapping } from './mapping/presets';
+import { createReadingPublisher } from './live/reading-publisher';
+import { createAggregationCache } from './cache/aggregation-cache';
+import { createDurableReadingWriter } from './spool/durable-reading-writer';
+import { BatchingReadingWriter, loadBatchLimits } from './writer/batching-reading-writer';
+import { parsePositiveIntEnv } from './config/env';
 
 dotenv.config();
 
@@ -14,8 +22,36 @@ async function main() {
     const prisma = new PrismaClient();
     const energyRepository = createEnergyRepository(prisma);
 
+    // Load and validate the MQTT topic mapping before connecting
+    const mapping = loadTopicMapping();
+    console.log(`Using MQTT mapping "${mapping.name}" with ${mapping.topics.length} topic(s)`);
+
+    // Readings are stored for the configured site (and meter, if several feed the same site)
+    const source = loadReadingSource();
+    console.log(
+        `Storing readings for site ${source.siteId}` +
+        (source.meterId !== null ? `, meter ${source.meterId}` : '')
+    );
+
+    // Readings that cannot be written while the database is down are spooled and replayed later
+    const durableWriter = createDurableReadingWriter(energyRepository, source.siteId, source.meterId);
+    durableWriter.start();
+
+    // Readings are written in batches, by size or time window
+    const batchLimits = loadBatchLimits();
+    console.log(
+        `Writing readings in batches of up to ${batchLimits.maxBatchSize} or every ${batchLimits.flushIntervalMs} ms`
+    );
+    const writer = new BatchingReadingWriter(durableWriter, batchLimits);
+
+    // Publish new readings for live dashboards (optional, requires REDIS_URL)
+    const publisher = createReadingPublisher();
+    if (!publisher) {
+        console.warn('REDIS_URL is not set, live readings will not be published');
+    }
+
     // Start MQTT Worker
-    const mqttWorker = new MqttWorker(energyRepository);
+    const mqttWorker = new MqttWorker(writer, undefined, mapping, source, publisher);
     try {
         mqttWorker.start();
     } catch (error) {
@@ -23,19 +59,65 @@ async function main() {
         process.exit(1);
     }
 
-    // Schedule Aggregation Job (every minute)
+    // Cached API responses are invalidated when late readings change past buckets (optional, requires REDIS_URL)
+    const aggregationCache = createAggregationCache();
+
+    // Schedule Aggregation Job (every minute); runs of other workers or the web app are excluded by a lock
     console.log('Scheduling aggregation job...');
     cron.schedule('* * * * *', async () => {
         console.log('Running aggregation job...');
-        const job = new EnergyAggregationJob(prisma);
-        await job.run();
-    });
+        const job = new EnergyAggregationJob(prisma, aggregationCache ?? undefined);
+        try {
+            const status = await job.run();
+            console.log(`Aggregation job ${status}`);
+        } catch (error) {
+            console.error('Aggregation job failed:', error);
+        }
+    }, { noOverlap: true });
 
-    // Graceful shutdown
-    const shutdown = () => {
+    // Schedule Car Session Job (every 5 minutes); detects charging sessions in the aggregated minute buckets
+    console.log('Scheduling car session job...');
+    cron.schedule('*/5 * * * *', async () => {
+        const job = new CarSessionJob(prisma);
+        try {
+            await job.run();
+        } catch (error) {
+            console.error('Car session job failed:', error);
+        }
+    }, { noOverlap: true });
+
+    // Schedule Retention Job (daily, optional)
+    const retentionOptions = loadRetentionOptions();
+    if (retentionOptions) {
+        console.log(
+            `Scheduling retention job: keeping raw readings for ${retentionOptions.retentionDays} day(s)` +
+            (retentionOptions.archiveDir ? `, archiving to ${retentionOptions.archiveDir}` : '')
+        );
+        cron.schedule('30 3 * * *', async () => {
+            console.log('Running retention job...');
+            const job = new ReadingRetentionJob(prisma, retentionOptions);
+            await job.run();
+        }, { noOverlap: true });
+    }
+
+    // Graceful shutdown: stop receiving, then write the readings still buffered in memory
+    let shuttingDown = false;
+    const shutdown = async () => {
+        if (shuttingDown) {
+            return;
+        }
+        shuttingDown = true;
         console.log('Shutting down worker...');
         mqttWorker.disconnect();
-        prisma.$disconnect();
+        try {
+            await writer.flush();
+        } catch (error) {
+            console.error('Error flushing readings on shutdown:', error);
+        }
+        durableWriter.stop();
+        await publisher?.disconnect();
+        await aggregationCache?.disconnect();
+        await prisma.$disconnect();
         process.exit(0);
     };
 
@@ -43,6 +125,17 @@ async function main() {
     process.on('SIGINT', shutdown);
 }
 
+/**
+ * Reads the site and meter of this worker from `SITE_ID` (default: the default site) and `METER_ID`.
+ * @throws Error if a configured id is not a positive integer
+ */
+function loadReadingSource(): ReadingSource {
+    return {
+        siteId: parsePositiveIntEnv('SITE_ID') ?? DEFAULT_SITE_ID,
+        meterId: parsePositiveIntEnv('METER_ID'),
+    };
+}
+
 main().catch((error) => {
     console.error('Worker failed:', error);
     process.exit(1);
@@ -0,0 +1,205 @@
+import { PrismaClient } from '@repo/database';
+import {
+    createCarSessionRepository,
+    createEnergyBucketRepository,
+    createEnergyRepository,
+    createSpotPriceLookup,
+    createSpotPriceRepository,
+    DEFAULT_SITE_ID,
+    DEFAULT_TIMEZONE,
+    getCarSolarKwh,
+    getConsumingPrice,
+    type CarSessionRepository,
+    type EnergyBucket,
+    type EnergyBucketRepository,
+    type EnergyRepository,
+    type EnergySettings,
+    type NewCarChargingSession,
+    type SpotPriceRepository,
+} from '@repo/core';
+
+/** Minutes with a lower average car power do not count as charging, e.g. standby draw of the wallbox (W) */
+const MIN_CHARGING_WATTS = 500;
+
+/** Minutes with charging at most this far apart belong to the same session, e.g. across a cloud or a pause */
+const MAX_PAUSE_SECONDS = 900;
+
+/** Shorter sessions are not recorded, e.g. a wallbox checking the car (kWh) */
+const MIN_SESSION_KWH = 0.1;
+
+/**
+ * Average power of a minute bucket (W).
+ */
+function averageWatts(kwh: number): number {
+    return kwh * 60 * 1000;
+}
+
+/**
+ * Settings active at a timestamp.
+ * @param settings - All settings of the site, latest start first
+ */
+function findActiveSettings(settings: EnergySettings[], timestamp: number): EnergySettings | null {
+    return settings.find((entry) =>
+        entry.start_date <= timestamp && (entry.end_date === null || entry.end_date > timestamp)
+    ) ?? null;
+}
+
+/**
+ * Detects charging sessions in minute buckets of a site.
+ * Charging minutes (average car power of at least MIN_CHARGING_WATTS) at most MAX_PAUSE_SECONDS apart form a
+ * session. Solar supplies the car in proportion to its share of the demand of each minute (see `getCarSolarKwh`).
+ * Energy not supplied by solar is costed at the consuming price of its minute, solar energy at the feed-in price it
+ * would otherwise have earned. Like the dashboard costs, the gross cost adds VAT to the energy not supplied by solar
+ * only; sessions with minutes not covered by settings or without a consuming price (neither a spot price nor a
+ * consuming period) have no cost.
+ * @param buckets - Minute buckets ordered by start; buckets below MIN_CHARGING_WATTS are ignored
+ * @param settings - All energy settings of the site, latest start first
+ * @param timeZone - IANA timezone of the site the price periods refer to
+ * @param getSpotPrice - Spot price at a timestamp, for dynamic tariffs
+ * @returns Sessions with at least MIN_SESSION_KWH, ordered by start
+ */
+export function detectChargingSessions(
+    buckets: EnergyBucket[],
+    settings: EnergySettings[],
+    timeZone: string,
+    getSpotPrice: (timestamp: number) => number | null = () => null
+): NewCarChargingSession[] {
+    const sessions: NewCarChargingSession[] = [];
+    let current: NewCarChargingSession | null = null;
+
+    for (const bucket of buckets) {
+        if (averageWatts(bucket.car_kwh) < MIN_CHARGING_WATTS) {
+            continue;
+        }
+        if (!current || bucket.bucket_start - current.ended_at > MAX_PAUSE_SECONDS) {
+            current = {
+                started_at: bucket.bucket_start,
+                ended_at: 0,
+                energy_kwh: 0,
+                solar_kwh: 0,
+                peak_power: 0,
+                cost: 0,
+                gross_cost: 0,
+            };
+            sessions.push(current);
+        }
+
+        const solarKwh = getCarSolarKwh(bucket.home_kwh, bucket.car_kwh, bucket.solar_kwh);
+        const activeSettings = findActiveSettings(settings, bucket.bucket_start);
+        const price = activeSettings
+            ? getConsumingPrice(activeSettings, bucket.bucket_start, timeZone, getSpotPrice(bucket.bucket_start))
+            : null;
+
+        current.ended_at = bucket.bucket_end;
+        current.energy_kwh += bucket.car_kwh;
+        current.solar_kwh += solarKwh;
+        current.peak_power = Math.max(current.peak_power, bucket.first_car, bucket.last_car, averageWatts(bucket.car_kwh));
+        if (activeSettings && price !== null && current.cost !== null && current.gross_cost !== null) {
+            const gridCost = (bucket.car_kwh - solarKwh) * price;
+            const solarCost = solarKwh * activeSettings.producing_price;
+            current.cost += gridCost + solarCost;
+            current.gross_cost += gridCost * (1 + (activeSettings.vat_rate ?? 0)) + solarCost;
+        } else {
+            current.cost = null;
+            current.gross_cost = null;
+        }
+    }
+
+    return sessions.filter((session) => session.energy_kwh >= MIN_SESSION_KWH);
+}
+
+/**
+ * Detects car charging sessions from the minute buckets and records them.
+ * Each run detects the sessions from the start of the latest recorded session (which may still be ongoing) up to
+ * the aggregation cursor, and replaces the sessions recorded for that range. Minute buckets are kept when raw
+ * readings are removed, so sessions can be detected for the whole history.
+ */
+export class CarSessionJob {
+    constructor(
+        private prisma: PrismaClient,
+        private sessions: CarSessionRepository = createCarSessionRepository(prisma),
+        private buckets: EnergyBucketRepository = createEnergyBucketRepository(prisma),
+        private repository: EnergyRepository = createEnergyRepository(prisma),
+        private spotPrices: SpotPriceRepository = createSpotPriceRepository(prisma)
+    ) { }
+
+    /**
+     * Detects the sessions of a site since its latest recorded session.
+     * Buckets re-aggregated since the last run, e.g. for late readings or a manual re-aggregation, are marked in the
+     * aggregation cursor (`car_sessions_stale_from`); their sessions are detected again from the start of the session
+     * they may extend.
+     * @param siteId - Site to detect sessions for
+     * @param timeZone - IANA timezone of the site
+     * @returns Number of recorded sessions, or null if the site has not been aggregated yet
+     */
+    async detectSite(siteId: number = DEFAULT_SITE_ID, timeZone: string = DEFAULT_TIMEZONE): Promise<number | null> {
+        const cursor = await this.prisma.energyBucketAggregationJob.findUnique({
+            where: { site_id: siteId },
+        });
+        if (!cursor) {
+            return null;
+        }
+
+        // Claim the marker before reading the buckets; buckets re-aggregated after this set it again
+        const staleFrom = cursor.car_sessions_stale_from;
+        if (staleFrom !== null) {
+            await this.prisma.energyBucketAggregationJob.updateMany({
+                where: { site_id: siteId, car_sessions_stale_from: staleFrom },
+                data: { car_sessions_stale_from: null },
+            });
+        }
+
+        try {
+            const latest = await this.sessions.getLatestSession(siteId);
+            let from = latest?.started_at ?? 0;
+            if (staleFrom !== null && staleFrom < from) {
+                // Changed minutes may join the session ending up to MAX_PAUSE_SECONDS before them
+                const boundary = staleFrom - MAX_PAUSE_SECONDS;
+                const extended = await this.sessions.getFirstSessionEndingFrom(siteId, boundary);
+                from = Math.min(boundary, extended?.started_at ?? boundary);
+            }
+            const to = cursor.last_processed_timestamp + 60;
+
+            const buckets = await this.buckets.getCarChargingBuckets(from, to, MIN_CHARGING_WATTS / 60 / 1000, siteId);
+            const settings = await this.repository.getAllEnergySettings(siteId);
+            const spotPrices = await this.spotPrices.getSpotPrices(from, to, siteId);
+            const sessions = detectChargingSessions(buckets, settings, timeZone, createSpotPriceLookup(spotPrices));
+
+            return await this.sessions.replaceSessions(siteId, from, to, sessions);
+        } catch (error) {
+            if (staleFrom !== null) {
+                // Keep the claimed buckets for the next run
+                await this.prisma.$executeRaw`
+                    UPDATE energy_bucket_aggregation_jobs
+                    SET car_sessions_stale_from = LEAST(car_sessions_stale_from, ${staleFrom})
+                    WHERE site_id = ${siteId}
+                `;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Main entry point for the session job.
+     * Detects the sessions of every site; a failing site does not block the other sites.
+     */
+    async run(): Promise<void> {
+        const sites = await this.prisma.site.findMany({
+            select: { id: true, timezone: true },
+            orderBy: { id: 'asc' },
+        });
+
+        for (const site of sites) {
+            try {
+                const recorded = await this.detectSite(site.id, site.timezone);
+                if (recorded === null) {
+                    console.log(`Car session detection skipped for site ${site.id}: not aggregated yet`);
+                } else if (recorded > 0) {
+                    console.log(`Recorded ${recorded} car charging session(s) for site ${site.id}`);
+                }
+            } catch (error) {
+                console.error(`Car session detection failed for site ${site.id}:`, error);
+            }
+        }
+    }
+}
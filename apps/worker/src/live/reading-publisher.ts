@@ -0,0 +1,69 @@
+import { createClient } from 'redis';
+import { getLiveReadingsChannel } from '@repo/core';
+import type { LiveReading } from '@repo/core';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Publishes new readings to live subscribers (e.g. the `/api/energy` SSE stream of the web app).
+ */
+export interface ReadingPublisher {
+    publish(siteId: number, reading: LiveReading): Promise<void>;
+    disconnect(): Promise<void>;
+}
+
+/**
+ * Publishes readings as JSON on the per-site Redis pub/sub channel.
+ * Live data is best effort: while Redis is unreachable readings are dropped instead of queued,
+ * clients catch up from the database when they reconnect.
+ */
+export class RedisReadingPublisher implements ReadingPublisher {
+    constructor(private client: RedisClient) { }
+
+    async publish(siteId: number, reading: LiveReading): Promise<void> {
+        if (!this.client.isReady) {
+            return;
+        }
+
+        try {
+            await this.client.publish(getLiveReadingsChannel(siteId), JSON.stringify(reading));
+        } catch (error) {
+            console.error('Error publishing live reading:', error);
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        try {
+            await this.client.quit();
+        } catch (error) {
+            console.error('Error disconnecting Redis publisher:', error);
+        }
+    }
+}
+
+/**
+ * Creates a publisher connected to `REDIS_URL`.
+ * @param redisUrl - Redis connection URL
+ * @returns RedisReadingPublisher, or null if no Redis URL is configured
+ */
+export function createReadingPublisher(redisUrl: string | undefined = process.env.REDIS_URL): ReadingPublisher | null {
+    if (!redisUrl) {
+        return null;
+    }
+
+    const client = createClient({
+        url: redisUrl,
+        // Never queue publishes while disconnected, stale live data is worthless
+        disableOfflineQueue: true,
+    });
+
+    client.on('error', (error) => {
+        console.error('Redis publisher error:', error);
+    });
+
+    client.connect().catch((error) => {
+        console.error('Failed to connect Redis publisher:', error);
+    });
+
+    return new RedisReadingPublisher(client);
+}
@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import { parseTopicMappingConfig, type TopicMappingConfig } from './topic-mapping';
+
+/**
+ * Built-in mapping for the go-e controller.
+ * `ccp` publishes an array of channel powers (home, grid, car, battery, solar),
+ * `utc` publishes the controller time as an ISO string without zone designator.
+ */
+export function createGoEPreset(
+    topicCcp: string = process.env.MQTT_TOPIC_CCP || 'go-eController/916791/ccp',
+    topicUtc: string = process.env.MQTT_TOPIC_UTC || 'go-eController/916791/utc'
+): TopicMappingConfig {
+    return parseTopicMappingConfig({
+        name: 'go-e',
+        topics: [
+            {
+                topic: topicCcp,
+                channels: [
+                    { channel: 'home', path: '[0]' },
+                    { channel: 'grid', path: '[1]' },
+                    { channel: 'car', path: '[2]' },
+                    { channel: 'battery', path: '[3]' },
+                    { channel: 'solar', path: '[4]' },
+                ],
+            },
+            {
+                topic: topicUtc,
+                timestamp: { path: '$', format: 'iso-utc' },
+            },
+        ],
+    });
+}
+
+const PRESETS: Record<string, () => TopicMappingConfig> = {
+    'go-e': () => createGoEPreset(),
+};
+
+/**
+ * Loads the topic mapping used by the MQTT worker.
+ * `MQTT_MAPPING_FILE` points to a JSON mapping file; otherwise the preset named by
+ * `MQTT_MAPPING_PRESET` (default: go-e) is used.
+ * @throws Error if the file cannot be read or the configuration is invalid
+ */
+export function loadTopicMapping(
+    mappingFile: string | undefined = process.env.MQTT_MAPPING_FILE,
+    presetName: string = process.env.MQTT_MAPPING_PRESET || 'go-e'
+): TopicMappingConfig {
+    if (mappingFile) {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(readFileSync(mappingFile, 'utf-8'));
+        } catch (error) {
+            throw new Error(
+                `Could not read MQTT mapping file ${mappingFile}: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+        return parseTopicMappingConfig(raw);
+    }
+
+    const preset = PRESETS[presetName];
+    if (!preset) {
+        throw new Error(
+            `Unknown MQTT mapping preset: ${presetName}. Available presets: ${Object.keys(PRESETS).join(', ')}`
+        );
+    }
+    return preset();
+}
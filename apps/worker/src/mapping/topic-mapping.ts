@@ -0,0 +1,306 @@
+import type { EnergyData } from '@repo/core';
+
+/**
+ * Energy channels that can be fed from MQTT payloads.
+ */
+export type EnergyChannel = Exclude<keyof EnergyData, 'timestamp'>;
+
+export const ENERGY_CHANNELS: readonly EnergyChannel[] = ['home', 'grid', 'car', 'solar', 'battery', 'battery_soc'];
+
+/**
+ * Supported formats for timestamps carried in MQTT payloads.
+ * - 'iso-utc': ISO date string without zone designator, interpreted as UTC (go-e `utc` topic)
+ * - 'iso': ISO date string including its zone designator
+ * - 'unix': Unix timestamp in seconds
+ * - 'unix-ms': Unix timestamp in milliseconds
+ */
+export type TimestampFormat = 'iso-utc' | 'iso' | 'unix' | 'unix-ms';
+
+const TIMESTAMP_FORMATS: readonly TimestampFormat[] = ['iso-utc', 'iso', 'unix', 'unix-ms'];
+
+/**
+ * Maps a single value of a payload to an energy channel.
+ */
+export interface ChannelMapping {
+    channel: EnergyChannel;
+    /** Path into the payload, e.g. `[0]`, `ENERGY.Power` or `inverters[1].power`. Empty selects the payload itself. */
+    path: string;
+    /** Factor applied to the raw value (e.g. 1000 to convert kW to W). Defaults to 1. */
+    scale: number;
+    /** Flips the sign of the value, e.g. for meters reporting feed-in as positive. Defaults to false. */
+    invert: boolean;
+}
+
+/**
+ * Extracts the reading timestamp from a payload.
+ */
+export interface TimestampMapping {
+    path: string;
+    format: TimestampFormat;
+}
+
+/**
+ * Describes how messages of one topic (filter) are translated into energy data.
+ */
+export interface TopicMapping {
+    /** MQTT topic filter, may contain `+` and `#` wildcards. */
+    topic: string;
+    channels: ChannelMapping[];
+    timestamp: TimestampMapping | null;
+}
+
+/**
+ * Complete, validated mapping configuration for the MQTT worker.
+ */
+export interface TopicMappingConfig {
+    name: string;
+    topics: TopicMapping[];
+}
+
+/**
+ * Validates a raw (parsed JSON) mapping configuration.
+ * @param raw - Untrusted configuration value
+ * @returns Validated mapping configuration with defaults applied
+ * @throws Error describing the first invalid property
+ */
+export function parseTopicMappingConfig(raw: unknown): TopicMappingConfig {
+    if (!isRecord(raw)) {
+        throw new Error('Invalid MQTT mapping: configuration must be an object');
+    }
+
+    const name = raw.name === undefined ? 'custom' : raw.name;
+    if (typeof name !== 'string' || name.length === 0) {
+        throw new Error('Invalid MQTT mapping: name must be a non-empty string');
+    }
+
+    if (!Array.isArray(raw.topics) || raw.topics.length === 0) {
+        throw new Error('Invalid MQTT mapping: topics must be a non-empty array');
+    }
+
+    const topics = raw.topics.map((topic, index) => parseTopic(topic, `topics[${index}]`));
+
+    if (!topics.some((topic) => topic.channels.length > 0)) {
+        throw new Error('Invalid MQTT mapping: at least one topic must map a channel');
+    }
+
+    return { name, topics };
+}
+
+function parseTopic(raw: unknown, location: string): TopicMapping {
+    if (!isRecord(raw)) {
+        throw new Error(`Invalid MQTT mapping: ${location} must be an object`);
+    }
+
+    if (typeof raw.topic !== 'string' || raw.topic.trim().length === 0) {
+        throw new Error(`Invalid MQTT mapping: ${location}.topic must be a non-empty string`);
+    }
+
+    const rawChannels = raw.channels ?? [];
+    if (!Array.isArray(rawChannels)) {
+        throw new Error(`Invalid MQTT mapping: ${location}.channels must be an array`);
+    }
+
+    const channels = rawChannels.map((channel, index) =>
+        parseChannel(channel, `${location}.channels[${index}]`)
+    );
+
+    let timestamp: TimestampMapping | null = null;
+    if (raw.timestamp !== undefined) {
+        timestamp = parseTimestamp(raw.timestamp, `${location}.timestamp`);
+    }
+
+    if (channels.length === 0 && !timestamp) {
+        throw new Error(`Invalid MQTT mapping: ${location} must map at least one channel or a timestamp`);
+    }
+
+    return { topic: raw.topic.trim(), channels, timestamp };
+}
+
+function parseChannel(raw: unknown, location: string): ChannelMapping {
+    if (!isRecord(raw)) {
+        throw new Error(`Invalid MQTT mapping: ${location} must be an object`);
+    }
+
+    if (typeof raw.channel !== 'string' || !ENERGY_CHANNELS.includes(raw.channel as EnergyChannel)) {
+        throw new Error(
+            `Invalid MQTT mapping: ${location}.channel must be one of ${ENERGY_CHANNELS.join(', ')}`
+        );
+    }
+
+    const path = parsePath(raw.path, `${location}.path`);
+
+    const scale = raw.scale === undefined ? 1 : raw.scale;
+    if (typeof scale !== 'number' || !Number.isFinite(scale)) {
+        throw new Error(`Invalid MQTT mapping: ${location}.scale must be a finite number`);
+    }
+
+    const invert = raw.invert === undefined ? false : raw.invert;
+    if (typeof invert !== 'boolean') {
+        throw new Error(`Invalid MQTT mapping: ${location}.invert must be a boolean`);
+    }
+
+    return { channel: raw.channel as EnergyChannel, path, scale, invert };
+}
+
+function parseTimestamp(raw: unknown, location: string): TimestampMapping {
+    if (!isRecord(raw)) {
+        throw new Error(`Invalid MQTT mapping: ${location} must be an object`);
+    }
+
+    if (typeof raw.format !== 'string' || !TIMESTAMP_FORMATS.includes(raw.format as TimestampFormat)) {
+        throw new Error(
+            `Invalid MQTT mapping: ${location}.format must be one of ${TIMESTAMP_FORMATS.join(', ')}`
+        );
+    }
+
+    return { path: parsePath(raw.path, `${location}.path`), format: raw.format as TimestampFormat };
+}
+
+function parsePath(raw: unknown, location: string): string {
+    const path = raw === undefined ? '' : raw;
+    if (typeof path !== 'string') {
+        throw new Error(`Invalid MQTT mapping: ${location} must be a string`);
+    }
+    // Validate eagerly so that typos surface at startup rather than per message
+    splitPath(path, location);
+    return path;
+}
+
+/**
+ * Splits a path like `a.b[0].c` into its segments.
+ * `$` or an empty string address the payload itself.
+ */
+function splitPath(path: string, location: string = 'path'): Array<string | number> {
+    const trimmed = path.trim();
+    if (trimmed === '' || trimmed === '$') {
+        return [];
+    }
+
+    const normalized = trimmed.startsWith('$') ? trimmed.slice(1).replace(/^\./, '') : trimmed;
+    const segments: Array<string | number> = [];
+    const pattern = /([^.[\]]+)|\[(\d+)\]/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(normalized)) !== null) {
+        const separator = normalized.slice(consumed, match.index);
+        if (separator !== '' && separator !== '.') {
+            throw new Error(`Invalid MQTT mapping: ${location} "${path}" is not a valid path`);
+        }
+        segments.push(match[2] !== undefined ? parseInt(match[2], 10) : match[1]);
+        consumed = match.index + match[0].length;
+    }
+
+    if (consumed !== normalized.length || segments.length === 0) {
+        throw new Error(`Invalid MQTT mapping: ${location} "${path}" is not a valid path`);
+    }
+
+    return segments;
+}
+
+/**
+ * Resolves a path against a parsed payload.
+ * @returns The addressed value, or undefined if the path does not exist in the payload
+ */
+export function resolvePath(payload: unknown, path: string): unknown {
+    let current: unknown = payload;
+    for (const segment of splitPath(path)) {
+        if (typeof segment === 'number') {
+            if (!Array.isArray(current)) {
+                return undefined;
+            }
+            current = current[segment];
+        } else {
+            if (!isRecord(current)) {
+                return undefined;
+            }
+            current = current[segment];
+        }
+    }
+    return current;
+}
+
+/**
+ * Converts a mapped payload value into watts for the channel, or percent for `battery_soc`.
+ * Missing (null) or non-numeric power values are treated as 0, matching the go-e `ccp` handling;
+ * an unknown state of charge stays null.
+ */
+export function toChannelValue(value: unknown, mapping: ChannelMapping): number | null {
+    const numeric = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(numeric)) {
+        return mapping.channel === 'battery_soc' ? null : 0;
+    }
+    const scaled = numeric * mapping.scale;
+    return mapping.invert ? -scaled : scaled;
+}
+
+/**
+ * Combines the latest values of all sources feeding a channel.
+ * Power channels are summed (e.g. several inverters); the state of charge of several batteries is averaged over the
+ * sources reporting one, and null if none does.
+ */
+export function combineChannelValues(channel: EnergyChannel, values: Iterable<number | null>): number | null {
+    let total = 0;
+    let count = 0;
+    for (const value of values) {
+        if (value !== null) {
+            total += value;
+            count++;
+        }
+    }
+    if (channel === 'battery_soc') {
+        return count > 0 ? total / count : null;
+    }
+    return total;
+}
+
+/**
+ * Converts a mapped payload value into a Unix timestamp in seconds.
+ * @returns Timestamp in seconds, or null if the value cannot be interpreted
+ */
+export function toTimestamp(value: unknown, mapping: TimestampMapping): number | null {
+    switch (mapping.format) {
+        case 'iso-utc':
+        case 'iso': {
+            if (typeof value !== 'string') {
+                return null;
+            }
+            const date = new Date(mapping.format === 'iso-utc' ? value + 'Z' : value);
+            return isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+        }
+        case 'unix':
+        case 'unix-ms': {
+            const numeric = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+            if (!Number.isFinite(numeric)) {
+                return null;
+            }
+            return Math.floor(mapping.format === 'unix-ms' ? numeric / 1000 : numeric);
+        }
+    }
+}
+
+/**
+ * Checks whether a concrete topic matches an MQTT topic filter (supports `+` and `#`).
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+    const filterLevels = filter.split('/');
+    const topicLevels = topic.split('/');
+
+    for (let i = 0; i < filterLevels.length; i++) {
+        if (filterLevels[i] === '#') {
+            return true;
+        }
+        if (i >= topicLevels.length) {
+            return false;
+        }
+        if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) {
+            return false;
+        }
+    }
+
+    return filterLevels.length === topicLevels.length;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
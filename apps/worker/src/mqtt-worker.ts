@@ -1,10 +1,31 @@
 import mqtt, { type MqttClient, type IClientOptions } from 'mqtt';
 import * as Sentry from '@sentry/node';
-import type { EnergyData, EnergyHistoryEntry } from '@repo/core';
-import type { EnergyRepository } from '@repo/core';
+import { DEFAULT_SITE_ID } from '@repo/core';
+import type { EnergyData } from '@repo/core';
+import {
+    combineChannelValues,
+    resolvePath,
+    toChannelValue,
+    toTimestamp,
+    topicMatches,
+    type EnergyChannel,
+    type TopicMapping,
+    type TopicMappingConfig,
+} from './mapping/topic-mapping';
+import { loadTopicMapping } from './mapping/presets';
+import type { ReadingPublisher } from './live/reading-publisher';
+import type { ReadingStore } from './spool/durable-reading-writer';
 
 type MqttClientFactory = (url: string, options?: IClientOptions) => MqttClient;
 
+/**
+ * Site and (optional) meter that readings of this worker are stored for.
+ */
+export interface ReadingSource {
+    siteId: number;
+    meterId: number | null;
+}
+
 export class MqttWorker {
     private client: MqttClient | null = null;
     private currentEnergyData: EnergyData = {
@@ -13,27 +34,36 @@ export class MqttWorker {
         grid: 0,
         car: 0,
         solar: 0,
+        battery: 0,
+        battery_soc: null,
     };
     private lastHistoryTimestamp: number | null = null;
     private lastMessageTimestamp: number | null = null;
-    private topicCcp: string;
-    private topicUtc: string;
+    private mapping: TopicMappingConfig;
+    private usesPayloadTimestamps: boolean;
+    // Latest value per channel and concrete source (topic + path), combined by `combineChannelValues`
+    private channelSources = new Map<EnergyChannel, Map<string, number | null>>();
     private mqttUrl: string;
     private clientFactory: MqttClientFactory;
     private isShuttingDown: boolean = false;
-    private repository: EnergyRepository;
+    private repository: ReadingStore;
+    private source: ReadingSource;
+    private publisher: ReadingPublisher | null;
 
     constructor(
-        repository: EnergyRepository,
+        repository: ReadingStore,
         mqttUrl?: string,
-        topicCcp?: string,
-        topicUtc?: string,
+        mapping?: TopicMappingConfig,
+        source: ReadingSource = { siteId: DEFAULT_SITE_ID, meterId: null },
+        publisher: ReadingPublisher | null = null,
         clientFactory?: MqttClientFactory
     ) {
         this.repository = repository;
+        this.source = source;
+        this.publisher = publisher;
         this.mqttUrl = (mqttUrl || process.env.MQTT_URL || '').trim().replace(/^['"]|['"]$/g, '');
-        this.topicCcp = topicCcp || process.env.MQTT_TOPIC_CCP || 'go-eController/916791/ccp';
-        this.topicUtc = topicUtc || process.env.MQTT_TOPIC_UTC || 'go-eController/916791/utc';
+        this.mapping = mapping || loadTopicMapping();
+        this.usesPayloadTimestamps = this.mapping.topics.some((topic) => topic.timestamp !== null);
         this.clientFactory = clientFactory || mqtt.connect;
 
         console.log('MQTT CONNECT PARAM:', mqttUrl);
@@ -74,7 +104,7 @@ export class MqttWorker {
         console.log(`Creating MQTT client → ${logUrl}`);
 
         const client = this.clientFactory(normalizedUrl, {
-            clientId: 'home-os-mqtt-worker',
+            clientId: this.getClientId(),
             clean: true,
             reconnectPeriod: 5000,
             connectTimeout: 10000,
@@ -82,9 +112,11 @@ export class MqttWorker {
         });
 
         client.on('connect', () => {
-            console.log('MQTT connected');
-            client.subscribe(this.topicCcp);
-            client.subscribe(this.topicUtc);
+            console.log(`MQTT connected (mapping: ${this.mapping.name})`);
+            const topics = new Set(this.mapping.topics.map((mapping) => mapping.topic));
+            for (const topic of topics) {
+                client.subscribe(topic);
+            }
         });
 
         client.on('message', (topic, message) => {
@@ -106,6 +138,18 @@ export class MqttWorker {
         this.client = client;
     }
 
+    /**
+     * Builds a broker client id that is unique per site and meter, so several workers can share a broker.
+     * `MQTT_CLIENT_ID` overrides the generated id.
+     */
+    private getClientId(): string {
+        if (process.env.MQTT_CLIENT_ID) {
+            return process.env.MQTT_CLIENT_ID;
+        }
+        const meterSuffix = this.source.meterId !== null ? `-meter-${this.source.meterId}` : '';
+        return `home-os-mqtt-worker-site-${this.source.siteId}${meterSuffix}`;
+    }
+
     private handleMessage(topic: string, message: Buffer): void {
         this.lastMessageTimestamp = Math.floor(Date.now() / 1000);
 
@@ -117,59 +161,112 @@ export class MqttWorker {
         });
 
         try {
-            if (topic === this.topicCcp) {
-                const data = JSON.parse(message.toString()) as number[];
-                if (Array.isArray(data) && data.length >= 5) {
-                    this.currentEnergyData.home = data[0] || 0;
-                    this.currentEnergyData.grid = data[1] || 0;
-                    this.currentEnergyData.car = data[2] || 0;
-                    this.currentEnergyData.solar = data[4] || 0;
-
-                    if (
-                        this.currentEnergyData.timestamp !== null &&
-                        typeof this.currentEnergyData.timestamp === 'number' &&
-                        !isNaN(this.currentEnergyData.timestamp) &&
-                        this.currentEnergyData.timestamp !== this.lastHistoryTimestamp
-                    ) {
-                        console.log("Persisting energy reading:", this.currentEnergyData);
-                        this.repository.insertEnergyReading(this.currentEnergyData).catch((error: unknown) => {
-                            console.error('Error persisting energy reading:', error);
-                            Sentry.captureException(error);
-                        });
-                        this.lastHistoryTimestamp = this.currentEnergyData.timestamp;
-                    }
+            const mappings = this.mapping.topics.filter((mapping) => topicMatches(mapping.topic, topic));
+            if (mappings.length === 0) {
+                return;
+            }
+
+            const payload = parsePayload(message);
+            let channelsUpdated = false;
+
+            for (const mapping of mappings) {
+                if (this.applyChannels(mapping, topic, payload)) {
+                    channelsUpdated = true;
                 }
-            } else if (topic === this.topicUtc) {
-                const timestampString = JSON.parse(message.toString()) as string;
-                const date = new Date(timestampString + "Z");
-
-                if (isNaN(date.getTime())) {
-                    console.error('Invalid UTC timestamp format:', timestampString);
-                } else {
-                    const timestamp = Math.floor(date.getTime() / 1000);
-                    this.currentEnergyData.timestamp = timestamp;
-
-                    if (
-                        timestamp !== this.lastHistoryTimestamp &&
-                        (this.currentEnergyData.home !== 0 ||
-                            this.currentEnergyData.grid !== 0 ||
-                            this.currentEnergyData.car !== 0 ||
-                            this.currentEnergyData.solar !== 0)
-                    ) {
-                        this.repository.insertEnergyReading(this.currentEnergyData).catch((error: unknown) => {
-                            console.error('Error persisting energy reading:', error);
-                            Sentry.captureException(error);
-                        });
-                        this.lastHistoryTimestamp = timestamp;
+
+                if (mapping.timestamp) {
+                    const rawTimestamp = resolvePath(payload, mapping.timestamp.path);
+                    const timestamp = toTimestamp(rawTimestamp, mapping.timestamp);
+                    if (timestamp === null) {
+                        console.error(`Invalid timestamp on topic ${topic}:`, rawTimestamp);
+                    } else {
+                        this.currentEnergyData.timestamp = timestamp;
                     }
                 }
             }
+
+            // Sources without their own clock are stamped with the time of arrival
+            if (channelsUpdated && !this.usesPayloadTimestamps) {
+                this.currentEnergyData.timestamp = this.lastMessageTimestamp;
+            }
+
+            this.persistCurrentReading();
         } catch (error) {
             console.error('Error parsing MQTT message:', error);
             Sentry.captureException(error);
         }
     }
 
+    /**
+     * Applies the channel mappings of a topic to the current energy data.
+     * A message missing any mapped value is ignored as a whole to avoid mixing old and new values.
+     * @returns true if channel values were updated
+     */
+    private applyChannels(mapping: TopicMapping, topic: string, payload: unknown): boolean {
+        if (mapping.channels.length === 0) {
+            return false;
+        }
+
+        const values = mapping.channels.map((channelMapping) => resolvePath(payload, channelMapping.path));
+        if (values.some((value) => value === undefined)) {
+            console.warn(`Ignoring message on topic ${topic}: payload does not match mapping ${mapping.topic}`);
+            return false;
+        }
+
+        mapping.channels.forEach((channelMapping, index) => {
+            let sources = this.channelSources.get(channelMapping.channel);
+            if (!sources) {
+                sources = new Map();
+                this.channelSources.set(channelMapping.channel, sources);
+            }
+            sources.set(`${topic}|${channelMapping.path}`, toChannelValue(values[index], channelMapping));
+            this.setChannel(channelMapping.channel, combineChannelValues(channelMapping.channel, sources.values()));
+        });
+
+        return true;
+    }
+
+    private setChannel(channel: EnergyChannel, value: number | null): void {
+        if (channel === 'battery_soc') {
+            this.currentEnergyData.battery_soc = value;
+        } else {
+            this.currentEnergyData[channel] = value ?? 0;
+        }
+    }
+
+    /**
+     * Persists and publishes the current energy data once per timestamp, as soon as channel data is available.
+     */
+    private persistCurrentReading(): void {
+        const timestamp = this.currentEnergyData.timestamp;
+        if (
+            timestamp === null ||
+            isNaN(timestamp) ||
+            timestamp === this.lastHistoryTimestamp ||
+            this.channelSources.size === 0
+        ) {
+            return;
+        }
+
+        console.log("Persisting energy reading:", this.currentEnergyData);
+        this.repository.insertEnergyReading(
+            { ...this.currentEnergyData },
+            this.source.siteId,
+            this.source.meterId
+        ).catch((error: unknown) => {
+            console.error('Error persisting energy reading:', error);
+            Sentry.captureException(error);
+        });
+
+        // Live subscribers get the reading right away, independent of the database write
+        this.publisher?.publish(this.source.siteId, {
+            ...this.currentEnergyData,
+            timestamp,
+            meter_id: this.source.meterId,
+        });
+        this.lastHistoryTimestamp = timestamp;
+    }
+
     public disconnect(): void {
         if (this.client) {
             try {
@@ -182,3 +279,15 @@ export class MqttWorker {
         }
     }
 }
+
+/**
+ * Parses an MQTT payload as JSON, falling back to the raw string for plain-text payloads.
+ */
+function parsePayload(message: Buffer): unknown {
+    const text = message.toString();
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text.trim();
+    }
+}
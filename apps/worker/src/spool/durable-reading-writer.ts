@@ -0,0 +1,149 @@
+import path from 'path';
+import * as Sentry from '@sentry/node';
+import type { EnergyRepository, NewEnergyReading } from '@repo/core';
+import { ReadingSpool } from './reading-spool';
+
+const DEFAULT_REPLAY_INTERVAL_MS = 10000;
+const REPLAY_BATCH_SIZE = 500;
+
+/**
+ * Store that readings of the MQTT worker are written to.
+ */
+export type ReadingStore = Pick<EnergyRepository, 'insertEnergyReading'>;
+
+/**
+ * Store that accepts several readings per write.
+ */
+export type BatchReadingStore = Pick<EnergyRepository, 'insertEnergyReadings'>;
+
+/**
+ * Writes readings to the database and spools them to a local file while the database is unavailable.
+ *
+ * Once a write fails, this and all following readings are appended to the spool so their order is kept.
+ * The spool is replayed in order every `replayIntervalMs` until it is empty. Inserts skip readings that
+ * already exist, so a reading written before a crash or lost acknowledgement is not duplicated on replay.
+ */
+export class DurableReadingWriter implements BatchReadingStore {
+    private replayTimer: NodeJS.Timeout | null = null;
+    private replaying: boolean = false;
+
+    constructor(
+        private repository: BatchReadingStore,
+        private spool: ReadingSpool,
+        private replayIntervalMs: number = DEFAULT_REPLAY_INTERVAL_MS
+    ) { }
+
+    /**
+     * Number of readings waiting in the spool.
+     */
+    getQueueDepth(): number {
+        return this.spool.size;
+    }
+
+    /**
+     * Starts replaying readings spooled by this or a previous run.
+     */
+    start(): void {
+        if (this.replayTimer) {
+            return;
+        }
+        if (this.spool.size > 0) {
+            console.log(`Reading spool contains ${this.spool.size} reading(s) from a previous run`);
+        }
+        this.replayTimer = setInterval(() => {
+            if (this.spool.size > 0) {
+                this.replay().catch((error) => {
+                    console.error('Error replaying reading spool:', error);
+                });
+            }
+        }, this.replayIntervalMs);
+    }
+
+    stop(): void {
+        if (this.replayTimer) {
+            clearInterval(this.replayTimer);
+            this.replayTimer = null;
+        }
+    }
+
+    /**
+     * Writes readings to the database, or to the spool if the database is unavailable.
+     * @returns Promise resolving to the number of readings inserted into the database (0 if spooled)
+     * @throws Error only if the readings can neither be written to the database nor to the spool
+     */
+    async insertEnergyReadings(readings: NewEnergyReading[]): Promise<number> {
+        // Keep readings in order: while older readings wait in the spool, new ones queue behind them
+        if (this.spool.size > 0) {
+            this.spool.append(readings);
+            return 0;
+        }
+
+        try {
+            return await this.repository.insertEnergyReadings(readings);
+        } catch (error) {
+            this.spool.append(readings);
+            console.error(`Database write failed, spooling readings (queue depth: ${this.spool.size})`);
+            Sentry.captureException(error);
+            return 0;
+        }
+    }
+
+    /**
+     * Writes spooled readings to the database in order and in batches, stopping at the first failure.
+     * @returns Number of readings written (including readings that already existed)
+     */
+    async replay(): Promise<number> {
+        if (this.replaying) {
+            return 0;
+        }
+        this.replaying = true;
+
+        let written = 0;
+        try {
+            const readings = this.spool.readAll();
+            for (let i = 0; i < readings.length; i += REPLAY_BATCH_SIZE) {
+                const batch = readings.slice(i, i + REPLAY_BATCH_SIZE);
+                try {
+                    await this.repository.insertEnergyReadings(batch);
+                } catch {
+                    break;
+                }
+                written += batch.length;
+            }
+
+            if (written > 0) {
+                this.spool.acknowledge(written);
+            }
+            if (this.spool.size > 0) {
+                console.warn(
+                    `Database still unavailable, replayed ${written} reading(s) (queue depth: ${this.spool.size})`
+                );
+            } else {
+                console.log(`Reading spool drained, replayed ${written} reading(s)`);
+            }
+            return written;
+        } finally {
+            this.replaying = false;
+        }
+    }
+}
+
+/**
+ * Creates a writer spooling to `READING_SPOOL_DIR` (default: `./spool`).
+ * Each site and meter gets its own spool file, so several workers can share the directory.
+ * @param repository - Store the readings are written to
+ * @param siteId - Site of the worker
+ * @param meterId - Meter of the worker, if any
+ * @param spoolDir - Directory of the spool files
+ * @returns DurableReadingWriter instance
+ */
+export function createDurableReadingWriter(
+    repository: BatchReadingStore,
+    siteId: number,
+    meterId: number | null,
+    spoolDir: string = process.env.READING_SPOOL_DIR || './spool'
+): DurableReadingWriter {
+    const meterSuffix = meterId !== null ? `-meter-${meterId}` : '';
+    const spool = new ReadingSpool(path.join(spoolDir, `readings-site-${siteId}${meterSuffix}.jsonl`));
+    return new DurableReadingWriter(repository, spool);
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import type { NewEnergyReading } from '@repo/core';
+
+/**
+ * Append-only queue of readings in a local JSON Lines file.
+ * Entries survive worker restarts and are kept in insertion order. Every append is flushed to disk
+ * before returning; acknowledged entries are removed by atomically replacing the file.
+ */
+export class ReadingSpool {
+    private depth: number;
+
+    constructor(private filePath: string) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        this.repairTrailingLine();
+        this.depth = this.readAll().length;
+    }
+
+    /**
+     * Number of readings in the queue.
+     */
+    get size(): number {
+        return this.depth;
+    }
+
+    /**
+     * Appends readings to the end of the queue.
+     * @throws Error if the file cannot be written
+     */
+    append(readings: NewEnergyReading[]): void {
+        if (readings.length === 0) {
+            return;
+        }
+        const fd = fs.openSync(this.filePath, 'a');
+        try {
+            fs.writeSync(fd, readings.map((reading) => JSON.stringify(reading) + '\n').join(''));
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        this.depth += readings.length;
+    }
+
+    /**
+     * Reads all queued readings in insertion order.
+     * Lines that cannot be parsed (e.g. cut off by a crash) are skipped.
+     */
+    readAll(): NewEnergyReading[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+
+        const readings: NewEnergyReading[] = [];
+        for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+            if (line.trim() === '') {
+                continue;
+            }
+            try {
+                readings.push(JSON.parse(line) as NewEnergyReading);
+            } catch {
+                console.warn(`Skipping corrupt line in reading spool ${this.filePath}`);
+            }
+        }
+        return readings;
+    }
+
+    /**
+     * Removes the first `count` readings after they have been written to the database.
+     * Readings appended in the meantime are kept.
+     */
+    acknowledge(count: number): void {
+        const remaining = this.readAll().slice(count);
+        if (remaining.length === 0) {
+            fs.rmSync(this.filePath, { force: true });
+        } else {
+            const tempPath = `${this.filePath}.tmp`;
+            fs.writeFileSync(tempPath, remaining.map((reading) => JSON.stringify(reading) + '\n').join(''));
+            fs.renameSync(tempPath, this.filePath);
+        }
+        this.depth = remaining.length;
+    }
+
+    /**
+     * Terminates a line cut off by a crash, so the next append starts on a new line.
+     */
+    private repairTrailingLine(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        const content = fs.readFileSync(this.filePath, 'utf-8');
+        if (content.length > 0 && !content.endsWith('\n')) {
+            fs.appendFileSync(this.filePath, '\n');
+        }
+    }
+}
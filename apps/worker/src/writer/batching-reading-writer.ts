@@ -0,0 +1,89 @@
+import { DEFAULT_SITE_ID } from '@repo/core';
+import type { EnergyData, NewEnergyReading } from '@repo/core';
+import type { BatchReadingStore, ReadingStore } from '../spool/durable-reading-writer';
+import { parsePositiveIntEnv } from '../config/env';
+
+/**
+ * Limits of a batch; a batch is written as soon as either limit is reached.
+ */
+export interface BatchLimits {
+    /** Maximum number of readings per write */
+    maxBatchSize: number;
+    /** Maximum time in milliseconds a reading waits before it is written */
+    flushIntervalMs: number;
+}
+
+export const DEFAULT_BATCH_LIMITS: BatchLimits = {
+    maxBatchSize: 100,
+    flushIntervalMs: 5000,
+};
+
+/**
+ * Collects readings in memory and writes them in batches, saving a database round-trip per reading.
+ * Readings still in memory are lost if the process crashes, so `flush()` must be awaited on shutdown.
+ */
+export class BatchingReadingWriter implements ReadingStore {
+    private buffer: NewEnergyReading[] = [];
+    private flushTimer: NodeJS.Timeout | null = null;
+    private pendingFlush: Promise<void> = Promise.resolve();
+
+    constructor(
+        private store: BatchReadingStore,
+        private limits: BatchLimits = DEFAULT_BATCH_LIMITS
+    ) { }
+
+    /**
+     * Adds a reading to the current batch.
+     * @returns Promise resolving once the reading is buffered, or written if it completed a batch
+     */
+    async insertEnergyReading(
+        data: EnergyData,
+        siteId: number = DEFAULT_SITE_ID,
+        meterId: number | null = null
+    ): Promise<void> {
+        this.buffer.push({ data, siteId, meterId });
+
+        if (this.buffer.length >= this.limits.maxBatchSize) {
+            await this.flush();
+        } else if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flush().catch((error) => {
+                    console.error('Error flushing reading batch:', error);
+                });
+            }, this.limits.flushIntervalMs);
+        }
+    }
+
+    /**
+     * Writes all buffered readings. Batches are written one after another, keeping their order.
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        const batch = this.buffer;
+        this.buffer = [];
+
+        const flushed = this.pendingFlush.then(async () => {
+            if (batch.length > 0) {
+                await this.store.insertEnergyReadings(batch);
+            }
+        });
+        // A failed batch must not block the following ones
+        this.pendingFlush = flushed.catch(() => undefined);
+        return flushed;
+    }
+}
+
+/**
+ * Reads the batch limits from `READING_BATCH_SIZE` and `READING_BATCH_INTERVAL_MS`.
+ * @throws Error if a configured limit is not a positive integer
+ */
+export function loadBatchLimits(): BatchLimits {
+    return {
+        maxBatchSize: parsePositiveIntEnv('READING_BATCH_SIZE') ?? DEFAULT_BATCH_LIMITS.maxBatchSize,
+        flushIntervalMs: parsePositiveIntEnv('READING_BATCH_INTERVAL_MS') ?? DEFAULT_BATCH_LIMITS.flushIntervalMs,
+    };
+}
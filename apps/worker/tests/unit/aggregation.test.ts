@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@repo/database';
+import { EnergyAggregationJob } from '../../src/jobs/aggregation';
+
+const DAY_SECONDS = 86400;
+
+describe('EnergyAggregationJob.processLatest', () => {
+    const now = 10 * DAY_SECONDS;
+    let prisma: {
+        energyBucketAggregationJob: { findUnique: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+    };
+    let job: EnergyAggregationJob;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(now * 1000);
+        prisma = {
+            energyBucketAggregationJob: {
+                findUnique: vi.fn().mockResolvedValue({
+                    last_processed_timestamp: 7 * DAY_SECONDS,
+                    last_ingested_at: 7 * DAY_SECONDS,
+                    readings_purged_before: 0,
+                }),
+                update: vi.fn().mockResolvedValue({}),
+            },
+        };
+        job = new EnergyAggregationJob(prisma as unknown as PrismaClient);
+        vi.spyOn(job, 'reaggregateLateReadings').mockResolvedValue({ ranges: [], bucketsProcessed: 0 });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should renew the lease before every chunk of a backlog', async () => {
+        const aggregateRange = vi.spyOn(job, 'aggregateRange').mockResolvedValue(1440);
+        const renewLease = vi.fn().mockResolvedValue(undefined);
+
+        expect(await job.processLatest(2, renewLease)).toBe(3 * 1440);
+
+        expect(aggregateRange.mock.calls).toEqual([
+            [7 * DAY_SECONDS, 8 * DAY_SECONDS, 2],
+            [8 * DAY_SECONDS, 9 * DAY_SECONDS, 2],
+            [9 * DAY_SECONDS, 10 * DAY_SECONDS, 2],
+        ]);
+        // Once per chunk and once before the late readings
+        expect(renewLease).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop catching up when the lease was taken over', async () => {
+        const aggregateRange = vi.spyOn(job, 'aggregateRange').mockResolvedValue(1440);
+        const renewLease = vi.fn()
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce(new Error('Aggregation lock was taken over by another run'));
+
+        await expect(job.processLatest(2, renewLease)).rejects.toThrow('Aggregation lock was taken over by another run');
+
+        expect(aggregateRange).toHaveBeenCalledTimes(1);
+        expect(prisma.energyBucketAggregationJob.update).toHaveBeenLastCalledWith({
+            where: { site_id: 2 },
+            data: { status: 'error', last_run_at: now },
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { EnergyData, NewEnergyReading } from '@repo/core';
+import { BatchingReadingWriter } from '../../src/writer/batching-reading-writer';
+import { DurableReadingWriter } from '../../src/spool/durable-reading-writer';
+import { ReadingSpool } from '../../src/spool/reading-spool';
+
+vi.mock('@sentry/node', () => ({ captureException: vi.fn() }));
+
+function createData(timestamp: number): EnergyData {
+    return { timestamp, home: 1000, grid: 500, car: 0, solar: 500, battery: 0, battery_soc: null };
+}
+
+function timestampsOf(readings: NewEnergyReading[]): number[] {
+    return readings.map((reading) => reading.data.timestamp as number);
+}
+
+describe('BatchingReadingWriter', () => {
+    let store: { insertEnergyReadings: ReturnType<typeof vi.fn> };
+    let writer: BatchingReadingWriter;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        store = { insertEnergyReadings: vi.fn(async (readings: NewEnergyReading[]) => readings.length) };
+        writer = new BatchingReadingWriter(store, { maxBatchSize: 3, flushIntervalMs: 5000 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    function batches(): number[][] {
+        return store.insertEnergyReadings.mock.calls.map(([readings]) => timestampsOf(readings));
+    }
+
+    it('should write a batch as soon as it is full', async () => {
+        await writer.insertEnergyReading(createData(1000), 2, 7);
+        await writer.insertEnergyReading(createData(1001), 2, 7);
+        expect(store.insertEnergyReadings).not.toHaveBeenCalled();
+
+        await writer.insertEnergyReading(createData(1002), 2, 7);
+
+        expect(batches()).toEqual([[1000, 1001, 1002]]);
+        expect(store.insertEnergyReadings.mock.calls[0][0][0]).toMatchObject({ siteId: 2, meterId: 7 });
+    });
+
+    it('should write a partial batch once the interval elapsed', async () => {
+        await writer.insertEnergyReading(createData(1000));
+        await writer.insertEnergyReading(createData(1001));
+
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(store.insertEnergyReadings).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(batches()).toEqual([[1000, 1001]]);
+    });
+
+    it('should write the remaining readings when flushed on shutdown', async () => {
+        await writer.insertEnergyReading(createData(1000));
+
+        await writer.flush();
+
+        expect(batches()).toEqual([[1000]]);
+        // The interval timer was cleared, so the reading is not written a second time
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(store.insertEnergyReadings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep readings added while a batch is being written', async () => {
+        let finishInsert: () => void = () => {};
+        store.insertEnergyReadings.mockImplementationOnce(
+            () => new Promise<number>((resolve) => {
+                finishInsert = () => resolve(3);
+            })
+        );
+        await writer.insertEnergyReading(createData(1000));
+        await writer.insertEnergyReading(createData(1001));
+        const fullBatch = writer.insertEnergyReading(createData(1002));
+
+        await writer.insertEnergyReading(createData(1003));
+        finishInsert();
+        await fullBatch;
+        await writer.flush();
+
+        expect(batches()).toEqual([[1000, 1001, 1002], [1003]]);
+    });
+
+    it('should pass a failed batch to the store and keep writing the following ones', async () => {
+        store.insertEnergyReadings.mockRejectedValueOnce(new Error('connection refused'));
+        await writer.insertEnergyReading(createData(1000));
+
+        await expect(writer.flush()).rejects.toThrow('connection refused');
+        await writer.insertEnergyReading(createData(1001));
+        await writer.flush();
+
+        expect(batches()).toEqual([[1000], [1001]]);
+    });
+
+    it('should spool a batch the database rejected', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batching-writer-'));
+        try {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const repository = { insertEnergyReadings: vi.fn().mockRejectedValue(new Error('connection refused')) };
+            const spool = new ReadingSpool(path.join(dir, 'readings.jsonl'));
+            const durable = new DurableReadingWriter(repository, spool);
+            const batching = new BatchingReadingWriter(durable, { maxBatchSize: 2, flushIntervalMs: 5000 });
+
+            await batching.insertEnergyReading(createData(1000));
+            await batching.insertEnergyReading(createData(1001));
+
+            expect(repository.insertEnergyReadings).toHaveBeenCalledTimes(1);
+            expect(timestampsOf(spool.readAll())).toEqual([1000, 1001]);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
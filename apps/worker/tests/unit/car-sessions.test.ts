@@ -0,0 +1,215 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@repo/database';
+import type {
+    CarSessionRepository,
+    EnergyBucket,
+    EnergyBucketRepository,
+    EnergyRepository,
+    EnergySettings,
+    SpotPriceRepository,
+} from '@repo/core';
+import { CarSessionJob, detectChargingSessions } from '../../src/jobs/car-sessions';
+
+// Monday, 19 October 2026, 10:00 UTC
+const START = 1792404000;
+
+describe('detectChargingSessions', () => {
+    function createBucket(minute: number, carKwh: number, homeKwh = 0, solarKwh = 0): EnergyBucket {
+        const bucketStart = START + minute * 60;
+        const carWatts = carKwh * 60 * 1000;
+        return {
+            bucket_start: bucketStart,
+            bucket_end: bucketStart + 60,
+            home_kwh: homeKwh,
+            grid_kwh: homeKwh + carKwh - solarKwh,
+            car_kwh: carKwh,
+            solar_kwh: solarKwh,
+            battery_kwh: 0,
+            grid_import_kwh: Math.max(homeKwh + carKwh - solarKwh, 0),
+            grid_export_kwh: Math.max(solarKwh - homeKwh - carKwh, 0),
+            battery_charge_kwh: 0,
+            battery_discharge_kwh: 0,
+            readings_count: 2,
+            first_timestamp: bucketStart,
+            last_timestamp: bucketStart + 59,
+            first_home: 0,
+            first_grid: 0,
+            first_car: carWatts,
+            first_solar: 0,
+            first_battery: 0,
+            last_home: 0,
+            last_grid: 0,
+            last_car: carWatts,
+            last_solar: 0,
+            last_battery: 0,
+            last_battery_soc: null,
+        };
+    }
+
+    function createSettings(overrides: Partial<EnergySettings> = {}): EnergySettings {
+        return {
+            id: 1,
+            producing_price: 0.08,
+            start_date: 0,
+            end_date: null,
+            updated_at: 0,
+            consuming_periods: [{ id: 1, energy_settings_id: 1, start_time: 0, end_time: 1439, price: 0.3 }],
+            ...overrides,
+        };
+    }
+
+    it('should join charging minutes across pauses of up to 15 minutes', () => {
+        const buckets = [
+            createBucket(0, 0.05),
+            createBucket(1, 0.05),
+            createBucket(17, 0.05), // 15 minutes after the end of the previous minute
+            createBucket(34, 0.05), // 16 minutes after: new session
+            createBucket(35, 0.05),
+        ];
+
+        const sessions = detectChargingSessions(buckets, [createSettings()], 'UTC');
+
+        expect(sessions.map((session) => [session.started_at, session.ended_at])).toEqual([
+            [START, START + 18 * 60],
+            [START + 34 * 60, START + 36 * 60],
+        ]);
+        expect(sessions[0].energy_kwh).toBeCloseTo(0.15);
+        expect(sessions[0].peak_power).toBeCloseTo(3000);
+    });
+
+    it('should ignore minutes below the charging power and drop sessions below the minimum energy', () => {
+        const buckets = [
+            createBucket(0, 0.005), // 300 W standby draw
+            createBucket(1, 0.05),
+            createBucket(2, 0.005),
+            createBucket(30, 0.05),
+            createBucket(31, 0.05),
+        ];
+
+        const sessions = detectChargingSessions(buckets, [createSettings()], 'UTC');
+
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0].started_at).toBe(START + 30 * 60);
+        expect(sessions[0].energy_kwh).toBeCloseTo(0.1);
+    });
+
+    it('should share solar between home and car in proportion to their consumption', () => {
+        const buckets = [createBucket(0, 0.05, 0.05, 0.06), createBucket(1, 0.05, 0.05, 0.2)];
+
+        const [session] = detectChargingSessions(buckets, [createSettings()], 'UTC');
+
+        // 0.06 * 0.05 / 0.1 = 0.03 kWh in the first minute, all of the car demand in the second
+        expect(session.solar_kwh).toBeCloseTo(0.08);
+        // Grid energy at the consuming price, solar energy at the feed-in price
+        expect(session.cost).toBeCloseTo(0.02 * 0.3 + 0.08 * 0.08);
+    });
+
+    it('should add VAT to the grid energy only for the gross cost', () => {
+        const buckets = [createBucket(0, 0.05, 0.05, 0.06), createBucket(1, 0.05, 0.05, 0.2)];
+
+        const [session] = detectChargingSessions(buckets, [createSettings({ vat_rate: 0.19 })], 'UTC');
+
+        expect(session.cost).toBeCloseTo(0.02 * 0.3 + 0.08 * 0.08);
+        expect(session.gross_cost).toBeCloseTo(0.02 * 0.3 * 1.19 + 0.08 * 0.08);
+    });
+
+    it('should price dynamic tariffs by the spot price and fall back to the consuming periods', () => {
+        const settings = createSettings({
+            tariff_type: 'dynamic',
+            spot_markup: 0.02,
+            grid_fee: 0.05,
+            consumption_levy: 0.01,
+        });
+        const buckets = [createBucket(0, 0.05), createBucket(1, 0.05)];
+
+        const [session] = detectChargingSessions(buckets, [settings], 'UTC', (timestamp) =>
+            timestamp === START ? 0.1 : null
+        );
+
+        expect(session.cost).toBeCloseTo(0.05 * 0.18 + 0.05 * 0.31);
+    });
+
+    it('should have no cost if settings or a consuming price are missing for a minute', () => {
+        const buckets = [createBucket(0, 0.05), createBucket(1, 0.05)];
+
+        const uncovered = detectChargingSessions(buckets, [createSettings({ start_date: START + 60 })], 'UTC');
+        const withoutPeriods = detectChargingSessions(buckets, [createSettings({ consuming_periods: [] })], 'UTC');
+
+        expect(uncovered[0].cost).toBeNull();
+        expect(uncovered[0].gross_cost).toBeNull();
+        expect(withoutPeriods[0].cost).toBeNull();
+        expect(withoutPeriods[0].gross_cost).toBeNull();
+        expect(withoutPeriods[0].energy_kwh).toBeCloseTo(0.1);
+    });
+});
+
+describe('CarSessionJob', () => {
+    const cursor = { site_id: 2, last_processed_timestamp: START + 86400, car_sessions_stale_from: START };
+    let prisma: {
+        energyBucketAggregationJob: { findUnique: ReturnType<typeof vi.fn>; updateMany: ReturnType<typeof vi.fn> };
+        $executeRaw: ReturnType<typeof vi.fn>;
+    };
+    let sessions: {
+        getLatestSession: ReturnType<typeof vi.fn>;
+        getFirstSessionEndingFrom: ReturnType<typeof vi.fn>;
+        replaceSessions: ReturnType<typeof vi.fn>;
+    };
+    let buckets: { getCarChargingBuckets: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+        prisma = {
+            energyBucketAggregationJob: {
+                findUnique: vi.fn().mockResolvedValue(cursor),
+                updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+            },
+            $executeRaw: vi.fn().mockResolvedValue(1),
+        };
+        sessions = {
+            getLatestSession: vi.fn().mockResolvedValue({ started_at: START + 7200 }),
+            getFirstSessionEndingFrom: vi.fn().mockResolvedValue({ started_at: START - 3600 }),
+            replaceSessions: vi.fn().mockResolvedValue(0),
+        };
+        buckets = { getCarChargingBuckets: vi.fn().mockResolvedValue([]) };
+    });
+
+    function createJob(): CarSessionJob {
+        return new CarSessionJob(
+            prisma as unknown as PrismaClient,
+            sessions as unknown as CarSessionRepository,
+            buckets as unknown as EnergyBucketRepository,
+            { getAllEnergySettings: vi.fn().mockResolvedValue([]) } as unknown as EnergyRepository,
+            { getSpotPrices: vi.fn().mockResolvedValue([]) } as unknown as SpotPriceRepository
+        );
+    }
+
+    it('should detect re-aggregated buckets again from the start of the session they may extend', async () => {
+        await createJob().detectSite(2, 'UTC');
+
+        expect(prisma.energyBucketAggregationJob.updateMany).toHaveBeenCalledWith({
+            where: { site_id: 2, car_sessions_stale_from: START },
+            data: { car_sessions_stale_from: null },
+        });
+        expect(sessions.getFirstSessionEndingFrom).toHaveBeenCalledWith(2, START - 900);
+        expect(buckets.getCarChargingBuckets).toHaveBeenCalledWith(START - 3600, START + 86460, expect.any(Number), 2);
+        expect(sessions.replaceSessions).toHaveBeenCalledWith(2, START - 3600, START + 86460, []);
+    });
+
+    it('should detect from the latest session if no buckets were re-aggregated', async () => {
+        prisma.energyBucketAggregationJob.findUnique.mockResolvedValue({ ...cursor, car_sessions_stale_from: null });
+
+        await createJob().detectSite(2, 'UTC');
+
+        expect(prisma.energyBucketAggregationJob.updateMany).not.toHaveBeenCalled();
+        expect(sessions.replaceSessions).toHaveBeenCalledWith(2, START + 7200, START + 86460, []);
+    });
+
+    it('should keep the re-aggregated buckets marked if the detection fails', async () => {
+        sessions.replaceSessions.mockRejectedValue(new Error('connection lost'));
+
+        await expect(createJob().detectSite(2, 'UTC')).rejects.toThrow('connection lost');
+
+        const [sql, ...values] = prisma.$executeRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('LEAST(car_sessions_stale_from, ?)');
+        expect(values).toEqual([START, 2]);
+    });
+});
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { NewEnergyReading } from '@repo/core';
+import { DurableReadingWriter } from '../../src/spool/durable-reading-writer';
+import { ReadingSpool } from '../../src/spool/reading-spool';
+
+vi.mock('@sentry/node', () => ({ captureException: vi.fn() }));
+
+function createReading(timestamp: number): NewEnergyReading {
+    return {
+        siteId: 1,
+        meterId: null,
+        data: { timestamp, home: 1000, grid: 500, car: 0, solar: 500, battery: 0, battery_soc: null },
+    };
+}
+
+function timestampsOf(readings: NewEnergyReading[]): number[] {
+    return readings.map((reading) => reading.data.timestamp as number);
+}
+
+describe('DurableReadingWriter', () => {
+    let dir: string;
+    let filePath: string;
+    let spool: ReadingSpool;
+    let repository: { insertEnergyReadings: ReturnType<typeof vi.fn> };
+    let writer: DurableReadingWriter;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'durable-writer-'));
+        filePath = path.join(dir, 'readings.jsonl');
+        spool = new ReadingSpool(filePath);
+        repository = { insertEnergyReadings: vi.fn(async (readings: NewEnergyReading[]) => readings.length) };
+        writer = new DurableReadingWriter(repository, spool);
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        writer.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should write readings to the database while it is available', async () => {
+        expect(await writer.insertEnergyReadings([createReading(1000)])).toBe(1);
+
+        expect(writer.getQueueDepth()).toBe(0);
+    });
+
+    it('should spool readings when the database write fails', async () => {
+        repository.insertEnergyReadings.mockRejectedValueOnce(new Error('connection refused'));
+
+        expect(await writer.insertEnergyReadings([createReading(1000), createReading(1001)])).toBe(0);
+
+        expect(writer.getQueueDepth()).toBe(2);
+        expect(timestampsOf(spool.readAll())).toEqual([1000, 1001]);
+    });
+
+    it('should queue new readings behind a non-empty spool', async () => {
+        repository.insertEnergyReadings.mockRejectedValueOnce(new Error('connection refused'));
+        await writer.insertEnergyReadings([createReading(1000)]);
+
+        // The database is back, but the older reading has not been replayed yet
+        expect(await writer.insertEnergyReadings([createReading(1001)])).toBe(0);
+
+        expect(repository.insertEnergyReadings).toHaveBeenCalledTimes(1);
+        expect(timestampsOf(spool.readAll())).toEqual([1000, 1001]);
+    });
+
+    it('should replay the spool in order and in batches', async () => {
+        spool.append(Array.from({ length: 1200 }, (_, index) => createReading(1000 + index)));
+
+        expect(await writer.replay()).toBe(1200);
+
+        const batches = repository.insertEnergyReadings.mock.calls.map(([readings]) => timestampsOf(readings));
+        expect(batches.map((batch) => batch.length)).toEqual([500, 500, 200]);
+        expect(batches.flat()).toEqual(Array.from({ length: 1200 }, (_, index) => 1000 + index));
+        expect(writer.getQueueDepth()).toBe(0);
+    });
+
+    it('should stop replaying at the first failed batch and keep the rest in order', async () => {
+        spool.append(Array.from({ length: 1200 }, (_, index) => createReading(1000 + index)));
+        repository.insertEnergyReadings
+            .mockResolvedValueOnce(500)
+            .mockRejectedValueOnce(new Error('connection lost'));
+
+        expect(await writer.replay()).toBe(500);
+
+        expect(repository.insertEnergyReadings).toHaveBeenCalledTimes(2);
+        expect(writer.getQueueDepth()).toBe(700);
+        expect(timestampsOf(spool.readAll())[0]).toBe(1500);
+    });
+
+    it('should keep readings spooled while a replay is running', async () => {
+        spool.append([createReading(1000)]);
+        let finishInsert: () => void = () => {};
+        repository.insertEnergyReadings.mockImplementationOnce(
+            () => new Promise<number>((resolve) => {
+                finishInsert = () => resolve(1);
+            })
+        );
+
+        const replay = writer.replay();
+        await writer.insertEnergyReadings([createReading(1001)]);
+        finishInsert();
+
+        expect(await replay).toBe(1);
+        expect(timestampsOf(spool.readAll())).toEqual([1001]);
+    });
+
+    it('should replay readings spooled by a previous run', async () => {
+        vi.useFakeTimers();
+        try {
+            new ReadingSpool(filePath).append([createReading(1000)]);
+            const restarted = new DurableReadingWriter(repository, new ReadingSpool(filePath), 1000);
+            expect(restarted.getQueueDepth()).toBe(1);
+
+            restarted.start();
+            await vi.advanceTimersByTimeAsync(1000);
+            restarted.stop();
+
+            expect(timestampsOf(repository.insertEnergyReadings.mock.calls[0][0])).toEqual([1000]);
+            expect(restarted.getQueueDepth()).toBe(0);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
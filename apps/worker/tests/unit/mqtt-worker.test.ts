@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { MqttClient } from 'mqtt';
+import { MqttWorker } from '../../src/mqtt-worker';
+import { parseTopicMappingConfig } from '../../src/mapping/topic-mapping';
+
+class FakeMqttClient extends EventEmitter {
+    subscribe = vi.fn();
+    end = vi.fn();
+
+    receive(topic: string, payload: unknown): void {
+        vi.advanceTimersByTime(1000);
+        this.emit('message', topic, Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)));
+    }
+}
+
+describe('MqttWorker', () => {
+    let client: FakeMqttClient;
+    let repository: { insertEnergyReading: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        client = new FakeMqttClient();
+        repository = { insertEnergyReading: vi.fn().mockResolvedValue(undefined) };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    function startWorker(raw: unknown): void {
+        const worker = new MqttWorker(
+            repository,
+            'mqtt://localhost:1883',
+            parseTopicMappingConfig(raw),
+            { siteId: 1, meterId: null },
+            null,
+            () => client as unknown as MqttClient
+        );
+        worker.start();
+        client.emit('connect');
+    }
+
+    function lastReading() {
+        return repository.insertEnergyReading.mock.calls.at(-1)?.[0];
+    }
+
+    it('should subscribe to the topic filters of the mapping', () => {
+        startWorker({ topics: [{ topic: 'solar/+/power', channels: [{ channel: 'solar' }] }] });
+
+        expect(client.subscribe).toHaveBeenCalledWith('solar/+/power');
+    });
+
+    it('should sum power channels fed by several topics matching a wildcard', () => {
+        startWorker({ topics: [{ topic: 'solar/+/power', channels: [{ channel: 'solar' }] }] });
+
+        client.receive('solar/0/power', 300);
+        client.receive('solar/1/power', 200);
+        client.receive('solar/0/power', 350);
+
+        expect(repository.insertEnergyReading).toHaveBeenCalledTimes(3);
+        expect(lastReading()).toMatchObject({ solar: 550, timestamp: 1792404003 });
+    });
+
+    it('should average the state of charge of several batteries and keep it null while unknown', () => {
+        startWorker({
+            topics: [{ topic: 'battery/+/state', channels: [{ channel: 'battery', path: 'power' }, { channel: 'battery_soc', path: 'soc' }] }],
+        });
+
+        client.receive('battery/0/state', { power: 500, soc: 'n/a' });
+        expect(lastReading()).toMatchObject({ battery: 500, battery_soc: null });
+
+        client.receive('battery/1/state', { power: -200, soc: 60 });
+        client.receive('battery/0/state', { power: 400, soc: 80 });
+        expect(lastReading()).toMatchObject({ battery: 200, battery_soc: 70 });
+    });
+
+    it('should ignore messages that do not match the mapped paths', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        startWorker({ topics: [{ topic: 'meter', channels: [{ channel: 'grid', path: 'ENERGY.Power' }] }] });
+
+        client.receive('meter', { ENERGY: {} });
+
+        expect(repository.insertEnergyReading).not.toHaveBeenCalled();
+    });
+});
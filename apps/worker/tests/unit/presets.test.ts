@@ -0,0 +1,69 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createGoEPreset, loadTopicMapping } from '../../src/mapping/presets';
+
+describe('presets', () => {
+    let directory: string | null = null;
+
+    afterEach(() => {
+        if (directory) {
+            rmSync(directory, { recursive: true, force: true });
+            directory = null;
+        }
+    });
+
+    function writeMappingFile(content: string): string {
+        directory = mkdtempSync(path.join(tmpdir(), 'mapping-'));
+        const file = path.join(directory, 'mapping.json');
+        writeFileSync(file, content);
+        return file;
+    }
+
+    describe('createGoEPreset', () => {
+        it('should map the ccp array and the utc timestamp', () => {
+            const preset = createGoEPreset('go-e/1/ccp', 'go-e/1/utc');
+
+            expect(preset.name).toBe('go-e');
+            expect(preset.topics[0].topic).toBe('go-e/1/ccp');
+            expect(preset.topics[0].channels.map((channel) => [channel.channel, channel.path])).toEqual([
+                ['home', '[0]'],
+                ['grid', '[1]'],
+                ['car', '[2]'],
+                ['battery', '[3]'],
+                ['solar', '[4]'],
+            ]);
+            expect(preset.topics[1]).toEqual({
+                topic: 'go-e/1/utc',
+                channels: [],
+                timestamp: { path: '$', format: 'iso-utc' },
+            });
+        });
+    });
+
+    describe('loadTopicMapping', () => {
+        it('should load and validate a mapping file', () => {
+            const file = writeMappingFile(JSON.stringify({
+                name: 'shelly',
+                topics: [{ topic: 'shellies/+/power', channels: [{ channel: 'grid' }] }],
+            }));
+
+            expect(loadTopicMapping(file).name).toBe('shelly');
+        });
+
+        it('should report unreadable and invalid mapping files', () => {
+            expect(() => loadTopicMapping(writeMappingFile('{'))).toThrow('Could not read MQTT mapping file');
+            expect(() => loadTopicMapping(writeMappingFile('{"topics": []}'))).toThrow(
+                'Invalid MQTT mapping: topics must be a non-empty array'
+            );
+        });
+
+        it('should select a preset without mapping file', () => {
+            expect(loadTopicMapping(undefined, 'go-e').name).toBe('go-e');
+            expect(() => loadTopicMapping(undefined, 'tasmota')).toThrow(
+                'Unknown MQTT mapping preset: tasmota. Available presets: go-e'
+            );
+        });
+    });
+});
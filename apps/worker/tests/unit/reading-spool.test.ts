@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { NewEnergyReading } from '@repo/core';
+import { ReadingSpool } from '../../src/spool/reading-spool';
+
+function createReading(timestamp: number): NewEnergyReading {
+    return {
+        siteId: 1,
+        meterId: null,
+        data: { timestamp, home: 1000, grid: 500, car: 0, solar: 500, battery: 0, battery_soc: null },
+    };
+}
+
+describe('ReadingSpool', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reading-spool-'));
+        filePath = path.join(dir, 'spool', 'readings.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should keep appended readings in insertion order', () => {
+        const spool = new ReadingSpool(filePath);
+
+        spool.append([createReading(1000), createReading(1001)]);
+        spool.append([createReading(1002)]);
+
+        expect(spool.size).toBe(3);
+        expect(spool.readAll().map((reading) => reading.data.timestamp)).toEqual([1000, 1001, 1002]);
+    });
+
+    it('should keep readings appended after the acknowledged ones', () => {
+        const spool = new ReadingSpool(filePath);
+        spool.append([createReading(1000), createReading(1001)]);
+
+        // A replay read the first two readings, a third one arrives before it acknowledges them
+        spool.append([createReading(1002)]);
+        spool.acknowledge(2);
+
+        expect(spool.size).toBe(1);
+        expect(spool.readAll().map((reading) => reading.data.timestamp)).toEqual([1002]);
+    });
+
+    it('should remove the file once every reading is acknowledged', () => {
+        const spool = new ReadingSpool(filePath);
+        spool.append([createReading(1000)]);
+
+        spool.acknowledge(1);
+
+        expect(spool.size).toBe(0);
+        expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should restore the queue depth after a restart', () => {
+        new ReadingSpool(filePath).append([createReading(1000), createReading(1001)]);
+
+        const restarted = new ReadingSpool(filePath);
+
+        expect(restarted.size).toBe(2);
+        expect(restarted.readAll().map((reading) => reading.data.timestamp)).toEqual([1000, 1001]);
+    });
+
+    it('should terminate a line cut off by a crash and skip it', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        new ReadingSpool(filePath).append([createReading(1000)]);
+        fs.appendFileSync(filePath, JSON.stringify(createReading(1001)).slice(0, 20));
+
+        const restarted = new ReadingSpool(filePath);
+        restarted.append([createReading(1002)]);
+
+        expect(fs.readFileSync(filePath, 'utf-8').split('\n')).toHaveLength(4);
+        expect(restarted.readAll().map((reading) => reading.data.timestamp)).toEqual([1000, 1002]);
+        expect(warn).toHaveBeenCalledWith(`Skipping corrupt line in reading spool ${filePath}`);
+    });
+
+    it('should skip corrupt lines between valid readings', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(
+            filePath,
+            [JSON.stringify(createReading(1000)), '{"siteId":', JSON.stringify(createReading(1001)), ''].join('\n')
+        );
+
+        const spool = new ReadingSpool(filePath);
+
+        expect(spool.size).toBe(2);
+        expect(spool.readAll().map((reading) => reading.data.timestamp)).toEqual([1000, 1001]);
+    });
+});
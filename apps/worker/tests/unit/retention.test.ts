@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@repo/database';
+import { ReadingRetentionJob } from '../../src/jobs/retention';
+
+const DAY_SECONDS = 86400;
+
+describe('ReadingRetentionJob', () => {
+    const now = 100 * DAY_SECONDS;
+    let tx: { $queryRaw: ReturnType<typeof vi.fn>; $executeRaw: ReturnType<typeof vi.fn> };
+    let prisma: {
+        energyBucketAggregationJob: { findUnique: ReturnType<typeof vi.fn> };
+        energyReading: { findFirst: ReturnType<typeof vi.fn>; count: ReturnType<typeof vi.fn> };
+        $transaction: ReturnType<typeof vi.fn>;
+    };
+
+    function createRow(timestamp: number) {
+        return {
+            id: timestamp,
+            site_id: 2,
+            meter_id: null,
+            timestamp,
+            home: 0,
+            grid: 0,
+            car: 0,
+            solar: 0,
+            battery: 0,
+            battery_soc: null,
+            created_at: timestamp,
+        };
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(now * 1000);
+        tx = { $queryRaw: vi.fn().mockResolvedValue([]), $executeRaw: vi.fn().mockResolvedValue(1) };
+        prisma = {
+            energyBucketAggregationJob: {
+                findUnique: vi.fn().mockResolvedValue({ last_processed_timestamp: now, readings_purged_before: 0 }),
+            },
+            energyReading: {
+                findFirst: vi.fn().mockResolvedValue({ timestamp: 88 * DAY_SECONDS + 100 }),
+                count: vi.fn().mockResolvedValue(0),
+            },
+            $transaction: vi.fn((work: (client: typeof tx) => Promise<unknown>) => work(tx)),
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function createJob(): ReadingRetentionJob {
+        return new ReadingRetentionJob(prisma as unknown as PrismaClient, { retentionDays: 10, archiveDir: null });
+    }
+
+    it('should remove readings day by day up to the retention cutoff', async () => {
+        tx.$queryRaw.mockResolvedValueOnce([createRow(88 * DAY_SECONDS + 100)]).mockResolvedValueOnce([]);
+
+        const report = await createJob().cleanupSite(2);
+
+        expect(report).toEqual({
+            siteId: 2,
+            cutoff: 90 * DAY_SECONDS,
+            deletedReadings: 1,
+            archivedReadings: 0,
+            retainedReadings: 0,
+        });
+        expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should record the end of the removed minutes for re-aggregations', async () => {
+        tx.$queryRaw.mockResolvedValueOnce([createRow(88 * DAY_SECONDS + 100), createRow(88 * DAY_SECONDS + 30)]);
+
+        await createJob().cleanupSite(2);
+
+        expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+        const [sql, purgedBefore, siteId] = tx.$executeRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('GREATEST(readings_purged_before, ?)');
+        expect(purgedBefore).toBe(88 * DAY_SECONDS + 120);
+        expect(siteId).toBe(2);
+    });
+
+    it('should record the removed minutes of a day with more readings than fit in one call', async () => {
+        const dayStart = 88 * DAY_SECONDS;
+        // Two meters reporting every second fill one day window with 172,800 readings
+        const rows = Array.from({ length: 2 * DAY_SECONDS }, (_, index) => createRow(dayStart + (index % DAY_SECONDS)));
+        tx.$queryRaw.mockResolvedValueOnce(rows);
+
+        const report = await createJob().cleanupSite(2);
+
+        expect(report?.deletedReadings).toBe(2 * DAY_SECONDS);
+        const [, purgedBefore] = tx.$executeRaw.mock.calls[0];
+        expect(purgedBefore).toBe(dayStart + DAY_SECONDS);
+    });
+
+    it('should not touch the aggregation cursor when nothing was removed', async () => {
+        await createJob().cleanupSite(2);
+
+        expect(tx.$executeRaw).not.toHaveBeenCalled();
+    });
+
+    it('should skip sites that have not been aggregated yet', async () => {
+        prisma.energyBucketAggregationJob.findUnique.mockResolvedValue(null);
+
+        expect(await createJob().cleanupSite(2)).toBeNull();
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+    combineChannelValues,
+    parseTopicMappingConfig,
+    resolvePath,
+    toChannelValue,
+    toTimestamp,
+    topicMatches,
+} from '../../src/mapping/topic-mapping';
+
+describe('topic-mapping', () => {
+    describe('parseTopicMappingConfig', () => {
+        it('should apply the defaults of a valid configuration', () => {
+            const config = parseTopicMappingConfig({
+                topics: [
+                    { topic: ' meter/power ', channels: [{ channel: 'grid', path: 'ENERGY.Power' }] },
+                    { topic: 'meter/time', timestamp: { path: 'time', format: 'unix' } },
+                ],
+            });
+
+            expect(config).toEqual({
+                name: 'custom',
+                topics: [
+                    {
+                        topic: 'meter/power',
+                        channels: [{ channel: 'grid', path: 'ENERGY.Power', scale: 1, invert: false }],
+                        timestamp: null,
+                    },
+                    { topic: 'meter/time', channels: [], timestamp: { path: 'time', format: 'unix' } },
+                ],
+            });
+        });
+
+        it('should keep scale and invert', () => {
+            const config = parseTopicMappingConfig({
+                name: 'inverter',
+                topics: [{ topic: 'solar/power', channels: [{ channel: 'solar', scale: 1000, invert: true }] }],
+            });
+
+            expect(config.topics[0].channels[0]).toEqual({ channel: 'solar', path: '', scale: 1000, invert: true });
+        });
+
+        it.each([
+            [null, 'configuration must be an object'],
+            [{ name: '', topics: [] }, 'name must be a non-empty string'],
+            [{ topics: [] }, 'topics must be a non-empty array'],
+            [{ topics: [{ topic: '', channels: [] }] }, 'topics[0].topic must be a non-empty string'],
+            [{ topics: [{ topic: 'a', channels: {} }] }, 'topics[0].channels must be an array'],
+            [{ topics: [{ topic: 'a' }] }, 'topics[0] must map at least one channel or a timestamp'],
+            [{ topics: [{ topic: 'a', channels: [{ channel: 'water' }] }] }, 'topics[0].channels[0].channel must be one of'],
+            [{ topics: [{ topic: 'a', channels: [{ channel: 'grid', scale: 'x' }] }] }, 'scale must be a finite number'],
+            [{ topics: [{ topic: 'a', channels: [{ channel: 'grid', invert: 1 }] }] }, 'invert must be a boolean'],
+            [{ topics: [{ topic: 'a', channels: [{ channel: 'grid', path: 'a..b' }] }] }, 'is not a valid path'],
+            [{ topics: [{ topic: 'a', timestamp: { format: 'rfc' } }] }, 'timestamp.format must be one of'],
+            [{ topics: [{ topic: 'a', timestamp: { path: '', format: 'unix' } }] }, 'at least one topic must map a channel'],
+        ])('should reject %j', (raw, message) => {
+            expect(() => parseTopicMappingConfig(raw)).toThrow(message);
+        });
+    });
+
+    describe('resolvePath', () => {
+        const payload = { ENERGY: { Power: 230 }, inverters: [{ power: 1 }, { power: 2 }] };
+
+        it('should resolve object and array segments', () => {
+            expect(resolvePath(payload, 'ENERGY.Power')).toBe(230);
+            expect(resolvePath(payload, 'inverters[1].power')).toBe(2);
+            expect(resolvePath([5, 6], '[1]')).toBe(6);
+        });
+
+        it('should address the payload itself with an empty path or $', () => {
+            expect(resolvePath('42', '')).toBe('42');
+            expect(resolvePath(payload, '$')).toBe(payload);
+            expect(resolvePath(payload, '$.ENERGY.Power')).toBe(230);
+        });
+
+        it('should return undefined for missing values', () => {
+            expect(resolvePath(payload, 'ENERGY.Voltage')).toBeUndefined();
+            expect(resolvePath(payload, 'inverters[5].power')).toBeUndefined();
+            expect(resolvePath(payload, 'ENERGY[0]')).toBeUndefined();
+        });
+    });
+
+    describe('toChannelValue', () => {
+        it('should scale and invert numeric values', () => {
+            expect(toChannelValue('1.5', { channel: 'grid', path: '', scale: 1000, invert: true })).toBe(-1500);
+        });
+
+        it('should treat missing power values as 0', () => {
+            expect(toChannelValue(null, { channel: 'grid', path: '', scale: 1, invert: false })).toBe(0);
+            expect(toChannelValue('n/a', { channel: 'solar', path: '', scale: 1, invert: false })).toBe(0);
+        });
+
+        it('should keep an unknown state of charge null', () => {
+            expect(toChannelValue('n/a', { channel: 'battery_soc', path: '', scale: 1, invert: false })).toBeNull();
+            expect(toChannelValue('55', { channel: 'battery_soc', path: '', scale: 1, invert: false })).toBe(55);
+        });
+    });
+
+    describe('combineChannelValues', () => {
+        it('should sum power channels', () => {
+            expect(combineChannelValues('solar', [300, 200])).toBe(500);
+        });
+
+        it('should average the state of charge of the sources reporting one', () => {
+            expect(combineChannelValues('battery_soc', [80, 60, null])).toBe(70);
+            expect(combineChannelValues('battery_soc', [null])).toBeNull();
+        });
+    });
+
+    describe('toTimestamp', () => {
+        it('should interpret the timestamp formats', () => {
+            expect(toTimestamp('2026-10-19T10:00:00', { path: '', format: 'iso-utc' })).toBe(1792404000);
+            expect(toTimestamp('2026-10-19T12:00:00+02:00', { path: '', format: 'iso' })).toBe(1792404000);
+            expect(toTimestamp('1792404000', { path: '', format: 'unix' })).toBe(1792404000);
+            expect(toTimestamp(1792404000999, { path: '', format: 'unix-ms' })).toBe(1792404000);
+        });
+
+        it('should return null for values that are no timestamp', () => {
+            expect(toTimestamp('yesterday', { path: '', format: 'iso' })).toBeNull();
+            expect(toTimestamp(42, { path: '', format: 'iso-utc' })).toBeNull();
+            expect(toTimestamp('x', { path: '', format: 'unix' })).toBeNull();
+        });
+    });
+
+    describe('topicMatches', () => {
+        it('should match single-level wildcards', () => {
+            expect(topicMatches('shellies/+/emeter/+/power', 'shellies/em3/emeter/0/power')).toBe(true);
+            expect(topicMatches('shellies/+/emeter/+/power', 'shellies/em3/emeter/0/energy')).toBe(false);
+            expect(topicMatches('solar/+', 'solar/0/power')).toBe(false);
+        });
+
+        it('should match multi-level wildcards', () => {
+            expect(topicMatches('solar/#', 'solar/0/power')).toBe(true);
+            expect(topicMatches('#', 'any/topic')).toBe(true);
+            expect(topicMatches('solar/0/#', 'wind/0/power')).toBe(false);
+        });
+
+        it('should match exact topics only', () => {
+            expect(topicMatches('meter/power', 'meter/power')).toBe(true);
+            expect(topicMatches('meter/power', 'meter/power/total')).toBe(false);
+            expect(topicMatches('meter/power/total', 'meter/power')).toBe(false);
+        });
+    });
+});
@@ -1,3 +1,13 @@
 export * from './types/energy';
+export * from './types/site';
+export * from './types/live';
+export * from './types/jobs';
+export * from './types/car';
 export * from './repositories/energy-repository';
 export * from './repositories/energy-bucket-repository';
+export * from './repositories/site-repository';
+export * from './repositories/job-lock-repository';
+export * from './repositories/aggregation-job-repository';
+export * from './repositories/car-session-repository';
+export * from './repositories/spot-price-repository';
+export * from './pricing';
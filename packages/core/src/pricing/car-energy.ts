@@ -0,0 +1,13 @@
+/**
+ * Calculates the car energy of a minute supplied by solar. Solar supplies home and car demand first, shared in
+ * proportion to their consumption, like the energy flows of the web app; the rest of the car energy comes from the
+ * grid or the battery.
+ * @param homeKwh - Home consumption of the minute (kWh)
+ * @param carKwh - Car charging of the minute (kWh)
+ * @param solarKwh - Solar production of the minute (kWh)
+ * @returns Car energy from solar (kWh)
+ */
+export function getCarSolarKwh(homeKwh: number, carKwh: number, solarKwh: number): number {
+    const demand = homeKwh + carKwh;
+    return demand > 0 ? (Math.min(Math.max(solarKwh, 0), demand) * carKwh) / demand : 0;
+}
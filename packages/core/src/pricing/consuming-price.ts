@@ -0,0 +1,172 @@
+import type { ConsumingPricePeriod, DynamicTariff, EnergySettings, SpotPrice } from '../types/energy';
+
+/** Flag of `ConsumingPricePeriod.days_of_week` for holidays; bits 0-6 are Monday to Sunday */
+const HOLIDAY_FLAG = 1 << 7;
+
+/** Periods without a day mask apply on every day, holidays included */
+const ALL_DAYS = 0xff;
+
+interface LocalTime {
+    year: number;
+    month: number;
+    day: number;
+    /** 0 = Monday ... 6 = Sunday */
+    weekday: number;
+    /** Minutes since local midnight */
+    minutes: number;
+}
+
+const localTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Local date and time of day of a timestamp, the units of consuming price periods.
+ */
+function getLocalTime(timestamp: number, timeZone: string): LocalTime {
+    let format = localTimeFormats.get(timeZone);
+    if (!format) {
+        format = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            hourCycle: 'h23',
+        });
+        localTimeFormats.set(timeZone, format);
+    }
+    const parts = format.formatToParts(new Date(timestamp * 1000));
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+    const [year, month, day] = [part('year'), part('month'), part('day')];
+    return {
+        year,
+        month,
+        day,
+        weekday: (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7,
+        minutes: part('hour') * 60 + part('minute'),
+    };
+}
+
+/**
+ * Checks whether a local date is one of the holidays of a tariff.
+ * @param holidays - Dates as 'YYYY-MM-DD' (once) or 'MM-DD' (every year)
+ */
+function isHoliday(local: LocalTime, holidays: string[]): boolean {
+    const monthDay = `${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+    return holidays.includes(monthDay) || holidays.includes(`${local.year}-${monthDay}`);
+}
+
+/**
+ * Checks whether a period's season contains a local date.
+ * Seasons are inclusive MMDD ranges (e.g. 1101 to 0331 for winter) that wrap around the turn of the year.
+ */
+function isInSeason(period: ConsumingPricePeriod, month: number, day: number): boolean {
+    if (period.season_start == null || period.season_end == null) {
+        return true;
+    }
+    const monthDay = month * 100 + day;
+    return period.season_start <= period.season_end
+        ? period.season_start <= monthDay && monthDay <= period.season_end
+        : monthDay >= period.season_start || monthDay <= period.season_end;
+}
+
+/**
+ * Checks whether a period's time of day contains a minute (e.g. 22:00 to 06:00 wraps around midnight).
+ */
+function isInTimeRange(period: ConsumingPricePeriod, minutes: number): boolean {
+    return period.start_time <= period.end_time
+        ? period.start_time <= minutes && minutes < period.end_time
+        : minutes >= period.start_time || minutes < period.end_time;
+}
+
+/**
+ * Finds the consuming price period applying at a timestamp.
+ * A period applies if its days (or the holiday flag on holidays), season and time of day contain the local time;
+ * the first such period in the given order wins. If no time of day matches, the first period of the day and season
+ * is used, and the first period overall if none applies to the day.
+ *
+ * @param settings - Energy settings with consuming periods and holidays
+ * @param timestamp - Unix timestamp in seconds
+ * @param timeZone - IANA timezone of the site the periods refer to
+ * @returns Applying period, or null if the settings have no consuming periods
+ */
+export function findConsumingPeriod(
+    settings: EnergySettings,
+    timestamp: number,
+    timeZone: string
+): ConsumingPricePeriod | null {
+    const periods = settings.consuming_periods ?? [];
+    if (periods.length === 0) {
+        return null;
+    }
+
+    const local = getLocalTime(timestamp, timeZone);
+    const dayFlag = isHoliday(local, settings.holidays ?? []) ? HOLIDAY_FLAG : 1 << local.weekday;
+
+    const dayPeriods = periods.filter((period) =>
+        ((period.days_of_week ?? ALL_DAYS) & dayFlag) !== 0 && isInSeason(period, local.month, local.day)
+    );
+
+    return dayPeriods.find((period) => isInTimeRange(period, local.minutes)) ?? dayPeriods[0] ?? periods[0];
+}
+
+/**
+ * Calculates the net price of a dynamic tariff: spot price plus markup and grid fee.
+ * @param tariff - Price components of the tariff
+ * @param spotPrice - Day-ahead price (€/kWh)
+ * @returns Price (€/kWh)
+ */
+export function getDynamicPrice(tariff: DynamicTariff, spotPrice: number): number {
+    return spotPrice + tariff.spot_markup + tariff.grid_fee;
+}
+
+/**
+ * Determines the net consuming price at a timestamp, levies included. Dynamic tariffs use the spot price of the
+ * interval; where no spot price is known, and for fixed tariffs, the applying consuming period is used.
+ *
+ * @param settings - Energy settings applying at the timestamp
+ * @param timestamp - Unix timestamp in seconds
+ * @param timeZone - IANA timezone of the site the periods refer to
+ * @param spotPrice - Spot price of the interval containing the timestamp (€/kWh), if known
+ * @returns Price (€/kWh), or null if neither a spot price nor a consuming period applies
+ */
+export function getConsumingPrice(
+    settings: EnergySettings,
+    timestamp: number,
+    timeZone: string,
+    spotPrice: number | null = null
+): number | null {
+    const levy = settings.consumption_levy ?? 0;
+    if (settings.tariff_type === 'dynamic' && spotPrice !== null) {
+        const tariff = { spot_markup: settings.spot_markup ?? 0, grid_fee: settings.grid_fee ?? 0 };
+        return getDynamicPrice(tariff, spotPrice) + levy;
+    }
+    const period = findConsumingPeriod(settings, timestamp, timeZone);
+    return period ? period.price + levy : null;
+}
+
+/**
+ * Creates a lookup of the spot price at a timestamp.
+ * @param prices - Spot prices of the range, in any order
+ * @returns Function returning the price of the interval containing a timestamp, or null if no price is known
+ */
+export function createSpotPriceLookup(prices: SpotPrice[]): (timestamp: number) => number | null {
+    const sorted = [...prices].sort((a, b) => a.starts_at - b.starts_at);
+
+    return (timestamp) => {
+        let low = 0;
+        let high = sorted.length - 1;
+        let match: SpotPrice | null = null;
+        // Last interval starting at or before the timestamp
+        while (low <= high) {
+            const middle = (low + high) >> 1;
+            if (sorted[middle].starts_at <= timestamp) {
+                match = sorted[middle];
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return match && timestamp < match.ends_at ? match.price : null;
+    };
+}
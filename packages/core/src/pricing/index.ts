@@ -0,0 +1,2 @@
+export * from './car-energy';
+export * from './consuming-price';
@@ -0,0 +1,168 @@
+import { PrismaClient } from '@repo/database';
+import { DEFAULT_TIMEZONE, type Site, type SiteUpdate, type Meter } from '../types/site';
+
+/**
+ * Repository for sites (installations) and their meters.
+ * Encapsulates database access logic and accepts PrismaClient via dependency injection.
+ */
+export class SiteRepository {
+  constructor(private prisma: PrismaClient) { }
+
+  /**
+   * Gets all sites including their meters.
+   * @returns Promise resolving to array of Site ordered by id
+   */
+  async getSites(): Promise<Site[]> {
+    try {
+      const sites = await this.prisma.site.findMany({
+        include: {
+          meters: {
+            orderBy: {
+              id: 'asc',
+            },
+          },
+        },
+        orderBy: {
+          id: 'asc',
+        },
+      });
+
+      return sites.map((site) => ({
+        id: site.id,
+        name: site.name,
+        created_at: site.created_at,
+        timezone: site.timezone,
+        meters: site.meters.map((meter) => this.toMeter(meter)),
+      }));
+    } catch (error) {
+      console.error('Error querying sites:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a single site including its meters.
+   * @param siteId - ID of the site
+   * @returns Promise resolving to Site or null if not found
+   */
+  async getSite(siteId: number): Promise<Site | null> {
+    try {
+      const site = await this.prisma.site.findUnique({
+        where: { id: siteId },
+        include: {
+          meters: {
+            orderBy: {
+              id: 'asc',
+            },
+          },
+        },
+      });
+
+      if (!site) {
+        return null;
+      }
+
+      return {
+        id: site.id,
+        name: site.name,
+        created_at: site.created_at,
+        timezone: site.timezone,
+        meters: site.meters.map((meter) => this.toMeter(meter)),
+      };
+    } catch (error) {
+      console.error('Error querying site:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new site.
+   * @param name - Display name of the site
+   * @param timezone - IANA timezone of the site
+   * @returns Promise resolving to the created Site (without meters)
+   */
+  async createSite(name: string, timezone: string = DEFAULT_TIMEZONE): Promise<Site> {
+    try {
+      const created = await this.prisma.site.create({
+        data: {
+          name,
+          timezone,
+          created_at: Math.floor(Date.now() / 1000),
+        },
+      });
+
+      return {
+        id: created.id,
+        name: created.name,
+        created_at: created.created_at,
+        timezone: created.timezone,
+        meters: [],
+      };
+    } catch (error) {
+      console.error('Error creating site:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the name and/or timezone of a site.
+   * The hourly and daily views pick up a changed timezone on their next refresh.
+   * @param siteId - ID of the site
+   * @param update - Fields to change
+   * @returns Promise resolving to the updated Site, or null if not found
+   */
+  async updateSite(siteId: number, update: SiteUpdate): Promise<Site | null> {
+    try {
+      const updated = await this.prisma.site.updateMany({
+        where: { id: siteId },
+        data: update,
+      });
+
+      return updated.count > 0 ? this.getSite(siteId) : null;
+    } catch (error) {
+      console.error('Error updating site:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new meter for a site.
+   * @param siteId - ID of the site the meter belongs to
+   * @param name - Display name of the meter
+   * @returns Promise resolving to the created Meter
+   */
+  async createMeter(siteId: number, name: string): Promise<Meter> {
+    try {
+      const created = await this.prisma.meter.create({
+        data: {
+          site_id: siteId,
+          name,
+          created_at: Math.floor(Date.now() / 1000),
+        },
+      });
+
+      return this.toMeter(created);
+    } catch (error) {
+      console.error('Error creating meter:', error);
+      throw error;
+    }
+  }
+
+  private toMeter(meter: { id: number; site_id: number; name: string; created_at: number }): Meter {
+    return {
+      id: meter.id,
+      site_id: meter.site_id,
+      name: meter.name,
+      created_at: meter.created_at,
+    };
+  }
+}
+
+/**
+ * Factory function to create a SiteRepository instance.
+ * @param prisma - PrismaClient instance
+ * @returns SiteRepository instance
+ */
+export function createSiteRepository(prisma: PrismaClient): SiteRepository {
+  return new SiteRepository(prisma);
+}
@@ -0,0 +1,49 @@
+/**
+ * Charging session of the car, detected from the car power of the minute buckets.
+ */
+export interface CarChargingSession {
+    id: number;
+    site_id: number;
+    /** Start of the first charging minute (Unix seconds) */
+    started_at: number;
+    /** End of the last charging minute (Unix seconds) */
+    ended_at: number;
+    energy_kwh: number;
+    /** Part of energy_kwh supplied by solar */
+    solar_kwh: number;
+    /** Highest car power of the session (W) */
+    peak_power: number;
+    /** Net cost of the charged energy (€), null if no energy settings cover the session */
+    cost: number | null;
+    /** Cost including VAT on the grid energy (€), null if no energy settings cover the session */
+    gross_cost: number | null;
+    updated_at: number;
+}
+
+/**
+ * Detected session to be written.
+ */
+export type NewCarChargingSession = Omit<CarChargingSession, 'id' | 'site_id' | 'updated_at'>;
+
+/**
+ * Charging sessions of a calendar month.
+ */
+export interface CarSessionMonth {
+    /** Month in the site's timezone, e.g. '2026-10' */
+    month: string;
+    sessions: number;
+    energy_kwh: number;
+    solar_kwh: number;
+    /** Net cost of the sessions with a cost (€) */
+    cost: number;
+    /** Cost including VAT of the sessions with a cost (€) */
+    gross_cost: number;
+}
+
+/**
+ * Charging sessions (newest first) and their monthly summaries (newest first).
+ */
+export interface CarSessionsResponse {
+    sessions: CarChargingSession[];
+    months: CarSessionMonth[];
+}
@@ -4,6 +4,8 @@ export interface EnergyData {
     grid: number;
     car: number;
     solar: number;
+    battery: number; // Positive = charging, negative = discharging
+    battery_soc: number | null; // State of charge in percent, if reported
 }
 
 export interface EnergyHistoryEntry {
@@ -12,6 +14,25 @@ export interface EnergyHistoryEntry {
     grid: number;
     car: number;
     solar: number;
+    battery: number;
+    battery_soc: number | null;
+}
+
+/**
+ * Reading to be written, together with the site and (optional) meter it belongs to.
+ */
+export interface NewEnergyReading {
+    siteId: number;
+    meterId: number | null;
+    data: EnergyData;
+}
+
+/**
+ * Range of minute buckets, start inclusive and end exclusive (Unix seconds).
+ */
+export interface BucketRange {
+    start: number;
+    end: number;
 }
 
 export interface EnergyReading {
@@ -21,6 +42,8 @@ export interface EnergyReading {
     grid: number;
     car: number;
     solar: number;
+    battery: number;
+    battery_soc: number | null;
     created_at: number;
 }
 
@@ -35,6 +58,12 @@ export interface ConsumingPricePeriod {
     start_time: number; // Minutes since midnight (0-1439)
     end_time: number; // Minutes since midnight (0-1439)
     price: number;
+    /** Days the period applies on: bits 0-6 = Monday to Sunday, bit 7 = holidays (default: every day, 255) */
+    days_of_week?: number;
+    /** First day of the season as MMDD, e.g. 1101 for 1 November (null: all year) */
+    season_start?: number | null;
+    /** Last day of the season as MMDD, inclusive; seasons may wrap around the turn of the year */
+    season_end?: number | null;
 }
 
 export interface EnergySettings {
@@ -44,6 +73,55 @@ export interface EnergySettings {
     end_date: number | null;
     updated_at: number;
     consuming_periods?: ConsumingPricePeriod[];
+    /** Public holidays priced by the periods' holiday flag, as 'YYYY-MM-DD' or 'MM-DD' (every year) */
+    holidays?: string[];
+    tariff_type?: TariffType;
+    /** Supplier markup added to the spot price (€/kWh) */
+    spot_markup?: number;
+    /** Grid fee of dynamic tariffs (€/kWh) */
+    grid_fee?: number;
+    /** Levies and surcharges added to the consuming price (€/kWh) */
+    consumption_levy?: number;
+    /** Fixed base fee (€/month) */
+    base_fee?: number;
+    /** Meter rental (€/month) */
+    meter_fee?: number;
+    /** VAT on consumption costs and fixed fees, e.g. 0.19; all prices and fees are net */
+    vat_rate?: number;
+}
+
+/**
+ * Fixed tariffs price consumption by the consuming periods. Dynamic tariffs price it by the spot price plus markup and
+ * grid fee, and fall back to the consuming periods where no spot price is known.
+ */
+export type TariffType = 'fixed' | 'dynamic';
+
+/**
+ * Price components of a dynamic tariff.
+ */
+export interface DynamicTariff {
+    spot_markup: number;
+    grid_fee: number;
+}
+
+/**
+ * Charges of a tariff besides the energy price: monthly fees prorated over the priced range, levies per kWh
+ * consumed, and VAT on consumption and fees.
+ */
+export interface TariffCharges {
+    base_fee: number;
+    meter_fee: number;
+    consumption_levy: number;
+    vat_rate: number;
+}
+
+/**
+ * Day-ahead market price of an interval, without markups, fees and VAT (€/kWh).
+ */
+export interface SpotPrice {
+    starts_at: number;
+    ends_at: number;
+    price: number;
 }
 
 export interface EnergySettingsHistory {
@@ -67,6 +145,69 @@ export interface GridAggregatedResponse {
     feedIn: AggregatedResponse;
 }
 
+export interface BatteryAggregatedResponse {
+    charge: AggregatedResponse;
+    discharge: AggregatedResponse;
+}
+
+export type EnergyType = 'grid' | 'car' | 'solar' | 'battery' | 'home';
+
+/**
+ * Self-sufficiency of a site over a period, in kWh and as shares (0 to 1).
+ */
+export interface SelfSufficiency {
+    /** Home and car consumption */
+    demand: number;
+    /** Consumption from the grid */
+    gridImport: number;
+    /** Solar production */
+    solar: number;
+    /** Solar energy consumed directly */
+    solarDirectUse: number;
+    /** Solar energy charged into the battery */
+    solarStored: number;
+    /** Solar energy fed into the grid */
+    solarExported: number;
+    /** Share of the demand not drawn from the grid (null without demand) */
+    autarky: number | null;
+    /** Share of the solar production used on site (null without production) */
+    selfConsumption: number | null;
+}
+
+export interface SelfSufficiencyDataPoint extends SelfSufficiency {
+    label: string;
+    timestamp: number;
+}
+
+export interface EnergySummaryResponse {
+    data: SelfSufficiencyDataPoint[];
+    total: SelfSufficiency;
+}
+
+/**
+ * Channels energy flows from, and channels it flows to.
+ */
+export type EnergyFlowSource = 'solar' | 'battery' | 'grid';
+export type EnergyFlowTarget = 'home' | 'car' | 'battery' | 'grid';
+
+/**
+ * Energy that flowed from one channel to another (kWh).
+ */
+export interface EnergyFlow {
+    source: EnergyFlowSource;
+    target: EnergyFlowTarget;
+    kwh: number;
+}
+
+export interface EnergyFlowsResponse {
+    flows: EnergyFlow[];
+}
+
+/**
+ * Resolution of aggregated data points. Hours and longer follow the local calendar of the site.
+ */
+export type Granularity = '1m' | '5m' | '15m' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
 export interface EnergyBucket {
     bucket_start: number;
     bucket_end: number;
@@ -74,6 +215,15 @@ export interface EnergyBucket {
     grid_kwh: number;
     car_kwh: number;
     solar_kwh: number;
+    battery_kwh: number;
+    /** Positive part of grid_kwh (consumption from the grid) */
+    grid_import_kwh: number;
+    /** Negative part of grid_kwh as a positive amount (feed-in) */
+    grid_export_kwh: number;
+    /** Positive part of battery_kwh (charging) */
+    battery_charge_kwh: number;
+    /** Negative part of battery_kwh as a positive amount (discharging) */
+    battery_discharge_kwh: number;
     readings_count: number;
     first_timestamp: number;
     last_timestamp: number;
@@ -81,8 +231,11 @@ export interface EnergyBucket {
     first_grid: number;
     first_car: number;
     first_solar: number;
+    first_battery: number;
     last_home: number;
     last_grid: number;
     last_car: number;
     last_solar: number;
+    last_battery: number;
+    last_battery_soc: number | null;
 }
@@ -0,0 +1,30 @@
+/**
+ * Site created by the multi-site migration; existing single-installation data belongs to it.
+ */
+export const DEFAULT_SITE_ID = 1;
+
+/**
+ * Timezone of sites without a configured timezone.
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface Meter {
+    id: number;
+    site_id: number;
+    name: string;
+    created_at: number;
+}
+
+export interface Site {
+    id: number;
+    name: string;
+    created_at: number;
+    /** IANA timezone of the installation; defines local hours and days of aggregations */
+    timezone: string;
+    meters: Meter[];
+}
+
+export interface SiteUpdate {
+    name?: string;
+    timezone?: string;
+}
@@ -0,0 +1,142 @@
+-- ============================================================
+-- Battery storage channel
+-- Positive battery power = charging, negative = discharging
+-- ============================================================
+
+BEGIN;
+
+-- AlterTable
+ALTER TABLE "energy_readings" ADD COLUMN "battery" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "battery_soc" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "energy_buckets" ADD COLUMN "battery_kwh" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "first_battery" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "last_battery" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "last_battery_soc" DOUBLE PRECISION;
+
+-- ============================================================
+-- Recreate materialized views including battery columns
+-- ============================================================
+
+DROP MATERIALIZED VIEW IF EXISTS energy_hourly_buckets CASCADE;
+DROP MATERIALIZED VIEW IF EXISTS energy_daily_buckets CASCADE;
+
+-- ============================================================
+-- HOURLY BUCKETS
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_hourly_buckets AS
+WITH normalized AS (
+  SELECT
+    (bucket_start / 3600) * 3600 AS hour_start,
+    *
+  FROM energy_buckets
+)
+SELECT
+  hour_start AS bucket_start,
+  hour_start + 3600 AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY hour_start;
+
+CREATE UNIQUE INDEX energy_hourly_buckets_bucket_start_uidx
+  ON energy_hourly_buckets(bucket_start);
+
+CREATE INDEX energy_hourly_buckets_bucket_start_idx
+  ON energy_hourly_buckets(bucket_start);
+
+-- ============================================================
+-- DAILY BUCKETS (UTC MIDNIGHT)
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_daily_buckets AS
+WITH normalized AS (
+  SELECT
+    EXTRACT(
+      EPOCH FROM
+      DATE_TRUNC(
+        'day',
+        TO_TIMESTAMP(bucket_start) AT TIME ZONE 'UTC'
+      )
+    )::bigint AS day_start,
+    *
+  FROM energy_buckets
+)
+SELECT
+  day_start AS bucket_start,
+  day_start + 86400 AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY day_start;
+
+CREATE UNIQUE INDEX energy_daily_buckets_bucket_start_uidx
+  ON energy_daily_buckets(bucket_start);
+
+CREATE INDEX energy_daily_buckets_bucket_start_idx
+  ON energy_daily_buckets(bucket_start);
+
+-- ============================================================
+-- INITIAL REFRESH
+-- ============================================================
+
+REFRESH MATERIALIZED VIEW energy_hourly_buckets;
+REFRESH MATERIALIZED VIEW energy_daily_buckets;
+
+COMMIT;
@@ -0,0 +1,205 @@
+-- ============================================================
+-- Sites and meters
+-- Readings, buckets, settings and aggregation cursors are keyed by site.
+-- Existing data is assigned to the default site (id 1).
+-- ============================================================
+
+BEGIN;
+
+-- CreateTable
+CREATE TABLE "sites" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "sites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "meters" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "meters_pkey" PRIMARY KEY ("id")
+);
+
+-- Default site for the existing installation
+INSERT INTO "sites" ("id", "name", "created_at")
+VALUES (1, 'Home', EXTRACT(EPOCH FROM NOW())::integer);
+
+SELECT setval(pg_get_serial_sequence('sites', 'id'), (SELECT MAX("id") FROM "sites"));
+
+-- AlterTable
+ALTER TABLE "energy_readings" ADD COLUMN "site_id" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "meter_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "energy_settings" ADD COLUMN "site_id" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "energy_bucket_aggregation_jobs" ADD COLUMN "site_id" INTEGER NOT NULL DEFAULT 1;
+
+-- The cursor of the default site was inserted with an explicit id; cursors of further sites take theirs from the sequence
+SELECT setval(pg_get_serial_sequence('energy_bucket_aggregation_jobs', 'id'), (SELECT COALESCE(MAX("id"), 1) FROM "energy_bucket_aggregation_jobs"));
+
+-- Views are rebuilt below with a site dimension
+DROP MATERIALIZED VIEW IF EXISTS energy_hourly_buckets CASCADE;
+DROP MATERIALIZED VIEW IF EXISTS energy_daily_buckets CASCADE;
+
+-- AlterTable
+ALTER TABLE "energy_buckets" ADD COLUMN "site_id" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "energy_buckets" DROP CONSTRAINT "energy_buckets_pkey";
+ALTER TABLE "energy_buckets" ADD CONSTRAINT "energy_buckets_pkey" PRIMARY KEY ("site_id", "bucket_start");
+
+-- CreateIndex
+CREATE INDEX "meters_site_id_idx" ON "meters"("site_id");
+
+-- CreateIndex
+CREATE INDEX "energy_readings_site_id_timestamp_idx" ON "energy_readings"("site_id", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "energy_settings_site_id_idx" ON "energy_settings"("site_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "energy_bucket_aggregation_jobs_site_id_key" ON "energy_bucket_aggregation_jobs"("site_id");
+
+-- AddForeignKey
+ALTER TABLE "meters" ADD CONSTRAINT "meters_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "energy_readings" ADD CONSTRAINT "energy_readings_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "energy_readings" ADD CONSTRAINT "energy_readings_meter_id_fkey" FOREIGN KEY ("meter_id") REFERENCES "meters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "energy_settings" ADD CONSTRAINT "energy_settings_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "energy_buckets" ADD CONSTRAINT "energy_buckets_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "energy_bucket_aggregation_jobs" ADD CONSTRAINT "energy_bucket_aggregation_jobs_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- ============================================================
+-- HOURLY BUCKETS (per site)
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_hourly_buckets AS
+WITH normalized AS (
+  SELECT
+    (bucket_start / 3600) * 3600 AS hour_start,
+    *
+  FROM energy_buckets
+)
+SELECT
+  site_id,
+  hour_start AS bucket_start,
+  hour_start + 3600 AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY site_id, hour_start;
+
+CREATE UNIQUE INDEX energy_hourly_buckets_site_bucket_start_uidx
+  ON energy_hourly_buckets(site_id, bucket_start);
+
+CREATE INDEX energy_hourly_buckets_bucket_start_idx
+  ON energy_hourly_buckets(bucket_start);
+
+-- ============================================================
+-- DAILY BUCKETS (UTC MIDNIGHT, per site)
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_daily_buckets AS
+WITH normalized AS (
+  SELECT
+    EXTRACT(
+      EPOCH FROM
+      DATE_TRUNC(
+        'day',
+        TO_TIMESTAMP(bucket_start) AT TIME ZONE 'UTC'
+      )
+    )::bigint AS day_start,
+    *
+  FROM energy_buckets
+)
+SELECT
+  site_id,
+  day_start AS bucket_start,
+  day_start + 86400 AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY site_id, day_start;
+
+CREATE UNIQUE INDEX energy_daily_buckets_site_bucket_start_uidx
+  ON energy_daily_buckets(site_id, bucket_start);
+
+CREATE INDEX energy_daily_buckets_bucket_start_idx
+  ON energy_daily_buckets(bucket_start);
+
+-- ============================================================
+-- INITIAL REFRESH
+-- ============================================================
+
+REFRESH MATERIALIZED VIEW energy_hourly_buckets;
+REFRESH MATERIALIZED VIEW energy_daily_buckets;
+
+COMMIT;
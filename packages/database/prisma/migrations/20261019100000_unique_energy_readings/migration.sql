@@ -0,0 +1,14 @@
+-- A reading is identified by site, meter and timestamp, so that replaying spooled readings
+-- after a database outage cannot create duplicates.
+-- Readings without meter must be unique as well, hence NULLS NOT DISTINCT (PostgreSQL 15+).
+
+-- Remove existing duplicates, keeping the first inserted row
+DELETE FROM "energy_readings" AS r
+USING "energy_readings" AS d
+WHERE r."site_id" = d."site_id"
+  AND r."meter_id" IS NOT DISTINCT FROM d."meter_id"
+  AND r."timestamp" = d."timestamp"
+  AND r."id" > d."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "energy_readings_site_id_meter_id_timestamp_key" ON "energy_readings"("site_id", "meter_id", "timestamp") NULLS NOT DISTINCT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "energy_bucket_aggregation_jobs" ADD COLUMN "last_ingested_at" INTEGER NOT NULL DEFAULT 0;
+
+-- Only readings ingested from now on are checked for late arrivals, existing buckets are not re-aggregated
+UPDATE "energy_bucket_aggregation_jobs" SET "last_ingested_at" = EXTRACT(EPOCH FROM NOW())::INTEGER;
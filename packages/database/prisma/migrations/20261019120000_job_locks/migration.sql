@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "job_locks" (
+    "name" TEXT NOT NULL,
+    "owner" TEXT,
+    "locked_until" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "last_run_at" INTEGER NOT NULL DEFAULT 0,
+    "last_skipped_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "aggregation_job_runs" (
+    "id" SERIAL NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "site_id" INTEGER,
+    "range_start" INTEGER,
+    "range_end" INTEGER,
+    "started_at" INTEGER NOT NULL,
+    "finished_at" INTEGER,
+    "buckets_processed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+
+    CONSTRAINT "aggregation_job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "aggregation_job_runs_started_at_idx" ON "aggregation_job_runs"("started_at");
@@ -0,0 +1,166 @@
+-- ============================================================
+-- Sign-split energy
+-- Grid import/export and battery charge/discharge are integrated separately, interpolating
+-- zero crossings, so a minute with both directions keeps both amounts.
+-- ============================================================
+
+-- AlterTable
+ALTER TABLE "energy_buckets" ADD COLUMN "grid_import_kwh" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "grid_export_kwh" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "battery_charge_kwh" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "battery_discharge_kwh" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Existing buckets only know the net energy of their minute; re-aggregating them computes exact parts
+UPDATE "energy_buckets"
+SET "grid_import_kwh" = GREATEST("grid_kwh", 0),
+    "grid_export_kwh" = GREATEST(-"grid_kwh", 0),
+    "battery_charge_kwh" = GREATEST("battery_kwh", 0),
+    "battery_discharge_kwh" = GREATEST(-"battery_kwh", 0);
+
+DROP MATERIALIZED VIEW IF EXISTS energy_hourly_buckets CASCADE;
+DROP MATERIALIZED VIEW IF EXISTS energy_daily_buckets CASCADE;
+
+-- ============================================================
+-- HOURLY BUCKETS (local hours of the site)
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_hourly_buckets AS
+WITH localized AS (
+  SELECT
+    EXTRACT(
+      EPOCH FROM
+      (TO_TIMESTAMP(b.bucket_start) AT TIME ZONE s.timezone)
+        - (TO_TIMESTAMP(b.bucket_start) AT TIME ZONE 'UTC')
+    )::integer AS utc_offset,
+    b.*
+  FROM energy_buckets b
+  JOIN sites s ON s.id = b.site_id
+),
+normalized AS (
+  SELECT
+    bucket_start - MOD(bucket_start + utc_offset, 3600) AS hour_start,
+    *
+  FROM localized
+)
+SELECT
+  site_id,
+  hour_start AS bucket_start,
+  hour_start + 3600 AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Positive and negative parts of the signed channels
+  SUM(grid_import_kwh)       AS grid_import_kwh,
+  SUM(grid_export_kwh)       AS grid_export_kwh,
+  SUM(battery_charge_kwh)    AS battery_charge_kwh,
+  SUM(battery_discharge_kwh) AS battery_discharge_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY site_id, hour_start;
+
+CREATE UNIQUE INDEX energy_hourly_buckets_site_bucket_start_uidx
+  ON energy_hourly_buckets(site_id, bucket_start);
+
+CREATE INDEX energy_hourly_buckets_bucket_start_idx
+  ON energy_hourly_buckets(bucket_start);
+
+-- ============================================================
+-- DAILY BUCKETS (local midnight of the site, 23/25 hours on DST changes)
+-- ============================================================
+
+CREATE MATERIALIZED VIEW energy_daily_buckets AS
+WITH localized AS (
+  SELECT
+    DATE_TRUNC('day', TO_TIMESTAMP(b.bucket_start) AT TIME ZONE s.timezone) AS local_day,
+    s.timezone,
+    b.*
+  FROM energy_buckets b
+  JOIN sites s ON s.id = b.site_id
+),
+normalized AS (
+  SELECT
+    EXTRACT(EPOCH FROM local_day AT TIME ZONE timezone)::bigint AS day_start,
+    EXTRACT(EPOCH FROM (local_day + INTERVAL '1 day') AT TIME ZONE timezone)::bigint AS day_end,
+    *
+  FROM localized
+)
+SELECT
+  site_id,
+  day_start AS bucket_start,
+  day_end AS bucket_end,
+
+  -- Energy sums
+  SUM(home_kwh)    AS home_kwh,
+  SUM(grid_kwh)    AS grid_kwh,
+  SUM(car_kwh)     AS car_kwh,
+  SUM(solar_kwh)   AS solar_kwh,
+  SUM(battery_kwh) AS battery_kwh,
+
+  -- Positive and negative parts of the signed channels
+  SUM(grid_import_kwh)       AS grid_import_kwh,
+  SUM(grid_export_kwh)       AS grid_export_kwh,
+  SUM(battery_charge_kwh)    AS battery_charge_kwh,
+  SUM(battery_discharge_kwh) AS battery_discharge_kwh,
+
+  -- Metadata
+  SUM(readings_count)  AS readings_count,
+  MIN(first_timestamp) AS first_timestamp,
+  MAX(last_timestamp)  AS last_timestamp,
+
+  -- First / last meter values
+  MIN(first_home)    AS first_home,
+  MIN(first_grid)    AS first_grid,
+  MIN(first_car)     AS first_car,
+  MIN(first_solar)   AS first_solar,
+  MIN(first_battery) AS first_battery,
+
+  MAX(last_home)    AS last_home,
+  MAX(last_grid)    AS last_grid,
+  MAX(last_car)     AS last_car,
+  MAX(last_solar)   AS last_solar,
+  MAX(last_battery) AS last_battery,
+
+  -- Most recent reported state of charge
+  (ARRAY_AGG(last_battery_soc ORDER BY last_timestamp DESC)
+    FILTER (WHERE last_battery_soc IS NOT NULL))[1] AS last_battery_soc
+FROM normalized
+GROUP BY site_id, day_start, day_end;
+
+CREATE UNIQUE INDEX energy_daily_buckets_site_bucket_start_uidx
+  ON energy_daily_buckets(site_id, bucket_start);
+
+CREATE INDEX energy_daily_buckets_bucket_start_idx
+  ON energy_daily_buckets(bucket_start);
+
+-- ============================================================
+-- INITIAL REFRESH
+-- ============================================================
+
+REFRESH MATERIALIZED VIEW energy_hourly_buckets;
+REFRESH MATERIALIZED VIEW energy_daily_buckets;
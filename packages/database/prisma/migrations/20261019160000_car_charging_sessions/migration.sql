@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "car_charging_sessions" (
+    "id" SERIAL NOT NULL,
+    "site_id" INTEGER NOT NULL,
+    "started_at" INTEGER NOT NULL,
+    "ended_at" INTEGER NOT NULL,
+    "energy_kwh" DOUBLE PRECISION NOT NULL,
+    "solar_kwh" DOUBLE PRECISION NOT NULL,
+    "peak_power" DOUBLE PRECISION NOT NULL,
+    "cost" DOUBLE PRECISION,
+    "updated_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "car_charging_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "car_charging_sessions_site_id_started_at_key" ON "car_charging_sessions"("site_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "car_charging_sessions" ADD CONSTRAINT "car_charging_sessions_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
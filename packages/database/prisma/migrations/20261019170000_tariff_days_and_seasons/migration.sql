@@ -0,0 +1,12 @@
+-- ============================================================
+-- Weekday, seasonal and holiday consuming prices
+-- Existing periods apply on every day (all flags set) and all year.
+-- ============================================================
+
+-- AlterTable
+ALTER TABLE "energy_settings" ADD COLUMN "holidays" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "consuming_price_periods" ADD COLUMN "days_of_week" INTEGER NOT NULL DEFAULT 255,
+ADD COLUMN "season_start" INTEGER,
+ADD COLUMN "season_end" INTEGER;
@@ -0,0 +1,25 @@
+-- ============================================================
+-- Dynamic tariffs
+-- Consuming prices follow the day-ahead spot price plus markup and grid fee, with VAT.
+-- Existing settings keep their fixed periods.
+-- ============================================================
+
+-- AlterTable
+ALTER TABLE "energy_settings" ADD COLUMN "tariff_type" TEXT NOT NULL DEFAULT 'fixed',
+ADD COLUMN "spot_markup" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "grid_fee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "vat_rate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "spot_prices" (
+    "site_id" INTEGER NOT NULL,
+    "starts_at" INTEGER NOT NULL,
+    "ends_at" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "created_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "spot_prices_pkey" PRIMARY KEY ("site_id","starts_at")
+);
+
+-- AddForeignKey
+ALTER TABLE "spot_prices" ADD CONSTRAINT "spot_prices_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- ============================================================
+-- Fixed fees, levies and VAT
+-- Monthly base fee and meter rental are prorated over the priced range; levies are added to the consuming price.
+-- VAT now applies to all consumption costs and fixed fees, so prices are net amounts.
+-- ============================================================
+
+-- AlterTable
+ALTER TABLE "energy_settings" ADD COLUMN "consumption_levy" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "base_fee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "meter_fee" DOUBLE PRECISION NOT NULL DEFAULT 0;
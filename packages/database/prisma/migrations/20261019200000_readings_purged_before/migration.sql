@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "energy_bucket_aggregation_jobs" ADD COLUMN "readings_purged_before" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "energy_bucket_aggregation_jobs" ADD COLUMN "car_sessions_stale_from" INTEGER;
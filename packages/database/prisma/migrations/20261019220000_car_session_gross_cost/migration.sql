@@ -0,0 +1,11 @@
+-- ============================================================
+-- Gross car session costs
+-- Sessions store the cost including VAT next to the net cost. All sessions are detected again on the next run,
+-- so existing sessions get their gross cost as well.
+-- ============================================================
+
+-- AlterTable
+ALTER TABLE "car_charging_sessions" ADD COLUMN "gross_cost" DOUBLE PRECISION;
+
+-- Re-detect the sessions of every site from the start
+UPDATE "energy_bucket_aggregation_jobs" SET "car_sessions_stale_from" = 0;